@@ -0,0 +1,82 @@
+/**
+ * Append eval cases exported from the explain-match debugger to eval-cases.json.
+ *
+ * Each exported file is a one-case fixture (eval-case-<spotify id>.json). New cases
+ * get the next free eval-NNN id. A Spotify track that already has a case is skipped,
+ * so exporting the same track twice is harmless; edit the existing case instead.
+ *
+ * Usage:
+ *   npx ts-node scripts/add-eval-cases.ts <export.json> [<export.json> ...] [--json <path>]
+ *
+ * Defaults:
+ *   --json  src/services/__tests__/fixtures/eval-cases.json  (updated in place)
+ *
+ * Then run `npm run eval:report` to see how the new cases score.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { EvalFixtureFile } from '../src/services/__tests__/fixtures/eval-types';
+
+const DEFAULT_JSON = 'src/services/__tests__/fixtures/eval-cases.json';
+
+function parseArgs(): { inputs: string[]; json: string } {
+  const args = process.argv.slice(2);
+  const inputs: string[] = [];
+  let json = DEFAULT_JSON;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--json' && args[i + 1]) json = args[++i];
+    else inputs.push(args[i]);
+  }
+
+  if (inputs.length === 0) {
+    console.error('Usage: add-eval-cases.ts <export.json> [<export.json> ...] [--json <path>]');
+    process.exit(1);
+  }
+
+  return { inputs, json };
+}
+
+function main() {
+  const { inputs, json } = parseArgs();
+  const fixturePath = path.resolve(json);
+  const fixture: EvalFixtureFile = JSON.parse(fs.readFileSync(fixturePath, 'utf-8'));
+
+  const existing = new Map(fixture.cases.map(c => [c.spotifyTrack.id, c.id]));
+  let nextNumber = Math.max(0, ...fixture.cases.map(c => Number(c.id.match(/^eval-(\d+)$/)?.[1] ?? 0))) + 1;
+
+  let added = 0;
+  const warnings: string[] = [];
+
+  for (const input of inputs) {
+    const exported: EvalFixtureFile = JSON.parse(fs.readFileSync(path.resolve(input), 'utf-8'));
+    for (const evalCase of exported.cases) {
+      const duplicate = existing.get(evalCase.spotifyTrack.id);
+      if (duplicate) {
+        warnings.push(`"${evalCase.spotifyTrack.title}" already has case ${duplicate} — skipped`);
+        continue;
+      }
+
+      const id = `eval-${String(nextNumber++).padStart(3, '0')}`;
+      fixture.cases.push({ ...evalCase, id });
+      existing.set(evalCase.spotifyTrack.id, id);
+      added++;
+      console.log(`  + ${id} ${evalCase.verdict}: "${evalCase.spotifyTrack.title}" by "${evalCase.spotifyTrack.artist}"`);
+    }
+  }
+
+  fixture.totalCases = fixture.cases.length;
+  fs.writeFileSync(fixturePath, JSON.stringify(fixture, null, 2) + '\n');
+
+  console.log(`Added ${added} cases to ${json} (${fixture.totalCases} total)`);
+
+  if (warnings.length > 0) {
+    console.log(`\nWarnings (${warnings.length}):`);
+    for (const w of warnings) {
+      console.log(`  ⚠ ${w}`);
+    }
+  }
+}
+
+main();
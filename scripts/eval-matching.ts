@@ -0,0 +1,260 @@
+/**
+ * Run eval-cases.json against the matching engine and report regressions.
+ *
+ * Runs once per matching profile (strict / balanced / lenient). Each run prints
+ * precision, recall and a per-failureCategory breakdown, then diffs against the
+ * saved baseline for that profile so you can see exactly which cases flipped
+ * after a normalization or engine change. Changed cases are written to a review
+ * CSV in the same column layout as eval-to-csv.ts, plus the before/after outcome.
+ *
+ * Exits with code 1 if any case that was correct in the baseline is now wrong.
+ *
+ * Usage:
+ *   npx ts-node scripts/eval-matching.ts [--input <path>] [--baseline <path>] [--output <path>] [--profile <name>] [--update-baseline]
+ *
+ * Defaults:
+ *   --input     src/services/__tests__/fixtures/eval-cases.json
+ *   --baseline  src/services/__tests__/fixtures/eval-baseline.json
+ *   --output    eval-changes.csv
+ *   --profile   all profiles
+ *
+ * After an intended improvement, re-run with --update-baseline and commit the
+ * new baseline alongside the engine change.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { EvalCase, EvalFixtureFile } from '../src/services/__tests__/fixtures/eval-types';
+import {
+  MATCHING_PROFILES,
+  isMatchingProfileName,
+  type MatchingProfileName,
+} from '../src/services/trackMatchingEngine';
+import {
+  runEval,
+  summarize,
+  diffResults,
+  type CaseChange,
+  type EvalBaseline,
+  type EvalSummary,
+  type ProfileRun,
+} from '../src/services/__tests__/fixtures/eval-report';
+
+const DEFAULT_INPUT = 'src/services/__tests__/fixtures/eval-cases.json';
+const DEFAULT_BASELINE = 'src/services/__tests__/fixtures/eval-baseline.json';
+const DEFAULT_OUTPUT = 'eval-changes.csv';
+
+// ---- CSV helpers (no external deps) ----
+
+function csvEscape(value: string | number | null | undefined): string {
+  if (value == null) return '';
+  const s = String(value);
+  // Wrap in quotes if the value contains commas, quotes, or newlines
+  if (s.includes(',') || s.includes('"') || s.includes('\n')) {
+    return '"' + s.replace(/"/g, '""') + '"';
+  }
+  return s;
+}
+
+function csvRow(fields: (string | number | null | undefined)[]): string {
+  return fields.map(csvEscape).join(',');
+}
+
+// ---- Report ----
+
+function pct(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function signed(value: number): string {
+  return value > 0 ? `+${value}` : String(value);
+}
+
+function printSummary(profile: MatchingProfileName, summary: EvalSummary, baseline: EvalSummary | null) {
+  const delta = (current: number, before: number | undefined, asPct = false) => {
+    if (before === undefined || current === before) return '';
+    return asPct
+      ? ` (${signed(Number(((current - before) * 100).toFixed(1)))}pp)`
+      : ` (${signed(current - before)})`;
+  };
+
+  console.log(`\n=== TRACK MATCHING EVAL: ${profile} ===`);
+  console.log(`Total cases: ${summary.totalCases}`);
+  console.log(`Expected matches: ${summary.expectedMatches}`);
+  console.log(`Engine matches: ${summary.matches}${delta(summary.matches, baseline?.matches)}`);
+  console.log(`Precision: ${pct(summary.precision)}${delta(summary.precision, baseline?.precision, true)}`);
+  console.log(`Recall: ${pct(summary.recall)}${delta(summary.recall, baseline?.recall, true)}`);
+
+  console.log('\n--- Outcomes ---');
+  for (const [outcome, count] of Object.entries(summary.outcomes)) {
+    const before = baseline?.outcomes[outcome as keyof EvalSummary['outcomes']];
+    console.log(`  ${outcome}: ${count}${delta(count, before)}`);
+  }
+
+  const categories = Object.entries(summary.byCategory);
+  if (categories.length > 0) {
+    console.log('\n--- By Failure Category ---');
+    for (const [cat, stats] of categories.sort((a, b) => b[1].count - a[1].count)) {
+      const failing = stats.missed + stats.wrong;
+      const status = failing === 0 ? 'all pass' : `${stats.missed} missed, ${stats.wrong} wrong match`;
+      console.log(`  ${cat}: ${stats.correct}/${stats.count} recall ${pct(stats.correct / stats.count)}, ${status}`);
+    }
+  }
+}
+
+function describeCase(evalCase: EvalCase | undefined): string {
+  if (!evalCase) return '';
+  return `"${evalCase.spotifyTrack.title}" by "${evalCase.spotifyTrack.artist}"`;
+}
+
+function printChanges(changes: CaseChange[], casesById: Map<string, EvalCase>) {
+  const regressions = changes.filter(c => c.regression);
+  const others = changes.filter(c => !c.regression);
+
+  console.log(`\n--- Changed Since Baseline: ${changes.length} (${regressions.length} regressions) ---`);
+  for (const change of [...regressions, ...others]) {
+    const marker = change.regression ? 'REGRESSED' : 'changed';
+    const before = change.before?.outcome ?? 'new case';
+    console.log(`  ${marker} ${change.id}: ${before} -> ${change.after.outcome}  ${describeCase(casesById.get(change.id))}`);
+  }
+}
+
+function writeChangesCsv(
+  output: string,
+  changes: Array<CaseChange & { profile: MatchingProfileName }>,
+  casesById: Map<string, EvalCase>
+) {
+  const HEADER = [
+    'profile',
+    'id',
+    'verdict',
+    'failureCategory',
+    'baseline_outcome',
+    'current_outcome',
+    'current_tier',
+    'regression',
+    'spotify_title',
+    'spotify_artist',
+    'local_title',
+    'local_artist',
+    'local_file_path',
+    'notes',
+  ];
+
+  const rows: string[] = [csvRow(HEADER)];
+
+  for (const change of changes) {
+    const c = casesById.get(change.id);
+    rows.push(
+      csvRow([
+        change.profile,
+        change.id,
+        c?.verdict,
+        c?.failureCategory,
+        change.before?.outcome ?? 'new case',
+        change.after.outcome,
+        change.after.tier,
+        change.regression ? 'yes' : 'no',
+        c?.spotifyTrack.title,
+        c?.spotifyTrack.artist,
+        c?.expectedLocalMatch?.title,
+        c?.expectedLocalMatch?.artist,
+        c?.expectedLocalMatch?.file_path,
+        c?.notes,
+      ])
+    );
+  }
+
+  fs.writeFileSync(path.resolve(output), rows.join('\n') + '\n');
+}
+
+// ---- Main ----
+
+interface Args {
+  input: string;
+  baseline: string;
+  output: string;
+  profiles: MatchingProfileName[];
+  updateBaseline: boolean;
+}
+
+function parseArgs(): Args {
+  const args = process.argv.slice(2);
+  let input = DEFAULT_INPUT;
+  let baseline = DEFAULT_BASELINE;
+  let output = DEFAULT_OUTPUT;
+  let profile: string | null = null;
+  let updateBaseline = false;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--input' && args[i + 1]) input = args[++i];
+    else if (args[i] === '--baseline' && args[i + 1]) baseline = args[++i];
+    else if (args[i] === '--output' && args[i + 1]) output = args[++i];
+    else if (args[i] === '--profile' && args[i + 1]) profile = args[++i];
+    else if (args[i] === '--update-baseline') updateBaseline = true;
+  }
+
+  const allProfiles = Object.keys(MATCHING_PROFILES) as MatchingProfileName[];
+  if (profile !== null && !isMatchingProfileName(profile)) {
+    console.error(`Unknown profile "${profile}". Expected one of: ${allProfiles.join(', ')}`);
+    process.exit(1);
+  }
+
+  return { input, baseline, output, profiles: profile ? [profile] : allProfiles, updateBaseline };
+}
+
+function main() {
+  const { input, baseline, output, profiles, updateBaseline } = parseArgs();
+  const fixture: EvalFixtureFile = JSON.parse(fs.readFileSync(path.resolve(input), 'utf-8'));
+  const casesById = new Map(fixture.cases.map(c => [c.id, c]));
+
+  const baselinePath = path.resolve(baseline);
+  const saved: EvalBaseline | null = fs.existsSync(baselinePath)
+    ? JSON.parse(fs.readFileSync(baselinePath, 'utf-8'))
+    : null;
+
+  const runs: Partial<Record<MatchingProfileName, ProfileRun>> = {};
+  const allChanges: Array<CaseChange & { profile: MatchingProfileName }> = [];
+
+  for (const profile of profiles) {
+    const results = runEval(fixture.cases, { profile: MATCHING_PROFILES[profile] });
+    const summary = summarize(fixture.cases, results);
+    runs[profile] = { summary, results };
+
+    const previous = saved?.profiles[profile] ?? null;
+    printSummary(profile, summary, previous?.summary ?? null);
+
+    if (!previous) {
+      console.log(`\nNo ${profile} baseline in ${baseline}. Run with --update-baseline to save one.`);
+      continue;
+    }
+
+    const changes = diffResults(previous.results, results);
+    if (changes.length === 0) {
+      console.log(`\nNo cases changed since baseline (${saved!.createdAt}).`);
+    } else {
+      printChanges(changes, casesById);
+      allChanges.push(...changes.map(change => ({ ...change, profile })));
+    }
+  }
+
+  if (allChanges.length > 0) {
+    writeChangesCsv(output, allChanges, casesById);
+    console.log(`\nWrote ${allChanges.length} changed cases to ${output}`);
+  }
+
+  if (updateBaseline) {
+    // Profiles not run this time keep their saved results
+    const next: EvalBaseline = {
+      createdAt: new Date().toISOString(),
+      fixture: fixture.description,
+      profiles: { ...saved?.profiles, ...runs },
+    };
+    fs.writeFileSync(baselinePath, JSON.stringify(next, null, 2) + '\n');
+    console.log(`Saved baseline to ${baseline}`);
+  } else if (allChanges.some(c => c.regression)) {
+    process.exitCode = 1;
+  }
+}
+
+main();
@@ -0,0 +1,116 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Link2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { ArtistAliasService } from '@/services/artistAlias.service';
+
+interface AddArtistAliasDialogProps {
+  /** Artist name as Spotify has it — saved as the alias */
+  artist: string | null;
+  userId: string | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (alias: string, canonicalArtist: string) => void;
+}
+
+export function AddArtistAliasDialog({
+  artist,
+  userId,
+  open,
+  onOpenChange,
+  onSaved,
+}: AddArtistAliasDialogProps) {
+  const { toast } = useToast();
+  const [localArtist, setLocalArtist] = useState('');
+  const [localArtists, setLocalArtists] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setLocalArtist('');
+    }
+  }, [open, artist]);
+
+  // Suggest artist names as they appear in local tags
+  useEffect(() => {
+    if (!open || !userId || localArtists.length > 0) return;
+    supabase.rpc('get_distinct_local_artists', { user_uuid: userId }).then(({ data }) => {
+      if (data) setLocalArtists(data.map(row => row.artist).filter(Boolean));
+    });
+  }, [open, userId, localArtists.length]);
+
+  const handleSave = async () => {
+    if (!artist || !userId || !localArtist.trim()) return;
+    setSaving(true);
+    try {
+      await ArtistAliasService.addAlias(userId, artist, localArtist);
+      onSaved(artist, localArtist.trim());
+      onOpenChange(false);
+    } catch (err) {
+      // Supabase errors are plain objects, not Error instances
+      const message = (err as { message?: string } | null)?.message ?? 'Unknown error';
+      toast({ title: 'Failed to save alias', description: message, variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!artist) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[420px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Link2 className="h-5 w-5" />
+            Add Artist Alias
+          </DialogTitle>
+          <DialogDescription>
+            Match <span className="font-medium text-foreground">{artist}</span> against local files tagged
+            with a different artist name.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-2 py-4">
+          <Label htmlFor="alias-local-artist">Artist name in your local files</Label>
+          <Input
+            id="alias-local-artist"
+            list="alias-local-artist-options"
+            value={localArtist}
+            onChange={(e) => setLocalArtist(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleSave();
+            }}
+            placeholder="e.g. Beyoncé"
+            autoFocus
+          />
+          <datalist id="alias-local-artist-options">
+            {localArtists.map((name) => (
+              <option key={name} value={name} />
+            ))}
+          </datalist>
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || !localArtist.trim()}>
+            {saving ? 'Saving...' : 'Save alias'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
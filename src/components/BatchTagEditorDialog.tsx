@@ -0,0 +1,342 @@
+/**
+ * BatchTagEditorDialog Component
+ *
+ * Applies one tag operation to the tracks selected in the local library.
+ * The operation is dry-run against the library first so every change can be
+ * reviewed; the files are then written from a picked library folder, with
+ * progress and a per-file error report.
+ */
+
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle, ArrowRight, CheckCircle2, Tags } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  BatchTagEditorService,
+  type BatchPlanEntry,
+  type BatchTrack,
+  type BatchWriteResult,
+} from '@/services/batchTagEditor.service';
+import {
+  isFileSystemAccessSupported,
+  requestLibraryDirectoryAccess,
+} from '@/services/directoryHandle.service';
+import { TAG_FIELD_LABELS } from '@/services/trackTagWriter.service';
+import type { BatchTagOperation, BatchTextField } from '@/types/audioTags';
+import type { ProcessingProgress } from '@/types/slskd';
+
+interface BatchTagEditorDialogProps {
+  trackIds: string[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Called after files were written, to refresh the library */
+  onComplete: () => void;
+}
+
+type OperationType = BatchTagOperation['type'];
+type Step = 'configure' | 'preview' | 'writing' | 'done';
+
+const OPERATIONS: { type: OperationType; label: string }[] = [
+  { type: 'replace', label: 'Find and replace' },
+  { type: 'set', label: 'Set value' },
+  { type: 'titleCase', label: 'Title case' },
+  { type: 'stripUrls', label: 'Strip URL junk (www.…)' },
+  { type: 'moveFeaturing', label: 'Move "feat." from title to artist' },
+];
+
+const FIELDS: BatchTextField[] = ['title', 'artist', 'album', 'genre', 'comment'];
+
+const formatTagValue = (value: string | number | null) => (value === null ? '—' : String(value));
+
+const getFilename = (path: string) => path.split(/[\\/]/).pop() ?? path;
+
+export function BatchTagEditorDialog({ trackIds, open, onOpenChange, onComplete }: BatchTagEditorDialogProps) {
+  const { toast } = useToast();
+  const [tracks, setTracks] = useState<BatchTrack[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [step, setStep] = useState<Step>('configure');
+  const [operationType, setOperationType] = useState<OperationType>('replace');
+  const [field, setField] = useState<BatchTextField>('title');
+  const [find, setFind] = useState('');
+  const [replace, setReplace] = useState('');
+  const [matchCase, setMatchCase] = useState(false);
+  const [value, setValue] = useState('');
+  const [plan, setPlan] = useState<BatchPlanEntry[]>([]);
+  const [progress, setProgress] = useState<ProcessingProgress | null>(null);
+  const [results, setResults] = useState<BatchWriteResult[]>([]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setStep('configure');
+    setPlan([]);
+    setResults([]);
+    setProgress(null);
+    setLoading(true);
+    BatchTagEditorService.fetchTracks(trackIds)
+      .then(setTracks)
+      .catch(() => {
+        toast({
+          title: 'Error',
+          description: 'Failed to load the selected tracks',
+          variant: 'destructive',
+        });
+      })
+      .finally(() => setLoading(false));
+  }, [open, trackIds, toast]);
+
+  const buildOperation = (): BatchTagOperation => {
+    switch (operationType) {
+      case 'replace':
+        return { type: 'replace', field, find, replace, matchCase };
+      case 'set':
+        return { type: 'set', field, value };
+      case 'titleCase':
+      case 'stripUrls':
+        return { type: operationType, field };
+      case 'moveFeaturing':
+        return { type: 'moveFeaturing' };
+    }
+  };
+
+  const handleDryRun = () => {
+    setPlan(BatchTagEditorService.planBatch(tracks, buildOperation()));
+    setStep('preview');
+  };
+
+  const handleWrite = async () => {
+    let directory: FileSystemDirectoryHandle | null;
+    try {
+      directory = await requestLibraryDirectoryAccess();
+    } catch (error) {
+      console.error('Error picking library folder:', error);
+      toast({
+        title: 'Error',
+        description: 'Could not open the library folder',
+        variant: 'destructive',
+      });
+      return;
+    }
+    if (!directory) return;
+
+    setStep('writing');
+    setProgress({ current: 0, total: plan.length, currentFile: 'Looking for files...' });
+
+    try {
+      const located = await BatchTagEditorService.locateFiles(plan, directory);
+      const written = await BatchTagEditorService.writeBatch(plan, located, setProgress);
+      const failed = written.filter(result => result.error).length;
+
+      setResults(written);
+      setStep('done');
+      onComplete();
+      toast({
+        title: failed > 0 ? 'Batch finished with errors' : 'Tags written',
+        description: `${written.length - failed} file${written.length - failed !== 1 ? 's' : ''} written${failed > 0 ? `, ${failed} failed` : ''}`,
+        variant: failed > 0 ? 'destructive' : 'default',
+      });
+    } catch (error) {
+      console.error('Error writing batch tags:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to read the library folder',
+        variant: 'destructive',
+      });
+      setStep('preview');
+    }
+  };
+
+  const needsField = operationType !== 'moveFeaturing';
+  const failures = results.filter(result => result.error);
+  const canWrite = isFileSystemAccessSupported();
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => step !== 'writing' && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Tags className="h-5 w-5" />
+            Batch Edit Tags
+          </DialogTitle>
+          <DialogDescription>
+            {loading
+              ? 'Loading the selected tracks...'
+              : `${tracks.length} selected track${tracks.length !== 1 ? 's' : ''}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'configure' && (
+          <div className="grid gap-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label>Operation</Label>
+                <Select value={operationType} onValueChange={(type) => setOperationType(type as OperationType)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {OPERATIONS.map(operation => (
+                      <SelectItem key={operation.type} value={operation.type}>{operation.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {needsField && (
+                <div className="grid gap-2">
+                  <Label>Field</Label>
+                  <Select value={field} onValueChange={(next) => setField(next as BatchTextField)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {FIELDS.map(name => (
+                        <SelectItem key={name} value={name}>{TAG_FIELD_LABELS[name]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+
+            {operationType === 'replace' && (
+              <>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="grid gap-2">
+                    <Label htmlFor="batch-find">Find</Label>
+                    <Input id="batch-find" value={find} onChange={(e) => setFind(e.target.value)} />
+                  </div>
+                  <div className="grid gap-2">
+                    <Label htmlFor="batch-replace">Replace with</Label>
+                    <Input id="batch-replace" value={replace} onChange={(e) => setReplace(e.target.value)} />
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="batch-match-case"
+                    checked={matchCase}
+                    onCheckedChange={(checked) => setMatchCase(checked === true)}
+                  />
+                  <Label htmlFor="batch-match-case" className="text-sm font-normal">Match case</Label>
+                </div>
+              </>
+            )}
+
+            {operationType === 'set' && (
+              <div className="grid gap-2">
+                <Label htmlFor="batch-value">Value</Label>
+                <Input
+                  id="batch-value"
+                  value={value}
+                  onChange={(e) => setValue(e.target.value)}
+                  placeholder="Leave empty to clear the tag"
+                />
+              </div>
+            )}
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="grid gap-3 py-4">
+            <p className="text-sm">
+              {plan.length === 0
+                ? 'No track would change.'
+                : `${plan.length} of ${tracks.length} tracks would change. Nothing has been written yet.`}
+            </p>
+            {!canWrite && plan.length > 0 && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  This browser can't write to files. Use Chrome or Edge to apply the changes.
+                </AlertDescription>
+              </Alert>
+            )}
+            <div className="max-h-[24rem] overflow-y-auto space-y-2">
+              {plan.map(({ track, changes }) => (
+                <div key={track.id} className="rounded-md border text-sm">
+                  <p className="px-3 py-1.5 font-medium truncate bg-muted/50" title={track.file_path}>
+                    {getFilename(track.file_path)}
+                  </p>
+                  {changes.map(change => (
+                    <div key={change.field} className="grid grid-cols-[5rem_1fr_auto_1fr] items-center gap-2 px-3 py-1.5">
+                      <span className="text-muted-foreground">{change.label}</span>
+                      <span className="truncate line-through text-muted-foreground" title={formatTagValue(change.from)}>
+                        {formatTagValue(change.from)}
+                      </span>
+                      <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                      <span className="truncate font-medium" title={formatTagValue(change.to)}>
+                        {formatTagValue(change.to)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {step === 'writing' && progress && (
+          <div className="grid gap-2 py-4">
+            <Progress value={progress.total > 0 ? (progress.current / progress.total) * 100 : 0} />
+            <p className="text-sm text-muted-foreground truncate">
+              {progress.current} / {progress.total}: {getFilename(progress.currentFile)}
+            </p>
+          </div>
+        )}
+
+        {step === 'done' && (
+          <div className="grid gap-3 py-4">
+            <p className="flex items-center gap-2 text-sm">
+              <CheckCircle2 className="h-4 w-4 text-green-600" />
+              {results.length - failures.length} of {results.length} files written
+            </p>
+            {failures.length > 0 && (
+              <div className="max-h-[20rem] overflow-y-auto rounded-md border divide-y text-sm">
+                {failures.map(({ track, error }) => (
+                  <div key={track.id} className="px-3 py-2">
+                    <p className="font-medium truncate" title={track.file_path}>{getFilename(track.file_path)}</p>
+                    <p className="text-xs text-destructive">{error}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === 'configure' && (
+            <>
+              <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+              <Button onClick={handleDryRun} disabled={loading || tracks.length === 0}>
+                Dry Run
+              </Button>
+            </>
+          )}
+          {step === 'preview' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('configure')}>Back</Button>
+              <Button onClick={handleWrite} disabled={plan.length === 0 || !canWrite}>
+                Write {plan.length} file{plan.length !== 1 ? 's' : ''}
+              </Button>
+            </>
+          )}
+          {step === 'writing' && <Button disabled>Writing...</Button>}
+          {step === 'done' && <Button onClick={() => onOpenChange(false)}>Close</Button>}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -5,7 +5,8 @@
  * - Uses File System Access API for persistent folder access
  * - Extracts metadata and maps genres to SuperGenre
  * - Inline genre mapping for unmapped genres
- * - Writes SuperGenre to TXXX:CUSTOM1 ID3 tag in place
+ * - Writes SuperGenre in place to the user's chosen tag (Grouping by default)
+ * - Reverts the last tag writing run from the tag journal
  */
 
 import { useState, useEffect, useCallback } from 'react';
@@ -20,6 +21,8 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import {
   Table,
   TableBody,
@@ -46,9 +49,11 @@ import {
   Save,
   FolderSync,
   Info,
+  Undo2,
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import { TrackAcquisitionService } from '@/services/trackAcquisition.service';
 import { SUPER_GENRES } from '@/types/genreMapping';
 import { useGenreMap } from '@/hooks/useGenreMap';
 import {
@@ -62,10 +67,40 @@ import {
   getAllAudioFiles,
   requestDirectoryAccess,
   clearStoredDirectoryHandle,
+  countTagJournal,
 } from '@/services/directoryHandle.service';
+import { revertLastTagRun } from '@/services/tagJournal.service';
+import {
+  DEFAULT_SUPER_GENRE_TAG_TARGET,
+  describeTagTarget,
+} from '@/services/superGenreTagTarget';
+import { UserPreferencesService } from '@/services/userPreferences.service';
+import type { SuperGenreTagTarget } from '@/types/audioTags';
 import type { ProcessedFile, ProcessingProgress, ProcessingResult } from '@/types/slskd';
 import { MetadataDebugModal } from './MetadataDebugModal';
 
+const DEFAULT_TXXX_DESCRIPTION = 'SuperGenre';
+
+const tagTargetKey = (target: SuperGenreTagTarget) =>
+  target.type === 'genre'
+    ? `genre:${target.mode}`
+    : target.type === 'mediamonkey'
+      ? `mediamonkey:${target.field}`
+      : target.type;
+
+const TAG_TARGET_OPTIONS = ([
+  { type: 'grouping' },
+  { type: 'genre', mode: 'replace' },
+  { type: 'genre', mode: 'prepend' },
+  { type: 'comment' },
+  { type: 'txxx', description: DEFAULT_TXXX_DESCRIPTION },
+  ...([1, 2, 3, 4, 5] as const).map((field) => ({ type: 'mediamonkey', field }) as const),
+] as SuperGenreTagTarget[]).map((target) => ({
+  key: tagTargetKey(target),
+  label: target.type === 'txxx' ? 'Custom field (TXXX)' : describeTagTarget(target),
+  target,
+}));
+
 export function DownloadProcessingSection() {
   const { toast } = useToast();
   const { genreMap, isLoading: isGenreMapLoading, refetch: refetchGenreMap } = useGenreMap();
@@ -90,6 +125,19 @@ export function DownloadProcessingSection() {
     skipped: number;
   } | null>(null);
 
+  // Revert state: files journaled by the last tag writing run
+  const [journalCount, setJournalCount] = useState(0);
+  const [isReverting, setIsReverting] = useState(false);
+  const [revertProgress, setRevertProgress] = useState<{
+    current: number;
+    total: number;
+    filename: string;
+  } | null>(null);
+
+  // Where the SuperGenre is written, saved in the user's preferences
+  const [tagTarget, setTagTarget] = useState<SuperGenreTagTarget>(DEFAULT_SUPER_GENRE_TAG_TARGET);
+  const [txxxDescription, setTxxxDescription] = useState(DEFAULT_TXXX_DESCRIPTION);
+
   // Inline mapping state
   const [savingGenre, setSavingGenre] = useState<string | null>(null);
 
@@ -124,6 +172,59 @@ export function DownloadProcessingSection() {
     loadHandle();
   }, [isSupported]);
 
+  // Check whether there is a tag writing run to revert
+  useEffect(() => {
+    if (isSupported) {
+      countTagJournal().then(setJournalCount);
+    }
+  }, [isSupported]);
+
+  // Load the saved tag target
+  useEffect(() => {
+    supabase.auth.getUser()
+      .then(async ({ data: { user } }) => {
+        if (!user) return;
+        const target = await UserPreferencesService.getSuperGenreTagTarget(user.id);
+        setTagTarget(target);
+        if (target.type === 'txxx') setTxxxDescription(target.description);
+      })
+      .catch((error) => console.error('Failed to load SuperGenre tag target:', error));
+  }, []);
+
+  const saveTagTarget = async (target: SuperGenreTagTarget) => {
+    setTagTarget(target);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (user) await UserPreferencesService.setSuperGenreTagTarget(user.id, target);
+    } catch (error) {
+      console.error('Failed to save SuperGenre tag target:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to save the SuperGenre tag',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleTagTargetChange = (key: string) => {
+    const option = TAG_TARGET_OPTIONS.find((o) => o.key === key);
+    if (!option) return;
+    saveTagTarget(option.target.type === 'txxx'
+      ? { type: 'txxx', description: txxxDescription.trim() || DEFAULT_TXXX_DESCRIPTION }
+      : option.target);
+  };
+
+  const handleTxxxDescriptionBlur = () => {
+    const description = txxxDescription.trim();
+    if (!description) {
+      setTxxxDescription(tagTarget.type === 'txxx' ? tagTarget.description : DEFAULT_TXXX_DESCRIPTION);
+      return;
+    }
+    if (tagTarget.type === 'txxx' && tagTarget.description !== description) {
+      saveTagTarget({ type: 'txxx', description });
+    }
+  };
+
   // Handle selecting a directory
   const handleSelectDirectory = async () => {
     try {
@@ -331,25 +432,35 @@ export function DownloadProcessingSection() {
             written: writtenCount,
             skipped: skippedCount,
           });
-        }
+        },
+        tagTarget
       );
 
       // Mark that tags have been written (or verified as already correct)
       setTagsHaveBeenWritten(true);
 
+      // Move the downloads these files came from on to "tagged"
+      const failed = new Set(errors.map(e => e.filename));
+      const taggedFilenames = result.files
+        .filter(f => f.status === 'mapped' && f.fileHandle && !failed.has(f.filename))
+        .map(f => f.filename);
+      try {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (user) await TrackAcquisitionService.markTagged(user.id, taggedFilenames);
+      } catch (error) {
+        console.warn('⚠️ Could not record tagged downloads:', error);
+      }
+
       if (errors.length > 0) {
-        const m4aCount = errors.filter(e => e.error.startsWith('M4A tag writing')).length;
-        const failCount = errors.length - m4aCount;
         const parts = [
           success > 0 ? `${success} written` : null,
           skipped > 0 ? `${skipped} skipped (already correct)` : null,
-          m4aCount > 0 ? `${m4aCount} M4A skipped (not supported — use a desktop tool)` : null,
-          failCount > 0 ? `${failCount} failed` : null,
+          `${errors.length} failed`,
         ].filter(Boolean).join(', ');
         toast({
-          title: failCount > 0 ? 'Tag Writing Complete (with errors)' : 'Tag Writing Complete',
+          title: 'Tag Writing Complete (with errors)',
           description: parts,
-          variant: failCount > 0 ? 'destructive' : 'default',
+          variant: 'destructive',
         });
       } else if (skipped > 0 && success === 0) {
         toast({
@@ -377,6 +488,46 @@ export function DownloadProcessingSection() {
     } finally {
       setIsWritingTags(false);
       setWriteProgress(null);
+      setJournalCount(await countTagJournal());
+    }
+  };
+
+  // Restore the original tags of the files written by the last run
+  const handleRevertLastRun = async () => {
+    setIsReverting(true);
+    setRevertProgress(null);
+
+    try {
+      const { reverted, errors } = await revertLastTagRun(setRevertProgress);
+
+      if (errors.length > 0) {
+        toast({
+          title: 'Revert Complete (with errors)',
+          description: `${reverted} reverted, ${errors.length} failed: ${errors
+            .slice(0, 3)
+            .map((e) => `${e.filename} (${e.error})`)
+            .join(', ')}`,
+          variant: 'destructive',
+        });
+      } else {
+        toast({
+          title: 'Tags Reverted',
+          description: `${reverted} files restored to their original tags`,
+        });
+        // The scanned results show the tags that were just undone
+        setTagsHaveBeenWritten(false);
+      }
+    } catch (error) {
+      console.error('Revert failed:', error);
+      toast({
+        title: 'Revert Failed',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsReverting(false);
+      setRevertProgress(null);
+      setJournalCount(await countTagJournal());
     }
   };
 
@@ -454,7 +605,7 @@ export function DownloadProcessingSection() {
           Process Downloads
         </CardTitle>
         <CardDescription>
-          Map ID3 genres to Supergenres and write to the Grouping tag (supported by Serato, Rekordbox, MediaMonkey, and more).
+          Map ID3 genres to Supergenres and write them to a tag of your choice: Grouping by default (supported by Serato, Rekordbox, MediaMonkey, and more), the genre, the comment, a custom TXXX field or a MediaMonkey custom field.
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
@@ -500,6 +651,42 @@ export function DownloadProcessingSection() {
           </p>
         </div>
 
+        {/* Tag the SuperGenre is written to and read back from */}
+        {directoryHandle && (
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="grid gap-2">
+              <Label>Write SuperGenre to</Label>
+              <Select
+                value={tagTargetKey(tagTarget)}
+                onValueChange={handleTagTargetChange}
+                disabled={isWritingTags}
+              >
+                <SelectTrigger className="w-64">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TAG_TARGET_OPTIONS.map((option) => (
+                    <SelectItem key={option.key} value={option.key}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {tagTarget.type === 'txxx' && (
+              <div className="grid gap-2">
+                <Label htmlFor="txxx-description">Field name</Label>
+                <Input
+                  id="txxx-description"
+                  className="w-48"
+                  value={txxxDescription}
+                  onChange={(e) => setTxxxDescription(e.target.value)}
+                  onBlur={handleTxxxDescriptionBlur}
+                  disabled={isWritingTags}
+                />
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Scan button */}
         {directoryHandle && !result && (
           <Button
@@ -515,6 +702,31 @@ export function DownloadProcessingSection() {
           </Button>
         )}
 
+        {/* Revert the last tag writing run */}
+        {journalCount > 0 && !isWritingTags && (
+          <div className="space-y-2">
+            <Button variant="outline" size="sm" onClick={handleRevertLastRun} disabled={isReverting}>
+              {isReverting ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Undo2 className="h-4 w-4 mr-2" />
+              )}
+              Revert last processing run ({journalCount} file{journalCount !== 1 ? 's' : ''})
+            </Button>
+            {isReverting && revertProgress && (
+              <>
+                <Progress
+                  value={(revertProgress.current / revertProgress.total) * 100}
+                  className="h-2"
+                />
+                <p className="text-xs text-muted-foreground truncate">
+                  Reverting {revertProgress.current} of {revertProgress.total}: {revertProgress.filename}
+                </p>
+              </>
+            )}
+          </div>
+        )}
+
         {/* Processing progress */}
         {isProcessing && progress && (
           <div className="space-y-2">
@@ -766,8 +978,8 @@ export function DownloadProcessingSection() {
 
             {/* Instructions */}
             <p className="text-sm text-muted-foreground">
-              Click "Write Tags" to save SuperGenre to the Grouping tag directly in your files.
-              Visible in Serato, Rekordbox, Traktor, MediaMonkey, and iTunes.
+              Click "Write Tags" to save SuperGenre to {describeTagTarget(tagTarget)} directly in your files.
+              Files already tagged there are skipped.
             </p>
           </>
         )}
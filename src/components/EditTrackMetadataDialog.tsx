@@ -10,7 +10,13 @@ import {
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { FileAudio, Music } from 'lucide-react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertTriangle, ArrowRight, FileAudio, Music } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { requestAudioFileAccess } from '@/services/directoryHandle.service';
+import { TrackTagWriterService, type TagChange } from '@/services/trackTagWriter.service';
+import type { AudioTags } from '@/types/audioTags';
 
 interface LocalTrack {
   id: string;
@@ -25,8 +31,23 @@ interface LocalTrack {
   file_path: string;
   file_size: number | null;
   mix: string | null;
+  comment: string | null;
+  hash: string | null;
 }
 
+/** Tag changes waiting for confirmation before they are written to the file */
+interface WritePreview {
+  handle: FileSystemFileHandle;
+  filename: string;
+  changes: TagChange[];
+  /** The picked file is the one the track was scanned from */
+  isScannedFile: boolean;
+}
+
+const canPickFiles = () => typeof window !== 'undefined' && !!window.showOpenFilePicker;
+
+const formatTagValue = (value: string | number | null) => (value === null ? '—' : String(value));
+
 interface EditTrackMetadataDialogProps {
   track: LocalTrack | null;
   open: boolean;
@@ -46,7 +67,13 @@ export function EditTrackMetadataDialog({
   const [genre, setGenre] = useState('');
   const [year, setYear] = useState('');
   const [mix, setMix] = useState('');
+  const [bpm, setBpm] = useState('');
+  const [key, setKey] = useState('');
+  const [comment, setComment] = useState('');
+  const [writeToFile, setWriteToFile] = useState(canPickFiles);
+  const [preview, setPreview] = useState<WritePreview | null>(null);
   const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
 
   // Reset form when track changes
   useEffect(() => {
@@ -57,23 +84,96 @@ export function EditTrackMetadataDialog({
       setGenre(track.genre || '');
       setYear(track.year?.toString() || '');
       setMix(track.mix || '');
+      setBpm(track.bpm?.toString() || '');
+      setKey(track.key || '');
+      setComment(track.comment || '');
+      setPreview(null);
     }
   }, [track]);
 
+  const editedTags = (): AudioTags => ({
+    title: title.trim() || null,
+    artist: artist.trim() || null,
+    album: album.trim() || null,
+    year: year ? parseInt(year, 10) : null,
+    genre: genre.trim() || null,
+    bpm: bpm ? Math.round(parseFloat(bpm)) : null,
+    key: key.trim() || null,
+    comment: comment.trim() || null,
+  });
+
+  const saveToDatabase = async () => {
+    if (!track) return;
+    await onSave(track.id, { ...editedTags(), mix: mix.trim() || null });
+    onOpenChange(false);
+  };
+
+  // Pick the track's file and show what writing the edits would change
+  const previewFileChanges = async () => {
+    const handle = await requestAudioFileAccess();
+    if (!handle) return;
+
+    const file = await handle.getFile();
+    if (!TrackTagWriterService.canWrite(file.name)) {
+      throw new Error(`${file.name} is not an MP3, FLAC or M4A file`);
+    }
+
+    const current = await TrackTagWriterService.readTags(file);
+    setPreview({
+      handle,
+      filename: file.name,
+      changes: TrackTagWriterService.diffTags(current, editedTags()),
+      isScannedFile: await TrackTagWriterService.isScannedFile(file, track?.hash ?? null),
+    });
+  };
+
   const handleSave = async () => {
     if (!track) return;
 
     setSaving(true);
     try {
-      await onSave(track.id, {
-        title: title.trim() || null,
-        artist: artist.trim() || null,
-        album: album.trim() || null,
-        genre: genre.trim() || null,
-        year: year ? parseInt(year, 10) : null,
-        mix: mix.trim() || null,
+      if (!writeToFile) {
+        await saveToDatabase();
+        return;
+      }
+      await previewFileChanges().catch(error => {
+        console.error('Error reading tags from file:', error);
+        toast({
+          title: 'Could not read the file',
+          description: error instanceof Error ? error.message : 'Unknown error',
+          variant: 'destructive',
+        });
       });
-      onOpenChange(false);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleConfirmWrite = async () => {
+    if (!track || !preview) return;
+
+    setSaving(true);
+    try {
+      if (preview.changes.length > 0) {
+        await TrackTagWriterService.writeBack(
+          track.id,
+          preview.handle,
+          TrackTagWriterService.toUpdates(preview.changes)
+        );
+      }
+    } catch (error) {
+      console.error('Error writing tags to file:', error);
+      toast({
+        title: 'Failed to write tags',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+      setSaving(false);
+      return;
+    }
+
+    try {
+      await saveToDatabase();
     } finally {
       setSaving(false);
     }
@@ -120,95 +220,183 @@ export function EditTrackMetadataDialog({
           </DialogDescription>
         </DialogHeader>
 
-        <div className="grid gap-4 py-4">
-          <div className="grid gap-2">
-            <Label htmlFor="title">Title</Label>
-            <Input
-              id="title"
-              value={title}
-              onChange={(e) => setTitle(e.target.value)}
-              placeholder="Track title"
-            />
-          </div>
-
-          <div className="grid gap-2">
-            <Label htmlFor="artist">Artist</Label>
-            <Input
-              id="artist"
-              value={artist}
-              onChange={(e) => setArtist(e.target.value)}
-              placeholder="Artist name"
-            />
+        {preview ? (
+          <div className="grid gap-3 py-4">
+            <p className="text-sm">
+              Changes to <span className="font-medium">{preview.filename}</span>
+            </p>
+            {!preview.isScannedFile && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  This file differs from the one scanned for this track. Check it's the right file before writing.
+                </AlertDescription>
+              </Alert>
+            )}
+            {preview.changes.length === 0 ? (
+              <p className="text-sm text-muted-foreground">The file's tags already match; only the library will be updated.</p>
+            ) : (
+              <div className="rounded-md border divide-y text-sm">
+                {preview.changes.map(change => (
+                  <div key={change.field} className="grid grid-cols-[5rem_1fr_auto_1fr] items-center gap-2 px-3 py-2">
+                    <span className="text-muted-foreground">{change.label}</span>
+                    <span className="truncate line-through text-muted-foreground" title={formatTagValue(change.from)}>
+                      {formatTagValue(change.from)}
+                    </span>
+                    <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                    <span className="truncate font-medium" title={formatTagValue(change.to)}>
+                      {formatTagValue(change.to)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
+        ) : (
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="title">Title</Label>
+              <Input
+                id="title"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                placeholder="Track title"
+              />
+            </div>
 
-          <div className="grid gap-2">
-            <Label htmlFor="album">Album</Label>
-            <Input
-              id="album"
-              value={album}
-              onChange={(e) => setAlbum(e.target.value)}
-              placeholder="Album name"
-            />
-          </div>
+            <div className="grid gap-2">
+              <Label htmlFor="artist">Artist</Label>
+              <Input
+                id="artist"
+                value={artist}
+                onChange={(e) => setArtist(e.target.value)}
+                placeholder="Artist name"
+              />
+            </div>
 
-          <div className="grid gap-2">
-            <Label htmlFor="genre">Genre</Label>
-            <Input
-              id="genre"
-              value={genre}
-              onChange={(e) => setGenre(e.target.value)}
-              placeholder="Genre"
-            />
-          </div>
+            <div className="grid gap-2">
+              <Label htmlFor="album">Album</Label>
+              <Input
+                id="album"
+                value={album}
+                onChange={(e) => setAlbum(e.target.value)}
+                placeholder="Album name"
+              />
+            </div>
 
-          <div className="grid grid-cols-2 gap-4">
             <div className="grid gap-2">
-              <Label htmlFor="year">Year</Label>
+              <Label htmlFor="genre">Genre</Label>
               <Input
-                id="year"
-                type="number"
-                value={year}
-                onChange={(e) => setYear(e.target.value)}
-                placeholder="Year"
-                min="1900"
-                max="2100"
+                id="genre"
+                value={genre}
+                onChange={(e) => setGenre(e.target.value)}
+                placeholder="Genre"
               />
             </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="year">Year</Label>
+                <Input
+                  id="year"
+                  type="number"
+                  value={year}
+                  onChange={(e) => setYear(e.target.value)}
+                  placeholder="Year"
+                  min="1900"
+                  max="2100"
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="mix">Mix/Version</Label>
+                <Input
+                  id="mix"
+                  value={mix}
+                  onChange={(e) => setMix(e.target.value)}
+                  placeholder="e.g., Extended Mix"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="bpm">BPM</Label>
+                <Input
+                  id="bpm"
+                  type="number"
+                  value={bpm}
+                  onChange={(e) => setBpm(e.target.value)}
+                  placeholder="BPM"
+                  min="1"
+                  max="300"
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="key">Key</Label>
+                <Input
+                  id="key"
+                  value={key}
+                  onChange={(e) => setKey(e.target.value)}
+                  placeholder="e.g., 8A or Am"
+                />
+              </div>
+            </div>
+
             <div className="grid gap-2">
-              <Label htmlFor="mix">Mix/Version</Label>
+              <Label htmlFor="comment">Comment</Label>
               <Input
-                id="mix"
-                value={mix}
-                onChange={(e) => setMix(e.target.value)}
-                placeholder="e.g., Extended Mix"
+                id="comment"
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                placeholder="Comment"
               />
             </div>
-          </div>
 
-          {/* Read-only metadata */}
-          <div className="flex flex-wrap gap-4 text-sm text-muted-foreground border-t pt-4 mt-2">
-            {track.bpm && (
-              <span>BPM: <span className="text-foreground">{track.bpm}</span></span>
-            )}
-            {track.key && (
-              <span>Key: <span className="text-foreground">{track.key}</span></span>
-            )}
-            {track.bitrate && (
-              <span>Bitrate: <span className="text-foreground">{track.bitrate} kbps</span></span>
-            )}
-            {track.file_size && (
-              <span>Size: <span className="text-foreground">{formatFileSize(track.file_size)}</span></span>
+            {/* Read-only metadata */}
+            <div className="flex flex-wrap gap-4 text-sm text-muted-foreground border-t pt-4 mt-2">
+              {track.bitrate && (
+                <span>Bitrate: <span className="text-foreground">{track.bitrate} kbps</span></span>
+              )}
+              {track.file_size && (
+                <span>Size: <span className="text-foreground">{formatFileSize(track.file_size)}</span></span>
+              )}
+            </div>
+
+            {canPickFiles() && (
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="write-to-file"
+                  checked={writeToFile}
+                  onCheckedChange={(checked) => setWriteToFile(checked === true)}
+                />
+                <Label htmlFor="write-to-file" className="text-sm font-normal">
+                  Also write tags to the audio file (you'll pick the file and review the changes)
+                </Label>
+              </div>
             )}
           </div>
-        </div>
+        )}
 
         <DialogFooter>
-          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
-            Cancel
-          </Button>
-          <Button onClick={handleSave} disabled={saving}>
-            {saving ? 'Saving...' : 'Save Changes'}
-          </Button>
+          {preview ? (
+            <>
+              <Button variant="outline" onClick={() => setPreview(null)} disabled={saving}>
+                Back
+              </Button>
+              <Button onClick={handleConfirmWrite} disabled={saving}>
+                {saving ? 'Writing...' : preview.changes.length > 0 ? 'Write & Save' : 'Save Changes'}
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+                Cancel
+              </Button>
+              <Button onClick={handleSave} disabled={saving}>
+                {saving ? 'Saving...' : writeToFile ? 'Review Changes' : 'Save Changes'}
+              </Button>
+            </>
+          )}
         </DialogFooter>
       </DialogContent>
     </Dialog>
@@ -0,0 +1,209 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Loader2, SearchCode, FileDown } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { TrackMatchingService } from '@/services/trackMatching.service';
+import {
+  toEvalCase,
+  TIER_LABELS,
+  type CandidateExplanation,
+  type MatchExplanation,
+} from '@/services/matchExplainer';
+import type { MatchingProfileName } from '@/services/trackMatchingEngine';
+
+export interface SpotifyTrackForExplain {
+  id: string;
+  title: string;
+  artist: string;
+}
+
+interface ExplainMatchDialogProps {
+  track: SpotifyTrackForExplain | null;
+  userId: string | null;
+  profile: MatchingProfileName;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Describe the engine's overall verdict for the track
+const describeResult = (explanation: MatchExplanation): string => {
+  const { result } = explanation;
+  if (result.matched && result.userConfirmed) return 'Matched by your confirmed or linked match';
+  if (result.matched && result.tier !== null) return `Matched at tier ${result.tier} (${TIER_LABELS[result.tier]})`;
+  if (result.versionMismatch) return 'Reported missing: a different version is owned';
+  return 'Reported missing: no local track matched';
+};
+
+// Download an explanation as a one-case fixture file; merge it with `npm run eval:add`
+const downloadEvalCase = (explanation: MatchExplanation, expected: CandidateExplanation | null) => {
+  const evalCase = toEvalCase(explanation, expected);
+  const fixture = {
+    exportedAt: new Date().toISOString(),
+    description: 'Exported from the explain-match debugger',
+    totalCases: 1,
+    cases: [evalCase],
+  };
+  const blob = new Blob([JSON.stringify(fixture, null, 2) + '\n'], { type: 'application/json' });
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+  link.setAttribute('href', url);
+  link.setAttribute('download', `eval-case-${explanation.spotifyTrack.id}.json`);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+const formatDelta = (seconds: number): string => `${seconds > 0 ? '+' : ''}${seconds}s`;
+
+/**
+ * Explain-match debugger for one Spotify track: its normalized keys, the closest
+ * local tracks with per-tier similarity scores, and why each was or wasn't matched.
+ */
+export function ExplainMatchDialog({
+  track,
+  userId,
+  profile,
+  open,
+  onOpenChange,
+}: ExplainMatchDialogProps) {
+  const { toast } = useToast();
+  const [explanation, setExplanation] = useState<MatchExplanation | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open || !track || !userId) return;
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    setExplanation(null);
+    TrackMatchingService.explainTrack(userId, track.id, profile)
+      .then(found => {
+        if (!cancelled) setExplanation(found);
+      })
+      .catch(err => {
+        console.error('❌ Failed to explain match:', err);
+        // Supabase errors are plain objects, not Error instances
+        if (!cancelled) setError((err as { message?: string } | null)?.message ?? 'Unknown error');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, track, userId, profile]);
+
+  const handleExport = (expected: CandidateExplanation | null) => {
+    if (!explanation) return;
+    downloadEvalCase(explanation, expected);
+    toast({
+      title: 'Eval case exported',
+      description: expected
+        ? `Saved as a false negative expecting "${expected.localTrack.title ?? expected.localTrack.file_path}". Merge it with npm run eval:add.`
+        : 'Saved as truly missing. Merge it with npm run eval:add.',
+    });
+  };
+
+  if (!track) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[680px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <SearchCode className="h-5 w-5" />
+            Explain Match
+          </DialogTitle>
+          <DialogDescription asChild>
+            <div className="pt-2 space-y-0.5">
+              <p className="text-sm font-medium text-foreground">{track.title}</p>
+              <p className="text-sm text-muted-foreground">{track.artist}</p>
+            </div>
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground py-4 justify-center">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Matching against your library...
+          </div>
+        )}
+        {error && <p className="text-sm text-destructive py-4 text-center">{error}</p>}
+
+        {explanation && (
+          <div className="space-y-3">
+            <div className="rounded border border-border p-3 text-sm space-y-1">
+              <p className="font-medium">{describeResult(explanation)}</p>
+              <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5 text-xs">
+                <dt className="text-muted-foreground">Title</dt>
+                <dd className="font-mono truncate">{explanation.normalizedTitle || '—'}</dd>
+                <dt className="text-muted-foreground">Core title</dt>
+                <dd className="font-mono truncate">{explanation.coreTitle || '—'}</dd>
+                <dt className="text-muted-foreground">Artist</dt>
+                <dd className="font-mono truncate">{explanation.normalizedArtist || '—'}</dd>
+                <dt className="text-muted-foreground">Mix</dt>
+                <dd className="font-mono truncate">{explanation.mix || '—'}</dd>
+                <dt className="text-muted-foreground">Profile</dt>
+                <dd className="capitalize">{explanation.profile}</dd>
+              </dl>
+            </div>
+
+            <div className="max-h-80 overflow-y-auto space-y-1">
+              {explanation.candidates.length === 0 && (
+                <p className="text-sm text-muted-foreground py-4 text-center">Your library has no local tracks.</p>
+              )}
+              {explanation.candidates.map(candidate => (
+                <div key={candidate.localTrack.id} className="rounded border border-border px-3 py-2 text-sm space-y-1">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0" title={candidate.localTrack.file_path}>
+                      <p className="font-medium truncate">{candidate.localTrack.title || '(untitled)'}</p>
+                      <p className="text-xs text-muted-foreground truncate">{candidate.localTrack.artist || 'Unknown artist'}</p>
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                      {candidate.chosen && <Badge>Matched</Badge>}
+                      {!candidate.chosen && candidate.tier !== null && (
+                        <Badge variant="secondary">Tier {candidate.tier}</Badge>
+                      )}
+                      {candidate.sameIsrc && <Badge variant="outline">Same ISRC</Badge>}
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        title="Add to eval fixtures with this file as the expected match"
+                        onClick={() => handleExport(candidate)}
+                      >
+                        <FileDown className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Title {candidate.titleSimilarity.toFixed(0)}% · Core {candidate.coreTitleSimilarity.toFixed(0)}% · Artist {candidate.artistSimilarity.toFixed(0)}%
+                    {candidate.durationDeltaSeconds !== null && ` · Length ${formatDelta(candidate.durationDeltaSeconds)}`}
+                  </p>
+                  <p className="text-xs">{candidate.reason}</p>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex justify-end">
+              <Button variant="outline" size="sm" onClick={() => handleExport(null)}>
+                <FileDown className="h-4 w-4 mr-2" />
+                Add to eval fixtures as truly missing
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,150 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader2, Link } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { TrackMatchingService } from '@/services/trackMatching.service';
+import { MatchDecisionService } from '@/services/matchDecision.service';
+import type { LocalTrack } from '@/services/trackMatchingEngine';
+
+export interface SpotifyTrackForLink {
+  id: string;
+  title: string;
+  artist: string;
+}
+
+interface LinkLocalTrackDialogProps {
+  track: SpotifyTrackForLink | null;
+  userId: string | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onLinked: (spotifyTrackId: string, localTrack: LocalTrack) => void;
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+export function LinkLocalTrackDialog({
+  track,
+  userId,
+  open,
+  onOpenChange,
+  onLinked,
+}: LinkLocalTrackDialogProps) {
+  const { toast } = useToast();
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<LocalTrack[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [linkingId, setLinkingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open && track) {
+      setQuery(track.title);
+    }
+  }, [open, track]);
+
+  useEffect(() => {
+    if (!open || !userId) return;
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setSearching(true);
+      try {
+        const found = await TrackMatchingService.searchLocalTracks(userId, query);
+        if (!cancelled) setResults(found);
+      } catch (err) {
+        if (!cancelled) setResults([]);
+        console.error('❌ Local track search failed:', err);
+      } finally {
+        if (!cancelled) setSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [open, userId, query]);
+
+  const handleLink = async (localTrack: LocalTrack) => {
+    if (!track) return;
+    setLinkingId(localTrack.id);
+    try {
+      await MatchDecisionService.confirmMatch(track.id, localTrack.id);
+      onLinked(track.id, localTrack);
+      onOpenChange(false);
+    } catch (err) {
+      // Supabase errors are plain objects, not Error instances
+      const message = (err as { message?: string } | null)?.message ?? 'Unknown error';
+      toast({ title: 'Failed to link track', description: message, variant: 'destructive' });
+    } finally {
+      setLinkingId(null);
+    }
+  };
+
+  if (!track) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Link className="h-5 w-5" />
+            Link to Local File
+          </DialogTitle>
+          <DialogDescription asChild>
+            <div className="pt-2 space-y-0.5">
+              <p className="text-sm font-medium text-foreground">{track.title}</p>
+              <p className="text-sm text-muted-foreground">{track.artist}</p>
+            </div>
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-2">
+          <Label htmlFor="link-local-search">Search your local files</Label>
+          <Input
+            id="link-local-search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Title or artist"
+            autoFocus
+          />
+        </div>
+
+        <div className="max-h-72 overflow-y-auto space-y-1">
+          {searching && results.length === 0 && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground py-4 justify-center">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Searching...
+            </div>
+          )}
+          {!searching && results.length === 0 && (
+            <p className="text-sm text-muted-foreground py-4 text-center">No local files found.</p>
+          )}
+          {results.map((local) => (
+            <button
+              key={local.id}
+              type="button"
+              className="w-full text-left rounded border border-border px-3 py-2 hover:bg-accent hover:text-accent-foreground transition-colors disabled:opacity-50"
+              onClick={() => handleLink(local)}
+              disabled={linkingId !== null}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{local.title || '(untitled)'}</p>
+                  <p className="text-xs text-muted-foreground truncate">{local.artist || 'Unknown artist'}</p>
+                  <p className="text-xs text-muted-foreground truncate">{local.file_path}</p>
+                </div>
+                {linkingId === local.id && <Loader2 className="h-4 w-4 shrink-0 animate-spin" />}
+              </div>
+            </button>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
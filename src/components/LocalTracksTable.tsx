@@ -1,11 +1,12 @@
 import { useState, useEffect, useRef } from 'react';
-import { MoreHorizontal, ChevronUp, ChevronDown, Filter, X, Edit, Trash2, FileCheck, AlertCircle, Copy } from 'lucide-react';
+import { MoreHorizontal, ChevronUp, ChevronDown, Filter, X, Edit, Trash2, FileCheck, AlertCircle, Copy, Tags } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { TrackFilters } from '@/components/common/TrackFilters';
 import { SUPER_GENRES } from '@/types/genreMapping';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { EditTrackMetadataDialog } from '@/components/EditTrackMetadataDialog';
+import { BatchTagEditorDialog } from '@/components/BatchTagEditorDialog';
 import { NormalizationService } from '@/services/normalization.service';
 import {
   Table,
@@ -59,6 +60,7 @@ interface LocalTrack {
   rating: number | null;
   play_count: number | null;
   mix: string | null;
+  comment: string | null;
   audio_format: string | null;
   sample_rate: number | null;
   duration_seconds: number | null;
@@ -82,6 +84,8 @@ const LocalTracksTable = ({ onTrackSelect, selectedTrack, refreshTrigger, isActi
   const [selectedTracks, setSelectedTracks] = useState<Set<string>>(new Set());
   const [editingTrack, setEditingTrack] = useState<LocalTrack | null>(null);
   const [editDialogOpen, setEditDialogOpen] = useState(false);
+  const [batchEditIds, setBatchEditIds] = useState<string[]>([]);
+  const [batchEditOpen, setBatchEditOpen] = useState(false);
   
   // Filter states
   const [searchQuery, setSearchQuery] = useState('');
@@ -474,6 +478,11 @@ const LocalTracksTable = ({ onTrackSelect, selectedTrack, refreshTrigger, isActi
     }
   };
 
+  const handleBatchEdit = () => {
+    setBatchEditIds(Array.from(selectedTracks));
+    setBatchEditOpen(true);
+  };
+
   const handleEditMetadata = (track: LocalTrack) => {
     setEditingTrack(track);
     setEditDialogOpen(true);
@@ -551,6 +560,10 @@ const LocalTracksTable = ({ onTrackSelect, selectedTrack, refreshTrigger, isActi
             {selectedTracks.size > 0 && (
               <>
                 <Badge variant="secondary">{selectedTracks.size} selected</Badge>
+                <Button variant="outline" size="sm" onClick={handleBatchEdit}>
+                  <Tags className="h-4 w-4 mr-1" />
+                  Edit Tags
+                </Button>
                 <Button variant="destructive" size="sm" onClick={handleBulkDelete}>
                   <Trash2 className="h-4 w-4 mr-1" />
                   Delete Selected
@@ -1004,6 +1017,13 @@ const LocalTracksTable = ({ onTrackSelect, selectedTrack, refreshTrigger, isActi
           onOpenChange={setEditDialogOpen}
           onSave={handleSaveMetadata}
         />
+
+        <BatchTagEditorDialog
+          trackIds={batchEditIds}
+          open={batchEditOpen}
+          onOpenChange={setBatchEditOpen}
+          onComplete={() => user && fetchTracks(user.id)}
+        />
       </CardContent>
     </Card>
   );
@@ -0,0 +1,132 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Loader2, Check, X, ChevronDown, ChevronRight, ArrowRight } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { MatchDecisionService, type MatchForReview } from '@/services/matchDecision.service';
+
+interface MatchReviewPanelProps {
+  /** Bump to reload, e.g. after an analysis run rewrote the engine's matches */
+  refreshKey: number;
+}
+
+/**
+ * Lists unreviewed fuzzy and artist-overlap matches from the last analysis run so the user can confirm
+ * or reject them. Decisions win over the engine on the next run.
+ */
+export function MatchReviewPanel({ refreshKey }: MatchReviewPanelProps) {
+  const { toast } = useToast();
+  const [matches, setMatches] = useState<MatchForReview[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    MatchDecisionService.getMatchesForReview()
+      .then(found => {
+        if (!cancelled) setMatches(found);
+      })
+      .catch(err => {
+        console.error('❌ Failed to load matches for review:', err);
+        if (!cancelled) setMatches([]);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey]);
+
+  const handleDecision = async (match: MatchForReview, confirm: boolean) => {
+    setSavingId(match.id);
+    try {
+      if (confirm) {
+        await MatchDecisionService.confirmMatch(match.spotifyTrackId, match.mp3Id);
+      } else {
+        await MatchDecisionService.rejectMatch(match.spotifyTrackId, match.mp3Id);
+      }
+      setMatches(prev => prev.filter(m => m.id !== match.id));
+      toast({
+        title: confirm ? 'Match confirmed' : 'Match rejected',
+        description: confirm
+          ? `"${match.spotifyTitle}" will always match this file.`
+          : `"${match.spotifyTitle}" will no longer match this file. Re-run the analysis to update missing tracks.`,
+      });
+    } catch (err) {
+      // Supabase errors are plain objects, not Error instances
+      const message = (err as { message?: string } | null)?.message ?? 'Unknown error';
+      toast({ title: 'Failed to save decision', description: message, variant: 'destructive' });
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  if (!isLoading && matches.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader className="cursor-pointer" onClick={() => setIsExpanded(prev => !prev)}>
+        <CardTitle className="flex items-center gap-2 text-base">
+          {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+          Matches to Review
+          {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Badge variant="secondary">{matches.length}</Badge>}
+        </CardTitle>
+        <CardDescription>
+          These Spotify tracks were matched to local files by similarity or a shared artist only. Reject a wrong match to list the track as missing.
+        </CardDescription>
+      </CardHeader>
+      {isExpanded && (
+        <CardContent className="space-y-2">
+          {matches.map(match => (
+            <div key={match.id} className="flex items-center justify-between gap-3 rounded border border-border p-2 text-sm">
+              <div className="flex items-center gap-2 min-w-0 flex-1">
+                <div className="min-w-0 flex-1">
+                  <p className="font-medium truncate">{match.spotifyTitle}</p>
+                  <p className="text-xs text-muted-foreground truncate">{match.spotifyArtist}</p>
+                </div>
+                <ArrowRight className="h-4 w-4 shrink-0 text-muted-foreground" />
+                <div className="min-w-0 flex-1" title={match.localFilePath}>
+                  <p className="font-medium truncate">{match.localTitle || match.localFilePath}</p>
+                  <p className="text-xs text-muted-foreground truncate">{match.localArtist || 'Unknown artist'}</p>
+                </div>
+              </div>
+              {match.method === 'artist_overlap' && (
+                <Badge variant="outline" className="shrink-0" title="Matched on a shared artist rather than the lead artist">
+                  Shared artist
+                </Badge>
+              )}
+              {match.confidence !== null && (
+                <Badge variant="outline" className="shrink-0">{match.confidence.toFixed(0)}%</Badge>
+              )}
+              <div className="flex gap-1 shrink-0">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  title="Confirm match"
+                  onClick={() => handleDecision(match, true)}
+                  disabled={savingId !== null}
+                >
+                  {savingId === match.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  title="Reject match"
+                  className="text-destructive hover:text-destructive"
+                  onClick={() => handleDecision(match, false)}
+                  disabled={savingId !== null}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
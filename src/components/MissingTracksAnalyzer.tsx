@@ -5,19 +5,45 @@ import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Checkbox } from '@/components/ui/checkbox';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
-import { Loader2, Download, Music, Users, Filter, Upload, MoreVertical, Pencil, Pin, Trash2, Disc3 } from 'lucide-react';
+import { Loader2, Download, Music, Users, Filter, Upload, MoreVertical, Pencil, Pin, Trash2, Disc3, Link2, Link, CheckCircle2, SearchCode, FileSearch, ArrowDownToLine, ListChecks } from 'lucide-react';
 import { VinylGapsView } from '@/components/VinylGapsView';
 import { useToast } from '@/hooks/use-toast';
-import { TrackMatchingService } from '@/services/trackMatching.service';
+import { TrackMatchingService, type MissingTracksSummary } from '@/services/trackMatching.service';
 import { DuplicateDetectionService } from '@/services/duplicateDetection.service';
+import { UserPreferencesService } from '@/services/userPreferences.service';
+import {
+  TrackAcquisitionService,
+  getAcquisitionStatus,
+  ACQUISITION_STUCK_DAYS,
+  type AcquisitionStage,
+  type TrackAcquisition,
+} from '@/services/trackAcquisition.service';
+import { SEARCH_STRATEGY_LABELS } from '@/services/slskdClient.service';
 import { supabase } from '@/integrations/supabase/client';
 import { useSlskdConfig } from '@/hooks/useSlskdConfig';
 import { useSlskdSync } from '@/hooks/useSlskdSync';
+import { useSlskdSearchRetries } from '@/hooks/useSlskdSearchRetries';
 import { SlskdSyncProgress } from '@/components/SlskdSyncProgress';
+import { SlskdSearchResultsPanel } from '@/components/SlskdSearchResultsPanel';
+import { SlskdTransfersDialog } from '@/components/SlskdTransfersDialog';
+import { SlskdWishlistDialog } from '@/components/SlskdWishlistDialog';
+import { SlskdAlbumPlanDialog } from '@/components/SlskdAlbumPlanDialog';
 import { EditSpotifyTrackGenreDialog } from '@/components/EditSpotifyTrackGenreDialog';
 import type { SpotifyTrackForGenreEdit } from '@/components/EditSpotifyTrackGenreDialog';
+import { AddArtistAliasDialog } from '@/components/AddArtistAliasDialog';
+import { LinkLocalTrackDialog } from '@/components/LinkLocalTrackDialog';
+import type { SpotifyTrackForLink } from '@/components/LinkLocalTrackDialog';
+import { ExplainMatchDialog } from '@/components/ExplainMatchDialog';
+import type { SpotifyTrackForExplain } from '@/components/ExplainMatchDialog';
+import { MatchReviewPanel } from '@/components/MatchReviewPanel';
 import type { SuperGenre } from '@/types/genreMapping';
-import type { SlskdTrackToSync } from '@/types/slskd';
+import type { SlskdPushItem, SlskdTrackToSync } from '@/types/slskd';
+import {
+  DEFAULT_MATCHING_PROFILE,
+  isMatchingProfileName,
+  type LocalTrack,
+  type MatchingProfileName,
+} from '@/services/trackMatchingEngine';
 
 type MissingSource = 'spotify' | 'vinyl' | 'both';
 
@@ -35,12 +61,19 @@ interface MissingTrack {
     id: string;
     title: string;
     artist: string;
+    primary_artist?: string | null;
     album: string | null;
     genre: string | null;
     super_genre: string | null;
     super_genre_manual_override: boolean;
+    duration_ms?: number | null;
   };
   reason: string;
+  ownedVersion?: {
+    localTrack: { title: string | null; file_path: string };
+    durationDeltaSeconds: number | null;
+    differentMix: boolean;
+  };
 }
 
 interface ArtistGroup {
@@ -49,6 +82,54 @@ interface ArtistGroup {
   genres: string[];
 }
 
+const MATCHING_PROFILE_OPTIONS: { value: MatchingProfileName; label: string; description: string }[] = [
+  { value: 'strict', label: 'Strict', description: 'Version-aware: other remixes stay missing, no fuzzy titles, lead artist only' },
+  { value: 'balanced', label: 'Balanced', description: 'Default matching' },
+  { value: 'lenient', label: 'Lenient', description: 'Looser fuzzy title matching' },
+];
+
+// Format a local-minus-Spotify duration delta as "+3:12" / "-0:45"
+const formatDurationDelta = (seconds: number): string => {
+  const sign = seconds < 0 ? '-' : '+';
+  const abs = Math.abs(seconds);
+  return `${sign}${Math.floor(abs / 60)}:${String(abs % 60).padStart(2, '0')}`;
+};
+
+const ACQUISITION_LABELS: Record<AcquisitionStage, string> = {
+  wishlisted: 'Wishlisted',
+  downloaded: 'Downloaded',
+  tagged: 'Tagged',
+  matched: 'Matched',
+};
+
+// Whole days since an ISO timestamp, as "today" / "3d ago"
+const formatDaysAgo = (iso: string): string => {
+  const days = Math.floor((Date.now() - new Date(iso).getTime()) / (24 * 60 * 60 * 1000));
+  return days < 1 ? 'today' : `${days}d ago`;
+};
+
+// Where a missing track is on its way to the library; stuck tracks stand out
+const AcquisitionBadge: React.FC<{ acquisition: TrackAcquisition | undefined }> = ({ acquisition }) => {
+  const status = acquisition ? getAcquisitionStatus(acquisition) : null;
+  if (!acquisition || !status) return null;
+  const details = [
+    status.stuck && `No progress for over ${ACQUISITION_STUCK_DAYS} days`,
+    acquisition.found_by_strategy
+      ? `Found by ${SEARCH_STRATEGY_LABELS[acquisition.found_by_strategy]} search`
+      : acquisition.search_strategy && `Searching by ${SEARCH_STRATEGY_LABELS[acquisition.search_strategy]}`,
+  ].filter(Boolean);
+  return (
+    <Badge
+      variant={status.stuck ? 'destructive' : 'secondary'}
+      className="shrink-0 text-[10px] px-1.5 py-0"
+      title={details.length > 0 ? details.join('. ') : undefined}
+    >
+      {status.stuck && 'Stuck: '}
+      {ACQUISITION_LABELS[status.stage]} {formatDaysAgo(status.since)}
+    </Badge>
+  );
+};
+
 const MissingTracksAnalyzer: React.FC<MissingTracksAnalyzerProps> = ({
   selectedGenre,
   setSelectedGenre,
@@ -60,6 +141,7 @@ const MissingTracksAnalyzer: React.FC<MissingTracksAnalyzerProps> = ({
   const [vinylSuperGenreFilter, setVinylSuperGenreFilter] = useState('all');
   const [missingTracks, setMissingTracks] = useState<MissingTrack[]>([]);
   const [artistGroups, setArtistGroups] = useState<ArtistGroup[]>([]);
+  const [matchSummary, setMatchSummary] = useState<MissingTracksSummary | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [user, setUser] = useState<any>(null);
   const { toast } = useToast();
@@ -67,26 +149,59 @@ const MissingTracksAnalyzer: React.FC<MissingTracksAnalyzerProps> = ({
   // slskd integration state
   const [selectedArtists, setSelectedArtists] = useState<Set<string>>(new Set());
   const [showSyncModal, setShowSyncModal] = useState(false);
+  const [albumPlanTracks, setAlbumPlanTracks] = useState<SlskdTrackToSync[] | null>(null);
+  const [albumTrackCounts, setAlbumTrackCounts] = useState<Record<string, number>>({});
   const { isConfigured } = useSlskdConfig();
-  const { syncToSlskd, syncAlbumToSlskd, isSyncing, syncResult, progress, reset } = useSlskdSync();
+  const { syncToSlskd, syncAlbumToSlskd, cancelSync, isSyncing, syncResult, progress, reset } = useSlskdSync();
+  const { retryFailedSearches } = useSlskdSearchRetries();
 
   // Edit SuperGenre dialog state
   const [editDialogTrack, setEditDialogTrack] = useState<SpotifyTrackForGenreEdit | null>(null);
   const [editDialogOpen, setEditDialogOpen] = useState(false);
 
+  // Artist alias dialog state
+  const [aliasDialogArtist, setAliasDialogArtist] = useState<string | null>(null);
+  const [aliasDialogOpen, setAliasDialogOpen] = useState(false);
+
+  // Manual link dialog state
+  const [linkDialogTrack, setLinkDialogTrack] = useState<SpotifyTrackForLink | null>(null);
+  const [linkDialogOpen, setLinkDialogOpen] = useState(false);
+
+  // Explain-match dialog state
+  const [explainDialogTrack, setExplainDialogTrack] = useState<SpotifyTrackForExplain | null>(null);
+  const [explainDialogOpen, setExplainDialogOpen] = useState(false);
+
+  // slskd search results panel state
+  const [slskdSearchTrack, setSlskdSearchTrack] = useState<SlskdTrackToSync | null>(null);
+  const [showTransfers, setShowTransfers] = useState(false);
+  const [showWishlist, setShowWishlist] = useState(false);
+
+  // Acquisition records (wishlisted → downloaded → tagged → matched), keyed by Spotify track id
+  const [acquisitions, setAcquisitions] = useState<Map<string, TrackAcquisition>>(new Map());
+
+  // Per-user matching profile, saved in user_preferences
+  const [matchingProfile, setMatchingProfile] = useState<MatchingProfileName>(DEFAULT_MATCHING_PROFILE);
+
+  // Bumped after each analysis so the review panel reloads the freshly recorded matches
+  const [reviewRefreshKey, setReviewRefreshKey] = useState(0);
+
   // Unlike state
   const [unlikingTrackId, setUnlikingTrackId] = useState<string | null>(null);
 
+  const removeMissingTrack = (spotifyTrackId: string) => {
+    setMissingTracks(prev => prev.filter(t => t.spotifyTrack.id !== spotifyTrackId));
+    setArtistGroups(prev => prev
+      .map(group => ({ ...group, tracks: group.tracks.filter(t => t.spotifyTrack.id !== spotifyTrackId) }))
+      .filter(group => group.tracks.length > 0)
+    );
+  };
+
   const handleUnlikeTrack = async (track: MissingTrack) => {
     if (!user || !track.spotifyTrack.id) return;
     setUnlikingTrackId(track.spotifyTrack.id);
     try {
       await DuplicateDetectionService.unlikeTrack(track.spotifyTrack.id, user.id);
-      setMissingTracks(prev => prev.filter(t => t.spotifyTrack.id !== track.spotifyTrack.id));
-      setArtistGroups(prev => prev
-        .map(group => ({ ...group, tracks: group.tracks.filter(t => t.spotifyTrack.id !== track.spotifyTrack.id) }))
-        .filter(group => group.tracks.length > 0)
-      );
+      removeMissingTrack(track.spotifyTrack.id);
       toast({ title: 'Unliked', description: `"${track.spotifyTrack.title}" removed from your Spotify library.` });
     } catch (err: any) {
       toast({ title: 'Failed to unlike', description: err.message, variant: 'destructive' });
@@ -107,6 +222,50 @@ const MissingTracksAnalyzer: React.FC<MissingTracksAnalyzerProps> = ({
     setEditDialogOpen(true);
   };
 
+  const handleAddArtistAlias = (track: MissingTrack) => {
+    setAliasDialogArtist(track.spotifyTrack.artist);
+    setAliasDialogOpen(true);
+  };
+
+  const handleLinkLocalTrack = (track: MissingTrack) => {
+    setLinkDialogTrack({
+      id: track.spotifyTrack.id,
+      title: track.spotifyTrack.title,
+      artist: track.spotifyTrack.artist,
+    });
+    setLinkDialogOpen(true);
+  };
+
+  const handleExplainMatch = (track: MissingTrack) => {
+    setExplainDialogTrack({
+      id: track.spotifyTrack.id,
+      title: track.spotifyTrack.title,
+      artist: track.spotifyTrack.artist,
+    });
+    setExplainDialogOpen(true);
+  };
+
+  const handleFindOnSlskd = (track: MissingTrack) => {
+    setSlskdSearchTrack({
+      id: track.spotifyTrack.id,
+      title: track.spotifyTrack.title,
+      artist: track.spotifyTrack.artist,
+      primary_artist: track.spotifyTrack.primary_artist || track.spotifyTrack.artist,
+      album: track.spotifyTrack.album,
+      duration_ms: track.spotifyTrack.duration_ms,
+    });
+  };
+
+  const handleLocalTrackLinked = (spotifyTrackId: string, localTrack: LocalTrack) => {
+    removeMissingTrack(spotifyTrackId);
+    toast({ title: 'Track linked', description: `Matched to "${localTrack.title ?? localTrack.file_path}".` });
+  };
+
+  const handleAliasSaved = (alias: string, canonicalArtist: string) => {
+    toast({ title: 'Alias saved', description: `"${alias}" now matches local files by "${canonicalArtist}". Re-running analysis...` });
+    analyzeMissingTracks();
+  };
+
   const handleGenreSaved = (trackId: string, superGenre: SuperGenre | null, isOverride: boolean) => {
     setMissingTracks(prev => prev.map(t =>
       t.spotifyTrack.id === trackId
@@ -238,33 +397,73 @@ const MissingTracksAnalyzer: React.FC<MissingTracksAnalyzerProps> = ({
     setSelectedArtists(new Set());
   };
 
-  // Push selected artists' tracks to slskd
-  const handlePushToSlskd = () => {
+  // Missing tracks of the selected artists to push to slskd. Tracks already on
+  // their way are skipped unless they are stuck; returns null (after telling
+  // the user) when nothing is left to push.
+  const collectTracksToSync = (): SlskdTrackToSync[] | null => {
+    let alreadyRequested = 0;
     const tracksToSync: SlskdTrackToSync[] = Array.from(selectedArtists).flatMap(artist => {
       const group = artistGroups.find(g => g.artist === artist);
       if (!group) return [];
-      return group.tracks.map(track => ({
+      return group.tracks.filter(track => {
+        const acquisition = acquisitions.get(track.spotifyTrack.id);
+        const status = acquisition ? getAcquisitionStatus(acquisition) : null;
+        if (status && !status.stuck) {
+          alreadyRequested++;
+          return false;
+        }
+        return true;
+      }).map(track => ({
         id: track.spotifyTrack.id,
         title: track.spotifyTrack.title,
         artist: track.spotifyTrack.artist,
-        // Use the full artist as primary since we don't have a separate primary_artist field
-        primary_artist: track.spotifyTrack.artist,
+        primary_artist: track.spotifyTrack.primary_artist || track.spotifyTrack.artist,
+        album: track.spotifyTrack.album ?? undefined,
       }));
     });
 
     if (tracksToSync.length === 0) {
       toast({
-        title: 'No tracks selected',
-        description: 'Select at least one artist to push tracks to slskd.',
+        title: alreadyRequested > 0 ? 'Already requested' : 'No tracks selected',
+        description: alreadyRequested > 0
+          ? `All ${alreadyRequested} selected tracks are already wishlisted or downloaded.`
+          : 'Select at least one artist to push tracks to slskd.',
         variant: 'destructive',
       });
-      return;
+      return null;
+    }
+
+    if (alreadyRequested > 0) {
+      toast({
+        title: 'Skipping requested tracks',
+        description: `${alreadyRequested} tracks are already wishlisted or downloaded and won't be pushed again.`,
+      });
     }
 
+    return tracksToSync;
+  };
+
+  // Push selected artists' tracks to slskd, one search per track
+  const handlePushToSlskd = () => {
+    const tracksToSync = collectTracksToSync();
+    if (!tracksToSync) return;
+
     setShowSyncModal(true);
     syncToSlskd(tracksToSync);
   };
 
+  // Plan the push by album before sending it
+  const handlePlanByAlbum = () => {
+    const tracksToSync = collectTracksToSync();
+    if (tracksToSync) setAlbumPlanTracks(tracksToSync);
+  };
+
+  const handleAcceptAlbumPlan = (items: SlskdPushItem[]) => {
+    setAlbumPlanTracks(null);
+    setShowSyncModal(true);
+    syncToSlskd(items);
+  };
+
   // Close sync modal and reset state
   const handleCloseSyncModal = () => {
     setShowSyncModal(false);
@@ -281,6 +480,61 @@ const MissingTracksAnalyzer: React.FC<MissingTracksAnalyzerProps> = ({
     loadUser();
   }, []);
 
+  const loadAcquisitions = async (userId: string) => {
+    try {
+      setAcquisitions(await TrackAcquisitionService.getAcquisitions(userId));
+    } catch (error) {
+      console.error('Error loading track acquisitions:', error);
+    }
+  };
+
+  useEffect(() => {
+    if (user) loadAcquisitions(user.id);
+  }, [user]);
+
+  // The push queue records what it wishlisted; reload so those tracks aren't pushed again
+  useEffect(() => {
+    if (user && syncResult) loadAcquisitions(user.id);
+  }, [user, syncResult]);
+
+  // Show a push that is still going, e.g. after a reload or coming back to this page
+  useEffect(() => {
+    if (isSyncing) setShowSyncModal(true);
+  }, [isSyncing]);
+
+  // Re-queue wishlist searches that came back empty with the next query strategy
+  useEffect(() => {
+    if (!user || !isConfigured) return;
+    retryFailedSearches(user.id).then(result => {
+      if (result.found > 0 || result.requeued > 0) loadAcquisitions(user.id);
+    });
+  }, [user, isConfigured, retryFailedSearches]);
+
+  const handleCloseTransfers = () => {
+    setShowTransfers(false);
+    if (user) loadAcquisitions(user.id);
+  };
+
+  useEffect(() => {
+    if (!user) return;
+    UserPreferencesService.getMatchingProfile(user.id)
+      .then(setMatchingProfile)
+      .catch(error => console.error('Error loading matching profile:', error));
+  }, [user]);
+
+  const handleMatchingProfileChange = async (value: string) => {
+    if (!isMatchingProfileName(value)) return;
+    setMatchingProfile(value);
+    if (!user) return;
+    try {
+      await UserPreferencesService.setMatchingProfile(user.id, value);
+    } catch (err) {
+      // Supabase errors are plain objects, not Error instances
+      const message = (err as { message?: string } | null)?.message ?? 'Unknown error';
+      toast({ title: 'Failed to save matching profile', description: message, variant: 'destructive' });
+    }
+  };
+
   // Group tracks by artist, sorting tracks by album then title
   const groupByArtist = (tracks: MissingTrack[]): ArtistGroup[] => {
     const groups = tracks.reduce((acc, track) => {
@@ -345,16 +599,31 @@ const MissingTracksAnalyzer: React.FC<MissingTracksAnalyzerProps> = ({
     try {
       console.log('🔍 Starting missing tracks analysis...');
       // Pass all filter criteria to the matching service
-      const missing = await TrackMatchingService.findMissingTracks(
+      const { missingTracks: missing, summary, matchedTrackIds, albumTrackCounts: trackCounts } = await TrackMatchingService.analyzeMissingTracks(
         user.id,
         selectedGenre,
         genreFilter,
-        artistFilter
+        artistFilter,
+        matchingProfile
       );
 
       setMissingTracks(missing);
+      setMatchSummary(summary);
+      setAlbumTrackCounts(trackCounts);
       setArtistGroups(groupByArtist(missing));
       setSelectedArtists(new Set());
+      setReviewRefreshKey(prev => prev + 1);
+
+      // Acquisitions that a scan has now matched are done
+      const newlyMatched = matchedTrackIds.filter(id => {
+        const acquisition = acquisitions.get(id);
+        return acquisition && !acquisition.matched_at;
+      });
+      if (newlyMatched.length > 0) {
+        TrackAcquisitionService.markMatched(user.id, newlyMatched)
+          .then(() => loadAcquisitions(user.id))
+          .catch(error => console.error('Error marking acquisitions matched:', error));
+      }
 
       // Build description of applied filters
       const filterParts = [];
@@ -362,9 +631,10 @@ const MissingTracksAnalyzer: React.FC<MissingTracksAnalyzerProps> = ({
       if (genreFilter !== 'all') filterParts.push(genreFilter);
       if (artistFilter !== 'all') filterParts.push(artistFilter);
       const genreText = filterParts.length > 0 ? filterParts.join(' → ') : 'collection';
+      const isrcText = summary.isrcMatches > 0 ? ` ${summary.isrcMatches} of ${summary.matched} matches were made on ISRC.` : '';
       toast({
         title: "Analysis Complete",
-        description: `Found ${missing.length} tracks missing from your local ${genreText}.`,
+        description: `Found ${missing.length} tracks missing from your local ${genreText}.${isrcText}`,
       });
 
       console.log(`✅ Analysis complete: ${missing.length} missing tracks found`);
@@ -572,6 +842,25 @@ const MissingTracksAnalyzer: React.FC<MissingTracksAnalyzerProps> = ({
               )}
             </Button>
 
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-muted-foreground">Matching:</span>
+              <Select value={matchingProfile} onValueChange={handleMatchingProfileChange} disabled={isLoading}>
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MATCHING_PROFILE_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value} title={option.description}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="hidden md:inline text-xs text-muted-foreground">
+                {MATCHING_PROFILE_OPTIONS.find(option => option.value === matchingProfile)?.description}
+              </span>
+            </div>
+
             {missingTracks.length > 0 && (
               <Button
                 onClick={exportToCSV}
@@ -590,7 +879,7 @@ const MissingTracksAnalyzer: React.FC<MissingTracksAnalyzerProps> = ({
       {missingTracks.length > 0 && (
         <>
           {/* Summary Stats */}
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
             <Card>
               <CardContent className="p-4">
                 <div className="flex items-center justify-between">
@@ -644,8 +933,35 @@ const MissingTracksAnalyzer: React.FC<MissingTracksAnalyzerProps> = ({
                 </div>
               </CardContent>
             </Card>
+
+            {matchSummary && (
+              <Card>
+                <CardContent className="p-4">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-sm text-muted-foreground">Matched</p>
+                      <p className="text-2xl font-bold text-primary">
+                        {matchSummary.matched}
+                        <span className="text-sm font-normal text-muted-foreground ml-1">
+                          / {matchSummary.spotifyTracks}
+                        </span>
+                      </p>
+                      <p className="text-sm text-muted-foreground">
+                        {matchSummary.isrcMatches} by ISRC
+                      </p>
+                    </div>
+                    <CheckCircle2 className="h-8 w-8 text-muted-foreground" />
+                  </div>
+                </CardContent>
+              </Card>
+            )}
           </div>
 
+          {/* slskd Search Results */}
+          {slskdSearchTrack && (
+            <SlskdSearchResultsPanel track={slskdSearchTrack} onClose={() => setSlskdSearchTrack(null)} />
+          )}
+
           {/* Artist Groups */}
           <Card>
             <CardHeader>
@@ -672,6 +988,23 @@ const MissingTracksAnalyzer: React.FC<MissingTracksAnalyzerProps> = ({
                       <Upload className="w-4 h-4 mr-2" />
                       Push to slskd
                     </Button>
+                    <Button
+                      onClick={handlePlanByAlbum}
+                      disabled={selectedArtists.size === 0 || isSyncing}
+                      variant="outline"
+                      size="sm"
+                    >
+                      <Disc3 className="w-4 h-4 mr-2" />
+                      Plan by album
+                    </Button>
+                    <Button onClick={() => setShowTransfers(true)} variant="outline" size="sm">
+                      <ArrowDownToLine className="w-4 h-4 mr-2" />
+                      Transfers
+                    </Button>
+                    <Button onClick={() => setShowWishlist(true)} variant="outline" size="sm">
+                      <ListChecks className="w-4 h-4 mr-2" />
+                      Wishlist
+                    </Button>
                   </div>
                 )}
               </div>
@@ -779,6 +1112,23 @@ const MissingTracksAnalyzer: React.FC<MissingTracksAnalyzerProps> = ({
                                 {track.spotifyTrack.super_genre_manual_override && (
                                   <Pin className="h-3 w-3 shrink-0 text-primary" title="SuperGenre manually overridden" />
                                 )}
+                                {track.ownedVersion && (
+                                  <Badge
+                                    variant="outline"
+                                    className="shrink-0 text-[10px] px-1.5 py-0 border-amber-500 text-amber-600"
+                                    title={`You own "${track.ownedVersion.localTrack.title ?? track.ownedVersion.localTrack.file_path}"`}
+                                  >
+                                    {track.ownedVersion.differentMix ? (
+                                      'Owned, not this remix'
+                                    ) : (
+                                      <>
+                                        Different version owned
+                                        {track.ownedVersion.durationDeltaSeconds !== null && ` (${formatDurationDelta(track.ownedVersion.durationDeltaSeconds)})`}
+                                      </>
+                                    )}
+                                  </Badge>
+                                )}
+                                <AcquisitionBadge acquisition={acquisitions.get(track.spotifyTrack.id)} />
                               </div>
                               <DropdownMenu>
                                 <DropdownMenuTrigger asChild>
@@ -800,6 +1150,44 @@ const MissingTracksAnalyzer: React.FC<MissingTracksAnalyzerProps> = ({
                                     <Pencil className="h-4 w-4 mr-2" />
                                     Edit SuperGenre
                                   </DropdownMenuItem>
+                                  <DropdownMenuItem
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      handleAddArtistAlias(track);
+                                    }}
+                                  >
+                                    <Link2 className="h-4 w-4 mr-2" />
+                                    Add artist alias
+                                  </DropdownMenuItem>
+                                  <DropdownMenuItem
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      handleLinkLocalTrack(track);
+                                    }}
+                                  >
+                                    <Link className="h-4 w-4 mr-2" />
+                                    Link to local file
+                                  </DropdownMenuItem>
+                                  <DropdownMenuItem
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      handleExplainMatch(track);
+                                    }}
+                                  >
+                                    <SearchCode className="h-4 w-4 mr-2" />
+                                    Explain
+                                  </DropdownMenuItem>
+                                  {isConfigured && (
+                                    <DropdownMenuItem
+                                      onClick={(e) => {
+                                        e.stopPropagation();
+                                        handleFindOnSlskd(track);
+                                      }}
+                                    >
+                                      <FileSearch className="h-4 w-4 mr-2" />
+                                      Find on slskd
+                                    </DropdownMenuItem>
+                                  )}
                                   <DropdownMenuItem
                                     onClick={(e) => {
                                       e.stopPropagation();
@@ -829,6 +1217,9 @@ const MissingTracksAnalyzer: React.FC<MissingTracksAnalyzerProps> = ({
         </>
       )}
 
+      {/* Fuzzy matches from the last run, for confirm/reject */}
+      {user && reviewRefreshKey > 0 && <MatchReviewPanel refreshKey={reviewRefreshKey} />}
+
       {/* Empty State */}
       {!isLoading && missingTracks.length === 0 && user && (
         <Card>
@@ -856,11 +1247,27 @@ const MissingTracksAnalyzer: React.FC<MissingTracksAnalyzerProps> = ({
       <SlskdSyncProgress
         isOpen={showSyncModal}
         onClose={handleCloseSyncModal}
+        onStop={cancelSync}
         isSyncing={isSyncing}
         progress={progress}
         result={syncResult ?? null}
       />
 
+      {/* slskd Album Plan */}
+      <SlskdAlbumPlanDialog
+        isOpen={albumPlanTracks !== null}
+        onClose={() => setAlbumPlanTracks(null)}
+        tracks={albumPlanTracks ?? []}
+        albumTrackCounts={albumTrackCounts}
+        onAccept={handleAcceptAlbumPlan}
+      />
+
+      {/* slskd Transfers */}
+      <SlskdTransfersDialog isOpen={showTransfers} onClose={handleCloseTransfers} userId={user?.id ?? null} />
+
+      {/* slskd Wishlist */}
+      <SlskdWishlistDialog isOpen={showWishlist} onClose={() => setShowWishlist(false)} userId={user?.id ?? null} />
+
       {/* Edit SuperGenre Dialog */}
       <EditSpotifyTrackGenreDialog
         track={editDialogTrack}
@@ -868,6 +1275,33 @@ const MissingTracksAnalyzer: React.FC<MissingTracksAnalyzerProps> = ({
         onOpenChange={setEditDialogOpen}
         onSaved={handleGenreSaved}
       />
+
+      {/* Add Artist Alias Dialog */}
+      <AddArtistAliasDialog
+        artist={aliasDialogArtist}
+        userId={user?.id ?? null}
+        open={aliasDialogOpen}
+        onOpenChange={setAliasDialogOpen}
+        onSaved={handleAliasSaved}
+      />
+
+      {/* Link to Local File Dialog */}
+      <LinkLocalTrackDialog
+        track={linkDialogTrack}
+        userId={user?.id ?? null}
+        open={linkDialogOpen}
+        onOpenChange={setLinkDialogOpen}
+        onLinked={handleLocalTrackLinked}
+      />
+
+      {/* Explain Match Dialog */}
+      <ExplainMatchDialog
+        track={explainDialogTrack}
+        userId={user?.id ?? null}
+        profile={matchingProfile}
+        open={explainDialogOpen}
+        onOpenChange={setExplainDialogOpen}
+      />
     </div>
   );
 };
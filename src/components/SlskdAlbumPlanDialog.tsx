@@ -0,0 +1,135 @@
+/**
+ * SlskdAlbumPlanDialog Component
+ *
+ * Shows the album plan for the tracks about to be pushed to slskd: albums where
+ * enough of the liked tracks are missing get one album search instead of a
+ * search per track. Albums can be left out before the plan is pushed.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Disc3, Upload } from 'lucide-react';
+import {
+  SlskdAlbumPlannerService,
+  DEFAULT_ALBUM_THRESHOLD,
+  MIN_ALBUM_TRACKS,
+} from '@/services/slskdAlbumPlanner.service';
+import type { SlskdPushItem, SlskdTrackToSync } from '@/types/slskd';
+
+interface SlskdAlbumPlanDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Missing tracks to plan searches for */
+  tracks: SlskdTrackToSync[];
+  /** Liked tracks per album, from the last analysis */
+  albumTrackCounts: Record<string, number>;
+  onAccept: (items: SlskdPushItem[]) => void;
+}
+
+const THRESHOLDS = [0.25, 0.5, 0.75, 1];
+
+export function SlskdAlbumPlanDialog({
+  isOpen,
+  onClose,
+  tracks,
+  albumTrackCounts,
+  onAccept,
+}: SlskdAlbumPlanDialogProps) {
+  const [threshold, setThreshold] = useState(DEFAULT_ALBUM_THRESHOLD);
+  const [accepted, setAccepted] = useState<Set<string>>(new Set());
+
+  const plan = useMemo(
+    () => SlskdAlbumPlannerService.buildPlan(tracks, albumTrackCounts, threshold),
+    [tracks, albumTrackCounts, threshold]
+  );
+
+  // Every recommended album starts accepted
+  useEffect(() => {
+    setAccepted(new Set(plan.albums.map(entry => entry.key)));
+  }, [plan]);
+
+  const saved = SlskdAlbumPlannerService.savedSearches(plan, accepted);
+  const searches = plan.trackSearches - saved;
+
+  const toggle = (key: string) => {
+    setAccepted(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Disc3 className="h-5 w-5" />
+            Plan by Album
+          </DialogTitle>
+          <DialogDescription>
+            {plan.albums.length === 0
+              ? `No album is missing enough tracks; all ${plan.trackSearches} tracks will be searched one by one.`
+              : `${plan.trackSearches} track searches become ${searches} searches, saving ${saved}.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2 text-sm">
+          <span className="text-muted-foreground">Search the album when at least</span>
+          <Select value={String(threshold)} onValueChange={(value) => setThreshold(Number(value))}>
+            <SelectTrigger className="w-24 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {THRESHOLDS.map(value => (
+                <SelectItem key={value} value={String(value)}>{Math.round(value * 100)}%</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span className="text-muted-foreground">
+            of its liked tracks are missing ({MIN_ALBUM_TRACKS}+ tracks)
+          </span>
+        </div>
+
+        <div className="max-h-[24rem] overflow-y-auto space-y-1">
+          {plan.albums.map(entry => (
+            <label
+              key={entry.key}
+              className="flex items-center gap-3 rounded border border-border px-3 py-2 text-sm cursor-pointer"
+            >
+              <Checkbox checked={accepted.has(entry.key)} onCheckedChange={() => toggle(entry.key)} />
+              <div className="min-w-0 flex-1">
+                <p className="font-medium truncate" title={`${entry.artist} - ${entry.album}`}>
+                  {entry.artist} - {entry.album}
+                </p>
+                <p className="text-xs text-muted-foreground truncate">
+                  Missing {entry.tracks.length} of {entry.albumTrackCount} liked tracks
+                  {' · '}saves {entry.tracks.length - 1} search{entry.tracks.length - 1 !== 1 ? 'es' : ''}
+                </p>
+              </div>
+            </label>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={() => onAccept(SlskdAlbumPlannerService.toPushItems(plan, accepted))}>
+            <Upload className="w-4 h-4 mr-2" />
+            Push {searches} search{searches !== 1 ? 'es' : ''}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -3,10 +3,10 @@
  *
  * Configuration UI for connecting to a slskd instance.
  * Allows users to enter their slskd API endpoint and key,
- * configure search format preferences, test the connection,
- * and save the configuration.
+ * configure search format preferences, the download quality policy
+ * and wishlist push pacing, test the connection, and save the configuration.
  *
- * Configuration is stored in browser localStorage.
+ * Configuration is saved to the user's preferences, with the API key in Vault.
  */
 
 import { useState, useEffect } from 'react';
@@ -22,7 +22,12 @@ import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Checkbox } from '@/components/ui/checkbox';
 import { useSlskdConfig } from '@/hooks/useSlskdConfig';
+import { SLSKD_AUDIO_FORMATS } from '@/services/slskdClient.service';
+import { DEFAULT_PUSH_POLICY, DEFAULT_QUALITY_POLICY } from '@/services/slskdStorage.service';
+import { MAX_PUSH_CONCURRENCY } from '@/services/slskdPushQueue.service';
+import type { SlskdPushPolicy, SlskdQualityPolicy } from '@/types/slskd';
 import { Loader2, Server, CheckCircle2, XCircle, Info } from 'lucide-react';
 
 export function SlskdConfigSection() {
@@ -30,6 +35,7 @@ export function SlskdConfigSection() {
     config,
     saveConfig,
     isSaving,
+    isLoading,
     testConnection,
     isTesting,
   } = useSlskdConfig();
@@ -38,6 +44,10 @@ export function SlskdConfigSection() {
   const [apiKey, setApiKey] = useState('');
   const [downloadsFolder, setDownloadsFolder] = useState('');
   const [searchFormat, setSearchFormat] = useState<'primary' | 'full'>('primary');
+  const [qualityPolicy, setQualityPolicy] = useState<SlskdQualityPolicy>(DEFAULT_QUALITY_POLICY);
+  const [pushPolicy, setPushPolicy] = useState<SlskdPushPolicy>(DEFAULT_PUSH_POLICY);
+  // Edited as text so typing commas and spaces isn't fought by re-formatting
+  const [bannedKeywords, setBannedKeywords] = useState('');
 
   // Sync local state with loaded config
   useEffect(() => {
@@ -46,11 +56,29 @@ export function SlskdConfigSection() {
       setApiKey(config.apiKey || '');
       setDownloadsFolder(config.downloadsFolder || '');
       setSearchFormat(config.searchFormat || 'primary');
+      setQualityPolicy(config.qualityPolicy);
+      setBannedKeywords(config.qualityPolicy.bannedKeywords.join(', '));
+      setPushPolicy(config.pushPolicy);
     }
   }, [config]);
 
+  const parsedKeywords = bannedKeywords.split(',').map(k => k.trim()).filter(Boolean);
+  const editedPolicy: SlskdQualityPolicy = { ...qualityPolicy, bannedKeywords: parsedKeywords };
+
+  const updatePolicy = (changes: Partial<SlskdQualityPolicy>) => {
+    setQualityPolicy(prev => ({ ...prev, ...changes }));
+  };
+
+  const toggleFormat = (format: string, allowed: boolean) => {
+    updatePolicy({
+      allowedFormats: allowed
+        ? SLSKD_AUDIO_FORMATS.filter(f => f === format || qualityPolicy.allowedFormats.includes(f))
+        : qualityPolicy.allowedFormats.filter(f => f !== format),
+    });
+  };
+
   const handleSave = () => {
-    saveConfig({ apiEndpoint, apiKey, downloadsFolder, searchFormat });
+    saveConfig({ apiEndpoint, apiKey, downloadsFolder, searchFormat, qualityPolicy: editedPolicy, pushPolicy });
   };
 
   const handleTest = () => {
@@ -62,7 +90,9 @@ export function SlskdConfigSection() {
     (apiEndpoint !== config.apiEndpoint ||
       apiKey !== config.apiKey ||
       downloadsFolder !== config.downloadsFolder ||
-      searchFormat !== config.searchFormat);
+      searchFormat !== config.searchFormat ||
+      JSON.stringify(editedPolicy) !== JSON.stringify(config.qualityPolicy) ||
+      JSON.stringify(pushPolicy) !== JSON.stringify(config.pushPolicy));
 
   const canSave = apiEndpoint.trim() && apiKey.trim();
 
@@ -100,7 +130,7 @@ export function SlskdConfigSection() {
         <Alert>
           <Info className="h-4 w-4" />
           <AlertDescription>
-            Configuration is stored locally in your browser. It is not synced to the server.
+            Configuration is saved to your account and follows you to other browsers. The API key is stored encrypted.
           </AlertDescription>
         </Alert>
 
@@ -161,6 +191,109 @@ export function SlskdConfigSection() {
           </p>
         </div>
 
+        <div className="space-y-3">
+          <div>
+            <Label>Download Quality</Label>
+            <p className="text-sm text-muted-foreground">
+              Search results that fail these rules are listed last and never picked automatically.
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-4">
+            {SLSKD_AUDIO_FORMATS.map(format => (
+              <label key={format} className="flex items-center gap-2 cursor-pointer">
+                <Checkbox
+                  checked={qualityPolicy.allowedFormats.includes(format)}
+                  onCheckedChange={(checked) => toggleFormat(format, checked === true)}
+                />
+                <span className="text-sm uppercase">{format}</span>
+              </label>
+            ))}
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="slskd-min-bitrate" className="text-xs">Min bitrate (kbps)</Label>
+              <Input
+                id="slskd-min-bitrate"
+                type="number"
+                min={0}
+                value={qualityPolicy.minBitrate}
+                onChange={(e) => updatePolicy({ minBitrate: Number(e.target.value) || 0 })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="slskd-min-size" className="text-xs">Min size (MB)</Label>
+              <Input
+                id="slskd-min-size"
+                type="number"
+                min={0}
+                value={qualityPolicy.minSizeMb}
+                onChange={(e) => updatePolicy({ minSizeMb: Number(e.target.value) || 0 })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="slskd-max-size" className="text-xs">Max size (MB, 0 = none)</Label>
+              <Input
+                id="slskd-max-size"
+                type="number"
+                min={0}
+                value={qualityPolicy.maxSizeMb}
+                onChange={(e) => updatePolicy({ maxSizeMb: Number(e.target.value) || 0 })}
+              />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="slskd-banned-keywords" className="text-xs">Banned keywords</Label>
+            <Input
+              id="slskd-banned-keywords"
+              placeholder="snippet, preview, karaoke"
+              value={bannedKeywords}
+              onChange={(e) => setBannedKeywords(e.target.value)}
+            />
+            <p className="text-sm text-muted-foreground">
+              Comma-separated. Minimum bitrate only applies to lossy formats.
+            </p>
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <div>
+            <Label>Wishlist Push Pacing</Label>
+            <p className="text-sm text-muted-foreground">
+              How hard bulk pushes hit slskd. When it answers "too many requests" or a server error,
+              the push waits and tries again.
+            </p>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="slskd-push-concurrency" className="text-xs">
+                Searches at once (1-{MAX_PUSH_CONCURRENCY})
+              </Label>
+              <Input
+                id="slskd-push-concurrency"
+                type="number"
+                min={1}
+                max={MAX_PUSH_CONCURRENCY}
+                value={pushPolicy.concurrency}
+                onChange={(e) => setPushPolicy(prev => ({
+                  ...prev,
+                  concurrency: Math.min(MAX_PUSH_CONCURRENCY, Math.max(1, Number(e.target.value) || 1)),
+                }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="slskd-push-spacing" className="text-xs">Gap between requests (ms)</Label>
+              <Input
+                id="slskd-push-spacing"
+                type="number"
+                min={0}
+                step={50}
+                value={pushPolicy.spacingMs}
+                onChange={(e) => setPushPolicy(prev => ({ ...prev, spacingMs: Math.max(0, Number(e.target.value) || 0) }))}
+              />
+            </div>
+          </div>
+        </div>
+
         {config?.lastConnectionTest && (
           <p className="text-xs text-muted-foreground">
             Last tested:{' '}
@@ -171,7 +304,7 @@ export function SlskdConfigSection() {
         <div className="flex gap-2 pt-2">
           <Button
             onClick={handleSave}
-            disabled={isSaving || !canSave}
+            disabled={isSaving || isLoading || !canSave}
           >
             {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
             Save
@@ -0,0 +1,118 @@
+import React, { useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Loader2, Download, Sparkles, X } from 'lucide-react';
+import { useSlskdSearch } from '@/hooks/useSlskdSearch';
+import type { SlskdCandidate, SlskdTrackToSync } from '@/types/slskd';
+
+interface SlskdSearchResultsPanelProps {
+  track: SlskdTrackToSync;
+  onClose: () => void;
+}
+
+/** Rows shown; the rest are usually duplicates of the same file from other peers */
+const MAX_ROWS = 25;
+
+const basename = (filename: string): string => filename.split(/[\\/]/).pop() || filename;
+
+const formatQuality = (candidate: SlskdCandidate): string => {
+  const { file, format } = candidate;
+  if (file.bitDepth && file.sampleRate) return `${format} ${file.bitDepth}/${file.sampleRate / 1000}kHz`;
+  if (file.bitRate) return `${format} ${file.bitRate}kbps`;
+  return format;
+};
+
+const formatSize = (bytes: number): string => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+/**
+ * slskd search results for one missing track, ranked best first, with a direct
+ * download per file and an auto-pick of the best candidate.
+ */
+export function SlskdSearchResultsPanel({ track, onClose }: SlskdSearchResultsPanelProps) {
+  const { search, download, reset, status, candidates, bestCandidate, searchError, downloading } = useSlskdSearch();
+
+  useEffect(() => {
+    search(track);
+    return reset;
+  }, [track, search, reset]);
+
+  const artist = track.primary_artist || track.artist;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <div className="min-w-0">
+            <CardTitle className="flex items-center gap-2">
+              slskd Results
+              {status === 'searching' && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+            </CardTitle>
+            <CardDescription className="truncate">
+              {artist} - {track.title}
+              {status === 'searching' && ' · searching...'}
+              {status === 'complete' && ` · ${candidates.length} files, ${candidates.filter(c => c.rejectedReason).length} filtered`}
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            <Button
+              size="sm"
+              onClick={() => bestCandidate && download(bestCandidate)}
+              disabled={!bestCandidate || downloading !== null}
+              title={bestCandidate ? `${basename(bestCandidate.file.filename)} from ${bestCandidate.username}` : 'No file passes the quality filter and is a close enough match'}
+            >
+              <Sparkles className="h-4 w-4 mr-2" />
+              Download best candidate
+            </Button>
+            <Button size="sm" variant="ghost" onClick={onClose} title="Close">
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {searchError && <p className="text-sm text-destructive py-4 text-center">{searchError.message}</p>}
+        {status === 'complete' && candidates.length === 0 && (
+          <p className="text-sm text-muted-foreground py-4 text-center">No downloadable audio files found.</p>
+        )}
+
+        <div className="max-h-96 overflow-y-auto space-y-1">
+          {candidates.slice(0, MAX_ROWS).map(candidate => (
+            <div
+              key={`${candidate.username}:${candidate.file.filename}`}
+              className={`flex items-center justify-between gap-2 rounded border border-border px-3 py-2 text-sm ${candidate.rejectedReason ? 'opacity-60' : ''}`}
+            >
+              <div className="min-w-0" title={candidate.file.filename}>
+                <p className="font-medium truncate">{basename(candidate.file.filename)}</p>
+                <p className="text-xs text-muted-foreground truncate">
+                  {candidate.username} · {formatQuality(candidate)} · {formatSize(candidate.file.size)}
+                  {candidate.queueLength > 0 && ` · ${candidate.queueLength} queued`}
+                </p>
+                {candidate.rejectedReason && (
+                  <p className="text-xs text-amber-600 truncate">Filtered: {candidate.rejectedReason}</p>
+                )}
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                {candidate === bestCandidate && <Badge>Best</Badge>}
+                {candidate.hasFreeUploadSlot && <Badge variant="outline">Free slot</Badge>}
+                <Badge variant="secondary">{Math.round(candidate.score * 100)}%</Badge>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  title="Download this file"
+                  onClick={() => download(candidate)}
+                  disabled={downloading !== null}
+                >
+                  {downloading === candidate.file.filename
+                    ? <Loader2 className="h-4 w-4 animate-spin" />
+                    : <Download className="h-4 w-4" />
+                  }
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,6 +3,7 @@
  *
  * Modal dialog showing progress and results of syncing tracks to slskd wishlist.
  * Displays real-time progress during sync and final results when complete.
+ * The push runs in the background, so the dialog can be closed mid-sync.
  */
 
 import {
@@ -16,16 +17,13 @@ import { Progress } from '@/components/ui/progress';
 import { Button } from '@/components/ui/button';
 import { CheckCircle2, XCircle, AlertCircle, Loader2 } from 'lucide-react';
 import type { SlskdSyncResult } from '@/types/slskd';
-
-interface SyncProgress {
-  current: number;
-  total: number;
-  currentTrack: string;
-}
+import type { SyncProgress } from '@/hooks/useSlskdSync';
 
 interface SlskdSyncProgressProps {
   isOpen: boolean;
   onClose: () => void;
+  /** Stop the push; tracks not pushed yet are dropped */
+  onStop: () => void;
   isSyncing: boolean;
   progress: SyncProgress | null;
   result: SlskdSyncResult | null;
@@ -34,6 +32,7 @@ interface SlskdSyncProgressProps {
 export function SlskdSyncProgress({
   isOpen,
   onClose,
+  onStop,
   isSyncing,
   progress,
   result,
@@ -45,7 +44,7 @@ export function SlskdSyncProgress({
     : 0;
 
   return (
-    <Dialog open={isOpen} onOpenChange={(open) => !open && !isSyncing && onClose()}>
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
       <DialogContent className="sm:max-w-md">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
@@ -54,7 +53,7 @@ export function SlskdSyncProgress({
           </DialogTitle>
           <DialogDescription>
             {isSyncing
-              ? 'Adding tracks to slskd wishlist...'
+              ? 'Adding tracks to slskd wishlist. This carries on if you close this or reload the page.'
               : 'Wishlist sync results'}
           </DialogDescription>
         </DialogHeader>
@@ -66,11 +65,19 @@ export function SlskdSyncProgress({
           {isSyncing && progress && (
             <div className="space-y-2">
               <p className="text-sm text-muted-foreground">
-                Processing {progress.current} of {progress.total}
+                Pushed {progress.current} of {progress.total}
               </p>
               <p className="text-sm font-medium truncate" title={progress.currentTrack}>
                 {progress.currentTrack}
               </p>
+              {progress.backoffUntil && (
+                <p className="text-sm text-yellow-600">
+                  slskd is busy; retrying at {new Date(progress.backoffUntil).toLocaleTimeString()}
+                </p>
+              )}
+              <Button variant="outline" onClick={onStop} className="w-full">
+                Stop
+              </Button>
             </div>
           )}
 
@@ -0,0 +1,141 @@
+/**
+ * SlskdTransfersDialog Component
+ *
+ * Live view of slskd downloads: per-file state, progress, speed and errors, with
+ * cancel and retry. Each download shows the Spotify track it was queued for.
+ */
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Progress } from '@/components/ui/progress';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Loader2, RotateCcw, X, Music } from 'lucide-react';
+import { useSlskdTransfers, type SlskdTransferView } from '@/hooks/useSlskdTransfers';
+import type { SlskdTransferStatus } from '@/types/slskd';
+
+interface SlskdTransfersDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Completed downloads are recorded on this user's acquisition records */
+  userId: string | null;
+}
+
+const STATUS_BADGES: Record<SlskdTransferStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  queued: { label: 'Queued', variant: 'outline' },
+  downloading: { label: 'Downloading', variant: 'secondary' },
+  completed: { label: 'Completed', variant: 'default' },
+  failed: { label: 'Failed', variant: 'destructive' },
+  cancelled: { label: 'Cancelled', variant: 'outline' },
+};
+
+const basename = (filename: string): string => filename.split(/[\\/]/).pop() || filename;
+
+const formatSpeed = (bytesPerSecond: number): string =>
+  bytesPerSecond >= 1024 * 1024
+    ? `${(bytesPerSecond / 1024 / 1024).toFixed(1)} MB/s`
+    : `${Math.round(bytesPerSecond / 1024)} KB/s`;
+
+function TransferRow({
+  view,
+  pending,
+  onCancel,
+  onRetry,
+}: {
+  view: SlskdTransferView;
+  pending: boolean;
+  onCancel: () => void;
+  onRetry: () => void;
+}) {
+  const { transfer, status, origin } = view;
+  const badge = STATUS_BADGES[status];
+  const active = status === 'queued' || status === 'downloading';
+
+  return (
+    <div className="rounded border border-border px-3 py-2 text-sm space-y-1">
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0" title={transfer.filename}>
+          <p className="font-medium truncate">{basename(transfer.filename)}</p>
+          <p className="text-xs text-muted-foreground truncate">
+            {transfer.username}
+            {status === 'downloading' && transfer.averageSpeed > 0 && ` · ${formatSpeed(transfer.averageSpeed)}`}
+          </p>
+        </div>
+        <div className="flex items-center gap-1 shrink-0">
+          <Badge variant={badge.variant}>{badge.label}</Badge>
+          {active && (
+            <Button size="sm" variant="ghost" title="Cancel download" onClick={onCancel} disabled={pending}>
+              {pending ? <Loader2 className="h-4 w-4 animate-spin" /> : <X className="h-4 w-4" />}
+            </Button>
+          )}
+          {(status === 'failed' || status === 'cancelled') && (
+            <Button size="sm" variant="ghost" title="Retry download" onClick={onRetry} disabled={pending}>
+              {pending ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCcw className="h-4 w-4" />}
+            </Button>
+          )}
+        </div>
+      </div>
+      {status === 'downloading' && <Progress value={transfer.percentComplete} className="h-1.5" />}
+      {status === 'failed' && (
+        <p className="text-xs text-destructive truncate" title={transfer.exception}>
+          {transfer.exception || transfer.state}
+        </p>
+      )}
+      {origin && (
+        <p className="text-xs text-muted-foreground flex items-center gap-1 truncate">
+          <Music className="h-3 w-3 shrink-0" />
+          {status === 'completed' ? 'Downloaded for' : 'For'} {origin.artist} - {origin.title}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export function SlskdTransfersDialog({ isOpen, onClose, userId }: SlskdTransfersDialogProps) {
+  const { transfers, isLoading, error, pendingId, cancel, retry } = useSlskdTransfers(isOpen, userId);
+
+  const counts = transfers.reduce<Partial<Record<SlskdTransferStatus, number>>>((acc, view) => {
+    acc[view.status] = (acc[view.status] ?? 0) + 1;
+    return acc;
+  }, {});
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {isLoading && <Loader2 className="h-5 w-5 animate-spin" />}
+            slskd Transfers
+          </DialogTitle>
+          <DialogDescription>
+            {transfers.length === 0
+              ? 'Downloads queued in slskd'
+              : `${counts.downloading ?? 0} downloading, ${counts.queued ?? 0} queued, ${counts.completed ?? 0} completed, ${counts.failed ?? 0} failed`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && <p className="text-sm text-destructive">{error.message}</p>}
+        {!isLoading && !error && transfers.length === 0 && (
+          <p className="text-sm text-muted-foreground py-4 text-center">No downloads in slskd.</p>
+        )}
+
+        <div className="max-h-[28rem] overflow-y-auto space-y-1">
+          {transfers.map(view => (
+            <TransferRow
+              key={view.transfer.id}
+              view={view}
+              pending={pendingId === view.transfer.id}
+              onCancel={() => cancel(view.transfer)}
+              onRetry={() => retry(view.transfer)}
+            />
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
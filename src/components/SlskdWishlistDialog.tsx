@@ -0,0 +1,187 @@
+/**
+ * SlskdWishlistDialog Component
+ *
+ * Every search in the slskd wishlist with its state, age and whether its Spotify
+ * track is matched locally, with bulk delete of finished, orphaned and stale
+ * searches.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Loader2, Trash2, CheckCircle2 } from 'lucide-react';
+import { useSlskdWishlist } from '@/hooks/useSlskdWishlist';
+import { WISHLIST_STALE_DAYS } from '@/services/slskdClient.service';
+import type { SlskdWishlistCategory, SlskdWishlistEntry } from '@/types/slskd';
+
+interface SlskdWishlistDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Searches are linked to this user's Spotify tracks through their acquisition records */
+  userId: string | null;
+}
+
+type Filter = 'all' | SlskdWishlistCategory;
+
+const FILTERS: Array<{ value: Filter; label: string; title: string }> = [
+  { value: 'all', label: 'All', title: 'Every search in the wishlist' },
+  { value: 'finished', label: 'Finished', title: 'Completed, timed out, errored or cancelled' },
+  { value: 'orphaned', label: 'Orphaned', title: 'Not linked to a Spotify track' },
+  { value: 'stale', label: 'Stale', title: `Track matched locally, or older than ${WISHLIST_STALE_DAYS} days` },
+];
+
+const formatAge = (ageDays: number | null): string => {
+  if (ageDays === null) return 'age unknown';
+  if (ageDays === 0) return 'today';
+  return ageDays === 1 ? '1 day old' : `${ageDays} days old`;
+};
+
+function WishlistRow({
+  entry,
+  selected,
+  onToggle,
+}: {
+  entry: SlskdWishlistEntry;
+  selected: boolean;
+  onToggle: () => void;
+}) {
+  const { search, ageDays, spotifyTrackId, matched } = entry;
+
+  return (
+    <label className="flex items-center gap-3 rounded border border-border px-3 py-2 text-sm cursor-pointer">
+      <Checkbox checked={selected} onCheckedChange={onToggle} />
+      <div className="min-w-0 flex-1">
+        <p className="font-medium truncate" title={search.searchText}>{search.searchText}</p>
+        <p className="text-xs text-muted-foreground truncate">
+          {formatAge(ageDays)}
+          {search.responseCount ? ` · ${search.responseCount} responses` : ' · no responses'}
+        </p>
+      </div>
+      <div className="flex items-center gap-1 shrink-0">
+        {!spotifyTrackId && <Badge variant="outline">No Spotify track</Badge>}
+        {matched && (
+          <Badge variant="default" className="gap-1">
+            <CheckCircle2 className="h-3 w-3" />
+            Matched locally
+          </Badge>
+        )}
+        <Badge variant={search.state.includes('InProgress') ? 'secondary' : 'outline'}>{search.state}</Badge>
+      </div>
+    </label>
+  );
+}
+
+export function SlskdWishlistDialog({ isOpen, onClose, userId }: SlskdWishlistDialogProps) {
+  const { entries, isLoading, isDeleting, error, deleteSearches } = useSlskdWishlist(isOpen, userId);
+  const [filter, setFilter] = useState<Filter>('all');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const visible = useMemo(
+    () => (filter === 'all' ? entries : entries.filter(entry => entry.categories.includes(filter))),
+    [entries, filter]
+  );
+
+  // Drop selections for searches that are gone or hidden by the filter
+  useEffect(() => {
+    const visibleIds = new Set(visible.map(entry => entry.search.id));
+    setSelected(prev => new Set([...prev].filter(id => visibleIds.has(id))));
+  }, [visible]);
+
+  const counts = useMemo(() => {
+    const result: Record<Filter, number> = { all: entries.length, finished: 0, orphaned: 0, stale: 0 };
+    for (const entry of entries) {
+      for (const category of entry.categories) result[category]++;
+    }
+    return result;
+  }, [entries]);
+
+  const toggle = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const allSelected = visible.length > 0 && visible.every(entry => selected.has(entry.search.id));
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[720px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {isLoading && <Loader2 className="h-5 w-5 animate-spin" />}
+            slskd Wishlist
+          </DialogTitle>
+          <DialogDescription>
+            {entries.length === 0
+              ? 'Searches in the slskd wishlist'
+              : `${counts.all} searches: ${counts.finished} finished, ${counts.orphaned} orphaned, ${counts.stale} stale`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between gap-2 flex-wrap">
+          <div className="flex gap-1">
+            {FILTERS.map(option => (
+              <Button
+                key={option.value}
+                size="sm"
+                variant={filter === option.value ? 'default' : 'outline'}
+                title={option.title}
+                onClick={() => setFilter(option.value)}
+              >
+                {option.label} ({counts[option.value]})
+              </Button>
+            ))}
+          </div>
+          <div className="flex gap-1">
+            <Button
+              size="sm"
+              variant="ghost"
+              disabled={visible.length === 0}
+              onClick={() => setSelected(allSelected ? new Set() : new Set(visible.map(entry => entry.search.id)))}
+            >
+              {allSelected ? 'Select none' : 'Select all'}
+            </Button>
+            <Button
+              size="sm"
+              variant="destructive"
+              disabled={selected.size === 0 || isDeleting}
+              onClick={() => deleteSearches([...selected])}
+            >
+              {isDeleting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Trash2 className="h-4 w-4 mr-2" />}
+              Delete {selected.size > 0 ? selected.size : ''} selected
+            </Button>
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error.message}</p>}
+        {!isLoading && !error && visible.length === 0 && (
+          <p className="text-sm text-muted-foreground py-4 text-center">
+            {filter === 'all' ? 'The slskd wishlist is empty.' : 'No searches in this group.'}
+          </p>
+        )}
+
+        <div className="max-h-[28rem] overflow-y-auto space-y-1">
+          {visible.map(entry => (
+            <WishlistRow
+              key={entry.search.id}
+              entry={entry}
+              selected={selected.has(entry.search.id)}
+              onToggle={() => toggle(entry.search.id)}
+            />
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
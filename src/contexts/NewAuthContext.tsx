@@ -9,6 +9,7 @@ import { AuthStateRecoveryService } from '@/services/authStateRecovery.service';
 import { ErrorHandlingService } from '@/services/errorHandling.service';
 import { ErrorLoggingService } from '@/services/errorLogging.service';
 import { sessionCache } from '@/services/sessionCache.service';
+import { SlskdConfigService } from '@/services/slskdConfig.service';
 import { startupSessionValidator } from '@/services/startupSessionValidator.service';
 import { tokenPersistenceGateway } from '@/services/tokenPersistenceGateway.service';
 import { useAuthErrors } from '@/hooks/useAuthErrors';
@@ -159,6 +160,8 @@ export const NewAuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     setSession(null);
     setProfile(null);
     setRole(null);
+    // Drop the slskd config so its API key doesn't outlive the session
+    SlskdConfigService.reset();
   }, []); // Empty dependency array - no state dependencies
 
   // Initialize auth state with aggressive startup validation
@@ -3,6 +3,9 @@ import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { scanDirectoryForLocalFiles } from '@/services/fileScanner';
 import { extractMetadataBatch } from '@/services/metadataExtractor';
+import { DEFAULT_SUPER_GENRE_TAG_TARGET } from '@/services/superGenreTagTarget';
+import { UserPreferencesService } from '@/services/userPreferences.service';
+import type { SuperGenreTagTarget } from '@/types/audioTags';
 import { withTimeout } from '@/utils/promiseUtils';
 import { generateFileHash } from '@/utils/fileHash';
 
@@ -103,6 +106,14 @@ export const useLocalScanner = (onScanComplete?: () => void) => {
         console.warn('⚠️ Hash load failed, proceeding without skip logic:', hashLoadErr);
       }
 
+      // SuperGenres are read back from the tag processing writes them to
+      let superGenreTarget: SuperGenreTagTarget = DEFAULT_SUPER_GENRE_TAG_TARGET;
+      try {
+        superGenreTarget = await UserPreferencesService.getSuperGenreTagTarget(user.id);
+      } catch (targetErr) {
+        console.warn('⚠️ SuperGenre tag target load failed, reading Grouping:', targetErr);
+      }
+
       // Import normalization service once
       const { NormalizationService } = await import('@/services/normalization.service');
       const normalizer = new NormalizationService();
@@ -149,7 +160,8 @@ export const useLocalScanner = (onScanComplete?: () => void) => {
           newFiles,
           (current, _total) => {
             setScanProgress({ current: i + (fileBatch.length - newFiles.length) + current, total: localFiles.length });
-          }
+          },
+          superGenreTarget
         );
 
         processedCount += scannedTracks.length;
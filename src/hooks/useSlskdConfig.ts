@@ -1,32 +1,51 @@
 /**
  * useSlskdConfig Hook
  *
- * Manages slskd configuration stored in browser localStorage.
- * Provides config state, save/test functionality, and cross-tab sync.
+ * Manages the slskd configuration saved in user_preferences, with the API key
+ * in Vault. Loads it once signed in (migrating an old localStorage config) and
+ * provides config state and save/test functionality.
  */
 
 import { useState, useEffect, useCallback } from 'react';
 import { SlskdStorageService } from '@/services/slskdStorage.service';
+import { SlskdConfigService } from '@/services/slskdConfig.service';
 import { SlskdClientService } from '@/services/slskdClient.service';
 import type { SlskdConfig } from '@/types/slskd';
+import { useAuth } from '@/contexts/NewAuthContext';
 import { useToast } from '@/hooks/use-toast';
 
 export function useSlskdConfig() {
   const { toast } = useToast();
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
   const [config, setConfig] = useState<SlskdConfig>(SlskdStorageService.getConfig);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
   const [isSaving, setIsSaving] = useState(false);
   const [isTesting, setIsTesting] = useState(false);
 
-  // Reload config if localStorage changes (e.g., from another tab)
+  // Follow changes made through any other component using this hook
+  useEffect(() => SlskdStorageService.subscribe(setConfig), []);
+
   useEffect(() => {
-    const handleStorageChange = (e: StorageEvent) => {
-      if (e.key === SlskdStorageService.getStorageKey()) {
-        setConfig(SlskdStorageService.getConfig());
-      }
+    if (!userId) return;
+    let cancelled = false;
+    setIsLoading(true);
+    SlskdConfigService.loadConfig(userId)
+      .then(() => {
+        if (!cancelled) setError(null);
+      })
+      .catch((err) => {
+        console.error('Failed to load slskd config:', err);
+        if (!cancelled) setError(err instanceof Error ? err : new Error('Failed to load slskd config'));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
     };
-    window.addEventListener('storage', handleStorageChange);
-    return () => window.removeEventListener('storage', handleStorageChange);
-  }, []);
+  }, [userId]);
 
   /**
    * Save configuration and test connection
@@ -34,6 +53,7 @@ export function useSlskdConfig() {
   const saveConfig = useCallback(async (
     newConfig: Omit<SlskdConfig, 'connectionStatus' | 'lastConnectionTest'>
   ) => {
+    if (!userId) return false;
     setIsSaving(true);
 
     try {
@@ -45,14 +65,12 @@ export function useSlskdConfig() {
       };
       const isValid = await SlskdClientService.testConnection(testConfig);
 
-      const updated = SlskdStorageService.saveConfig({
+      await SlskdConfigService.saveConfig(userId, {
         ...newConfig,
         connectionStatus: isValid,
         lastConnectionTest: new Date().toISOString(),
       });
 
-      setConfig(updated);
-
       toast({
         title: isValid ? 'Connection Successful' : 'Connection Failed',
         description: isValid
@@ -73,7 +91,7 @@ export function useSlskdConfig() {
     } finally {
       setIsSaving(false);
     }
-  }, [toast]);
+  }, [userId, toast]);
 
   /**
    * Test connection without saving
@@ -115,20 +133,28 @@ export function useSlskdConfig() {
   /**
    * Clear all configuration
    */
-  const clearConfig = useCallback(() => {
-    SlskdStorageService.clearConfig();
-    setConfig(SlskdStorageService.getConfig());
-    toast({
-      title: 'Configuration Cleared',
-      description: 'slskd configuration has been removed',
-    });
-  }, [toast]);
+  const clearConfig = useCallback(async () => {
+    if (!userId) return;
+    try {
+      await SlskdConfigService.clearConfig(userId);
+      toast({
+        title: 'Configuration Cleared',
+        description: 'slskd configuration has been removed',
+      });
+    } catch (err) {
+      toast({
+        title: 'Clear Failed',
+        description: err instanceof Error ? err.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    }
+  }, [userId, toast]);
 
   return {
     config,
-    isConfigured: SlskdStorageService.isConfigured(),
-    isLoading: false, // localStorage is synchronous
-    error: null,
+    isConfigured: Boolean(config.apiEndpoint && config.apiKey),
+    isLoading,
+    error,
     saveConfig,
     clearConfig,
     isSaving,
@@ -0,0 +1,144 @@
+/**
+ * useSlskdSearch Hook
+ *
+ * Searches slskd for a single track, polls until the search finishes and ranks
+ * the files found so one can be downloaded directly.
+ * Uses localStorage-based configuration from SlskdStorageService.
+ */
+
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { SlskdClientService } from '@/services/slskdClient.service';
+import { SlskdStorageService } from '@/services/slskdStorage.service';
+import type { SlskdCandidate, SlskdTrackToSync } from '@/types/slskd';
+import { useToast } from '@/hooks/use-toast';
+
+const POLL_INTERVAL_MS = 2000;
+const MAX_POLL_MS = 30000;
+
+export type SlskdSearchStatus = 'idle' | 'searching' | 'complete' | 'error';
+
+export function useSlskdSearch() {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<SlskdSearchStatus>('idle');
+  const [candidates, setCandidates] = useState<SlskdCandidate[]>([]);
+  const [searchError, setSearchError] = useState<Error | null>(null);
+  const [downloading, setDownloading] = useState<string | null>(null);
+  // Bumped on every new search and on cancel, so a stale poll loop stops itself
+  const runRef = useRef(0);
+  const trackRef = useRef<SlskdTrackToSync | null>(null);
+
+  useEffect(() => () => {
+    runRef.current++;
+  }, []);
+
+  /**
+   * Search for a track, reusing an existing slskd search for the same text
+   */
+  const search = useCallback(async (track: SlskdTrackToSync) => {
+    const run = ++runRef.current;
+    trackRef.current = track;
+    setStatus('searching');
+    setCandidates([]);
+    setSearchError(null);
+
+    try {
+      const config = SlskdStorageService.getConfig();
+      if (!config.apiEndpoint || !config.apiKey) {
+        throw new Error('slskd not configured. Go to Settings → Security to configure.');
+      }
+
+      const searchText = SlskdClientService.formatSearchQuery(
+        track.primary_artist || track.artist,
+        track.title,
+        config.searchFormat
+      );
+      const normalized = SlskdClientService.normalizeSearchText(searchText);
+      const existing = (await SlskdClientService.getExistingSearches(config))
+        .find(s => SlskdClientService.normalizeSearchText(s.searchText) === normalized);
+      const searchId = existing?.id || (await SlskdClientService.addToWishlist(config, searchText)).id;
+
+      const startedAt = Date.now();
+      for (;;) {
+        const [current, responses] = await Promise.all([
+          SlskdClientService.getSearch(config, searchId),
+          SlskdClientService.getSearchResponses(config, searchId),
+        ]);
+        if (run !== runRef.current) return;
+
+        setCandidates(SlskdClientService.rankSearchCandidates(responses, track, config.qualityPolicy));
+
+        // slskd reports states as flags, e.g. "Completed, Succeeded"
+        if (!current.state.includes('InProgress') || Date.now() - startedAt >= MAX_POLL_MS) break;
+        await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+        if (run !== runRef.current) return;
+      }
+
+      setStatus('complete');
+    } catch (error) {
+      if (run !== runRef.current) return;
+      const err = error instanceof Error ? error : new Error('Unknown error');
+      setSearchError(err);
+      setStatus('error');
+      toast({ title: 'slskd search failed', description: err.message, variant: 'destructive' });
+    }
+  }, [toast]);
+
+  /**
+   * Queue a download of one candidate file from its peer
+   */
+  const download = useCallback(async (candidate: SlskdCandidate) => {
+    const config = SlskdStorageService.getConfig();
+    setDownloading(candidate.file.filename);
+
+    try {
+      await SlskdClientService.enqueueDownload(config, candidate.username, [
+        { filename: candidate.file.filename, size: candidate.file.size },
+      ]);
+      const track = trackRef.current;
+      if (track) {
+        SlskdStorageService.recordDownloadOrigins([{
+          spotifyTrackId: track.id,
+          title: track.title,
+          artist: track.artist,
+          primary_artist: track.primary_artist,
+          username: candidate.username,
+          filename: candidate.file.filename,
+          queuedAt: new Date().toISOString(),
+        }]);
+      }
+      toast({
+        title: 'Download queued',
+        description: `${candidate.file.filename.split(/[\\/]/).pop()} from ${candidate.username}`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Failed to queue download',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    } finally {
+      setDownloading(null);
+    }
+  }, [toast]);
+
+  /**
+   * Stop polling and clear results
+   */
+  const reset = useCallback(() => {
+    runRef.current++;
+    setStatus('idle');
+    setCandidates([]);
+    setSearchError(null);
+  }, []);
+
+  return {
+    search,
+    download,
+    reset,
+    status,
+    candidates,
+    bestCandidate: SlskdClientService.pickBestCandidate(candidates),
+    searchError,
+    downloading,
+  };
+}
@@ -0,0 +1,100 @@
+/**
+ * useSlskdSearchRetries Hook
+ *
+ * Follows up on wishlisted tracks whose slskd searches came back empty:
+ * re-queues each with the next query strategy, and records the strategy that
+ * found results once a search has responses.
+ * Uses localStorage-based configuration from SlskdStorageService.
+ */
+
+import { useState, useCallback } from 'react';
+import { SlskdClientService, SEARCH_STRATEGY_LABELS } from '@/services/slskdClient.service';
+import { SlskdStorageService } from '@/services/slskdStorage.service';
+import { TrackAcquisitionService } from '@/services/trackAcquisition.service';
+import { useToast } from '@/hooks/use-toast';
+
+export interface SlskdSearchRetryResult {
+  /** Searches that found results since the last check */
+  found: number;
+  /** Empty searches re-queued with the next strategy */
+  requeued: number;
+  /** Empty searches with no strategy left to try */
+  exhausted: number;
+}
+
+export function useSlskdSearchRetries() {
+  const { toast } = useToast();
+  const [isRetrying, setIsRetrying] = useState(false);
+
+  /**
+   * Check the user's pending searches once, re-queueing the empty ones
+   */
+  const retryFailedSearches = useCallback(async (userId: string): Promise<SlskdSearchRetryResult> => {
+    const result: SlskdSearchRetryResult = { found: 0, requeued: 0, exhausted: 0 };
+    const config = SlskdStorageService.getConfig();
+    if (!config.apiEndpoint || !config.apiKey) return result;
+
+    setIsRetrying(true);
+    try {
+      const pending = await TrackAcquisitionService.getPendingSearches(userId);
+      if (pending.length === 0) return result;
+
+      const searches = await SlskdClientService.getExistingSearches(config);
+      const searchesById = new Map(searches.map(search => [search.id, search]));
+
+      for (const { id, slskd_search_id, search_strategy, track } of pending) {
+        const search = searchesById.get(slskd_search_id);
+        // Removed from slskd by hand; nothing to follow up
+        if (!search) continue;
+        const strategy = search_strategy ?? 'artist-title';
+
+        if (search.responseCount) {
+          await TrackAcquisitionService.recordSearchFound(id, strategy);
+          result.found++;
+          continue;
+        }
+        if (!SlskdClientService.isSearchExhausted(search)) continue;
+
+        const next = SlskdClientService.nextSearchStrategy(track, strategy, config.searchFormat);
+        if (!next) {
+          result.exhausted++;
+          continue;
+        }
+
+        // Reuse a live search with the same text rather than queueing a duplicate
+        const normalized = SlskdClientService.normalizeSearchText(next.searchText);
+        const existing = searches.find(s =>
+          s.state !== 'Cancelled' && SlskdClientService.normalizeSearchText(s.searchText) === normalized
+        );
+        const requeued = existing ?? await SlskdClientService.addToWishlist(config, next.searchText);
+        if (!existing) {
+          searches.push(requeued);
+          // Small delay to avoid rate limiting
+          await new Promise(resolve => setTimeout(resolve, 100));
+        }
+
+        await TrackAcquisitionService.recordSearchRequeued(id, requeued.id, next.strategy);
+        console.log(`🔁 Re-queued "${track.title}" by ${SEARCH_STRATEGY_LABELS[next.strategy]}: ${next.searchText}`);
+        result.requeued++;
+      }
+
+      if (result.requeued > 0) {
+        toast({
+          title: 'Retrying slskd searches',
+          description: `Re-queued ${result.requeued} searches that found nothing with a different query.`,
+        });
+      }
+      return result;
+    } catch (error) {
+      console.error('Error retrying slskd searches:', error);
+      return result;
+    } finally {
+      setIsRetrying(false);
+    }
+  }, [toast]);
+
+  return {
+    retryFailedSearches,
+    isRetrying,
+  };
+}
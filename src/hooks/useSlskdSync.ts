@@ -1,121 +1,108 @@
 /**
  * useSlskdSync Hook
  *
- * Handles syncing tracks to slskd wishlist.
- * Uses localStorage-based configuration from SlskdStorageService.
+ * Handles syncing tracks to slskd wishlist. Bulk pushes go through
+ * SlskdPushQueueService, so they keep going across pages and resume after a
+ * reload; this hook follows whichever push is current.
+ * Uses the configuration cached in SlskdStorageService.
  */
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { SlskdClientService } from '@/services/slskdClient.service';
 import { SlskdStorageService } from '@/services/slskdStorage.service';
-import type { SlskdSyncResult, SlskdTrackToSync } from '@/types/slskd';
+import { SlskdPushQueueService, itemTracks } from '@/services/slskdPushQueue.service';
+import type { SlskdPushItem, SlskdPushQueueState, SlskdSyncResult, SlskdTrackToSync } from '@/types/slskd';
+import { useAuth } from '@/contexts/NewAuthContext';
 import { useToast } from '@/hooks/use-toast';
 
-interface SyncProgress {
+export interface SyncProgress {
   current: number;
   total: number;
   currentTrack: string;
+  /** Set while slskd is rate limiting, until the next attempt */
+  backoffUntil?: string;
 }
 
 export function useSlskdSync() {
   const { toast } = useToast();
-  const [isSyncing, setIsSyncing] = useState(false);
-  const [syncResult, setSyncResult] = useState<SlskdSyncResult | undefined>();
-  const [syncError, setSyncError] = useState<Error | null>(null);
-  const [progress, setProgress] = useState<SyncProgress | null>(null);
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+  const [queue, setQueue] = useState<SlskdPushQueueState | null>(SlskdPushQueueService.getState);
+  const statusRef = useRef(queue?.status);
+
+  // Follow the push wherever it was started, and report when it ends
+  useEffect(() => SlskdPushQueueService.subscribe(state => {
+    const wasRunning = statusRef.current === 'running';
+    statusRef.current = state?.status;
+    setQueue(state);
+    if (!wasRunning || !state) return;
+
+    if (state.status === 'done') {
+      const { addedCount, skippedCount, failedCount } = state.result;
+      toast({
+        title: 'Sync Complete',
+        description: `Added ${addedCount}, Skipped ${skippedCount}, Failed ${failedCount}`,
+      });
+    } else if (state.status === 'failed') {
+      toast({ title: 'Sync Failed', description: state.error, variant: 'destructive' });
+    }
+  }), [toast]);
+
+  // Errors thrown by the queue itself, rather than reported in its state
+  const toastSyncError = useCallback((title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : 'Unknown error',
+      variant: 'destructive',
+    });
+  }, [toast]);
+
+  // Pick up a push a reload interrupted, once the config has loaded
+  useEffect(() => {
+    if (!userId) return;
+    const resume = () => {
+      if (!SlskdStorageService.isConfigured()) return;
+      SlskdPushQueueService.resume(userId).catch(error => toastSyncError('Sync Failed', error));
+    };
+    resume();
+    return SlskdStorageService.subscribe(resume);
+  }, [userId, toastSyncError]);
+
+  const current = queue && queue.userId === userId ? queue : null;
+  const isSyncing = current?.status === 'running';
+  const failure = current?.status === 'failed' ? current.error ?? 'Unknown error' : null;
+  const syncError = useMemo(() => (failure ? new Error(failure) : null), [failure]);
 
   /**
-   * Sync tracks to slskd wishlist
+   * Add tracks (or album searches) to the push queue. Resolves with the push's
+   * result once the queue is empty.
    */
   const syncToSlskdAsync = useCallback(async (
-    tracks: SlskdTrackToSync[]
+    tracks: SlskdPushItem[]
   ): Promise<SlskdSyncResult> => {
-    const config = SlskdStorageService.getConfig();
-
-    if (!config.apiEndpoint || !config.apiKey) {
+    if (!SlskdStorageService.isConfigured()) {
       throw new Error('slskd not configured. Go to Settings → Security to configure.');
     }
-
-    const existingSearches = await SlskdClientService.getExistingSearches(config);
-
-    const result: SlskdSyncResult = {
-      totalTracks: tracks.length,
-      addedCount: 0,
-      skippedCount: 0,
-      failedCount: 0,
-      errors: [],
-    };
-
-    for (let i = 0; i < tracks.length; i++) {
-      const track = tracks[i];
-      const artist = track.primary_artist || track.artist;
-      const searchText = SlskdClientService.formatSearchQuery(
-        artist,
-        track.title,
-        config.searchFormat
-      );
-
-      setProgress({
-        current: i + 1,
-        total: tracks.length,
-        currentTrack: `${artist} - ${track.title}`,
-      });
-
-      if (SlskdClientService.isSearchDuplicate(existingSearches, searchText)) {
-        result.skippedCount++;
-        continue;
-      }
-
-      try {
-        await SlskdClientService.addToWishlist(config, searchText);
-        result.addedCount++;
-        // Add to local list to prevent duplicates within same batch
-        existingSearches.push({ id: '', searchText, state: 'InProgress' });
-      } catch (error) {
-        result.failedCount++;
-        result.errors.push({
-          track: `${artist} - ${track.title}`,
-          error: error instanceof Error ? error.message : 'Unknown error',
-        });
-      }
-
-      // Small delay to avoid rate limiting
-      await new Promise(resolve => setTimeout(resolve, 100));
+    if (!userId) {
+      throw new Error('Sign in to push tracks to slskd.');
     }
 
-    return result;
-  }, []);
+    return SlskdPushQueueService.enqueue(userId, tracks);
+  }, [userId]);
 
   /**
-   * Sync tracks with state management and toast notifications
+   * Sync tracks in the background; progress and the result come from the queue
    */
-  const syncToSlskd = useCallback((tracks: SlskdTrackToSync[]) => {
-    setIsSyncing(true);
-    setSyncError(null);
-    setSyncResult(undefined);
-    setProgress({ current: 0, total: tracks.length, currentTrack: '' });
-
-    syncToSlskdAsync(tracks)
-      .then((result) => {
-        setSyncResult(result);
-        toast({
-          title: 'Sync Complete',
-          description: `Added ${result.addedCount}, Skipped ${result.skippedCount}, Failed ${result.failedCount}`,
-        });
-      })
-      .catch((error: Error) => {
-        setSyncError(error);
-        toast({
-          title: 'Sync Failed',
-          description: error.message,
-          variant: 'destructive',
-        });
-      })
-      .finally(() => {
-        setIsSyncing(false);
-        setProgress(null);
-      });
-  }, [syncToSlskdAsync, toast]);
+  const syncToSlskd = useCallback((tracks: SlskdPushItem[]) => {
+    syncToSlskdAsync(tracks).catch(error => toastSyncError('Sync Failed', error));
+  }, [syncToSlskdAsync, toastSyncError]);
+
+  /**
+   * Stop the current push; tracks not pushed yet are dropped
+   */
+  const cancelSync = useCallback(() => {
+    SlskdPushQueueService.cancel().catch(error => toastSyncError('Cancel Failed', error));
+  }, [toastSyncError]);
 
   /**
    * Push a single album to slskd wishlist (no progress modal — single-shot)
@@ -159,20 +146,28 @@ export function useSlskdSync() {
   }, [toast]);
 
   /**
-   * Reset sync state
+   * Forget a finished push
    */
   const reset = useCallback(() => {
-    setSyncResult(undefined);
-    setSyncError(null);
-    setProgress(null);
+    SlskdPushQueueService.clear();
   }, []);
 
+  const progress: SyncProgress | null = isSyncing && current
+    ? {
+        current: current.result.totalTracks - current.pending.flatMap(itemTracks).length,
+        total: current.result.totalTracks,
+        currentTrack: current.currentTrack,
+        backoffUntil: current.backoffUntil,
+      }
+    : null;
+
   return {
     syncToSlskd,
     syncToSlskdAsync,
     syncAlbumToSlskd,
+    cancelSync,
     isSyncing,
-    syncResult,
+    syncResult: current && !isSyncing ? current.result : undefined,
     syncError,
     progress,
     reset,
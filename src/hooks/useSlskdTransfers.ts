@@ -0,0 +1,151 @@
+/**
+ * useSlskdTransfers Hook
+ *
+ * Polls slskd's downloads while enabled, linking each one back to the Spotify
+ * track it was queued for, with cancel and retry actions. Completed downloads
+ * are recorded on the track's acquisition record.
+ * Uses localStorage-based configuration from SlskdStorageService.
+ */
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { SlskdClientService } from '@/services/slskdClient.service';
+import { SlskdStorageService } from '@/services/slskdStorage.service';
+import { TrackAcquisitionService } from '@/services/trackAcquisition.service';
+import type { SlskdDownloadOrigin, SlskdTransfer, SlskdTransferStatus } from '@/types/slskd';
+import { useToast } from '@/hooks/use-toast';
+
+const POLL_INTERVAL_MS = 3000;
+
+export interface SlskdTransferView {
+  transfer: SlskdTransfer;
+  status: SlskdTransferStatus;
+  origin: SlskdDownloadOrigin | null;
+}
+
+// Active transfers first, then the most recently finished
+const STATUS_ORDER: Record<SlskdTransferStatus, number> = {
+  downloading: 0,
+  queued: 1,
+  failed: 2,
+  cancelled: 3,
+  completed: 4,
+};
+
+export function useSlskdTransfers(enabled: boolean, userId: string | null = null) {
+  const { toast } = useToast();
+  const [transfers, setTransfers] = useState<SlskdTransferView[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  // Completed transfers already recorded, so each is written once per session
+  const recordedRef = useRef(new Set<string>());
+
+  const recordCompleted = useCallback(async (views: SlskdTransferView[]) => {
+    if (!userId) return;
+    for (const { transfer, status, origin } of views) {
+      if (status !== 'completed' || !origin || recordedRef.current.has(transfer.id)) continue;
+      recordedRef.current.add(transfer.id);
+      try {
+        await TrackAcquisitionService.recordDownloaded(userId, origin.spotifyTrackId, transfer.filename);
+      } catch {
+        // Logged by the service; tried again after a page reload
+      }
+    }
+  }, [userId]);
+
+  /**
+   * Fetch downloads once and link them to their Spotify tracks
+   */
+  const refresh = useCallback(async () => {
+    const config = SlskdStorageService.getConfig();
+    if (!config.apiEndpoint || !config.apiKey) {
+      setError(new Error('slskd not configured. Go to Settings → Security to configure.'));
+      return;
+    }
+
+    try {
+      const downloads = await SlskdClientService.getDownloads(config);
+      const origins = SlskdStorageService.getDownloadOrigins();
+      const views = downloads.map(transfer => ({
+        transfer,
+        status: SlskdClientService.getTransferStatus(transfer.state),
+        origin: SlskdClientService.findDownloadOrigin(transfer, origins),
+      }));
+      views.sort((a, b) =>
+        STATUS_ORDER[a.status] - STATUS_ORDER[b.status] ||
+        (b.transfer.requestedAt ?? '').localeCompare(a.transfer.requestedAt ?? '')
+      );
+      setTransfers(views);
+      setError(null);
+      await recordCompleted(views);
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Unknown error'));
+    }
+  }, [recordCompleted]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const poll = async () => {
+      await refresh();
+      if (cancelled) return;
+      setIsLoading(false);
+      timer = setTimeout(poll, POLL_INTERVAL_MS);
+    };
+
+    setIsLoading(true);
+    poll();
+
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, [enabled, refresh]);
+
+  /**
+   * Run a transfer action, then refresh so the new state shows straight away
+   */
+  const runAction = useCallback(async (
+    transfer: SlskdTransfer,
+    action: () => Promise<void>,
+    failureTitle: string
+  ) => {
+    setPendingId(transfer.id);
+    try {
+      await action();
+      await refresh();
+    } catch (err) {
+      toast({
+        title: failureTitle,
+        description: err instanceof Error ? err.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    } finally {
+      setPendingId(null);
+    }
+  }, [refresh, toast]);
+
+  const cancel = useCallback((transfer: SlskdTransfer) => runAction(
+    transfer,
+    () => SlskdClientService.cancelDownload(SlskdStorageService.getConfig(), transfer.username, transfer.id),
+    'Failed to cancel download'
+  ), [runAction]);
+
+  const retry = useCallback((transfer: SlskdTransfer) => runAction(
+    transfer,
+    () => SlskdClientService.retryDownload(SlskdStorageService.getConfig(), transfer),
+    'Failed to retry download'
+  ), [runAction]);
+
+  return {
+    transfers,
+    isLoading,
+    error,
+    pendingId,
+    refresh,
+    cancel,
+    retry,
+  };
+}
@@ -0,0 +1,95 @@
+/**
+ * useSlskdWishlist Hook
+ *
+ * Loads every slskd search with its state, age and the Spotify track it was
+ * queued for, and bulk-deletes searches that are no longer needed.
+ * Uses localStorage-based configuration from SlskdStorageService.
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import { SlskdClientService } from '@/services/slskdClient.service';
+import { SlskdStorageService } from '@/services/slskdStorage.service';
+import { TrackAcquisitionService } from '@/services/trackAcquisition.service';
+import type { SlskdWishlistEntry } from '@/types/slskd';
+import { useToast } from '@/hooks/use-toast';
+
+export function useSlskdWishlist(enabled: boolean, userId: string | null) {
+  const { toast } = useToast();
+  const [entries, setEntries] = useState<SlskdWishlistEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  /**
+   * Fetch the searches and link them to the user's acquisition records
+   */
+  const refresh = useCallback(async () => {
+    const config = SlskdStorageService.getConfig();
+    if (!config.apiEndpoint || !config.apiKey) {
+      setError(new Error('slskd not configured. Go to Settings → Security to configure.'));
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const [searches, acquisitions] = await Promise.all([
+        SlskdClientService.getExistingSearches(config),
+        userId ? TrackAcquisitionService.getAcquisitions(userId) : Promise.resolve(new Map()),
+      ]);
+      setEntries(SlskdClientService.buildWishlistEntries(
+        Array.isArray(searches) ? searches : [],
+        acquisitions.values()
+      ));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Unknown error'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    if (enabled) refresh();
+  }, [enabled, refresh]);
+
+  /**
+   * Delete searches from slskd one by one, then reload the list. Failures are
+   * counted and reported rather than stopping the rest.
+   */
+  const deleteSearches = useCallback(async (searchIds: string[]) => {
+    if (searchIds.length === 0) return;
+    const config = SlskdStorageService.getConfig();
+
+    setIsDeleting(true);
+    let deleted = 0;
+    let failed = 0;
+    for (const searchId of searchIds) {
+      try {
+        await SlskdClientService.deleteSearch(config, searchId);
+        deleted++;
+      } catch (err) {
+        console.error(`Error deleting slskd search ${searchId}:`, err);
+        failed++;
+      }
+    }
+
+    console.log(`🧹 Deleted ${deleted} slskd searches`);
+    toast({
+      title: failed > 0 ? 'Some searches were not deleted' : 'Wishlist cleaned up',
+      description: `Deleted ${deleted} searches${failed > 0 ? `, ${failed} failed` : ''}.`,
+      variant: failed > 0 && deleted === 0 ? 'destructive' : 'default',
+    });
+
+    setIsDeleting(false);
+    await refresh();
+  }, [refresh, toast]);
+
+  return {
+    entries,
+    isLoading,
+    isDeleting,
+    error,
+    refresh,
+    deleteSearches,
+  };
+}
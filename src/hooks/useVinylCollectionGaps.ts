@@ -3,6 +3,7 @@ import { useAuth } from '@/contexts/NewAuthContext';
 import { TrackMatchingService, type VinylGapRecord } from '@/services/trackMatching.service';
 import {
   buildLocalIndex,
+  fuzzyCandidates,
   normalize,
   normalizeArtist,
   extractCoreTitle,
@@ -54,7 +55,7 @@ export function useVinylCollectionGaps(superGenreFilter?: string): VinylCollecti
         // Tier 1: exact
         const exactKey = `${normTitle}_${normalizedArtist}`;
         if (localIndex.exactSet.has(exactKey)) {
-          const found = localIndex.normalized.find(l => `${l.title}_${l.artist}` === exactKey);
+          const found = localIndex.exactMap.get(exactKey)?.[0];
           if (found) bucket.matched.push(found.track);
           continue;
         }
@@ -62,15 +63,14 @@ export function useVinylCollectionGaps(superGenreFilter?: string): VinylCollecti
         // Tier 2: core title
         const coreKey = `${coreTitle}_${normalizedArtist}`;
         if (localIndex.coreSet.has(coreKey)) {
-          const found = localIndex.normalized.find(l => `${l.coreTitle}_${l.artist}` === coreKey);
+          const found = localIndex.coreMap.get(coreKey)?.[0];
           if (found) bucket.matched.push(found.track);
           continue;
         }
 
         // Tier 3: fuzzy
         let fuzzyFound: LocalTrack | null = null;
-        for (const local of localIndex.normalized) {
-          if (local.artist !== normalizedArtist) continue;
+        for (const local of fuzzyCandidates(localIndex, normalizedArtist, normTitle, coreTitle)) {
           const titleSim = calculateSimilarity(local.title, normTitle);
           const coreSim = calculateSimilarity(local.coreTitle, coreTitle);
           if (titleSim >= FUZZY_MATCH_THRESHOLD || coreSim >= FUZZY_MATCH_THRESHOLD) {
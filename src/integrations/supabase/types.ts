@@ -32,6 +32,30 @@ export type Database = {
         }
         Relationships: []
       }
+      artist_aliases: {
+        Row: {
+          alias: string
+          canonical_artist: string
+          created_at: string
+          id: string
+          user_id: string
+        }
+        Insert: {
+          alias: string
+          canonical_artist: string
+          created_at?: string
+          id?: string
+          user_id: string
+        }
+        Update: {
+          alias?: string
+          canonical_artist?: string
+          created_at?: string
+          id?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       artist_genres: {
         Row: {
           cached_at: string
@@ -68,6 +92,7 @@ export type Database = {
           genre: string | null
           hash: string | null
           id: string
+          isrc: string | null
           key: string | null
           last_modified: string | null
           mix: string | null
@@ -99,6 +124,7 @@ export type Database = {
           genre?: string | null
           hash?: string | null
           id?: string
+          isrc?: string | null
           key?: string | null
           last_modified?: string | null
           mix?: string | null
@@ -130,6 +156,7 @@ export type Database = {
           genre?: string | null
           hash?: string | null
           id?: string
+          isrc?: string | null
           key?: string | null
           last_modified?: string | null
           mix?: string | null
@@ -324,9 +351,11 @@ export type Database = {
           core_title: string | null
           created_at: string | null
           danceability: number | null
+          duration_ms: number | null
           featured_artists: string[] | null
           genre: string | null
           id: string
+          isrc: string | null
           key: string | null
           mix: string | null
           normalized_artist: string | null
@@ -347,9 +376,11 @@ export type Database = {
           core_title?: string | null
           created_at?: string | null
           danceability?: number | null
+          duration_ms?: number | null
           featured_artists?: string[] | null
           genre?: string | null
           id?: string
+          isrc?: string | null
           key?: string | null
           mix?: string | null
           normalized_artist?: string | null
@@ -370,9 +401,11 @@ export type Database = {
           core_title?: string | null
           created_at?: string | null
           danceability?: number | null
+          duration_ms?: number | null
           featured_artists?: string[] | null
           genre?: string | null
           id?: string
+          isrc?: string | null
           key?: string | null
           mix?: string | null
           normalized_artist?: string | null
@@ -444,6 +477,62 @@ export type Database = {
         }
         Relationships: []
       }
+      track_acquisitions: {
+        Row: {
+          created_at: string
+          downloaded_at: string | null
+          downloaded_file_path: string | null
+          found_by_strategy: string | null
+          id: string
+          matched_at: string | null
+          search_strategy: string | null
+          slskd_search_id: string | null
+          spotify_track_id: string
+          tagged_at: string | null
+          updated_at: string
+          user_id: string
+          wishlisted_at: string | null
+        }
+        Insert: {
+          created_at?: string
+          downloaded_at?: string | null
+          downloaded_file_path?: string | null
+          found_by_strategy?: string | null
+          id?: string
+          matched_at?: string | null
+          search_strategy?: string | null
+          slskd_search_id?: string | null
+          spotify_track_id: string
+          tagged_at?: string | null
+          updated_at?: string
+          user_id: string
+          wishlisted_at?: string | null
+        }
+        Update: {
+          created_at?: string
+          downloaded_at?: string | null
+          downloaded_file_path?: string | null
+          found_by_strategy?: string | null
+          id?: string
+          matched_at?: string | null
+          search_strategy?: string | null
+          slskd_search_id?: string | null
+          spotify_track_id?: string
+          tagged_at?: string | null
+          updated_at?: string
+          user_id?: string
+          wishlisted_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "track_acquisitions_spotify_track_id_fkey"
+            columns: ["spotify_track_id"]
+            isOneToOne: false
+            referencedRelation: "spotify_liked"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       track_matches: {
         Row: {
           id: string
@@ -489,6 +578,57 @@ export type Database = {
           },
         ]
       }
+      user_preferences: {
+        Row: {
+          created_at: string
+          id: string
+          matching_profile: string
+          slskd_api_endpoint: string | null
+          slskd_api_key_secret_id: string | null
+          slskd_connection_status: boolean | null
+          slskd_downloads_folder: string | null
+          slskd_last_connection_test: string | null
+          slskd_push_policy: Json | null
+          slskd_quality_policy: Json | null
+          slskd_search_format: string
+          super_genre_tag_target: Json | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          matching_profile?: string
+          slskd_api_endpoint?: string | null
+          slskd_api_key_secret_id?: string | null
+          slskd_connection_status?: boolean | null
+          slskd_downloads_folder?: string | null
+          slskd_last_connection_test?: string | null
+          slskd_push_policy?: Json | null
+          slskd_quality_policy?: Json | null
+          slskd_search_format?: string
+          super_genre_tag_target?: Json | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          matching_profile?: string
+          slskd_api_endpoint?: string | null
+          slskd_api_key_secret_id?: string | null
+          slskd_connection_status?: boolean | null
+          slskd_downloads_folder?: string | null
+          slskd_last_connection_test?: string | null
+          slskd_push_policy?: Json | null
+          slskd_quality_policy?: Json | null
+          slskd_search_format?: string
+          super_genre_tag_target?: Json | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       user_roles: {
         Row: {
           created_at: string
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ArtistAliasService } from '../artistAlias.service';
+import { supabase } from '@/integrations/supabase/client';
+import { queryBuilder } from '@/test/supabaseMock';
+
+describe('ArtistAliasService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  describe('getAliasMap', () => {
+    it('should build a normalized alias map from the user\'s aliases', async () => {
+      const mockAliases = [
+        { id: 'a1', alias: 'Beyonce Knowles', canonical_artist: 'Beyoncé', created_at: '2026-01-01' },
+      ];
+
+      vi.mocked(supabase.from).mockReturnValue(queryBuilder({
+        select: vi.fn().mockReturnValue({
+          eq: vi.fn().mockReturnValue({
+            order: vi.fn().mockResolvedValue({ data: mockAliases, error: null })
+          })
+        })
+      }));
+
+      const result = await ArtistAliasService.getAliasMap('user-123');
+
+      expect(supabase.from).toHaveBeenCalledWith('artist_aliases');
+      expect(result.get('beyonce knowles')).toBe('beyonce');
+    });
+
+    it('should throw error when fetch fails', async () => {
+      vi.mocked(supabase.from).mockReturnValue(queryBuilder({
+        select: vi.fn().mockReturnValue({
+          eq: vi.fn().mockReturnValue({
+            order: vi.fn().mockResolvedValue({ data: null, error: { message: 'Database error' } })
+          })
+        })
+      }));
+
+      await expect(ArtistAliasService.getAliasMap('user-123')).rejects.toEqual({ message: 'Database error' });
+    });
+  });
+
+  describe('addAlias', () => {
+    it('should upsert a trimmed alias for the user', async () => {
+      const saved = { id: 'a1', alias: 'Kino', canonical_artist: 'Кино', created_at: '2026-01-01' };
+      const upsert = vi.fn().mockReturnValue({
+        select: vi.fn().mockReturnValue({
+          single: vi.fn().mockResolvedValue({ data: saved, error: null })
+        })
+      });
+      vi.mocked(supabase.from).mockReturnValue(queryBuilder({ upsert }));
+
+      const result = await ArtistAliasService.addAlias('user-123', ' Kino ', 'Кино ');
+
+      expect(result).toEqual(saved);
+      expect(upsert).toHaveBeenCalledWith(
+        { user_id: 'user-123', alias: 'Kino', canonical_artist: 'Кино' },
+        { onConflict: 'user_id,alias' }
+      );
+    });
+
+    it('should reject blank names without calling the database', async () => {
+      await expect(ArtistAliasService.addAlias('user-123', 'Kino', '  ')).rejects.toThrow(
+        'Alias and artist name are both required'
+      );
+      expect(supabase.from).not.toHaveBeenCalled();
+    });
+  });
+});
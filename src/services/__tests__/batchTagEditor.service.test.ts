@@ -0,0 +1,232 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  BatchTagEditorService,
+  moveFeaturing,
+  stripUrlJunk,
+  toTitleCase,
+  type BatchTrack,
+} from '../batchTagEditor.service';
+import { TrackTagWriterService } from '../trackTagWriter.service';
+import { generateFileHash } from '@/utils/fileHash';
+
+const track = (overrides: Partial<BatchTrack> = {}): BatchTrack => ({
+  id: 'track-1',
+  file_path: 'Some Artist - Some Track.mp3',
+  file_size: null,
+  hash: null,
+  title: 'Some Track',
+  artist: 'Some Artist',
+  album: null,
+  year: null,
+  genre: 'House',
+  bpm: null,
+  key: null,
+  comment: null,
+  ...overrides,
+});
+
+/**
+ * A directory handle holding files by "folder/name" path
+ */
+function directoryOf(files: Record<string, string>, name = ''): FileSystemDirectoryHandle {
+  const entries = new Map<string, Record<string, string>>();
+  const here: File[] = [];
+  for (const [path, content] of Object.entries(files)) {
+    const [first, ...rest] = path.split('/');
+    if (rest.length === 0) {
+      here.push(new File([content], first));
+    } else {
+      entries.set(first, { ...entries.get(first), [rest.join('/')]: content });
+    }
+  }
+
+  return {
+    kind: 'directory',
+    name,
+    async *values() {
+      for (const [folder, contents] of entries) yield directoryOf(contents, folder);
+      for (const file of here) {
+        yield { kind: 'file', name: file.name, getFile: async () => file };
+      }
+    },
+  } as unknown as FileSystemDirectoryHandle;
+}
+
+describe('batch tag operations', () => {
+  it('title-cases words, lowering all-caps and keeping mixed case', () => {
+    expect(toTitleCase('the NIGHT is young (original mix)')).toBe('The Night Is Young (Original Mix)');
+    expect(toTitleCase("don't stop McCoy")).toBe("Don't Stop McCoy");
+  });
+
+  it('strips URL junk and what it leaves behind', () => {
+    expect(stripUrlJunk('Some Track - www.djsoundtop.com')).toBe('Some Track');
+    expect(stripUrlJunk('Some Track (www.example.net) (Extended Mix)')).toBe('Some Track (Extended Mix)');
+  });
+
+  describe('moveFeaturing', () => {
+    it('moves a bracketed featuring clause to the artist', () => {
+      expect(moveFeaturing(track({ title: 'Some Track (feat. Guest) (Extended Mix)' }))).toMatchObject({
+        title: 'Some Track (Extended Mix)',
+        artist: 'Some Artist feat. Guest',
+      });
+    });
+
+    it('moves a trailing featuring clause, stopping at the mix', () => {
+      expect(moveFeaturing(track({ title: 'Some Track ft. Guest One & Guest Two [Dub]' }))).toMatchObject({
+        title: 'Some Track [Dub]',
+        artist: 'Some Artist feat. Guest One & Guest Two',
+      });
+    });
+
+    it('does not credit the featured artist twice', () => {
+      expect(moveFeaturing(track({ title: 'Some Track (feat. Guest)', artist: 'Some Artist, Guest' }))).toMatchObject({
+        title: 'Some Track',
+        artist: 'Some Artist, Guest',
+      });
+    });
+  });
+
+  it('finds and replaces literally, case-insensitively unless asked', () => {
+    const tags = track({ title: 'Track (Orig. Mix) orig. mix' });
+
+    expect(BatchTagEditorService.applyOperation(tags, {
+      type: 'replace', field: 'title', find: 'orig. mix', replace: 'Original Mix', matchCase: false,
+    }).title).toBe('Track (Original Mix) Original Mix');
+    expect(BatchTagEditorService.applyOperation(tags, {
+      type: 'replace', field: 'title', find: 'orig. mix', replace: '$&', matchCase: true,
+    }).title).toBe('Track (Orig. Mix) $&');
+  });
+});
+
+describe('BatchTagEditorService.planBatch', () => {
+  it('lists only the tracks that change', () => {
+    const plan = BatchTagEditorService.planBatch(
+      [track(), track({ id: 'track-2', genre: 'Deep House' })],
+      { type: 'set', field: 'genre', value: 'Deep House' }
+    );
+
+    expect(plan).toHaveLength(1);
+    expect(plan[0].track.id).toBe('track-1');
+    expect(plan[0].changes).toEqual([{ field: 'genre', label: 'Genre', from: 'House', to: 'Deep House' }]);
+  });
+
+  it('clears a tag when set to an empty value', () => {
+    const [entry] = BatchTagEditorService.planBatch([track()], { type: 'set', field: 'genre', value: '' });
+
+    expect(entry.changes[0].to).toBeNull();
+  });
+});
+
+describe('BatchTagEditorService.locateFiles', () => {
+  const hashOf = (content: string) => generateFileHash(new File([content], 'x'));
+
+  it('finds files by name in subfolders, using the hash when names clash', async () => {
+    const directory = directoryOf({
+      'a/One.mp3': 'one',
+      'a/Dupe.mp3': 'other',
+      'b/Dupe.mp3': 'scanned',
+    });
+    const plan = BatchTagEditorService.planBatch(
+      [
+        track({ id: 'one', file_path: 'One.mp3', hash: await hashOf('one') }),
+        track({ id: 'dupe', file_path: 'Dupe.mp3', hash: await hashOf('scanned') }),
+        track({ id: 'missing', file_path: 'Missing.mp3' }),
+      ],
+      { type: 'set', field: 'album', value: 'Some Album' }
+    );
+
+    const located = await BatchTagEditorService.locateFiles(plan, directory);
+
+    const dupe = located.get('dupe');
+    expect(dupe && 'handle' in dupe && await (await dupe.handle.getFile()).text()).toBe('scanned');
+    expect(located.get('one')).toHaveProperty('handle');
+    expect(located.get('missing')).toEqual({ error: 'File not found in the selected folder' });
+  });
+
+  it('does not use the only file with the name when it is not the scanned one', async () => {
+    const directory = directoryOf({ 'Other Album/01 Intro.mp3': 'another intro' });
+    const plan = BatchTagEditorService.planBatch(
+      [track({ id: 'intro', file_path: 'Some Album/01 Intro.mp3', hash: await hashOf('intro') })],
+      { type: 'set', field: 'album', value: 'Some Album' }
+    );
+
+    const located = await BatchTagEditorService.locateFiles(plan, directory);
+
+    expect(located.get('intro')).toEqual({ error: 'File in the selected folder does not match the library' });
+  });
+
+  it('without a hash, needs the full path and the size to match', async () => {
+    const directory = directoryOf({
+      'Some Album/01 Intro.mp3': 'intro',
+      'Other Album/01 Intro.mp3': 'intro',
+      'Some Album/02 Song.mp3': 'song',
+    });
+    const plan = BatchTagEditorService.planBatch(
+      [
+        track({ id: 'intro', file_path: 'Some Album/01 Intro.mp3', file_size: 5 }),
+        track({ id: 'resized', file_path: 'Some Album/02 Song.mp3', file_size: 99 }),
+        track({ id: 'bare', file_path: '01 Intro.mp3', file_size: 5 }),
+      ],
+      { type: 'set', field: 'album', value: 'Some Album' }
+    );
+
+    const located = await BatchTagEditorService.locateFiles(plan, directory);
+
+    expect(located.get('intro')).toHaveProperty('handle');
+    expect(located.get('resized')).toHaveProperty('error');
+    expect(located.get('bare')).toEqual({
+      error: 'Several files with this name in the selected folder, none matching the library',
+    });
+  });
+});
+
+describe('BatchTagEditorService.writeBatch', () => {
+  it('writes each file with its row update and reports failures without stopping', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const writeBack = vi.spyOn(TrackTagWriterService, 'writeBack')
+      .mockRejectedValueOnce(new Error('File is locked'))
+      .mockResolvedValue({ hash: 'h', file_size: 1, last_modified: '2026-10-19T00:00:00.000Z' });
+    const onProgress = vi.fn();
+    const plan = BatchTagEditorService.planBatch(
+      [
+        track({ id: 'locked', title: 'Locked Track (feat. Guest)' }),
+        track({ id: 'ok', title: 'Some Track (feat. Guest)' }),
+        track({ id: 'missing', title: 'Missing Track (feat. Guest)' }),
+      ],
+      { type: 'moveFeaturing' }
+    );
+    const handle = {} as FileSystemFileHandle;
+
+    const results = await BatchTagEditorService.writeBatch(
+      plan,
+      new Map([['locked', { handle }], ['ok', { handle }]]),
+      onProgress
+    );
+
+    expect(results.map(result => [result.track.id, result.error])).toEqual([
+      ['locked', 'File is locked'],
+      ['ok', null],
+      ['missing', 'File not found in the selected folder'],
+    ]);
+    expect(writeBack).toHaveBeenCalledTimes(2);
+    expect(writeBack).toHaveBeenLastCalledWith(
+      'ok',
+      handle,
+      { title: 'Some Track', artist: 'Some Artist feat. Guest' },
+      expect.objectContaining({
+        title: 'Some Track',
+        artist: 'Some Artist feat. Guest',
+        primary_artist: 'some artist',
+        featured_artists: ['Guest'],
+      })
+    );
+    expect(onProgress).toHaveBeenLastCalledWith({ current: 3, total: 3, currentFile: 'Some Artist - Some Track.mp3' });
+  });
+
+  it('leaves the normalized columns alone when title and artist are unchanged', () => {
+    const [entry] = BatchTagEditorService.planBatch([track()], { type: 'set', field: 'album', value: 'Some Album' });
+
+    expect(BatchTagEditorService.rowUpdate(entry.track, entry.changes)).toEqual({ album: 'Some Album' });
+  });
+});
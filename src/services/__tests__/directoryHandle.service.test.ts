@@ -4,18 +4,24 @@ import {
   storeDirectoryHandle,
   getStoredDirectoryHandle,
   clearStoredDirectoryHandle,
+  addTagJournalEntry,
+  beginTagJournalRun,
+  countTagJournal,
   verifyPermission,
   requestDirectoryAccess,
   getDownloadsDirectory,
   getAllAudioFiles,
   writeFileWithHandle
 } from '../directoryHandle.service';
+import type { TagJournalEntry } from '@/types/slskd';
 
 // Mock IndexedDB
 const mockObjectStore = {
   put: vi.fn(),
   get: vi.fn(),
-  delete: vi.fn()
+  delete: vi.fn(),
+  getAllKeys: vi.fn(),
+  clear: vi.fn()
 };
 
 const mockTransaction = {
@@ -216,6 +222,66 @@ describe('directoryHandle.service', () => {
     });
   });
 
+  describe('tag journal', () => {
+    const entry = {
+      runId: 'run-2',
+      filename: 'Track.mp3',
+      relativePath: 'Artist/Track.mp3',
+    } as TagJournalEntry;
+
+    const succeed = (result?: unknown) => () => {
+      const request = {
+        result,
+        error: null,
+        onerror: null as (() => void) | null,
+        onsuccess: null as (() => void) | null
+      };
+      setTimeout(() => {
+        if (request.onsuccess) request.onsuccess();
+      }, 0);
+      return request;
+    };
+
+    it('should drop the previous run and record the new one when a run begins', async () => {
+      await beginTagJournalRun('run-2');
+
+      expect(mockObjectStore.clear).toHaveBeenCalled();
+      expect(mockObjectStore.put).toHaveBeenCalledWith('run-2', 'tag-journal-run');
+    });
+
+    it('should add an entry of the latest run', async () => {
+      mockObjectStore.get.mockImplementation(succeed('run-2'));
+      mockObjectStore.put.mockImplementation(succeed());
+
+      await addTagJournalEntry(entry);
+
+      expect(mockObjectStore.put).toHaveBeenCalledWith(entry, 'run-2/Artist/Track.mp3');
+    });
+
+    it('should refuse an entry of a run that is not the latest', async () => {
+      mockObjectStore.get.mockImplementation(succeed('run-3'));
+
+      await expect(addTagJournalEntry(entry)).rejects.toThrow('Tag journal run is not the latest processing run');
+      expect(mockObjectStore.put).not.toHaveBeenCalled();
+    });
+
+    it('should count only the files of the latest run', async () => {
+      mockObjectStore.get.mockImplementation(succeed('run-2'));
+      mockObjectStore.getAllKeys.mockImplementation(succeed(['run-1/Old.mp3', 'run-2/A.mp3', 'run-2/B.mp3']));
+      expect(await countTagJournal()).toBe(2);
+
+      mockObjectStore.get.mockImplementation(succeed(undefined));
+      expect(await countTagJournal()).toBe(0);
+    });
+
+    it('should count 0 when the journal cannot be read', async () => {
+      mockIndexedDB.open.mockImplementation(() => {
+        throw new Error('DB failed');
+      });
+      expect(await countTagJournal()).toBe(0);
+    });
+  });
+
   describe('verifyPermission', () => {
     it('should return true when permission is already granted', async () => {
       const mockHandle = {
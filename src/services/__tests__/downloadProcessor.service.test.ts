@@ -1,11 +1,23 @@
 import { describe, it, expect, vi, beforeEach, Mock } from 'vitest';
+import { parseBlob, type IAudioMetadata } from 'music-metadata-browser';
 import {
   processDownloads,
   reprocessWithUpdatedMap,
+  writeTagsInPlace,
   _testExports,
 } from '../downloadProcessor.service';
+import { beginTagJournalRun } from '../directoryHandle.service';
+import { recordTagWrite } from '../tagJournal.service';
 import type { ProcessedFile } from '@/types/slskd';
 
+vi.mock('../directoryHandle.service', () => ({
+  beginTagJournalRun: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock('../tagJournal.service', () => ({
+  recordTagWrite: vi.fn().mockResolvedValue(undefined),
+}));
+
 const { mapToSuperGenre, filterAudioFiles, writeSuperGenreTag } = _testExports;
 
 describe('downloadProcessor.service', () => {
@@ -488,4 +500,62 @@ describe('downloadProcessor.service', () => {
       }
     });
   });
+
+  describe('writeTagsInPlace', () => {
+    /** fLaC marker and a STREAMINFO block flagged as the last metadata block */
+    const minimalFlac = () => {
+      const bytes = new Uint8Array(4 + 4 + 34);
+      bytes.set([0x66, 0x4c, 0x61, 0x43, 0x80, 0x00, 0x00, 34]);
+      bytes.set([0x10, 0x00, 0x10, 0x00], 8);
+      bytes.set([0x0a, 0xc4, 0x40, 0xf0], 18);
+      return bytes;
+    };
+
+    const mappedFlac = (filename: string): ProcessedFile => ({
+      filename,
+      relativePath: filename,
+      artist: 'Artist',
+      title: 'Title',
+      album: null,
+      genres: ['Deep House'],
+      superGenre: 'House',
+      status: 'mapped',
+      file: new File([minimalFlac()], filename),
+      fileHandle: {
+        createWritable: vi.fn().mockResolvedValue({ write: vi.fn(), close: vi.fn() }),
+      } as unknown as FileSystemFileHandle,
+    });
+
+    const taggedAs = (grouping?: string) =>
+      ({ common: { grouping }, native: {}, format: {} }) as unknown as IAudioMetadata;
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    it('keeps the previous journal run when no file is written', async () => {
+      vi.mocked(parseBlob).mockResolvedValue(taggedAs('House'));
+
+      const result = await writeTagsInPlace([mappedFlac('a.flac'), mappedFlac('b.flac')]);
+
+      expect(result).toEqual({ success: 0, skipped: 2, errors: [] });
+      expect(beginTagJournalRun).not.toHaveBeenCalled();
+    });
+
+    it('starts one journal run before the first write', async () => {
+      vi.mocked(parseBlob)
+        .mockResolvedValueOnce(taggedAs('House'))
+        .mockResolvedValue(taggedAs());
+
+      const result = await writeTagsInPlace([mappedFlac('a.flac'), mappedFlac('b.flac'), mappedFlac('c.flac')]);
+
+      expect(result).toEqual({ success: 2, skipped: 1, errors: [] });
+      expect(beginTagJournalRun).toHaveBeenCalledTimes(1);
+      const runId = vi.mocked(beginTagJournalRun).mock.calls[0][0];
+      expect(vi.mocked(recordTagWrite).mock.calls.map((call) => call[0])).toEqual([runId, runId]);
+      expect(vi.mocked(beginTagJournalRun).mock.invocationCallOrder[0])
+        .toBeLessThan(vi.mocked(recordTagWrite).mock.invocationCallOrder[0]);
+    });
+  });
 });
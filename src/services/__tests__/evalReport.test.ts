@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { runEval, summarize, diffResults, type CaseResult } from './fixtures/eval-report';
+import type { EvalCase } from './fixtures/eval-types';
+
+function makeCase(overrides: Partial<EvalCase> & { id: string; title: string; artist: string }): EvalCase {
+  const { id, title, artist, ...rest } = overrides;
+  return {
+    id,
+    spotifyTrack: { id: `sp-${id}`, title, artist, primary_artist: null, album: null, genre: null, super_genre: null },
+    expectedLocalMatch: null,
+    verdict: 'true-missing',
+    failureCategory: null,
+    notes: '',
+    superGenre: null,
+    ...rest,
+  };
+}
+
+function makeExpected(id: string, title: string, artist: string): EvalCase['expectedLocalMatch'] {
+  return { id, title, artist, primary_artist: null, album: null, genre: null, file_path: `/music/${id}.mp3` };
+}
+
+const cases: EvalCase[] = [
+  makeCase({
+    id: 'c1',
+    title: 'Energy',
+    artist: 'Artist',
+    verdict: 'false-negative',
+    failureCategory: 'version-notation',
+    expectedLocalMatch: makeExpected('l1', 'Energy', 'Artist'),
+  }),
+  makeCase({
+    id: 'c2',
+    title: 'Something Else Entirely',
+    artist: 'Nobody',
+    verdict: 'false-negative',
+    failureCategory: 'fuzzy-miss',
+    expectedLocalMatch: makeExpected('l2', 'Completely Different', 'Another'),
+  }),
+  // Same title and artist as c1's local file, but marked truly missing
+  makeCase({ id: 'c3', title: 'Energy', artist: 'Artist' }),
+  makeCase({ id: 'c4', title: 'Unowned', artist: 'Someone' }),
+];
+
+// ─── runEval ─────────────────────────────────────────────────────────────────
+
+describe('evalReport – runEval()', () => {
+  it('classifies each case against an index of all expected local files', () => {
+    const results = runEval(cases);
+    expect(results.map(r => [r.id, r.outcome])).toEqual([
+      ['c1', 'correct-match'],
+      ['c2', 'missed'],
+      ['c3', 'false-match'],
+      ['c4', 'correct-missing'],
+    ]);
+    expect(results[0]).toMatchObject({ tier: 1, matchedLocalId: 'l1' });
+  });
+
+  it('flags a false-negative case matched to the wrong local file', () => {
+    const wrong = makeCase({
+      id: 'c5',
+      title: 'Energy',
+      artist: 'Artist',
+      verdict: 'false-negative',
+      expectedLocalMatch: makeExpected('l5', 'Energy (Dub)', 'Someone Else'),
+    });
+    const results = runEval([cases[0], wrong]);
+    expect(results[1]).toMatchObject({ outcome: 'wrong-match', matchedLocalId: 'l1' });
+  });
+});
+
+// ─── summarize ───────────────────────────────────────────────────────────────
+
+describe('evalReport – summarize()', () => {
+  it('computes precision, recall and a per-category breakdown', () => {
+    const summary = summarize(cases, runEval(cases));
+    expect(summary.totalCases).toBe(4);
+    expect(summary.expectedMatches).toBe(2);
+    expect(summary.matches).toBe(2);
+    expect(summary.precision).toBe(0.5);
+    expect(summary.recall).toBe(0.5);
+    expect(summary.byCategory).toEqual({
+      'version-notation': { count: 1, correct: 1, missed: 0, wrong: 0 },
+      'fuzzy-miss': { count: 1, correct: 0, missed: 1, wrong: 0 },
+    });
+  });
+
+  it('reports perfect precision when nothing matched', () => {
+    const summary = summarize([cases[3]], runEval([cases[3]]));
+    expect(summary.precision).toBe(1);
+    expect(summary.recall).toBe(1);
+  });
+});
+
+// ─── diffResults ─────────────────────────────────────────────────────────────
+
+describe('evalReport – diffResults()', () => {
+  const result = (id: string, outcome: CaseResult['outcome'], matchedLocalId: string | null = null): CaseResult => ({
+    id,
+    outcome,
+    tier: matchedLocalId ? 1 : null,
+    matchedLocalId,
+  });
+
+  it('returns only flipped cases and marks regressions', () => {
+    const baseline = [result('a', 'correct-match', 'l1'), result('b', 'missed'), result('c', 'correct-missing')];
+    const current = [result('a', 'missed'), result('b', 'correct-match', 'l2'), result('c', 'correct-missing')];
+
+    const changes = diffResults(baseline, current);
+    expect(changes.map(c => [c.id, c.regression])).toEqual([
+      ['a', true],
+      ['b', false],
+    ]);
+  });
+
+  it('reports a changed local file even when the outcome is the same', () => {
+    const changes = diffResults([result('a', 'false-match', 'l1')], [result('a', 'false-match', 'l2')]);
+    expect(changes).toHaveLength(1);
+    expect(changes[0].regression).toBe(false);
+  });
+
+  it('reports cases added since the baseline', () => {
+    const changes = diffResults([], [result('new', 'missed')]);
+    expect(changes).toEqual([{ id: 'new', before: null, after: result('new', 'missed'), regression: false }]);
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Scores eval-cases.json against the matching engine and diffs two runs.
+ *
+ * Used by scripts/eval-matching.ts. No Node APIs here, so tests can import it too.
+ */
+
+import { buildLocalIndex, matchTrack, type MatchOptions, type MatchingProfileName } from '../../trackMatchingEngine';
+import type { EvalCase } from './eval-types';
+
+/**
+ * What happened to a single eval case:
+ * - 'correct-match'   – false-negative case matched its expected local file
+ * - 'wrong-match'     – false-negative case matched a different local file
+ * - 'missed'          – false-negative case did not match at all
+ * - 'false-match'     – true-missing case matched a local file
+ * - 'correct-missing' – true-missing case stayed unmatched
+ */
+export type CaseOutcome = 'correct-match' | 'wrong-match' | 'missed' | 'false-match' | 'correct-missing';
+
+export interface CaseResult {
+  id: string;
+  outcome: CaseOutcome;
+  tier: number | null;
+  matchedLocalId: string | null;
+}
+
+export interface CategoryStats {
+  count: number;
+  correct: number;
+  missed: number;
+  wrong: number;
+}
+
+export interface EvalSummary {
+  totalCases: number;
+  /** false-negative cases, i.e. cases with an expected local file */
+  expectedMatches: number;
+  /** Cases the engine matched to any local file */
+  matches: number;
+  correctMatches: number;
+  /** correctMatches / matches */
+  precision: number;
+  /** correctMatches / expectedMatches */
+  recall: number;
+  outcomes: Record<CaseOutcome, number>;
+  /** false-negative cases grouped by failureCategory */
+  byCategory: Record<string, CategoryStats>;
+}
+
+export interface ProfileRun {
+  summary: EvalSummary;
+  results: CaseResult[];
+}
+
+export interface EvalBaseline {
+  createdAt: string;
+  fixture: string;
+  /** One run per matching profile */
+  profiles: Partial<Record<MatchingProfileName, ProfileRun>>;
+}
+
+export interface CaseChange {
+  id: string;
+  /** null when the case is new since the baseline */
+  before: CaseResult | null;
+  after: CaseResult;
+  /** The case was handled correctly in the baseline and no longer is */
+  regression: boolean;
+}
+
+export function isCorrectOutcome(outcome: CaseOutcome): boolean {
+  return outcome === 'correct-match' || outcome === 'correct-missing';
+}
+
+/**
+ * Match every case against one index built from all expected local files, the
+ * same setup as the metrics report in trackMatchingEval.test.ts.
+ */
+export function runEval(cases: EvalCase[], options: MatchOptions = {}): CaseResult[] {
+  const localIndex = buildLocalIndex(
+    cases.filter(c => c.expectedLocalMatch !== null).map(c => c.expectedLocalMatch!)
+  );
+
+  return cases.map(evalCase => {
+    // Fixture tracks predate super_genre_manual_override; the engine never reads it
+    const spotifyTrack = { ...evalCase.spotifyTrack, super_genre_manual_override: false };
+    const result = matchTrack(spotifyTrack, localIndex, options);
+    const matchedLocalId = result.matched ? result.matchedLocalTrack?.id ?? null : null;
+
+    let outcome: CaseOutcome;
+    if (evalCase.verdict === 'false-negative') {
+      if (!result.matched) outcome = 'missed';
+      else if (matchedLocalId === evalCase.expectedLocalMatch?.id) outcome = 'correct-match';
+      else outcome = 'wrong-match';
+    } else {
+      outcome = result.matched ? 'false-match' : 'correct-missing';
+    }
+
+    return { id: evalCase.id, outcome, tier: result.tier, matchedLocalId };
+  });
+}
+
+export function summarize(cases: EvalCase[], results: CaseResult[]): EvalSummary {
+  const outcomes: Record<CaseOutcome, number> = {
+    'correct-match': 0,
+    'wrong-match': 0,
+    'missed': 0,
+    'false-match': 0,
+    'correct-missing': 0,
+  };
+  const byCategory: Record<string, CategoryStats> = {};
+  const resultById = new Map(results.map(r => [r.id, r]));
+
+  for (const evalCase of cases) {
+    const result = resultById.get(evalCase.id);
+    if (!result) continue;
+    outcomes[result.outcome]++;
+
+    if (evalCase.verdict === 'false-negative') {
+      const cat = evalCase.failureCategory || 'unknown';
+      if (!byCategory[cat]) byCategory[cat] = { count: 0, correct: 0, missed: 0, wrong: 0 };
+      byCategory[cat].count++;
+      if (result.outcome === 'correct-match') byCategory[cat].correct++;
+      else if (result.outcome === 'missed') byCategory[cat].missed++;
+      else byCategory[cat].wrong++;
+    }
+  }
+
+  const correctMatches = outcomes['correct-match'];
+  const matches = correctMatches + outcomes['wrong-match'] + outcomes['false-match'];
+  const expectedMatches = correctMatches + outcomes['wrong-match'] + outcomes['missed'];
+
+  return {
+    totalCases: results.length,
+    expectedMatches,
+    matches,
+    correctMatches,
+    precision: matches > 0 ? correctMatches / matches : 1,
+    recall: expectedMatches > 0 ? correctMatches / expectedMatches : 1,
+    outcomes,
+    byCategory,
+  };
+}
+
+/**
+ * Cases whose outcome or matched local file differs from the baseline. Cases
+ * dropped from the fixture since the baseline are ignored.
+ */
+export function diffResults(baseline: CaseResult[], current: CaseResult[]): CaseChange[] {
+  const before = new Map(baseline.map(r => [r.id, r]));
+  const changes: CaseChange[] = [];
+
+  for (const after of current) {
+    const prev = before.get(after.id) ?? null;
+    if (prev && prev.outcome === after.outcome && prev.matchedLocalId === after.matchedLocalId) continue;
+
+    changes.push({
+      id: after.id,
+      before: prev,
+      after,
+      regression: prev !== null && isCorrectOutcome(prev.outcome) && !isCorrectOutcome(after.outcome),
+    });
+  }
+
+  return changes;
+}
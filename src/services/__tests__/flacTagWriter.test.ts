@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { writeFlacGroupingTag, _testExports } from '../flacTagWriter';
+import { writeFlacGroupingTag, writeFlacTags, _testExports } from '../flacTagWriter';
 
 const { parseFlacBlocks, buildVorbisCommentBlock } = _testExports;
 
@@ -260,4 +260,47 @@ describe('flacTagWriter', () => {
       expect(comments).toContain('TITLE=Track');
     });
   });
+
+  describe('writeFlacTags', () => {
+    const readComments = async (blob: Blob) => {
+      const { blocks } = parseFlacBlocks(await blob.arrayBuffer());
+      return readVorbisComments(blocks.find((b) => b.type === BLOCK_TYPE_VORBIS_COMMENT)!.data).comments;
+    };
+
+    it('writes the editor fields to their Vorbis names', async () => {
+      const blob = writeFlacTags(buildMinimalFlac(), {
+        title: 'Some Track',
+        year: 1995,
+        bpm: 124,
+        key: '8A',
+        comment: 'promo',
+      });
+
+      expect(await readComments(blob)).toEqual([
+        'TITLE=Some Track',
+        'DATE=1995',
+        'BPM=124',
+        'INITIALKEY=8A',
+        'COMMENT=promo',
+      ]);
+    });
+
+    it('replaces KEY with INITIALKEY and removes null fields', async () => {
+      const vcData = makeVorbisCommentData('enc', ['KEY=Am', 'GENRE=House', 'ALBUM=Keep', 'GROUPING=Deep']);
+      const buffer = buildMinimalFlac([{ type: BLOCK_TYPE_VORBIS_COMMENT, data: vcData }]);
+
+      const blob = writeFlacTags(buffer, { key: '8A', genre: null });
+
+      expect(await readComments(blob)).toEqual(['ALBUM=Keep', 'GROUPING=Deep', 'INITIALKEY=8A']);
+    });
+
+    it('writes user-defined text fields under their upper-case names', async () => {
+      const vcData = makeVorbisCommentData('enc', ['custom1=Old', 'MOOD=dark']);
+      const buffer = buildMinimalFlac([{ type: BLOCK_TYPE_VORBIS_COMMENT, data: vcData }]);
+
+      const blob = writeFlacTags(buffer, { userText: { Custom1: 'House', MOOD: null } });
+
+      expect(await readComments(blob)).toEqual(['CUSTOM1=House']);
+    });
+  });
 });
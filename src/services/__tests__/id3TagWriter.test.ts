@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { ID3Writer } from 'browser-id3-writer';
+import { parseBuffer, type IAudioMetadata } from 'music-metadata-browser';
+import { writeId3Tags } from '../id3TagWriter';
+import type { AudioTagUpdates } from '@/types/audioTags';
+
+const noMetadata = { common: {}, native: {} } as unknown as IAudioMetadata;
+
+const parse = async (blob: Blob) => parseBuffer(new Uint8Array(await blob.arrayBuffer()), 'audio/mpeg');
+
+/**
+ * Tag an empty file with `before`, then write `updates` over it the way the
+ * callers do: with the file's parsed metadata
+ */
+async function rewrite(before: AudioTagUpdates, updates: AudioTagUpdates) {
+  const first = writeId3Tags(new ArrayBuffer(16), noMetadata, before);
+  const blob = writeId3Tags(await first.arrayBuffer(), await parse(first), updates);
+  return parse(blob);
+}
+
+/** Enough of a PNG for ID3Writer to tell its MIME type */
+const png = (marker: number) => new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, marker]).buffer;
+
+/**
+ * An ID3v2.4 tag with UTF-8 text frames, which ID3Writer can't write
+ */
+function id3v24Tag(frames: Array<[string, string]>): ArrayBuffer {
+  const encoded = frames.map(([id, text]) => {
+    const data = new Uint8Array([3, ...new TextEncoder().encode(text)]);
+    const frame = new Uint8Array(10 + data.length);
+    frame.set([...id].map((c) => c.charCodeAt(0)));
+    frame.set([0, 0, (data.length >> 7) & 0x7f, data.length & 0x7f], 4);
+    frame.set(data, 10);
+    return frame;
+  });
+  const size = encoded.reduce((sum, frame) => sum + frame.length, 0);
+  const tag = new Uint8Array(10 + size + 16);
+  tag.set([0x49, 0x44, 0x33, 4, 0, 0, 0, 0, (size >> 7) & 0x7f, size & 0x7f]);
+  let offset = 10;
+  for (const frame of encoded) {
+    tag.set(frame, offset);
+    offset += frame.length;
+  }
+  return tag.buffer;
+}
+
+describe('writeId3Tags', () => {
+  it('carries over the frames it does not write itself', async () => {
+    const original = new ID3Writer(new ArrayBuffer(16))
+      .setFrame('TIT2', 'Old Title')
+      .setFrame('TSRC', 'GBAYE0601498')
+      .setFrame('TPOS', '2/2')
+      .setFrame('TPUB', 'Some Label')
+      .setFrame('USLT', { description: '', lyrics: 'la la la' })
+      .setFrame('APIC', { type: 3, data: png(1), description: 'front' })
+      .setFrame('APIC', { type: 4, data: png(2), description: 'back' });
+    const file = original.addTag();
+
+    const blob = writeId3Tags(file, await parseBuffer(new Uint8Array(file), 'audio/mpeg'), { title: 'New Title' });
+    const { common, native } = await parse(blob);
+
+    expect(common.title).toBe('New Title');
+    expect(common.isrc).toEqual(['GBAYE0601498']);
+    expect(common.disk).toEqual({ no: 2, of: 2 });
+    expect(common.label).toEqual(['Some Label']);
+    expect(native['ID3v2.3'].find((tag) => tag.id === 'USLT')?.value).toMatchObject({ text: 'la la la' });
+    expect(common.picture?.map((picture) => picture.description)).toEqual(['front', 'back']);
+  });
+
+  it('carries over UTF-8 frames from an ID3v2.4 tag', async () => {
+    const file = id3v24Tag([['TIT2', 'Old Title'], ['TSRC', 'GBAYE0601498'], ['TPUB', 'Лейбл']]);
+
+    const blob = writeId3Tags(file, await parseBuffer(new Uint8Array(file), 'audio/mpeg'), { title: 'New Title' });
+    const { common } = await parse(blob);
+
+    expect(common.title).toBe('New Title');
+    expect(common.isrc).toEqual(['GBAYE0601498']);
+    expect(common.label).toEqual(['Лейбл']);
+  });
+
+  it('keeps TXXX and COMM frames whose description is an object property name', async () => {
+    const metadata = await rewrite(
+      { title: 'Some Track', userText: { constructor: 'kept' }, id3Comments: { toString: 'kept too' } },
+      { userText: { SuperGenre: 'House' } }
+    );
+    const frames = metadata.native['ID3v2.3'].map((tag) => [tag.id, tag.value]);
+
+    expect(frames).toContainEqual(['TXXX:constructor', 'kept']);
+    expect(frames).toContainEqual(['TXXX:SuperGenre', 'House']);
+    expect(frames.find(([id]) => id === 'COMM:toString')?.[1]).toMatchObject({ text: 'kept too' });
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { MatchDecisionService } from '../matchDecision.service';
+import { supabase } from '@/integrations/supabase/client';
+import { queryBuilder } from '@/test/supabaseMock';
+import type { MatchResult, SpotifyTrack, LocalTrack } from '../trackMatchingEngine';
+
+function makeResult(spotifyId: string, overrides: Partial<MatchResult> = {}): MatchResult {
+  return {
+    matched: false,
+    tier: null,
+    spotifyTrack: { id: spotifyId } as SpotifyTrack,
+    normalizedSpotifyTitle: '',
+    normalizedSpotifyArtist: '',
+    ...overrides,
+  };
+}
+
+describe('MatchDecisionService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  describe('getDecisions', () => {
+    it('should split rows into confirmed and rejected decisions', async () => {
+      const rows = [
+        { spotify_track_id: 's1', mp3_id: 'old', is_confirmed: true },
+        { spotify_track_id: 's1', mp3_id: 'new', is_confirmed: true },
+        { spotify_track_id: 's2', mp3_id: 'm1', is_confirmed: false },
+        { spotify_track_id: 's2', mp3_id: 'm2', is_confirmed: false },
+      ];
+
+      vi.mocked(supabase.from).mockReturnValue(queryBuilder({
+        select: vi.fn().mockReturnValue({
+          not: vi.fn().mockReturnValue({
+            order: vi.fn().mockReturnValue({
+              limit: vi.fn().mockResolvedValue({ data: rows, error: null })
+            })
+          })
+        })
+      }));
+
+      const decisions = await MatchDecisionService.getDecisions();
+
+      expect(supabase.from).toHaveBeenCalledWith('track_matches');
+      expect(decisions.confirmed.get('s1')).toBe('new');
+      expect([...decisions.rejected.get('s2')!]).toEqual(['m1', 'm2']);
+    });
+
+    it('should throw error when fetch fails', async () => {
+      vi.mocked(supabase.from).mockReturnValue(queryBuilder({
+        select: vi.fn().mockReturnValue({
+          not: vi.fn().mockReturnValue({
+            order: vi.fn().mockReturnValue({
+              limit: vi.fn().mockResolvedValue({ data: null, error: { message: 'Database error' } })
+            })
+          })
+        })
+      }));
+
+      await expect(MatchDecisionService.getDecisions()).rejects.toEqual({ message: 'Database error' });
+    });
+  });
+
+  describe('recordEngineMatches', () => {
+    it('should clear unreviewed rows for the run and insert engine matches', async () => {
+      const is = vi.fn().mockResolvedValue({ error: null });
+      const inFilter = vi.fn().mockReturnValue({ is });
+      const insert = vi.fn().mockResolvedValue({ error: null });
+      vi.mocked(supabase.from).mockReturnValue(queryBuilder({
+        delete: vi.fn().mockReturnValue({ in: inFilter }),
+        insert,
+      }));
+
+      const local = { id: 'm1' } as LocalTrack;
+      const count = await MatchDecisionService.recordEngineMatches([
+        makeResult('s1', { matched: true, tier: 1, matchedLocalTrack: local }),
+        makeResult('s2', { matched: true, tier: 3, similarity: 88.26, matchedLocalTrack: local }),
+        makeResult('s3', { matched: true, tier: null, userConfirmed: true, matchedLocalTrack: local }),
+        makeResult('s4'),
+        makeResult('s5', { matched: true, tier: 3, similarity: 100, overlappingArtists: ['lizzo'], matchedLocalTrack: local }),
+        makeResult('s6', { matched: true, tier: 0, matchedLocalTrack: local }),
+      ]);
+
+      expect(count).toBe(4);
+      expect(inFilter).toHaveBeenCalledWith('spotify_track_id', ['s1', 's2', 's3', 's4', 's5', 's6']);
+      expect(is).toHaveBeenCalledWith('is_confirmed', null);
+      expect(insert).toHaveBeenCalledWith([
+        expect.objectContaining({ spotify_track_id: 's1', mp3_id: 'm1', match_method: 'exact', match_confidence: 100, is_confirmed: null }),
+        expect.objectContaining({ spotify_track_id: 's2', mp3_id: 'm1', match_method: 'fuzzy', match_confidence: 88.3, is_confirmed: null }),
+        expect.objectContaining({ spotify_track_id: 's5', match_method: 'artist_overlap', match_confidence: 100 }),
+        expect.objectContaining({ spotify_track_id: 's6', match_method: 'isrc', match_confidence: 100 }),
+      ]);
+    });
+  });
+
+  describe('rejectMatch', () => {
+    it('should mark an existing engine match as rejected', async () => {
+      const select = vi.fn().mockResolvedValue({ data: [{ id: 'row-1' }], error: null });
+      const update = vi.fn().mockReturnValue({
+        eq: vi.fn().mockReturnValue({ eq: vi.fn().mockReturnValue({ select }) })
+      });
+      const insert = vi.fn();
+      vi.mocked(supabase.from).mockReturnValue(queryBuilder({ update, insert }));
+
+      await MatchDecisionService.rejectMatch('s1', 'm1');
+
+      expect(update).toHaveBeenCalledWith(expect.objectContaining({ is_confirmed: false }));
+      expect(insert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('confirmMatch', () => {
+    it('should insert a manual link when the engine never proposed the pair', async () => {
+      const neq = vi.fn().mockResolvedValue({ error: null });
+      const deleteChain = vi.fn().mockReturnValue({
+        eq: vi.fn().mockReturnValue({ eq: vi.fn().mockReturnValue({ neq }) })
+      });
+      const update = vi.fn().mockReturnValue({
+        eq: vi.fn().mockReturnValue({
+          eq: vi.fn().mockReturnValue({ select: vi.fn().mockResolvedValue({ data: [], error: null }) })
+        })
+      });
+      const insert = vi.fn().mockResolvedValue({ error: null });
+      vi.mocked(supabase.from).mockReturnValue(queryBuilder({ delete: deleteChain, update, insert }));
+
+      await MatchDecisionService.confirmMatch('s1', 'm1');
+
+      expect(neq).toHaveBeenCalledWith('mp3_id', 'm1');
+      expect(insert).toHaveBeenCalledWith(expect.objectContaining({
+        spotify_track_id: 's1',
+        mp3_id: 'm1',
+        is_confirmed: true,
+        match_method: 'manual',
+        match_confidence: 100,
+      }));
+    });
+  });
+});
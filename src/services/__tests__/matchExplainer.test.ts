@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import { explainMatch, toEvalCase } from '../matchExplainer';
+import {
+  buildLocalIndex,
+  MATCHING_PROFILES,
+  type LocalTrack,
+  type SpotifyTrack,
+} from '../trackMatchingEngine';
+
+function makeLocal(overrides: Partial<LocalTrack> & { id: string }): LocalTrack {
+  return {
+    title: 'Test Track',
+    artist: 'Test Artist',
+    primary_artist: null,
+    album: null,
+    genre: null,
+    file_path: `/music/${overrides.id}.mp3`,
+    ...overrides,
+  };
+}
+
+function makeSpotify(overrides: Partial<SpotifyTrack> & { id: string }): SpotifyTrack {
+  return {
+    title: 'Test Track',
+    artist: 'Test Artist',
+    primary_artist: null,
+    album: null,
+    genre: null,
+    super_genre: 'House',
+    super_genre_manual_override: false,
+    ...overrides,
+  };
+}
+
+// ─── explainMatch ────────────────────────────────────────────────────────────
+
+describe('matchExplainer – explainMatch()', () => {
+  it('reports the normalized keys and lists the matched track first', () => {
+    const index = buildLocalIndex([
+      makeLocal({ id: 'l1', title: 'Something Else', artist: 'Kings of Tomorrow' }),
+      makeLocal({ id: 'l2', title: 'Finally (Extended Mix)', artist: 'Kings of Tomorrow' }),
+    ]);
+    const spotify = makeSpotify({ id: 'sp1', title: 'Finally - Dub Mix', artist: 'Kings of Tomorrow' });
+
+    const explanation = explainMatch(spotify, index);
+
+    expect(explanation).toMatchObject({
+      normalizedTitle: 'finally dub mix',
+      coreTitle: 'finally',
+      normalizedArtist: 'kings of tomorrow',
+      mix: 'dub mix',
+      profile: 'balanced',
+    });
+    expect(explanation.result.tier).toBe(2);
+    expect(explanation.candidates[0]).toMatchObject({ chosen: true, tier: 2, coreTitleSimilarity: 100 });
+    expect(explanation.candidates[0].reason).toBe('Matched at tier 2 (core title)');
+  });
+
+  it('explains a different artist and a low title similarity', () => {
+    const index = buildLocalIndex([
+      makeLocal({ id: 'l1', title: 'Energy', artist: 'Someone Else' }),
+      makeLocal({ id: 'l2', title: 'Totally Unrelated', artist: 'Artist' }),
+    ]);
+    const explanation = explainMatch(makeSpotify({ id: 'sp1', title: 'Energy', artist: 'Artist' }), index);
+
+    expect(explanation.result.matched).toBe(false);
+    const byId = new Map(explanation.candidates.map(c => [c.localTrack.id, c]));
+    expect(byId.get('l1')!.reason).toMatch(/^Different artist \("someone else" vs "artist"/);
+    expect(byId.get('l2')!.reason).toMatch(/^Title similarity \d+% is below the 85% threshold$/);
+  });
+
+  it('explains a different mix in version-aware mode', () => {
+    const index = buildLocalIndex([makeLocal({ id: 'l1', title: 'Zombie (Original Mix)', artist: 'Fela Kuti' })]);
+    const spotify = makeSpotify({ id: 'sp1', title: "Zombie (THEMBA's Herd Mix)", artist: 'Fela Kuti' });
+
+    const explanation = explainMatch(spotify, index, { profile: MATCHING_PROFILES.strict });
+
+    expect(explanation.candidates[0].tier).toBeNull();
+    expect(explanation.candidates[0].reason).toBe('Different mix ("original" vs "thembas herd mix")');
+  });
+
+  it('explains a clearly different length', () => {
+    const index = buildLocalIndex([makeLocal({ id: 'l1', title: 'Energy', artist: 'Artist', duration_seconds: 420 })]);
+    const spotify = makeSpotify({ id: 'sp1', title: 'Energy', artist: 'Artist', duration_ms: 180000 });
+
+    const [candidate] = explainMatch(spotify, index).candidates;
+
+    expect(candidate.durationDeltaSeconds).toBe(240);
+    expect(candidate.reason).toBe('Different length (+240s), likely another version');
+  });
+
+  it('reports a rejected match and the candidate that matched instead', () => {
+    const index = buildLocalIndex([
+      makeLocal({ id: 'l1', title: 'Energy', artist: 'Artist' }),
+      makeLocal({ id: 'l2', title: 'Energy', artist: 'Artist' }),
+      makeLocal({ id: 'l3', title: 'Energy', artist: 'Artist' }),
+    ]);
+    const decisions = { confirmed: new Map(), rejected: new Map([['sp1', new Set(['l1'])]]) };
+
+    const explanation = explainMatch(makeSpotify({ id: 'sp1', title: 'Energy', artist: 'Artist' }), index, { decisions });
+    const byId = new Map(explanation.candidates.map(c => [c.localTrack.id, c]));
+
+    expect(explanation.candidates[0].localTrack.id).toBe('l2');
+    expect(byId.get('l1')!.reason).toBe('You rejected this match');
+    expect(byId.get('l3')).toMatchObject({ tier: 1, chosen: false });
+    expect(byId.get('l3')!.reason).toBe('Would match at tier 1 (exact), but another local track matched first');
+  });
+
+  it('keeps ISRC hits in the list even when their tags look unrelated', () => {
+    const tracks = Array.from({ length: 10 }, (_, i) => makeLocal({ id: `l${i}`, title: `Energy ${i}`, artist: 'Artist' }));
+    tracks.push(makeLocal({ id: 'isrc', title: 'Track 01', artist: 'Unknown', isrc: 'GBAYE0601498' }));
+    const spotify = makeSpotify({ id: 'sp1', title: 'Energy', artist: 'Artist', isrc: 'GBAYE0601498' });
+
+    const explanation = explainMatch(spotify, buildLocalIndex(tracks), {}, 3);
+
+    expect(explanation.candidates).toHaveLength(3);
+    expect(explanation.candidates[0]).toMatchObject({ chosen: true, sameIsrc: true, reason: 'Matched at tier 0 (ISRC)' });
+  });
+});
+
+// ─── toEvalCase ──────────────────────────────────────────────────────────────
+
+describe('matchExplainer – toEvalCase()', () => {
+  const index = buildLocalIndex([makeLocal({ id: 'l1', title: 'Energy', artist: 'Someone Else' })]);
+  const explanation = explainMatch(makeSpotify({ id: 'sp1', title: 'Energy', artist: 'Artist' }), index);
+
+  it('builds a false negative expecting the chosen candidate', () => {
+    const evalCase = toEvalCase(explanation, explanation.candidates[0]);
+    expect(evalCase).toMatchObject({
+      id: 'new-sp1',
+      verdict: 'false-negative',
+      failureCategory: 'unknown',
+      superGenre: 'House',
+      expectedLocalMatch: { id: 'l1', title: 'Energy', file_path: '/music/l1.mp3' },
+    });
+    expect(evalCase.notes).toMatch(/^Explain \(balanced\): Different artist/);
+  });
+
+  it('builds a true-missing case without a candidate', () => {
+    expect(toEvalCase(explanation, null)).toMatchObject({
+      verdict: 'true-missing',
+      expectedLocalMatch: null,
+      failureCategory: null,
+    });
+  });
+});
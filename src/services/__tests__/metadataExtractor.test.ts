@@ -16,7 +16,7 @@ vi.mock('@/utils/promiseUtils', () => ({
   withTimeout: vi.fn((promise) => promise),
 }));
 
-import { parseBlob } from 'music-metadata-browser';
+import { parseBlob, type IAudioMetadata } from 'music-metadata-browser';
 
 describe('metadataExtractor', () => {
   beforeEach(() => {
@@ -510,6 +510,61 @@ describe('metadataExtractor', () => {
       expect(result.super_genre).toBeNull();
     });
 
+    it('extracts isrc from common metadata, normalized', async () => {
+      const mockMetadata = {
+        common: { title: 'Test', artist: 'Artist', isrc: ['us-rc1-17-00123'] },
+        format: {},
+        native: {},
+      };
+
+      vi.mocked(parseBlob).mockResolvedValue(mockMetadata as unknown as IAudioMetadata);
+
+      const file = new File(['test'], 'test.mp3', { type: 'audio/mpeg' });
+      Object.defineProperty(file, 'lastModified', { value: Date.now() });
+
+      const result = await extractMetadata(file);
+
+      expect(result.isrc).toBe('USRC11700123');
+    });
+
+    it('extracts isrc from native TSRC tag when common isrc is absent', async () => {
+      const mockMetadata = {
+        common: { title: 'Test', artist: 'Artist' },
+        format: {},
+        native: {
+          'ID3v2.3': [
+            { id: 'TSRC', value: 'GBAYE0601498' },
+          ],
+        },
+      };
+
+      vi.mocked(parseBlob).mockResolvedValue(mockMetadata as unknown as IAudioMetadata);
+
+      const file = new File(['test'], 'test.mp3', { type: 'audio/mpeg' });
+      Object.defineProperty(file, 'lastModified', { value: Date.now() });
+
+      const result = await extractMetadata(file);
+
+      expect(result.isrc).toBe('GBAYE0601498');
+    });
+
+    it('sets isrc to null when the tag is malformed', async () => {
+      const mockMetadata = {
+        common: { title: 'Test', artist: 'Artist', isrc: ['n/a'] },
+        format: {},
+        native: {},
+      };
+
+      vi.mocked(parseBlob).mockResolvedValue(mockMetadata as unknown as IAudioMetadata);
+
+      const file = new File(['test'], 'test.mp3', { type: 'audio/mpeg' });
+      Object.defineProperty(file, 'lastModified', { value: Date.now() });
+
+      const result = await extractMetadata(file);
+
+      expect(result.isrc).toBeNull();
+    });
+
     it('includes file size in result', async () => {
       const mockMetadata = {
         common: { title: 'Test', artist: 'Artist' },
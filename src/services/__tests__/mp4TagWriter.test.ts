@@ -0,0 +1,397 @@
+import { describe, it, expect } from 'vitest';
+import { parseBuffer } from 'music-metadata-browser';
+import { writeMp4GroupingTag, writeMp4Tags, _testExports } from '../mp4TagWriter';
+
+const { parseAtoms } = _testExports;
+
+// ---------------------------------------------------------------------------
+// Minimal M4A buffer helpers
+// ---------------------------------------------------------------------------
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const output = new Uint8Array(parts.reduce((s, p) => s + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+}
+
+/**
+ * Build an atom: 32-bit big-endian size, four-character type, payload.
+ * Types are written one byte per character so '©' becomes 0xA9.
+ */
+function atom(type: string, ...payload: Uint8Array[]): Uint8Array {
+  const body = concat(payload);
+  const output = new Uint8Array(8 + body.length);
+  new DataView(output.buffer).setUint32(0, output.length);
+  for (let i = 0; i < 4; i++) output[4 + i] = type.charCodeAt(i);
+  output.set(body, 8);
+  return output;
+}
+
+function uint32(...values: number[]): Uint8Array {
+  const output = new Uint8Array(values.length * 4);
+  const view = new DataView(output.buffer);
+  values.forEach((v, i) => view.setUint32(i * 4, v));
+  return output;
+}
+
+/**
+ * An ilst text item wrapping a UTF-8 data atom
+ */
+function textItem(type: string, value: string): Uint8Array {
+  return atom(type, atom('data', uint32(1, 0), new TextEncoder().encode(value)));
+}
+
+const ASCII = (s: string) => new Uint8Array([...s].map((c) => c.charCodeAt(0)));
+
+/**
+ * Chunk offset table: stco (32-bit) or co64 (64-bit) entries
+ */
+function chunkOffsetAtom(type: 'stco' | 'co64', offsets: number[]): Uint8Array {
+  const entries = type === 'stco'
+    ? uint32(...offsets)
+    : uint32(...offsets.flatMap((o) => [Math.floor(o / 2 ** 32), o % 2 ** 32]));
+  return atom(type, uint32(0, offsets.length), entries);
+}
+
+interface M4aOptions {
+  /** ilst items; null writes no udta at all */
+  items?: Uint8Array[] | null;
+  layout?: 'moov-first' | 'mdat-first';
+  offsets?: 'stco' | 'co64';
+  /** QuickTime meta atoms have no version/flags */
+  metaStyle?: 'iso' | 'quicktime';
+  /** Extra moov children, e.g. mvex */
+  moovExtra?: Uint8Array[];
+  /** Atoms appended after the last one, e.g. moof or a second mdat */
+  trailing?: Uint8Array[];
+}
+
+const CHUNKS = [
+  new Uint8Array([0xaa, 0xaa, 0xaa, 0xaa]),
+  new Uint8Array([0xbb, 0xbb, 0xbb, 0xbb, 0xbb, 0xbb]),
+];
+
+/**
+ * Build a minimal M4A: ftyp, moov (one track whose chunk offsets point at
+ * CHUNKS in mdat, optional udta/meta/ilst) and mdat, in either order.
+ */
+function buildMinimalM4a(options: M4aOptions = {}): ArrayBuffer {
+  const { items = null, layout = 'moov-first', offsets = 'stco', metaStyle = 'iso', moovExtra = [], trailing = [] } = options;
+
+  const ftyp = atom('ftyp', ASCII('M4A '), uint32(0), ASCII('M4A isom'));
+  const mdat = atom('mdat', ...CHUNKS);
+
+  const hdlr = atom('hdlr', uint32(0, 0), ASCII('mdir'), ASCII('appl'), uint32(0, 0), new Uint8Array(1));
+  const udta = items === null
+    ? []
+    : [atom('udta', atom('meta', ...(metaStyle === 'iso' ? [uint32(0)] : []), hdlr, atom('ilst', ...items)))];
+
+  const buildMoov = (chunkOffsets: number[]) =>
+    atom(
+      'moov',
+      atom('mvhd', new Uint8Array(100)),
+      atom(
+        'trak',
+        atom('tkhd', new Uint8Array(84)),
+        atom('mdia', atom('minf', atom('stbl', atom('stsd', uint32(0, 0)), chunkOffsetAtom(offsets, chunkOffsets))))
+      ),
+      ...udta,
+      ...moovExtra
+    );
+
+  // The moov size doesn't depend on the offset values, so measure it first
+  const moovSize = buildMoov(CHUNKS.map(() => 0)).length;
+  const mdatStart = layout === 'moov-first' ? ftyp.length + moovSize : ftyp.length;
+  const chunkOffsets = CHUNKS.map((_, i) => mdatStart + 8 + CHUNKS.slice(0, i).reduce((s, c) => s + c.length, 0));
+  const moov = buildMoov(chunkOffsets);
+
+  const parts = layout === 'moov-first' ? [ftyp, moov, mdat] : [ftyp, mdat, moov];
+  return concat([...parts, ...trailing]).buffer;
+}
+
+/**
+ * Find an atom by path from the top level; meta children start after its
+ * version/flags unless the file is QuickTime style
+ */
+function findAtom(bytes: Uint8Array, path: string[]) {
+  let start = 0;
+  let end = bytes.length;
+  let found: ReturnType<typeof parseAtoms>[number] | undefined;
+
+  for (const type of path) {
+    found = parseAtoms(bytes, start, end).find((a) => a.type === type);
+    if (!found) return undefined;
+    start = found.start + found.headerSize;
+    end = found.start + found.size;
+    if (type === 'meta' && String.fromCharCode(...bytes.slice(start + 4, start + 8)) !== 'hdlr') start += 4;
+  }
+
+  return found;
+}
+
+/**
+ * Read the ilst items as [type, text] pairs
+ */
+function readItems(bytes: Uint8Array): Array<[string, string]> {
+  const ilst = findAtom(bytes, ['moov', 'udta', 'meta', 'ilst']);
+  if (!ilst) return [];
+
+  return parseAtoms(bytes, ilst.start + 8, ilst.start + ilst.size).map((item) => {
+    const [data] = parseAtoms(bytes, item.start + 8, item.start + item.size);
+    const text = new TextDecoder().decode(bytes.slice(data.start + 16, data.start + data.size));
+    return [item.type, text];
+  });
+}
+
+/**
+ * The bytes each chunk offset points at, read with the chunk sizes of CHUNKS
+ */
+function readChunks(bytes: Uint8Array): Uint8Array[] {
+  const table = findAtom(bytes, ['moov', 'trak', 'mdia', 'minf', 'stbl', 'stco'])
+    ?? findAtom(bytes, ['moov', 'trak', 'mdia', 'minf', 'stbl', 'co64'])!;
+  const view = new DataView(bytes.buffer, bytes.byteOffset);
+  const entrySize = table.type === 'stco' ? 4 : 8;
+
+  return CHUNKS.map((chunk, i) => {
+    const position = table.start + 16 + i * entrySize;
+    const offset = table.type === 'stco'
+      ? view.getUint32(position)
+      : view.getUint32(position) * 2 ** 32 + view.getUint32(position + 4);
+    return bytes.slice(offset, offset + chunk.length);
+  });
+}
+
+async function write(buffer: ArrayBuffer, superGenre: string): Promise<Uint8Array> {
+  return new Uint8Array(await writeMp4GroupingTag(buffer, superGenre).arrayBuffer());
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('mp4TagWriter', () => {
+  describe('writeMp4GroupingTag', () => {
+    it('creates udta/meta/ilst with ©grp in a file with no metadata', async () => {
+      const output = await write(buildMinimalM4a(), 'Electronic');
+
+      expect(findAtom(output, ['moov', 'udta', 'meta', 'hdlr'])).toBeDefined();
+      expect(readItems(output)).toEqual([['©grp', 'Electronic']]);
+    });
+
+    it('replaces an existing ©grp and preserves other items in order', async () => {
+      const buffer = buildMinimalM4a({
+        items: [textItem('©nam', 'Some Track'), textItem('©grp', 'OldGenre'), textItem('©ART', 'Some Artist')],
+      });
+
+      const output = await write(buffer, 'Drum & Bass');
+
+      expect(readItems(output)).toEqual([
+        ['©nam', 'Some Track'],
+        ['©grp', 'Drum & Bass'],
+        ['©ART', 'Some Artist'],
+      ]);
+    });
+
+    it('adds ©grp after existing items', async () => {
+      const buffer = buildMinimalM4a({ items: [textItem('©nam', 'Some Track')] });
+
+      const output = await write(buffer, 'House');
+
+      expect(readItems(output)).toEqual([['©nam', 'Some Track'], ['©grp', 'House']]);
+    });
+
+    it('keeps the QuickTime meta layout without version/flags', async () => {
+      const buffer = buildMinimalM4a({ items: [textItem('©nam', 'Some Track')], metaStyle: 'quicktime' });
+
+      const output = await write(buffer, 'Techno');
+
+      const meta = findAtom(output, ['moov', 'udta', 'meta'])!;
+      expect(String.fromCharCode(...output.slice(meta.start + 12, meta.start + 16))).toBe('hdlr');
+      expect(readItems(output)).toEqual([['©nam', 'Some Track'], ['©grp', 'Techno']]);
+    });
+
+    it('shifts stco offsets when moov precedes mdat', async () => {
+      const buffer = buildMinimalM4a({ items: [textItem('©grp', 'Jazz')] });
+
+      const output = await write(buffer, 'A much longer SuperGenre value');
+
+      expect(output.length).toBeGreaterThan(buffer.byteLength);
+      expect(readChunks(output)).toEqual(CHUNKS);
+    });
+
+    it('shifts stco offsets when moov shrinks', async () => {
+      const buffer = buildMinimalM4a({ items: [textItem('©grp', 'A much longer SuperGenre value')] });
+
+      const output = await write(buffer, 'Jazz');
+
+      expect(output.length).toBeLessThan(buffer.byteLength);
+      expect(readChunks(output)).toEqual(CHUNKS);
+    });
+
+    it('shifts co64 offsets', async () => {
+      const output = await write(buildMinimalM4a({ offsets: 'co64' }), 'Ambient');
+
+      expect(readChunks(output)).toEqual(CHUNKS);
+    });
+
+    it('leaves chunk offsets alone when mdat precedes moov', async () => {
+      const buffer = buildMinimalM4a({ layout: 'mdat-first' });
+      const original = findAtom(new Uint8Array(buffer), ['moov', 'trak', 'mdia', 'minf', 'stbl', 'stco'])!;
+
+      const output = await write(buffer, 'Jungle');
+
+      const stco = findAtom(output, ['moov', 'trak', 'mdia', 'minf', 'stbl', 'stco'])!;
+      expect(output.slice(stco.start, stco.start + stco.size))
+        .toEqual(new Uint8Array(buffer).slice(original.start, original.start + original.size));
+      expect(readChunks(output)).toEqual(CHUNKS);
+    });
+
+    it.each([
+      ['a moof atom', { trailing: [atom('moof', atom('mfhd', uint32(0, 1))), atom('mdat', CHUNKS[0])] }],
+      ['an mfra atom', { trailing: [atom('mfra', atom('mfro', uint32(0, 16)))] }],
+      ['mvex in moov', { moovExtra: [atom('mvex', atom('trex', new Uint8Array(24)))] }],
+    ])('refuses a fragmented file with %s', (_case, options: M4aOptions) => {
+      expect(() => writeMp4GroupingTag(buildMinimalM4a(options), 'Jungle'))
+        .toThrow('Fragmented MP4 files are not supported');
+    });
+
+    it('refuses a file with data after a moov that follows mdat', () => {
+      const buffer = buildMinimalM4a({ layout: 'mdat-first', trailing: [atom('mdat', CHUNKS[1])] });
+
+      expect(() => writeMp4GroupingTag(buffer, 'Jungle'))
+        .toThrow('MP4 files with data both before and after moov are not supported');
+    });
+
+    it('accepts padding after a moov that follows mdat', async () => {
+      const buffer = buildMinimalM4a({ layout: 'mdat-first', trailing: [atom('free', new Uint8Array(16))] });
+
+      const output = await write(buffer, 'Jungle');
+
+      expect(readChunks(output)).toEqual(CHUNKS);
+    });
+
+    it('preserves ftyp and mdat unchanged', async () => {
+      const buffer = buildMinimalM4a();
+      const input = new Uint8Array(buffer);
+
+      const output = await write(buffer, 'Jungle');
+
+      for (const type of ['ftyp', 'mdat']) {
+        const before = findAtom(input, [type])!;
+        const after = findAtom(output, [type])!;
+        expect(output.slice(after.start, after.start + after.size))
+          .toEqual(input.slice(before.start, before.start + before.size));
+      }
+    });
+
+    it('writes a Grouping that music-metadata reads back', async () => {
+      const buffer = buildMinimalM4a({ items: [textItem('©nam', 'Some Track')] });
+
+      const output = await write(buffer, 'Deep House');
+      const metadata = await parseBuffer(output, 'audio/mp4');
+
+      expect(metadata.common.grouping).toBe('Deep House');
+      expect(metadata.common.title).toBe('Some Track');
+    });
+
+    it('returns a Blob with audio/mp4 mime type', () => {
+      const blob = writeMp4GroupingTag(buildMinimalM4a(), 'Ambient');
+      expect(blob.type).toBe('audio/mp4');
+    });
+
+    it('throws on non-MP4 input', () => {
+      const notMp4 = new Uint8Array([0x66, 0x4c, 0x61, 0x43, 0, 0, 0, 0]).buffer; // "fLaC"
+      expect(() => writeMp4GroupingTag(notMp4, 'Techno')).toThrow('Not a valid MP4 file');
+    });
+
+    it('throws when an atom overruns the file', () => {
+      const truncated = buildMinimalM4a().slice(0, 60);
+      expect(() => writeMp4GroupingTag(truncated, 'Techno')).toThrow('overruns its parent');
+    });
+  });
+
+  describe('writeMp4Tags', () => {
+    it('writes genre and comment, replacing a numeric gnre item', async () => {
+      const gnre = atom('gnre', atom('data', uint32(0, 0), new Uint8Array([0, 18])));
+      const buffer = buildMinimalM4a({ items: [gnre, textItem('©cmt', 'old comment')] });
+
+      const output = new Uint8Array(
+        await writeMp4Tags(buffer, { grouping: 'Techno', genre: 'Detroit Techno', comment: 'tagged' }).arrayBuffer()
+      );
+
+      expect(readItems(output)).toEqual([
+        ['©gen', 'Detroit Techno'],
+        ['©cmt', 'tagged'],
+        ['©grp', 'Techno'],
+      ]);
+    });
+
+    it('leaves tags that are not given untouched', async () => {
+      const buffer = buildMinimalM4a({ items: [textItem('©gen', 'Techno'), textItem('©cmt', 'keep me')] });
+
+      const output = new Uint8Array(await writeMp4Tags(buffer, { grouping: 'Techno' }).arrayBuffer());
+
+      expect(readItems(output)).toEqual([['©gen', 'Techno'], ['©cmt', 'keep me'], ['©grp', 'Techno']]);
+    });
+
+    it('writes the editor fields that music-metadata reads back', async () => {
+      const buffer = buildMinimalM4a({ items: [textItem('©nam', 'Old Title')] });
+
+      const output = new Uint8Array(await writeMp4Tags(buffer, {
+        title: 'Some Track',
+        artist: 'Some Artist',
+        album: 'Some Album',
+        year: 1995,
+        bpm: 124,
+        key: '8A',
+      }).arrayBuffer());
+      const { common, native } = await parseBuffer(output, 'audio/mp4');
+
+      expect(common).toMatchObject({ title: 'Some Track', artist: 'Some Artist', album: 'Some Album', year: 1995, bpm: 124 });
+      expect(native.iTunes.find((tag) => tag.id === '----:com.apple.iTunes:initialkey')?.value).toBe('8A');
+    });
+
+    it('replaces a freeform key item regardless of case', async () => {
+      const freeform = (name: string, value: string) => atom(
+        '----',
+        atom('mean', uint32(0), ASCII('com.apple.iTunes')),
+        atom('name', uint32(0), ASCII(name)),
+        atom('data', uint32(1, 0), ASCII(value))
+      );
+      const buffer = buildMinimalM4a({ items: [freeform('initialKey', 'Am'), freeform('MOOD', 'dark')] });
+
+      const output = new Uint8Array(await writeMp4Tags(buffer, { key: '8A' }).arrayBuffer());
+
+      expect(readItems(output).map(([type]) => type)).toEqual(['----', '----']);
+      const { native } = await parseBuffer(output, 'audio/mp4');
+      expect(native.iTunes.map((tag) => [tag.id, tag.value])).toEqual([
+        ['----:com.apple.iTunes:initialkey', '8A'],
+        ['----:com.apple.iTunes:MOOD', 'dark'],
+      ]);
+    });
+
+    it('writes user-defined text fields as freeform items', async () => {
+      const buffer = buildMinimalM4a({ items: [textItem('©nam', 'Some Track')] });
+
+      const output = new Uint8Array(await writeMp4Tags(buffer, { userText: { CUSTOM1: 'House' } }).arrayBuffer());
+      const { native } = await parseBuffer(output, 'audio/mp4');
+
+      expect(native.iTunes.map((tag) => [tag.id, tag.value])).toEqual([
+        ['©nam', 'Some Track'],
+        ['----:com.apple.iTunes:CUSTOM1', 'House'],
+      ]);
+    });
+
+    it('removes items set to null', async () => {
+      const buffer = buildMinimalM4a({ items: [textItem('©nam', 'Some Track'), textItem('©cmt', 'old comment')] });
+
+      const output = new Uint8Array(await writeMp4Tags(buffer, { comment: null }).arrayBuffer());
+
+      expect(readItems(output)).toEqual([['©nam', 'Some Track']]);
+    });
+  });
+});
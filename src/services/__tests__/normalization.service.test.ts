@@ -75,6 +75,20 @@ describe('NormalizationService', () => {
     });
   });
 
+  describe('normalizeIsrc', () => {
+    it('should uppercase and strip hyphens and spaces', () => {
+      expect(service.normalizeIsrc('us-rc1-17-00123')).toBe('USRC11700123');
+      expect(service.normalizeIsrc(' GB AYE 06 01498 ')).toBe('GBAYE0601498');
+    });
+
+    it('should return null for missing or malformed codes', () => {
+      expect(service.normalizeIsrc(null)).toBeNull();
+      expect(service.normalizeIsrc('')).toBeNull();
+      expect(service.normalizeIsrc('unknown')).toBeNull();
+      expect(service.normalizeIsrc('USRC1170012')).toBeNull();
+    });
+  });
+
   describe('processMetadata', () => {
     it('should process complete track metadata', () => {
       const result = service.processMetadata(
@@ -127,6 +141,43 @@ describe('NormalizationService – normalize edge cases', () => {
   });
 });
 
+describe('NormalizationService – transliteration', () => {
+  let service: NormalizationService;
+  beforeEach(() => { service = new NormalizationService(); });
+
+  it('romanizes Cyrillic', () => {
+    expect(service.normalize('Кино')).toBe('kino');
+    expect(service.normalize('Земфира')).toBe('zemfira');
+  });
+
+  it('maps й before diacritics removal can strip it', () => {
+    expect(service.normalize('Мумий Тролль')).toBe('mumiy troll');
+  });
+
+  it('romanizes katakana and hiragana', () => {
+    expect(service.normalize('サカナクション')).toBe('sakanakushon');
+    expect(service.normalize('さくら')).toBe('sakura');
+  });
+
+  it('folds small kana into the preceding syllable', () => {
+    expect(service.normalize('きゃりーぱみゅぱみゅ')).toBe('kyaripamyupamyu');
+    expect(service.normalize('ファンク')).toBe('fanku');
+  });
+
+  it('doubles the consonant after a small tsu', () => {
+    expect(service.normalize('ちょっと')).toBe('chotto');
+    expect(service.normalize('マッチ')).toBe('matchi');
+  });
+
+  it('treats the katakana middle dot as a word break', () => {
+    expect(service.normalize('ドリーム・シアター')).toBe('dorimu shiata');
+  });
+
+  it('leaves Latin text untouched', () => {
+    expect(service.normalize('Sigur Rós')).toBe('sigur ros');
+  });
+});
+
 describe('NormalizationService – extractVersionInfo edge cases', () => {
   let service: NormalizationService;
   beforeEach(() => { service = new NormalizationService(); });
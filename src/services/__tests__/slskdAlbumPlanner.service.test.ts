@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { SlskdAlbumPlannerService, DEFAULT_ALBUM_THRESHOLD } from '../slskdAlbumPlanner.service';
+import type { SlskdTrackToSync } from '@/types/slskd';
+
+const track = (id: string, album: string | undefined, artist = 'Moodymann'): SlskdTrackToSync => ({
+  id,
+  title: `Track ${id}`,
+  artist,
+  primary_artist: artist,
+  album,
+});
+
+describe('SlskdAlbumPlannerService', () => {
+  describe('albumKey', () => {
+    it('keys by primary artist and album, ignoring case and featured artists', () => {
+      expect(SlskdAlbumPlannerService.albumKey({ artist: 'Moodymann, Andrés', album: 'Black Mahogani' }))
+        .toBe(SlskdAlbumPlannerService.albumKey({ artist: 'moodymann feat. Norma Jean', album: 'BLACK MAHOGANI' }));
+    });
+
+    it('prefers primary_artist over artist', () => {
+      expect(SlskdAlbumPlannerService.albumKey({ artist: 'Andrés, Moodymann', primary_artist: 'Moodymann', album: 'A' }))
+        .toBe(SlskdAlbumPlannerService.albumKey({ artist: 'Moodymann', album: 'A' }));
+    });
+
+    it('returns null without an album', () => {
+      expect(SlskdAlbumPlannerService.albumKey({ artist: 'Moodymann', album: undefined })).toBeNull();
+      expect(SlskdAlbumPlannerService.albumKey({ artist: 'Moodymann', album: '  ' })).toBeNull();
+    });
+  });
+
+  it('counts liked tracks per album', () => {
+    const counts = SlskdAlbumPlannerService.countAlbumTracks([
+      track('1', 'Black Mahogani'),
+      track('2', 'Black Mahogani'),
+      track('3', 'Silentintroduction'),
+      track('4', undefined),
+    ]);
+
+    expect(Object.values(counts).sort()).toEqual([1, 2]);
+    expect(counts[SlskdAlbumPlannerService.albumKey(track('x', 'Black Mahogani'))!]).toBe(2);
+  });
+
+  describe('buildPlan', () => {
+    const missing = [
+      track('1', 'Black Mahogani'),
+      track('2', 'Black Mahogani'),
+      track('3', 'Black Mahogani'),
+      track('4', 'Silentintroduction'),
+      track('5', 'Silentintroduction'),
+      track('6', 'Forevernevermore'),
+      track('7', undefined),
+    ];
+    const counts = SlskdAlbumPlannerService.countAlbumTracks([
+      ...missing,
+      track('8', 'Black Mahogani'),
+      track('9', 'Silentintroduction'),
+      track('10', 'Silentintroduction'),
+      track('11', 'Silentintroduction'),
+    ]);
+
+    it('recommends albums with enough missing tracks, most tracks first', () => {
+      const plan = SlskdAlbumPlannerService.buildPlan(missing, counts, DEFAULT_ALBUM_THRESHOLD);
+
+      expect(plan.albums.map(entry => [entry.album, entry.tracks.length, entry.albumTrackCount])).toEqual([
+        ['Black Mahogani', 3, 4],
+      ]);
+      expect(plan.singles.map(t => t.id).sort()).toEqual(['4', '5', '6', '7']);
+      expect(plan.trackSearches).toBe(7);
+      expect(plan.plannedSearches).toBe(5);
+    });
+
+    it('applies the threshold', () => {
+      const plan = SlskdAlbumPlannerService.buildPlan(missing, counts, 0.4);
+
+      expect(plan.albums.map(entry => entry.album)).toEqual(['Black Mahogani', 'Silentintroduction']);
+      expect(plan.albums[1].coverage).toBe(0.4);
+    });
+
+    it('never plans an album search for a single track', () => {
+      const plan = SlskdAlbumPlannerService.buildPlan(missing, counts, 0);
+
+      expect(plan.albums.map(entry => entry.album)).not.toContain('Forevernevermore');
+    });
+
+    it('counts only the missing tracks for albums without a liked-track count', () => {
+      const plan = SlskdAlbumPlannerService.buildPlan(missing, {}, 1);
+
+      expect(plan.albums.map(entry => entry.album)).toEqual(['Black Mahogani', 'Silentintroduction']);
+      expect(plan.albums[0].albumTrackCount).toBe(3);
+    });
+  });
+
+  describe('accepting a plan', () => {
+    const plan = SlskdAlbumPlannerService.buildPlan(
+      [
+        track('1', 'Black Mahogani'),
+        track('2', 'Black Mahogani'),
+        track('3', 'Black Mahogani'),
+        track('4', 'Silentintroduction'),
+        track('5', 'Silentintroduction'),
+        track('6', undefined),
+      ],
+      {},
+      DEFAULT_ALBUM_THRESHOLD
+    );
+    const [mahogani, silent] = plan.albums;
+
+    it('reports the searches saved by the accepted albums', () => {
+      expect(SlskdAlbumPlannerService.savedSearches(plan, new Set([mahogani.key, silent.key]))).toBe(3);
+      expect(SlskdAlbumPlannerService.savedSearches(plan, new Set([silent.key]))).toBe(1);
+      expect(SlskdAlbumPlannerService.savedSearches(plan, new Set())).toBe(0);
+    });
+
+    it('pushes accepted albums as album items and everything else as tracks', () => {
+      const items = SlskdAlbumPlannerService.toPushItems(plan, new Set([mahogani.key]));
+
+      expect(items.map(item => item.id)).toEqual([`album:${mahogani.key}`, '4', '5', '6']);
+      expect(items[0]).toMatchObject({ artist: 'Moodymann', album: 'Black Mahogani' });
+      expect(items[0].albumTracks?.map(t => t.id)).toEqual(['1', '2', '3']);
+    });
+  });
+});
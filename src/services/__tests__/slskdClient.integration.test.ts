@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SlskdClientService } from '../slskdClient.service';
+import { SlskdStorageService } from '../slskdStorage.service';
+import { createFakeSlskd, fakePeerResponses, type FakeSlskd } from '@/test/fakeSlskd/fakeSlskdServer';
+import type { SlskdConfig, SlskdDownloadOrigin, SlskdTrackToSync } from '@/types/slskd';
+
+const track: SlskdTrackToSync = { id: 'sp-1', title: 'Windowlicker', artist: 'Aphex Twin' };
+
+describe('slskd processing flow against a fake slskd', () => {
+  let fake: FakeSlskd;
+  let config: SlskdConfig;
+
+  const start = async (options: Parameters<typeof createFakeSlskd>[0]) => {
+    fake = createFakeSlskd(options);
+    const apiEndpoint = await fake.listen();
+    config = SlskdStorageService.withDefaults({ apiEndpoint, apiKey: fake.apiKey });
+  };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await fake.close();
+  });
+
+  describe('testConnection', () => {
+    it('succeeds with the right key and fails with a 401', async () => {
+      await start({});
+
+      expect(await SlskdClientService.testConnection(config)).toBe(true);
+      expect(await SlskdClientService.testConnection({ ...config, apiKey: 'wrong-key' })).toBe(false);
+
+      fake.configure({ unauthorized: true });
+      expect(await SlskdClientService.testConnection(config)).toBe(false);
+    });
+  });
+
+  it('searches, picks the best file, downloads it and links it back to the track', async () => {
+    await start({
+      searches: [{ match: '', state: 'Completed', pollsUntilDone: 1, responses: fakePeerResponses }],
+    });
+
+    const search = await SlskdClientService.addToWishlist(config, 'Aphex Twin - Windowlicker');
+    expect(search.state).toBe('InProgress');
+    expect((await SlskdClientService.getSearch(config, search.id)).state).toBe('InProgress');
+    expect(await SlskdClientService.getSearchResponses(config, search.id)).toEqual([]);
+
+    const done = await SlskdClientService.getSearch(config, search.id);
+    expect(done).toMatchObject({ state: 'Completed', responseCount: 2, fileCount: 2 });
+
+    const responses = await SlskdClientService.getSearchResponses(config, search.id);
+    const best = SlskdClientService.pickBestCandidate(
+      SlskdClientService.rankSearchCandidates(responses, track, config.qualityPolicy)
+    );
+    expect(best).toMatchObject({ username: 'fake-peer-1', format: 'flac' });
+
+    await SlskdClientService.enqueueDownload(config, best!.username, [
+      { filename: best!.file.filename, size: best!.file.size },
+    ]);
+    const origins: SlskdDownloadOrigin[] = [{
+      spotifyTrackId: track.id,
+      title: track.title,
+      artist: track.artist,
+      username: best!.username,
+      filename: best!.file.filename,
+      queuedAt: new Date().toISOString(),
+    }];
+
+    const statuses: string[] = [];
+    for (let i = 0; i < 3; i++) {
+      const [transfer] = await SlskdClientService.getDownloads(config);
+      statuses.push(SlskdClientService.getTransferStatus(transfer.state));
+    }
+    expect(statuses).toEqual(['queued', 'downloading', 'completed']);
+
+    const [completed] = await SlskdClientService.getDownloads(config);
+    expect(completed).toMatchObject({ percentComplete: 100, bytesTransferred: best!.file.size });
+    expect(SlskdClientService.findDownloadOrigin(completed, origins)?.spotifyTrackId).toBe('sp-1');
+  });
+
+  it('moves a timed out search on to the next query strategy', async () => {
+    await start({ searches: [{ match: /remix/i, state: 'TimedOut' }] });
+    const remix: SlskdTrackToSync = { id: 'sp-2', title: 'Xtal (Remix)', artist: 'Aphex Twin' };
+
+    const search = await SlskdClientService.addToWishlist(config, 'Aphex Twin - Xtal (Remix)');
+    await SlskdClientService.getExistingSearches(config);
+    const [finished] = await SlskdClientService.getExistingSearches(config);
+
+    expect(finished.state).toBe('TimedOut');
+    expect(SlskdClientService.isSearchExhausted(finished)).toBe(true);
+    expect(SlskdClientService.nextSearchStrategy(remix, 'artist-title')).toMatchObject({
+      strategy: 'core-title',
+      searchText: 'Aphex Twin - Xtal',
+    });
+
+    await SlskdClientService.deleteSearch(config, search.id);
+    expect(fake.getSearches()).toEqual([]);
+  });
+
+  it('retries a failed download from the same peer', async () => {
+    await start({ transfers: [{ match: '', outcome: 'errored', pollsUntilDone: 1 }] });
+    const file = { filename: 'Shared\\Aphex Twin - Windowlicker.mp3', size: 14_000_000 };
+
+    await SlskdClientService.enqueueDownload(config, 'fake-peer-2', [file]);
+    const [failed] = await SlskdClientService.getDownloads(config);
+    expect(SlskdClientService.getTransferStatus(failed.state)).toBe('failed');
+
+    fake.configure({ transfers: [{ match: '', outcome: 'succeeded', pollsUntilDone: 1 }] });
+    await SlskdClientService.retryDownload(config, failed);
+
+    const downloads = await SlskdClientService.getDownloads(config);
+    expect(downloads).toHaveLength(1);
+    expect(downloads[0].id).not.toBe(failed.id);
+    expect(SlskdClientService.getTransferStatus(downloads[0].state)).toBe('completed');
+  });
+
+  it('cancels a queued download', async () => {
+    await start({});
+
+    await SlskdClientService.enqueueDownload(config, 'fake-peer-1', [{ filename: 'Music\\a.flac', size: 1 }]);
+    const [queued] = await SlskdClientService.getDownloads(config);
+    await SlskdClientService.cancelDownload(config, queued.username, queued.id);
+
+    expect(fake.getTransfers()[0].state).toBe('Completed, Cancelled');
+  });
+
+  it('still answers a slow instance within the request timeout', async () => {
+    await start({ delayMs: 300 });
+
+    expect(await SlskdClientService.getExistingSearches(config)).toEqual([]);
+  });
+});
@@ -1,5 +1,74 @@
-import { describe, it, expect } from 'vitest';
-import { SlskdClientService } from '../slskdClient.service';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { SlskdApiError, SlskdClientService } from '../slskdClient.service';
+import type {
+  SlskdConfig,
+  SlskdDownloadOrigin,
+  SlskdQualityPolicy,
+  SlskdSearchFile,
+  SlskdSearchPeerResponse,
+  SlskdSearchResponse,
+  SlskdTrackToSync,
+  SlskdTransfer,
+} from '@/types/slskd';
+
+const config: SlskdConfig = {
+  apiEndpoint: 'http://localhost:5030',
+  apiKey: 'test-key',
+  downloadsFolder: '',
+  searchFormat: 'primary',
+  qualityPolicy: {
+    minBitrate: 320,
+    allowedFormats: ['flac', 'mp3', 'm4a'],
+    minSizeMb: 2,
+    maxSizeMb: 200,
+    bannedKeywords: ['snippet', 'preview', 'karaoke'],
+  },
+  pushPolicy: { concurrency: 2, spacingMs: 250 },
+  connectionStatus: true,
+};
+
+const track: SlskdTrackToSync = {
+  id: 'sp1',
+  title: 'Strings of Life',
+  artist: 'Rhythim Is Rhythim',
+  duration_ms: 390000,
+};
+
+const file = (filename: string, overrides: Partial<SlskdSearchFile> = {}): SlskdSearchFile => ({
+  filename,
+  size: 12_000_000,
+  bitRate: 320,
+  length: 390,
+  ...overrides,
+});
+
+const peer = (username: string, files: SlskdSearchFile[], overrides: Partial<SlskdSearchPeerResponse> = {}): SlskdSearchPeerResponse => ({
+  username,
+  fileCount: files.length,
+  files,
+  hasFreeUploadSlot: true,
+  uploadSpeed: 1_000_000,
+  queueLength: 0,
+  ...overrides,
+});
+
+const transfer = (overrides: Partial<SlskdTransfer> = {}): SlskdTransfer => ({
+  id: 't1',
+  username: 'peer',
+  filename: 'Music\\Rhythim Is Rhythim\\01 - Strings of Life.flac',
+  size: 40_000_000,
+  state: 'InProgress',
+  bytesTransferred: 0,
+  averageSpeed: 0,
+  percentComplete: 0,
+  ...overrides,
+});
+
+const okResponse = (body: unknown) => ({
+  ok: true,
+  status: 200,
+  text: () => Promise.resolve(body === undefined ? '' : JSON.stringify(body)),
+});
 
 describe('SlskdClientService', () => {
   describe('formatSearchQuery', () => {
@@ -95,6 +164,11 @@ describe('SlskdClientService', () => {
         'artist title'
       );
     });
+
+    it('keeps letters of any script', () => {
+      expect(SlskdClientService.normalizeSearchText('Кино – Группа крови!')).toBe('кино группа крови');
+      expect(SlskdClientService.normalizeSearchText('宇多田ヒカル - First Love')).toBe('宇多田ヒカル first love');
+    });
   });
 
   describe('formatAlbumSearchQuery', () => {
@@ -151,6 +225,76 @@ describe('SlskdClientService', () => {
     });
   });
 
+  describe('buildSearchStrategies', () => {
+    it('falls back to the core title, the title alone and a transliterated search', () => {
+      const chain = SlskdClientService.buildSearchStrategies({
+        id: 'sp2',
+        title: 'Café del Mar (Energy 52 Remix)',
+        artist: 'Energy 52, Paul Schmitz-Moormann',
+        album: 'Café del Mar',
+      });
+
+      expect(chain).toEqual([
+        { strategy: 'artist-title', searchText: 'Energy 52 - Café del Mar (Energy 52 Remix)' },
+        { strategy: 'core-title', searchText: 'Energy 52 - Café del Mar' },
+        { strategy: 'title-only', searchText: 'Café del Mar' },
+        { strategy: 'transliterated', searchText: 'energy 52 - cafe del mar' },
+      ]);
+    });
+
+    it('keeps the original-script searches for non-Latin metadata', () => {
+      const kino = SlskdClientService.buildSearchStrategies({ id: 'sp3', title: 'Группа крови', artist: 'Кино' });
+      const utada = SlskdClientService.buildSearchStrategies({ id: 'sp4', title: 'ファーストラヴ', artist: '宇多田ヒカル' });
+
+      expect(kino.map(attempt => attempt.strategy)).toEqual(['artist-title', 'title-only', 'transliterated']);
+      expect(kino[0].searchText).toBe('Кино - Группа крови');
+      expect(utada[0]).toEqual({ strategy: 'artist-title', searchText: '宇多田ヒカル - ファーストラヴ' });
+    });
+
+    it('searches by album last', () => {
+      const chain = SlskdClientService.buildSearchStrategies({ ...track, album: 'Innovator' });
+
+      expect(chain[chain.length - 1]).toEqual({ strategy: 'album', searchText: 'Rhythim Is Rhythim - Innovator' });
+    });
+
+    it('leaves out strategies that repeat an earlier search', () => {
+      const chain = SlskdClientService.buildSearchStrategies(track);
+
+      expect(chain.map(attempt => attempt.strategy)).toEqual(['artist-title', 'title-only']);
+    });
+
+    it('skips the title-only search for a one-word title', () => {
+      const chain = SlskdClientService.buildSearchStrategies({ id: 'sp3', title: 'Windowlicker', artist: 'Aphex Twin', album: 'Windowlicker EP' });
+
+      expect(chain.map(attempt => attempt.strategy)).toEqual(['artist-title', 'album']);
+    });
+  });
+
+  describe('nextSearchStrategy', () => {
+    it('starts with the first strategy and moves past skipped ones', () => {
+      expect(SlskdClientService.nextSearchStrategy(track, null)?.strategy).toBe('artist-title');
+      expect(SlskdClientService.nextSearchStrategy(track, 'artist-title')?.strategy).toBe('title-only');
+      expect(SlskdClientService.nextSearchStrategy(track, 'core-title')?.strategy).toBe('title-only');
+    });
+
+    it('returns null once the chain is used up', () => {
+      expect(SlskdClientService.nextSearchStrategy(track, 'title-only')).toBeNull();
+    });
+  });
+
+  describe('isSearchExhausted', () => {
+    it('is true for a finished search without responses', () => {
+      expect(SlskdClientService.isSearchExhausted({ id: '1', searchText: 'x', state: 'TimedOut', responseCount: 0 })).toBe(true);
+      expect(SlskdClientService.isSearchExhausted({ id: '1', searchText: 'x', state: 'Completed' })).toBe(true);
+    });
+
+    it('is false while running, after responses, or when cancelled', () => {
+      expect(SlskdClientService.isSearchExhausted({ id: '1', searchText: 'x', state: 'InProgress' })).toBe(false);
+      expect(SlskdClientService.isSearchExhausted({ id: '1', searchText: 'x', state: 'Completed', responseCount: 3 })).toBe(false);
+      expect(SlskdClientService.isSearchExhausted({ id: '1', searchText: 'x', state: 'Cancelled' })).toBe(false);
+    });
+  });
+
   describe('isSearchDuplicate — album searches', () => {
     const existingSearches = [
       { id: '1', searchText: 'Bicep - Isles', state: 'InProgress' as const },
@@ -250,4 +394,383 @@ describe('SlskdClientService', () => {
       expect(SlskdClientService.isSearchDuplicate([], 'Artist - Title')).toBe(false);
     });
   });
+
+  describe('rankSearchCandidates', () => {
+    it('ranks lossless above mp3 for the same file name', () => {
+      const ranked = SlskdClientService.rankSearchCandidates([
+        peer('a', [file('Music\\Rhythim Is Rhythim\\01 - Strings of Life.mp3')]),
+        peer('b', [file('Music\\Rhythim Is Rhythim\\01 - Strings of Life.flac', { bitRate: undefined, size: 40_000_000 })]),
+      ], track);
+
+      expect(ranked.map(c => c.format)).toEqual(['flac', 'mp3']);
+      expect(ranked[0].similarity).toBe(1);
+    });
+
+    it('ranks a closer file name above a better format', () => {
+      const ranked = SlskdClientService.rankSearchCandidates([
+        peer('a', [file('Other Artist/Something Else.flac', { bitRate: undefined })]),
+        peer('b', [file('Rhythim Is Rhythim/Strings_of_Life.mp3')]),
+      ], track);
+
+      expect(ranked[0].username).toBe('b');
+    });
+
+    it('skips locked and non-audio files', () => {
+      const ranked = SlskdClientService.rankSearchCandidates([
+        peer('a', [
+          file('Rhythim Is Rhythim/Strings of Life.mp3', { isLocked: true }),
+          file('Rhythim Is Rhythim/cover.jpg'),
+          file('Rhythim Is Rhythim/Strings of Life.m4a'),
+        ]),
+      ], track);
+
+      expect(ranked).toHaveLength(1);
+      expect(ranked[0].format).toBe('m4a');
+    });
+
+    it('penalises previews and files of a different length', () => {
+      const [preview] = SlskdClientService.rankSearchCandidates(
+        [peer('a', [file('Rhythim Is Rhythim/Strings of Life.mp3', { size: 500_000 })])], track);
+      const [edit] = SlskdClientService.rankSearchCandidates(
+        [peer('a', [file('Rhythim Is Rhythim/Strings of Life.mp3', { length: 210 })])], track);
+
+      expect(preview.sizeScore).toBe(0);
+      expect(edit.sizeScore).toBe(0.2);
+    });
+
+    it('breaks ties by free upload slot, then upload speed', () => {
+      const name = 'Rhythim Is Rhythim/Strings of Life.mp3';
+      const ranked = SlskdClientService.rankSearchCandidates([
+        peer('busy', [file(name)], { hasFreeUploadSlot: false, uploadSpeed: 9_000_000 }),
+        peer('slow', [file(name)], { uploadSpeed: 100_000 }),
+        peer('fast', [file(name)], { uploadSpeed: 5_000_000 }),
+      ], track);
+
+      expect(ranked.map(c => c.username)).toEqual(['fast', 'slow', 'busy']);
+    });
+  });
+
+  describe('checkQualityPolicy', () => {
+    const policy: SlskdQualityPolicy = config.qualityPolicy;
+    const check = (overrides: Partial<SlskdSearchFile>, format = 'mp3', forTrack = track) =>
+      SlskdClientService.checkQualityPolicy(
+        file('Rhythim Is Rhythim/Strings of Life.mp3', overrides), format, policy, forTrack);
+
+    it('passes a 320kbps mp3 of a normal size', () => {
+      expect(check({})).toBeNull();
+    });
+
+    it('rejects formats that are not allowed', () => {
+      expect(check({}, 'ogg')).toBe('OGG is not an allowed format');
+    });
+
+    it('rejects lossy files below the minimum bitrate, but not lossless ones', () => {
+      expect(check({ bitRate: 192 })).toBe('192kbps is below 320kbps');
+      expect(check({ bitRate: 192 }, 'flac')).toBeNull();
+    });
+
+    it('allows lossy files with an unknown bitrate', () => {
+      expect(check({ bitRate: undefined })).toBeNull();
+    });
+
+    it('rejects files outside the size range', () => {
+      expect(check({ size: 1_000_000 })).toMatch(/below 2 MB/);
+      expect(check({ size: 300 * 1024 * 1024 })).toMatch(/above 200 MB/);
+      expect(SlskdClientService.checkQualityPolicy(
+        file('a.flac', { size: 300 * 1024 * 1024 }), 'flac', { ...policy, maxSizeMb: 0 }, track)).toBeNull();
+    });
+
+    it('rejects banned keywords anywhere in the path', () => {
+      expect(check({ filename: 'Snippets\\Preview\\Strings of Life.mp3' })).toBe('Contains banned keyword "preview"');
+      expect(check({ filename: 'Music/Strings of Life-karaoke.mp3' })).toBe('Contains banned keyword "karaoke"');
+    });
+
+    it('matches banned keywords as whole words', () => {
+      expect(check({ filename: 'Music/Previewed Classics/Strings of Life.mp3' })).toBeNull();
+    });
+
+    it('allows a banned keyword that is part of the track title', () => {
+      const previewTrack = { ...track, title: 'Preview' };
+      expect(check({ filename: 'Music/Rhythim Is Rhythim - Preview.mp3' }, 'mp3', previewTrack)).toBeNull();
+    });
+  });
+
+  describe('rankSearchCandidates with a quality policy', () => {
+    it('ranks rejected files after all accepted ones, with the reason', () => {
+      const ranked = SlskdClientService.rankSearchCandidates([
+        peer('low', [file('Rhythim Is Rhythim/Strings of Life.mp3', { bitRate: 128 })]),
+        peer('ok', [file('Other/Unrelated.m4a', { bitRate: 320 })]),
+      ], track, config.qualityPolicy);
+
+      expect(ranked.map(c => c.username)).toEqual(['ok', 'low']);
+      expect(ranked[0].rejectedReason).toBeNull();
+      expect(ranked[1].rejectedReason).toBe('128kbps is below 320kbps');
+    });
+
+    it('never auto-picks a rejected file', () => {
+      const ranked = SlskdClientService.rankSearchCandidates([
+        peer('a', [file('Rhythim Is Rhythim - Strings of Life (snippet).mp3')]),
+      ], track, config.qualityPolicy);
+
+      expect(ranked).toHaveLength(1);
+      expect(SlskdClientService.pickBestCandidate(ranked)).toBeNull();
+    });
+  });
+
+  describe('pickBestCandidate', () => {
+    it('picks the top candidate when its name is close enough', () => {
+      const ranked = SlskdClientService.rankSearchCandidates(
+        [peer('a', [file('Rhythim Is Rhythim - Strings of Life.mp3')])], track);
+
+      expect(SlskdClientService.pickBestCandidate(ranked)?.username).toBe('a');
+    });
+
+    it('returns null when no file name is close enough', () => {
+      const ranked = SlskdClientService.rankSearchCandidates(
+        [peer('a', [file('Derrick May/Innovator.flac')])], track);
+
+      expect(SlskdClientService.pickBestCandidate(ranked)).toBeNull();
+    });
+
+    it('matches non-Latin titles word by word', () => {
+      const kino: SlskdTrackToSync = { id: 'sp3', title: 'Группа крови', artist: 'Кино' };
+      const ranked = SlskdClientService.rankSearchCandidates([
+        peer('a', [file('Music\\Random Artist\\01 - Something else.mp3', { length: undefined })]),
+        peer('b', [file('Кино\\01 - Группа крови.mp3', { length: undefined })]),
+      ], kino);
+
+      expect(SlskdClientService.filenameSimilarity('Music\\Random Artist\\01 - Something else.mp3', kino)).toBe(0);
+      expect(SlskdClientService.filenameSimilarity('Кино\\01 - Группа крови.mp3', kino)).toBe(1);
+      expect(SlskdClientService.pickBestCandidate(ranked)?.username).toBe('b');
+    });
+
+    it('does not pick a preview', () => {
+      const ranked = SlskdClientService.rankSearchCandidates(
+        [peer('a', [file('Rhythim Is Rhythim - Strings of Life.mp3', { size: 400_000 })])], track);
+
+      expect(SlskdClientService.pickBestCandidate(ranked)).toBeNull();
+    });
+  });
+
+  describe('search results and downloads', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('fetches the peer responses for a search', async () => {
+      const responses = [peer('a', [file('Strings of Life.mp3')])];
+      const fetchMock = vi.fn().mockResolvedValue(okResponse(responses));
+      vi.stubGlobal('fetch', fetchMock);
+
+      const result = await SlskdClientService.getSearchResponses(config, 'search-1');
+
+      expect(result).toEqual(responses);
+      expect(fetchMock).toHaveBeenCalledWith(
+        'http://localhost:5030/api/v0/searches/search-1/responses',
+        expect.objectContaining({ method: 'GET' })
+      );
+    });
+
+    it('enqueues downloads from a peer', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(okResponse(undefined));
+      vi.stubGlobal('fetch', fetchMock);
+
+      await SlskdClientService.enqueueDownload(config, 'dj user', [{ filename: 'Music\\a.flac', size: 123 }]);
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('http://localhost:5030/api/v0/transfers/downloads/dj%20user');
+      expect(init.method).toBe('POST');
+      expect(JSON.parse(init.body)).toEqual([{ filename: 'Music\\a.flac', size: 123 }]);
+      expect(init.headers['X-API-Key']).toBe('test-key');
+    });
+
+    it('throws with the slskd error text when a download is rejected', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
+        ok: false,
+        status: 403,
+        headers: new Headers(),
+        text: () => Promise.resolve('Forbidden'),
+      }));
+
+      await expect(
+        SlskdClientService.enqueueDownload(config, 'a', [{ filename: 'a.flac', size: 1 }])
+      ).rejects.toThrow('slskd API error (403): Forbidden');
+    });
+
+    it('reports rate limiting as retryable with the Retry-After delay', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
+        ok: false,
+        status: 429,
+        headers: new Headers({ 'Retry-After': '7' }),
+        text: () => Promise.resolve('Too Many Requests'),
+      }));
+
+      const error = await SlskdClientService.addToWishlist(config, 'a - b').catch(e => e);
+
+      expect(error).toBeInstanceOf(SlskdApiError);
+      expect(error).toMatchObject({ status: 429, retryAfterMs: 7000, isRetryable: true });
+    });
+  });
+
+  describe('getTransferStatus', () => {
+    it.each([
+      ['Requested', 'queued'],
+      ['Queued, Remotely', 'queued'],
+      ['Initializing', 'downloading'],
+      ['InProgress', 'downloading'],
+      ['Completed, Succeeded', 'completed'],
+      ['Completed, Cancelled', 'cancelled'],
+      ['Completed, Errored', 'failed'],
+      ['Completed, TimedOut', 'failed'],
+      ['Completed, Rejected', 'failed'],
+    ])('maps %s to %s', (state, expected) => {
+      expect(SlskdClientService.getTransferStatus(state)).toBe(expected);
+    });
+  });
+
+  describe('findDownloadOrigin', () => {
+    const wishlist: SlskdDownloadOrigin = {
+      spotifyTrackId: 'sp1',
+      title: 'Strings of Life',
+      artist: 'Rhythim Is Rhythim',
+      queuedAt: '2026-01-01T00:00:00Z',
+    };
+
+    it('prefers the origin recorded for the exact file', () => {
+      const exact: SlskdDownloadOrigin = {
+        ...wishlist,
+        spotifyTrackId: 'sp2',
+        username: 'peer',
+        filename: transfer().filename,
+      };
+
+      expect(SlskdClientService.findDownloadOrigin(transfer(), [wishlist, exact])?.spotifyTrackId).toBe('sp2');
+    });
+
+    it('links a wishlist track by file name', () => {
+      expect(SlskdClientService.findDownloadOrigin(transfer(), [wishlist])?.spotifyTrackId).toBe('sp1');
+    });
+
+    it('does not link an unrelated file', () => {
+      const other = transfer({ filename: 'Music\\Derrick May\\Innovator.flac' });
+      expect(SlskdClientService.findDownloadOrigin(other, [wishlist])).toBeNull();
+    });
+
+    it('ignores origins recorded for a different file', () => {
+      const elsewhere = { ...wishlist, username: 'peer', filename: 'Music\\Other.flac' };
+      expect(SlskdClientService.findDownloadOrigin(transfer(), [elsewhere])).toBeNull();
+    });
+  });
+
+  describe('transfers', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('flattens downloads from every user and directory', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(okResponse([
+        {
+          username: 'a',
+          directories: [
+            { directory: 'Music', fileCount: 2, files: [transfer({ id: '1', username: 'a' }), transfer({ id: '2', username: 'a' })] },
+          ],
+        },
+        {
+          username: 'b',
+          directories: [{ directory: 'Other', fileCount: 1, files: [transfer({ id: '3', username: '' })] }],
+        },
+      ])));
+
+      const downloads = await SlskdClientService.getDownloads(config);
+
+      expect(downloads.map(d => d.id)).toEqual(['1', '2', '3']);
+      expect(downloads[2].username).toBe('b');
+    });
+
+    it('returns no downloads for an empty response', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(okResponse(undefined)));
+
+      expect(await SlskdClientService.getDownloads(config)).toEqual([]);
+    });
+
+    it('cancels a download without removing it', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(okResponse(undefined));
+      vi.stubGlobal('fetch', fetchMock);
+
+      await SlskdClientService.cancelDownload(config, 'dj user', 't1');
+
+      expect(fetchMock).toHaveBeenCalledWith(
+        'http://localhost:5030/api/v0/transfers/downloads/dj%20user/t1?remove=false',
+        expect.objectContaining({ method: 'DELETE' })
+      );
+    });
+
+    it('retries by removing the old transfer and queueing the file again', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(okResponse(undefined));
+      vi.stubGlobal('fetch', fetchMock);
+
+      await SlskdClientService.retryDownload(config, transfer({ state: 'Completed, Errored' }));
+
+      expect(fetchMock.mock.calls.map(([url, init]) => `${init.method} ${url}`)).toEqual([
+        'DELETE http://localhost:5030/api/v0/transfers/downloads/peer/t1?remove=true',
+        'POST http://localhost:5030/api/v0/transfers/downloads/peer',
+      ]);
+      expect(JSON.parse(fetchMock.mock.calls[1][1].body)).toEqual([
+        { filename: transfer().filename, size: 40_000_000 },
+      ]);
+    });
+  });
+
+  describe('wishlist', () => {
+    const now = new Date('2026-04-30T12:00:00Z');
+    const search = (overrides: Partial<SlskdSearchResponse> = {}): SlskdSearchResponse => ({
+      id: 's1',
+      searchText: 'Rhythim Is Rhythim - Strings of Life',
+      state: 'InProgress',
+      startedAt: '2026-04-28T12:00:00Z',
+      ...overrides,
+    });
+    const acquisition = { spotify_track_id: 'sp1', slskd_search_id: 's1', matched_at: null };
+
+    it('treats any stopped search as finished', () => {
+      expect(SlskdClientService.isSearchFinished(search({ state: 'Completed, TimedOut' as SlskdSearchResponse['state'] }))).toBe(true);
+      expect(SlskdClientService.isSearchFinished(search({ state: 'Cancelled' }))).toBe(true);
+      expect(SlskdClientService.isSearchFinished(search())).toBe(false);
+    });
+
+    it('does not treat a cancelled search as exhausted', () => {
+      expect(SlskdClientService.isSearchExhausted(search({ state: 'Completed, Cancelled' as SlskdSearchResponse['state'] }))).toBe(false);
+    });
+
+    it('links searches to their Spotify track and computes their age', () => {
+      const [entry] = SlskdClientService.buildWishlistEntries([search()], [acquisition], now);
+
+      expect(entry).toMatchObject({ ageDays: 2, spotifyTrackId: 'sp1', matched: false, categories: [] });
+    });
+
+    it('flags finished, orphaned and stale searches', () => {
+      const entries = SlskdClientService.buildWishlistEntries([
+        search({ id: 's1', state: 'Completed' }),
+        search({ id: 's2', startedAt: '2026-03-01T00:00:00Z' }),
+      ], [{ ...acquisition, matched_at: '2026-04-29T00:00:00Z' }], now);
+
+      expect(entries.map(entry => [entry.search.id, entry.categories])).toEqual([
+        ['s2', ['orphaned', 'stale']],
+        ['s1', ['finished', 'stale']],
+      ]);
+      expect(entries[1].matched).toBe(true);
+    });
+
+    it('deletes a search', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(okResponse(undefined));
+      vi.stubGlobal('fetch', fetchMock);
+
+      await SlskdClientService.deleteSearch(config, 's1');
+
+      expect(fetchMock).toHaveBeenCalledWith(
+        'http://localhost:5030/api/v0/searches/s1',
+        expect.objectContaining({ method: 'DELETE' })
+      );
+    });
+  });
 });
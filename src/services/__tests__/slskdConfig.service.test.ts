@@ -0,0 +1,186 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { SlskdConfigService } from '../slskdConfig.service';
+import { SlskdStorageService, DEFAULT_QUALITY_POLICY } from '../slskdStorage.service';
+import { supabase } from '@/integrations/supabase/client';
+import { queryBuilder } from '@/test/supabaseMock';
+
+const selectReturning = (data: unknown) => queryBuilder({
+  select: vi.fn().mockReturnValue({
+    eq: vi.fn().mockReturnValue({
+      maybeSingle: vi.fn().mockResolvedValue({ data, error: null })
+    })
+  })
+});
+
+const prefsRow = {
+  slskd_api_endpoint: 'http://slskd:5030',
+  slskd_api_key_secret_id: 'secret-1',
+  slskd_downloads_folder: '/downloads',
+  slskd_search_format: 'full',
+  slskd_quality_policy: { minBitrate: 256 },
+  slskd_connection_status: true,
+  slskd_last_connection_test: '2026-10-01T00:00:00Z',
+};
+
+describe('SlskdConfigService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+    SlskdStorageService.clearConfig();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  describe('loadConfig', () => {
+    it('loads the config from user preferences with the key from Vault', async () => {
+      vi.mocked(supabase.from).mockReturnValue(selectReturning(prefsRow));
+      vi.mocked(supabase.functions.invoke).mockResolvedValue({ data: { api_key: 'vault-key' }, error: null });
+
+      const config = await SlskdConfigService.loadConfig('user-load');
+
+      expect(supabase.functions.invoke).toHaveBeenCalledWith('slskd-config', { body: { action: 'get_api_key' } });
+      expect(config).toMatchObject({
+        apiEndpoint: 'http://slskd:5030',
+        apiKey: 'vault-key',
+        downloadsFolder: '/downloads',
+        searchFormat: 'full',
+        connectionStatus: true,
+      });
+      expect(config.qualityPolicy).toEqual({ ...DEFAULT_QUALITY_POLICY, minBitrate: 256 });
+      expect(SlskdStorageService.getConfig().apiKey).toBe('vault-key');
+    });
+
+    it('shares one load between callers for the same user', async () => {
+      vi.mocked(supabase.from).mockReturnValue(selectReturning(null));
+
+      await Promise.all([SlskdConfigService.loadConfig('user-shared'), SlskdConfigService.loadConfig('user-shared')]);
+
+      expect(supabase.from).toHaveBeenCalledTimes(1);
+    });
+
+    it('migrates a localStorage config when none is saved', async () => {
+      localStorage.setItem(
+        'mako-sync:slskd-config',
+        JSON.stringify({ apiEndpoint: 'http://local:5030', apiKey: 'local-key' })
+      );
+      const upsert = vi.fn().mockResolvedValue({ error: null });
+      vi.mocked(supabase.from)
+        .mockReturnValueOnce(selectReturning(null))
+        .mockReturnValueOnce(queryBuilder({ upsert }));
+      vi.mocked(supabase.functions.invoke).mockResolvedValue({ data: { success: true }, error: null });
+
+      const config = await SlskdConfigService.loadConfig('user-migrate');
+
+      expect(config.apiEndpoint).toBe('http://local:5030');
+      expect(upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ user_id: 'user-migrate', slskd_api_endpoint: 'http://local:5030' }),
+        { onConflict: 'user_id' }
+      );
+      expect(upsert.mock.calls[0][0]).not.toHaveProperty('slskd_api_key');
+      expect(supabase.functions.invoke).toHaveBeenCalledWith('slskd-config', {
+        body: { action: 'store_api_key', api_key: 'local-key' },
+      });
+      expect(SlskdStorageService.getLegacyConfig()).toBeNull();
+    });
+
+    it('throws and allows a retry when the fetch fails', async () => {
+      vi.mocked(supabase.from).mockReturnValue(queryBuilder({
+        select: vi.fn().mockReturnValue({
+          eq: vi.fn().mockReturnValue({
+            maybeSingle: vi.fn().mockResolvedValue({ data: null, error: { message: 'Database error' } })
+          })
+        })
+      }));
+
+      await expect(SlskdConfigService.loadConfig('user-error')).rejects.toEqual({ message: 'Database error' });
+
+      vi.mocked(supabase.from).mockReturnValue(selectReturning(null));
+      await expect(SlskdConfigService.loadConfig('user-error')).resolves.toMatchObject({ apiEndpoint: '' });
+    });
+  });
+
+  describe('saveConfig', () => {
+    it('does not store the API key again when it is unchanged', async () => {
+      SlskdStorageService.saveConfig({ apiEndpoint: 'http://slskd:5030', apiKey: 'same-key' });
+      const upsert = vi.fn().mockResolvedValue({ error: null });
+      vi.mocked(supabase.from).mockReturnValue(queryBuilder({ upsert }));
+
+      await SlskdConfigService.saveConfig('user-123', {
+        ...SlskdStorageService.getConfig(),
+        searchFormat: 'full',
+      });
+
+      expect(upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ slskd_search_format: 'full' }),
+        { onConflict: 'user_id' }
+      );
+      expect(supabase.functions.invoke).not.toHaveBeenCalled();
+      expect(SlskdStorageService.getConfig().searchFormat).toBe('full');
+    });
+
+    it('throws when the upsert fails', async () => {
+      vi.mocked(supabase.from).mockReturnValue(queryBuilder({
+        upsert: vi.fn().mockResolvedValue({ error: { message: 'Database error' } })
+      }));
+
+      await expect(SlskdConfigService.saveConfig('user-123', SlskdStorageService.getConfig()))
+        .rejects.toEqual({ message: 'Database error' });
+    });
+  });
+
+  describe('clearConfig', () => {
+    it('deletes the key from Vault and clears the cached config', async () => {
+      SlskdStorageService.saveConfig({ apiEndpoint: 'http://slskd:5030', apiKey: 'key' });
+      vi.mocked(supabase.functions.invoke).mockResolvedValue({ data: { success: true }, error: null });
+      const eq = vi.fn().mockResolvedValue({ error: null });
+      vi.mocked(supabase.from).mockReturnValue(queryBuilder({ update: vi.fn().mockReturnValue({ eq }) }));
+
+      await SlskdConfigService.clearConfig('user-123');
+
+      expect(supabase.functions.invoke).toHaveBeenCalledWith('slskd-config', { body: { action: 'delete_api_key' } });
+      expect(eq).toHaveBeenCalledWith('user_id', 'user-123');
+      expect(SlskdStorageService.isConfigured()).toBe(false);
+    });
+
+    it('loads the config again afterwards', async () => {
+      vi.mocked(supabase.from).mockReturnValue(selectReturning(prefsRow));
+      vi.mocked(supabase.functions.invoke).mockResolvedValue({ data: { api_key: 'vault-key' }, error: null });
+      await SlskdConfigService.loadConfig('user-clear');
+
+      vi.mocked(supabase.from).mockReturnValue(queryBuilder({
+        update: vi.fn().mockReturnValue({ eq: vi.fn().mockResolvedValue({ error: null }) })
+      }));
+      await SlskdConfigService.clearConfig('user-clear');
+
+      vi.mocked(supabase.from).mockReturnValue(selectReturning(null));
+      await expect(SlskdConfigService.loadConfig('user-clear')).resolves.toMatchObject({ apiEndpoint: '' });
+      expect(supabase.from).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('reset', () => {
+    it('forgets the loaded config and its API key', async () => {
+      vi.mocked(supabase.from).mockReturnValue(selectReturning(prefsRow));
+      vi.mocked(supabase.functions.invoke).mockResolvedValue({ data: { api_key: 'vault-key' }, error: null });
+      await SlskdConfigService.loadConfig('user-reset');
+
+      SlskdConfigService.reset();
+
+      expect(SlskdStorageService.getConfig().apiKey).toBe('');
+      await SlskdConfigService.loadConfig('user-reset');
+      expect(supabase.from).toHaveBeenCalledTimes(2);
+      expect(SlskdStorageService.getConfig().apiKey).toBe('vault-key');
+    });
+
+    it('keeps a load still in flight from filling the config', async () => {
+      vi.mocked(supabase.from).mockReturnValue(selectReturning(prefsRow));
+      vi.mocked(supabase.functions.invoke).mockResolvedValue({ data: { api_key: 'vault-key' }, error: null });
+
+      const load = SlskdConfigService.loadConfig('user-in-flight');
+      SlskdConfigService.reset();
+      await load;
+
+      expect(SlskdStorageService.getConfig().apiKey).toBe('');
+    });
+  });
+});
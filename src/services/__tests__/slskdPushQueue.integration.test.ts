@@ -0,0 +1,218 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SlskdPushQueueService, MAX_PUSH_ATTEMPTS } from '../slskdPushQueue.service';
+import { SlskdStorageService } from '../slskdStorage.service';
+import { TrackAcquisitionService } from '../trackAcquisition.service';
+import { createFakeSlskd, type FakeSlskd } from '@/test/fakeSlskd/fakeSlskdServer';
+import type { SlskdPushQueueState, SlskdTrackToSync } from '@/types/slskd';
+
+const tracks: SlskdTrackToSync[] = [
+  { id: 'sp-1', title: 'Windowlicker', artist: 'Aphex Twin' },
+  { id: 'sp-2', title: 'Teardrop', artist: 'Massive Attack, Elizabeth Fraser', primary_artist: 'Massive Attack' },
+  { id: 'sp-3', title: 'Roygbiv', artist: 'Boards of Canada' },
+];
+
+describe('SlskdPushQueueService against a fake slskd', () => {
+  let fake: FakeSlskd;
+  let recordWishlisted: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(async () => {
+    fake = createFakeSlskd();
+    const apiEndpoint = await fake.listen();
+    SlskdStorageService.saveConfig({
+      apiEndpoint,
+      apiKey: fake.apiKey,
+      pushPolicy: { concurrency: 2, spacingMs: 0 },
+    });
+    SlskdPushQueueService.clear();
+    recordWishlisted = vi.spyOn(TrackAcquisitionService, 'recordWishlisted').mockResolvedValue();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await fake.close();
+    SlskdStorageService.clearConfig();
+    vi.restoreAllMocks();
+  });
+
+  it('creates a search per track and records them', async () => {
+    const states: SlskdPushQueueState[] = [];
+    const unsubscribe = SlskdPushQueueService.subscribe(state => state && states.push(state));
+
+    const result = await SlskdPushQueueService.enqueue('user-1', tracks);
+    unsubscribe();
+
+    expect(result).toMatchObject({ totalTracks: 3, addedCount: 3, skippedCount: 0, failedCount: 0 });
+    expect(fake.getSearches().map(s => s.searchText).sort()).toEqual([
+      'Aphex Twin - Windowlicker',
+      'Boards of Canada - Roygbiv',
+      'Massive Attack - Teardrop',
+    ]);
+    expect(result.wishlisted).toHaveLength(3);
+    expect(recordWishlisted).toHaveBeenCalledWith('user-1', result.wishlisted);
+    expect(SlskdStorageService.getDownloadOrigins().map(o => o.spotifyTrackId).sort()).toEqual(['sp-1', 'sp-2', 'sp-3']);
+    expect(states.some(s => s.status === 'running' && s.pending.length === 1)).toBe(true);
+    expect(SlskdPushQueueService.getState()).toMatchObject({ status: 'done', pending: [], unrecorded: [] });
+  });
+
+  it('creates one search for an album item and records each of its tracks', async () => {
+    const albumTracks: SlskdTrackToSync[] = [
+      { id: 'sp-4', title: 'Xtal', artist: 'Aphex Twin', album: 'Selected Ambient Works 85-92' },
+      { id: 'sp-5', title: 'Tha', artist: 'Aphex Twin', album: 'Selected Ambient Works 85-92' },
+    ];
+
+    const result = await SlskdPushQueueService.enqueue('user-1', [
+      { id: 'album:saw', title: 'Selected Ambient Works 85-92', artist: 'Aphex Twin', album: 'Selected Ambient Works 85-92', albumTracks },
+      tracks[2],
+    ]);
+
+    expect(result).toMatchObject({ totalTracks: 3, addedCount: 3, skippedCount: 0, failedCount: 0 });
+    expect(fake.getSearches().map(s => s.searchText).sort()).toEqual([
+      'Aphex Twin - Selected Ambient Works 85-92',
+      'Boards of Canada - Roygbiv',
+    ]);
+    expect(result.wishlisted.filter(entry => entry.strategy === 'album').map(entry => entry.spotifyTrackId))
+      .toEqual(['sp-4', 'sp-5']);
+    expect(SlskdStorageService.getDownloadOrigins().map(o => o.spotifyTrackId).sort()).toEqual(['sp-3', 'sp-4', 'sp-5']);
+  });
+
+  it('skips tracks slskd already has a search for, including ones earlier in the batch', async () => {
+    await SlskdPushQueueService.enqueue('user-1', [tracks[0]]);
+
+    const result = await SlskdPushQueueService.enqueue('user-1', [tracks[0], tracks[1], { ...tracks[1], id: 'sp-2b' }]);
+
+    expect(result).toMatchObject({ totalTracks: 3, addedCount: 1, skippedCount: 2, failedCount: 0 });
+    expect(fake.getSearches()).toHaveLength(2);
+  });
+
+  it('backs off on 429 and carries on', async () => {
+    fake.failNext(429, { times: 2, retryAfterSeconds: 0 });
+    const backoffs: string[] = [];
+    const unsubscribe = SlskdPushQueueService.subscribe(state => {
+      if (state?.backoffUntil) backoffs.push(state.backoffUntil);
+    });
+
+    const result = await SlskdPushQueueService.enqueue('user-1', tracks);
+    unsubscribe();
+
+    expect(result).toMatchObject({ addedCount: 3, failedCount: 0 });
+    expect(backoffs.length).toBeGreaterThan(0);
+  });
+
+  it('fails a track that keeps getting server errors', async () => {
+    fake.failNext(503, { times: MAX_PUSH_ATTEMPTS, method: 'POST', retryAfterSeconds: 0 });
+
+    const result = await SlskdPushQueueService.enqueue('user-1', [tracks[0]]);
+
+    expect(result).toMatchObject({ totalTracks: 1, addedCount: 0, failedCount: 1 });
+    expect(result.errors[0].error).toContain('slskd API error (503)');
+  });
+
+  it('counts each track as failed when the key is revoked part way', async () => {
+    SlskdStorageService.saveConfig({ pushPolicy: { concurrency: 1, spacingMs: 0 } });
+    const unsubscribe = SlskdPushQueueService.subscribe(state => {
+      if (state?.currentTrack) fake.configure({ unauthorized: true });
+    });
+
+    const result = await SlskdPushQueueService.enqueue('user-1', tracks.slice(0, 2));
+    unsubscribe();
+
+    expect(result).toMatchObject({ addedCount: 0, failedCount: 2 });
+    expect(result.errors[0]).toEqual({ track: 'Aphex Twin - Windowlicker', error: 'slskd API error (401): Unauthorized' });
+    expect(recordWishlisted).not.toHaveBeenCalled();
+  });
+
+  it('fails a track whose download origins cannot be saved and finishes the rest', async () => {
+    const recordOrigins = SlskdStorageService.recordDownloadOrigins.bind(SlskdStorageService);
+    vi.spyOn(SlskdStorageService, 'recordDownloadOrigins')
+      .mockImplementationOnce(() => {
+        throw new Error('QuotaExceededError');
+      })
+      .mockImplementation(recordOrigins);
+
+    const result = await SlskdPushQueueService.enqueue('user-1', tracks);
+
+    expect(result).toMatchObject({ totalTracks: 3, addedCount: 2, failedCount: 1 });
+    expect(result.errors[0].error).toBe('Could not record download origins: QuotaExceededError');
+    expect(result.wishlisted).toHaveLength(2);
+    expect(SlskdPushQueueService.getState()).toMatchObject({ status: 'done', pending: [] });
+  });
+
+  it('stops with the error and keeps the tracks when slskd rejects the key', async () => {
+    fake.configure({ unauthorized: true });
+
+    await SlskdPushQueueService.enqueue('user-1', tracks);
+
+    expect(SlskdPushQueueService.getState()).toMatchObject({
+      status: 'failed',
+      error: 'slskd API error (401): Unauthorized',
+    });
+    expect(SlskdPushQueueService.getState()?.pending).toHaveLength(3);
+
+    fake.configure({ unauthorized: false });
+    const result = await SlskdPushQueueService.enqueue('user-1', []);
+    expect(result).toMatchObject({ totalTracks: 3, addedCount: 3 });
+  });
+
+  it('resumes a push after a reload and adds up the result', async () => {
+    const interrupted: SlskdPushQueueState = {
+      userId: 'user-1',
+      status: 'running',
+      pending: tracks.slice(1),
+      currentTrack: 'Massive Attack - Teardrop',
+      result: {
+        totalTracks: 3,
+        addedCount: 1,
+        skippedCount: 0,
+        failedCount: 0,
+        errors: [],
+        wishlisted: [{ spotifyTrackId: 'sp-1', searchId: 'earlier', strategy: 'artist-title' }],
+      },
+      unrecorded: [{ spotifyTrackId: 'sp-1', searchId: 'earlier', strategy: 'artist-title' }],
+      startedAt: '2026-10-19T00:00:00Z',
+      updatedAt: '2026-10-19T00:00:00Z',
+    };
+    localStorage.setItem('mako-sync:slskd-push-queue', JSON.stringify(interrupted));
+    // A reload starts with nothing in memory
+    Reflect.set(SlskdPushQueueService, 'state', undefined);
+
+    await SlskdPushQueueService.resume('someone-else');
+    expect(fake.getSearches()).toHaveLength(0);
+
+    await SlskdPushQueueService.resume('user-1');
+
+    expect(SlskdPushQueueService.getState()?.result).toMatchObject({ totalTracks: 3, addedCount: 3, failedCount: 0 });
+    expect(fake.getSearches()).toHaveLength(2);
+    expect(recordWishlisted.mock.calls[0][1]).toHaveLength(3);
+  });
+
+  it('drops the remaining tracks when cancelled', async () => {
+    SlskdStorageService.saveConfig({ pushPolicy: { concurrency: 1, spacingMs: 100 } });
+
+    const push = SlskdPushQueueService.enqueue('user-1', tracks);
+    await SlskdPushQueueService.cancel();
+    await push;
+
+    expect(SlskdPushQueueService.getState()).toMatchObject({ status: 'done', pending: [] });
+    expect(fake.getSearches().length).toBeLessThan(3);
+  });
+
+  it('waits out a slow instance', async () => {
+    fake.configure({ delayMs: 200 });
+
+    const result = await SlskdPushQueueService.enqueue('user-1', [tracks[0]]);
+
+    expect(result.addedCount).toBe(1);
+  });
+
+  describe('backoffDelay', () => {
+    it('doubles from 2s up to a minute, or follows Retry-After', () => {
+      expect(SlskdPushQueueService.backoffDelay(1)).toBe(2000);
+      expect(SlskdPushQueueService.backoffDelay(3)).toBe(8000);
+      expect(SlskdPushQueueService.backoffDelay(10)).toBe(60000);
+      expect(SlskdPushQueueService.backoffDelay(1, 5000)).toBe(5000);
+      expect(SlskdPushQueueService.backoffDelay(1, 600000)).toBe(60000);
+    });
+  });
+});
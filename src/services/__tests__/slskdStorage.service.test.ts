@@ -1,9 +1,11 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { SlskdStorageService } from '../slskdStorage.service';
+import type { SlskdDownloadOrigin } from '@/types/slskd';
 
 describe('SlskdStorageService', () => {
   beforeEach(() => {
     localStorage.clear();
+    SlskdStorageService.clearConfig();
   });
 
   describe('getConfig', () => {
@@ -16,20 +18,47 @@ describe('SlskdStorageService', () => {
       expect(config.connectionStatus).toBe(false);
     });
 
+    it('does not read the old localStorage config', () => {
+      localStorage.setItem('mako-sync:slskd-config', JSON.stringify({ apiEndpoint: 'http://test:5030' }));
+      expect(SlskdStorageService.getConfig().apiEndpoint).toBe('');
+    });
+  });
+
+  describe('getLegacyConfig', () => {
+    it('returns null when nothing stored', () => {
+      expect(SlskdStorageService.getLegacyConfig()).toBeNull();
+    });
+
     it('returns stored config merged with defaults', () => {
       localStorage.setItem(
         'mako-sync:slskd-config',
         JSON.stringify({ apiEndpoint: 'http://test:5030' })
       );
-      const config = SlskdStorageService.getConfig();
-      expect(config.apiEndpoint).toBe('http://test:5030');
-      expect(config.searchFormat).toBe('primary'); // default
+      const config = SlskdStorageService.getLegacyConfig();
+      expect(config?.apiEndpoint).toBe('http://test:5030');
+      expect(config?.searchFormat).toBe('primary'); // default
+    });
+
+    it('fills in the default quality policy for configs saved without one', () => {
+      localStorage.setItem(
+        'mako-sync:slskd-config',
+        JSON.stringify({ apiEndpoint: 'http://test:5030', qualityPolicy: { minBitrate: 256 } })
+      );
+      const config = SlskdStorageService.getLegacyConfig();
+      expect(config?.qualityPolicy.minBitrate).toBe(256);
+      expect(config?.qualityPolicy.allowedFormats).toEqual(['flac', 'mp3', 'm4a']);
+      expect(config?.qualityPolicy.bannedKeywords).toContain('snippet');
     });
 
     it('handles invalid JSON gracefully', () => {
       localStorage.setItem('mako-sync:slskd-config', 'invalid json');
-      const config = SlskdStorageService.getConfig();
-      expect(config.apiEndpoint).toBe('');
+      expect(SlskdStorageService.getLegacyConfig()).toBeNull();
+    });
+
+    it('is removed by clearLegacyConfig', () => {
+      localStorage.setItem('mako-sync:slskd-config', JSON.stringify({ apiEndpoint: 'http://test:5030' }));
+      SlskdStorageService.clearLegacyConfig();
+      expect(SlskdStorageService.getLegacyConfig()).toBeNull();
     });
   });
 
@@ -90,9 +119,64 @@ describe('SlskdStorageService', () => {
     });
   });
 
-  describe('getStorageKey', () => {
-    it('returns the storage key', () => {
-      expect(SlskdStorageService.getStorageKey()).toBe('mako-sync:slskd-config');
+  describe('subscribe', () => {
+    it('notifies listeners of changes until unsubscribed', () => {
+      const listener = vi.fn();
+      const unsubscribe = SlskdStorageService.subscribe(listener);
+
+      SlskdStorageService.saveConfig({ apiEndpoint: 'http://test:5030' });
+      unsubscribe();
+      SlskdStorageService.clearConfig();
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener.mock.calls[0][0].apiEndpoint).toBe('http://test:5030');
+    });
+  });
+
+  describe('download origins', () => {
+    const origin = (overrides: Partial<SlskdDownloadOrigin> = {}): SlskdDownloadOrigin => ({
+      spotifyTrackId: 'sp1',
+      title: 'Title',
+      artist: 'Artist',
+      queuedAt: '2026-01-01T00:00:00Z',
+      ...overrides,
+    });
+
+    it('returns no origins when nothing stored', () => {
+      expect(SlskdStorageService.getDownloadOrigins()).toEqual([]);
+    });
+
+    it('handles invalid JSON gracefully', () => {
+      localStorage.setItem('mako-sync:slskd-download-origins', 'invalid json');
+      expect(SlskdStorageService.getDownloadOrigins()).toEqual([]);
+    });
+
+    it('appends origins and replaces ones for the same file or wishlist track', () => {
+      SlskdStorageService.recordDownloadOrigins([
+        origin(),
+        origin({ spotifyTrackId: 'sp2', username: 'peer', filename: 'a.flac' }),
+      ]);
+      SlskdStorageService.recordDownloadOrigins([
+        origin({ title: 'Updated' }),
+        origin({ spotifyTrackId: 'sp3', username: 'peer', filename: 'a.flac' }),
+        origin({ spotifyTrackId: 'sp4' }),
+      ]);
+
+      expect(SlskdStorageService.getDownloadOrigins().map(o => `${o.spotifyTrackId}:${o.title}`)).toEqual([
+        'sp1:Updated',
+        'sp3:Title',
+        'sp4:Title',
+      ]);
+    });
+
+    it('keeps only the most recent 500 origins', () => {
+      SlskdStorageService.recordDownloadOrigins(
+        Array.from({ length: 510 }, (_, i) => origin({ spotifyTrackId: `sp${i}` }))
+      );
+
+      const origins = SlskdStorageService.getDownloadOrigins();
+      expect(origins).toHaveLength(500);
+      expect(origins[0].spotifyTrackId).toBe('sp10');
     });
   });
 });
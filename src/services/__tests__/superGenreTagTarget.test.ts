@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { parseBuffer, type IAudioMetadata } from 'music-metadata-browser';
+import {
+  isSuperGenreTagTarget,
+  prependSuperGenre,
+  readSuperGenreTag,
+  superGenreTagUpdates,
+} from '../superGenreTagTarget';
+import { writeFlacTags } from '../flacTagWriter';
+import { writeId3Tags } from '../id3TagWriter';
+import type { AudioTagUpdates, SuperGenreTagTarget } from '@/types/audioTags';
+
+/**
+ * fLaC marker and a STREAMINFO block (44.1kHz, mono, 16-bit) flagged as the
+ * last metadata block
+ */
+function minimalFlac(): ArrayBuffer {
+  const bytes = new Uint8Array(4 + 4 + 34);
+  bytes.set([0x66, 0x4c, 0x61, 0x43, 0x80, 0x00, 0x00, 34]);
+  const view = new DataView(bytes.buffer);
+  view.setUint16(8, 4096);
+  view.setUint16(10, 4096);
+  bytes.set([0x0a, 0xc4, 0x40, 0xf0], 18);
+  return bytes.buffer;
+}
+
+const noMetadata = { common: {}, native: {} } as unknown as IAudioMetadata;
+
+/**
+ * Tag a file with the updates and parse it back, the MP3 over a previous
+ * write so frames can be seen being replaced
+ */
+async function roundTrip(format: 'mp3' | 'flac', updates: AudioTagUpdates, before: AudioTagUpdates = {}) {
+  if (format === 'flac') {
+    const blob = writeFlacTags(await writeFlacTags(minimalFlac(), before).arrayBuffer(), updates);
+    return parseBuffer(new Uint8Array(await blob.arrayBuffer()), 'audio/flac');
+  }
+
+  const first = writeId3Tags(new ArrayBuffer(16), noMetadata, { title: 'Some Track', ...before });
+  const firstMetadata = await parseBuffer(new Uint8Array(await first.arrayBuffer()), 'audio/mpeg');
+  const blob = writeId3Tags(await first.arrayBuffer(), firstMetadata, updates);
+  return parseBuffer(new Uint8Array(await blob.arrayBuffer()), 'audio/mpeg');
+}
+
+describe('superGenreTagTarget', () => {
+  it('accepts only well-formed stored targets', () => {
+    expect(isSuperGenreTagTarget({ type: 'genre', mode: 'prepend' })).toBe(true);
+    expect(isSuperGenreTagTarget({ type: 'mediamonkey', field: 3 })).toBe(true);
+    expect(isSuperGenreTagTarget({ type: 'mediamonkey', field: 6 })).toBe(false);
+    expect(isSuperGenreTagTarget({ type: 'txxx', description: ' ' })).toBe(false);
+    expect(isSuperGenreTagTarget(null)).toBe(false);
+  });
+
+  it('puts the SuperGenre in front of the genre, replacing an earlier one', () => {
+    expect(prependSuperGenre('Deep House', 'House')).toBe('House / Deep House');
+    expect(prependSuperGenre('Dance / Deep House', 'House')).toBe('House / Deep House');
+    expect(prependSuperGenre('House / Deep House', 'House')).toBe('House / Deep House');
+    expect(prependSuperGenre(null, 'House')).toBe('House');
+  });
+
+  it('writes MediaMonkey custom fields as COMM frames in MP3 and text fields elsewhere', () => {
+    const target: SuperGenreTagTarget = { type: 'mediamonkey', field: 2 };
+
+    expect(superGenreTagUpdates(target, 'House', 'mp3')).toEqual({ id3Comments: { 'Songs-DB_Custom2': 'House' } });
+    expect(superGenreTagUpdates(target, 'House', 'm4a')).toEqual({ userText: { CUSTOM2: 'House' } });
+  });
+
+  describe.each(['mp3', 'flac'] as const)('reading back a %s write', (format) => {
+    it.each<[string, SuperGenreTagTarget]>([
+      ['grouping', { type: 'grouping' }],
+      ['genre', { type: 'genre', mode: 'replace' }],
+      ['comment', { type: 'comment' }],
+      ['TXXX', { type: 'txxx', description: 'SuperGenre' }],
+      ['MediaMonkey custom', { type: 'mediamonkey', field: 1 }],
+    ])('reads the SuperGenre from the %s target', async (_name, target) => {
+      const updates = superGenreTagUpdates(target, 'Disco', format);
+      const before = superGenreTagUpdates(target, 'House', format);
+
+      const metadata = await roundTrip(format, updates, before);
+
+      expect(readSuperGenreTag(metadata, target)).toBe('Disco');
+    });
+
+    it('reads a prepended SuperGenre and keeps the genre after it', async () => {
+      const target: SuperGenreTagTarget = { type: 'genre', mode: 'prepend' };
+
+      const metadata = await roundTrip(format, superGenreTagUpdates(target, 'Disco', format, 'Nu Disco'));
+
+      expect(readSuperGenreTag(metadata, target)).toBe('Disco');
+      expect(metadata.common.genre?.join(' / ')).toBe('Disco / Nu Disco');
+    });
+  });
+
+  it('ignores a genre or comment that is not a SuperGenre', () => {
+    const metadata = { common: { genre: ['Deep House'], comment: ['promo copy'] }, native: {} } as unknown as IAudioMetadata;
+
+    expect(readSuperGenreTag(metadata, { type: 'genre', mode: 'prepend' })).toBeNull();
+    expect(readSuperGenreTag(metadata, { type: 'comment' })).toBeNull();
+  });
+
+  it('reads a freeform MP4 item', () => {
+    const metadata = {
+      common: {},
+      native: { iTunes: [{ id: '----:com.apple.iTunes:CUSTOM4', value: 'Jazz' }] },
+    } as unknown as IAudioMetadata;
+
+    expect(readSuperGenreTag(metadata, { type: 'mediamonkey', field: 4 })).toBe('Jazz');
+  });
+
+  it('keeps other TXXX and COMM frames when replacing one', async () => {
+    const metadata = await roundTrip(
+      'mp3',
+      { id3Comments: { 'Songs-DB_Custom1': 'Disco' } },
+      { comment: 'promo', userText: { MOOD: 'dark' }, id3Comments: { 'Songs-DB_Custom1': 'House' } }
+    );
+    const frames = metadata.native['ID3v2.3'].map((tag) => [tag.id, tag.value]);
+
+    expect(frames).toContainEqual(['TXXX:MOOD', 'dark']);
+    expect(frames.filter(([id]) => id === 'COMM:Songs-DB_Custom1')).toEqual([
+      ['COMM:Songs-DB_Custom1', { language: 'eng', description: 'Songs-DB_Custom1', text: 'Disco' }],
+    ]);
+    expect(metadata.common.comment).toContain('promo');
+  });
+});
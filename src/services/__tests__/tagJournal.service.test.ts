@@ -0,0 +1,162 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  createTagJournalEntry,
+  findChangedRegion,
+  restoreOriginal,
+  revertLastTagRun,
+} from '../tagJournal.service';
+import {
+  clearTagJournal,
+  getTagJournal,
+  getTagJournalRun,
+  verifyPermission,
+  writeFileWithHandle,
+} from '../directoryHandle.service';
+import { generateFileHash } from '@/utils/fileHash';
+import type { ProcessedFile } from '@/types/slskd';
+
+vi.mock('../directoryHandle.service', () => ({
+  addTagJournalEntry: vi.fn(),
+  clearTagJournal: vi.fn(),
+  getTagJournal: vi.fn(),
+  getTagJournalRun: vi.fn(),
+  verifyPermission: vi.fn(),
+  writeFileWithHandle: vi.fn(),
+}));
+
+const bytes = (text: string) => new TextEncoder().encode(text);
+
+const RUN_ID = '2026-10-19T12:00:00.000Z';
+
+const text = async (blob: Blob) => new TextDecoder().decode(await blob.arrayBuffer());
+
+function processedFile(content: string, handle: FileSystemFileHandle): ProcessedFile {
+  return {
+    filename: 'Track.mp3',
+    relativePath: 'Artist/Track.mp3',
+    artist: 'Artist',
+    title: 'Track',
+    album: null,
+    genres: ['House'],
+    superGenre: 'House',
+    status: 'mapped',
+    file: new File([content], 'Track.mp3'),
+    fileHandle: handle,
+  };
+}
+
+/**
+ * Journal entry for overwriting `original` with `written`, plus a handle
+ * whose file currently holds `current`
+ */
+async function journaled(original: string, written: string, current = written) {
+  const handle = {
+    getFile: async () => new File([current], 'Track.mp3'),
+  } as unknown as FileSystemFileHandle;
+  return createTagJournalEntry(
+    RUN_ID,
+    processedFile(original, handle),
+    bytes(original).buffer as ArrayBuffer,
+    new Blob([written])
+  );
+}
+
+describe('findChangedRegion', () => {
+  it('keeps only the bytes between the common prefix and suffix', () => {
+    const region = findChangedRegion(bytes('ID3 old-tag AUDIO'), bytes('ID3 a-longer-tag AUDIO'));
+
+    expect(region.offset).toBe(4);
+    expect(new TextDecoder().decode(region.originalBytes)).toBe('old');
+    expect(region.writtenLength).toBe('a-longer'.length);
+  });
+
+  it('does not let the suffix overlap the prefix', () => {
+    const region = findChangedRegion(bytes('aaaa'), bytes('aaaaaa'));
+
+    expect(region).toMatchObject({ offset: 4, writtenLength: 2 });
+    expect(region.originalBytes).toHaveLength(0);
+  });
+});
+
+describe('restoreOriginal', () => {
+  it.each([
+    ['a tag that grew', 'HDR small-tag AUDIO-DATA', 'HDR a-much-bigger-tag AUDIO-DATA'],
+    ['a tag that shrank', 'HDR a-much-bigger-tag AUDIO-DATA', 'HDR tiny AUDIO-DATA'],
+    ['a tag at the end of the file', 'ftyp mdat moov-old', 'ftyp mdat moov-new-and-longer'],
+  ])('rebuilds the original file after %s', async (_case, original, written) => {
+    const entry = await journaled(original, written);
+
+    expect(await text(restoreOriginal(bytes(written).buffer as ArrayBuffer, entry))).toBe(original);
+  });
+
+  it('journals far less than the whole file', async () => {
+    const audio = 'x'.repeat(10000);
+    const entry = await journaled(`ID3 old ${audio}`, `ID3 new-tag ${audio}`);
+
+    expect(entry.originalBytes.byteLength).toBeLessThan(10);
+    expect(entry.originalHash).toBe(await generateFileHash(new File([`ID3 old ${audio}`], 'x')));
+  });
+});
+
+describe('revertLastTagRun', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(verifyPermission).mockResolvedValue(true);
+    vi.mocked(getTagJournalRun).mockResolvedValue(RUN_ID);
+  });
+
+  it('restores every file and clears the journal', async () => {
+    const entry = await journaled('ID3 old AUDIO', 'ID3 new-tag AUDIO');
+    vi.mocked(getTagJournal).mockResolvedValue([entry]);
+    const onProgress = vi.fn();
+
+    const result = await revertLastTagRun(onProgress);
+
+    expect(result).toEqual({ reverted: 1, errors: [] });
+    expect(writeFileWithHandle).toHaveBeenCalledWith(entry.fileHandle, expect.any(Blob));
+    expect(await text(vi.mocked(writeFileWithHandle).mock.calls[0][1])).toBe('ID3 old AUDIO');
+    expect(onProgress).toHaveBeenCalledWith({ current: 1, total: 1, filename: 'Track.mp3' });
+    expect(clearTagJournal).toHaveBeenCalled();
+  });
+
+  it('counts files already back to the original as reverted', async () => {
+    vi.mocked(getTagJournal).mockResolvedValue([
+      await journaled('ID3 old AUDIO', 'ID3 new-tag AUDIO', 'ID3 old AUDIO'),
+    ]);
+
+    expect(await revertLastTagRun()).toEqual({ reverted: 1, errors: [] });
+    expect(writeFileWithHandle).not.toHaveBeenCalled();
+  });
+
+  it('leaves files changed since the write alone and keeps the journal', async () => {
+    const changed = await journaled('ID3 old AUDIO', 'ID3 new-tag AUDIO', 'ID3 edited-elsewhere AUDIO');
+    const denied = await journaled('ID3 old AUDIO', 'ID3 new-tag AUDIO');
+    denied.filename = 'Denied.mp3';
+    vi.mocked(getTagJournal).mockResolvedValue([changed, denied]);
+    vi.mocked(verifyPermission).mockImplementation(async (handle) => handle !== denied.fileHandle);
+
+    const result = await revertLastTagRun();
+
+    expect(result).toEqual({
+      reverted: 0,
+      errors: [
+        { filename: 'Track.mp3', error: 'File changed since its tags were written' },
+        { filename: 'Denied.mp3', error: 'Permission denied' },
+      ],
+    });
+    expect(writeFileWithHandle).not.toHaveBeenCalled();
+    expect(clearTagJournal).not.toHaveBeenCalled();
+  });
+
+  it('refuses to revert a journal that is not from the latest run', async () => {
+    vi.mocked(getTagJournal).mockResolvedValue([await journaled('ID3 old AUDIO', 'ID3 new-tag AUDIO')]);
+    vi.mocked(getTagJournalRun).mockResolvedValue('2026-10-19T13:00:00.000Z');
+
+    await expect(revertLastTagRun()).rejects.toThrow('The tag journal is not from the last processing run');
+    expect(verifyPermission).not.toHaveBeenCalled();
+    expect(writeFileWithHandle).not.toHaveBeenCalled();
+    expect(clearTagJournal).not.toHaveBeenCalled();
+  });
+});
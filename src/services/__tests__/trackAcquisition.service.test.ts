@@ -0,0 +1,237 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  TrackAcquisitionService,
+  getAcquisitionStatus,
+  type TrackAcquisition,
+} from '../trackAcquisition.service';
+import { supabase } from '@/integrations/supabase/client';
+import { queryBuilder } from '@/test/supabaseMock';
+
+const acquisition = (overrides: Partial<TrackAcquisition> = {}): TrackAcquisition => ({
+  id: 'acq-1',
+  spotify_track_id: 'sp-1',
+  wishlisted_at: null,
+  slskd_search_id: null,
+  search_strategy: null,
+  found_by_strategy: null,
+  downloaded_at: null,
+  downloaded_file_path: null,
+  tagged_at: null,
+  matched_at: null,
+  ...overrides,
+});
+
+describe('getAcquisitionStatus', () => {
+  const now = new Date('2026-03-20T12:00:00Z');
+
+  it('returns null when no step has happened', () => {
+    expect(getAcquisitionStatus(acquisition(), now)).toBeNull();
+  });
+
+  it('reports the latest step reached', () => {
+    const status = getAcquisitionStatus(acquisition({
+      wishlisted_at: '2026-03-10T00:00:00Z',
+      downloaded_at: '2026-03-18T00:00:00Z',
+    }), now);
+
+    expect(status).toEqual({ stage: 'downloaded', since: '2026-03-18T00:00:00Z', stuck: false });
+  });
+
+  it('flags a track with no progress for over a week as stuck', () => {
+    const status = getAcquisitionStatus(acquisition({ wishlisted_at: '2026-03-01T00:00:00Z' }), now);
+
+    expect(status?.stage).toBe('wishlisted');
+    expect(status?.stuck).toBe(true);
+  });
+
+  it('never flags a matched track as stuck', () => {
+    const status = getAcquisitionStatus(acquisition({
+      wishlisted_at: '2026-01-01T00:00:00Z',
+      matched_at: '2026-01-05T00:00:00Z',
+    }), now);
+
+    expect(status).toEqual({ stage: 'matched', since: '2026-01-05T00:00:00Z', stuck: false });
+  });
+});
+
+describe('TrackAcquisitionService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  describe('getAcquisitions', () => {
+    it('keys records by Spotify track id', async () => {
+      const rows = [acquisition(), acquisition({ id: 'acq-2', spotify_track_id: 'sp-2' })];
+      vi.mocked(supabase.from).mockReturnValue(queryBuilder({
+        select: vi.fn().mockReturnValue({
+          eq: vi.fn().mockResolvedValue({ data: rows, error: null })
+        })
+      }));
+
+      const result = await TrackAcquisitionService.getAcquisitions('user-123');
+
+      expect(supabase.from).toHaveBeenCalledWith('track_acquisitions');
+      expect(result.get('sp-2')?.id).toBe('acq-2');
+    });
+
+    it('throws when the fetch fails', async () => {
+      vi.mocked(supabase.from).mockReturnValue(queryBuilder({
+        select: vi.fn().mockReturnValue({
+          eq: vi.fn().mockResolvedValue({ data: null, error: { message: 'Database error' } })
+        })
+      }));
+
+      await expect(TrackAcquisitionService.getAcquisitions('user-123')).rejects.toEqual({ message: 'Database error' });
+    });
+  });
+
+  describe('recordWishlisted', () => {
+    it('upserts tracks without a search id separately so an existing id is kept', async () => {
+      const upsert = vi.fn().mockResolvedValue({ error: null });
+      vi.mocked(supabase.from).mockReturnValue(queryBuilder({ upsert }));
+
+      await TrackAcquisitionService.recordWishlisted('user-123', [
+        { spotifyTrackId: 'sp-1', searchId: 'search-1', strategy: 'artist-title' },
+        { spotifyTrackId: 'sp-2', searchId: null, strategy: 'artist-title' },
+      ]);
+
+      expect(upsert).toHaveBeenCalledTimes(2);
+      const [withSearch, options] = upsert.mock.calls[0];
+      const [withoutSearch] = upsert.mock.calls[1];
+      expect(withSearch).toEqual([expect.objectContaining({
+        spotify_track_id: 'sp-1',
+        slskd_search_id: 'search-1',
+        search_strategy: 'artist-title',
+      })]);
+      expect(withoutSearch[0]).not.toHaveProperty('slskd_search_id');
+      expect(withoutSearch[0]).not.toHaveProperty('search_strategy');
+      expect(withoutSearch[0]).toMatchObject({ user_id: 'user-123', spotify_track_id: 'sp-2' });
+      expect(options).toEqual({ onConflict: 'user_id,spotify_track_id' });
+    });
+
+    it('does nothing for no tracks', async () => {
+      await TrackAcquisitionService.recordWishlisted('user-123', []);
+      expect(supabase.from).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getPendingSearches', () => {
+    it('returns searches with their Spotify track, skipping rows without one', async () => {
+      const rows = [
+        {
+          id: 'acq-1',
+          slskd_search_id: 'search-1',
+          search_strategy: 'core-title',
+          spotify_liked: { id: 'sp-1', title: 'Title', artist: 'Artist', primary_artist: null, album: 'Album' },
+        },
+        { id: 'acq-2', slskd_search_id: 'search-2', search_strategy: null, spotify_liked: null },
+      ];
+      const is = vi.fn();
+      const chain = { eq: vi.fn(), not: vi.fn(), is };
+      chain.eq.mockReturnValue(chain);
+      chain.not.mockReturnValue(chain);
+      is.mockReturnValueOnce(chain).mockResolvedValueOnce({ data: rows, error: null });
+      vi.mocked(supabase.from).mockReturnValue(queryBuilder({ select: vi.fn().mockReturnValue(chain) }));
+
+      const pending = await TrackAcquisitionService.getPendingSearches('user-123');
+
+      expect(is).toHaveBeenCalledWith('found_by_strategy', null);
+      expect(pending).toEqual([{
+        id: 'acq-1',
+        slskd_search_id: 'search-1',
+        search_strategy: 'core-title',
+        track: { id: 'sp-1', title: 'Title', artist: 'Artist', primary_artist: undefined, album: 'Album' },
+      }]);
+    });
+  });
+
+  describe('recordSearchRequeued', () => {
+    it('replaces the search id and strategy', async () => {
+      const update = vi.fn().mockReturnValue({
+        eq: vi.fn().mockResolvedValue({ error: null })
+      });
+      vi.mocked(supabase.from).mockReturnValue(queryBuilder({ update }));
+
+      await TrackAcquisitionService.recordSearchRequeued('acq-1', 'search-2', 'title-only');
+
+      expect(update).toHaveBeenCalledWith(expect.objectContaining({
+        slskd_search_id: 'search-2',
+        search_strategy: 'title-only',
+      }));
+      expect(update.mock.results[0].value.eq).toHaveBeenCalledWith('id', 'acq-1');
+    });
+
+    it('throws when the update fails', async () => {
+      vi.mocked(supabase.from).mockReturnValue(queryBuilder({
+        update: vi.fn().mockReturnValue({
+          eq: vi.fn().mockResolvedValue({ error: { message: 'Database error' } })
+        })
+      }));
+
+      await expect(TrackAcquisitionService.recordSearchRequeued('acq-1', 'search-2', 'album'))
+        .rejects.toEqual({ message: 'Database error' });
+    });
+  });
+
+  describe('markTagged', () => {
+    it('marks downloads whose file name was tagged', async () => {
+      const downloads = [
+        { id: 'acq-1', downloaded_file_path: 'Music\\Artist\\01 - Title.mp3' },
+        { id: 'acq-2', downloaded_file_path: 'Music/Other/02 - Other.flac' },
+      ];
+      const update = vi.fn().mockReturnValue({
+        in: vi.fn().mockResolvedValue({ error: null })
+      });
+      vi.mocked(supabase.from)
+        .mockReturnValueOnce(queryBuilder({
+          select: vi.fn().mockReturnValue({
+            eq: vi.fn().mockReturnValue({
+              not: vi.fn().mockReturnValue({
+                is: vi.fn().mockResolvedValue({ data: downloads, error: null })
+              })
+            })
+          })
+        }))
+        .mockReturnValueOnce(queryBuilder({ update }));
+
+      const marked = await TrackAcquisitionService.markTagged('user-123', ['01 - title.MP3', 'unrelated.mp3']);
+
+      expect(marked).toBe(1);
+      expect(update.mock.results[0].value.in).toHaveBeenCalledWith('id', ['acq-1']);
+    });
+
+    it('skips the update when no download was tagged', async () => {
+      vi.mocked(supabase.from).mockReturnValueOnce(queryBuilder({
+        select: vi.fn().mockReturnValue({
+          eq: vi.fn().mockReturnValue({
+            not: vi.fn().mockReturnValue({
+              is: vi.fn().mockResolvedValue({ data: [], error: null })
+            })
+          })
+        })
+      }));
+
+      expect(await TrackAcquisitionService.markTagged('user-123', ['a.mp3'])).toBe(0);
+      expect(supabase.from).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('markMatched', () => {
+    it('only sets matched_at where it is still empty', async () => {
+      const is = vi.fn().mockResolvedValue({ error: null });
+      const inFn = vi.fn().mockReturnValue({ is });
+      const eq = vi.fn().mockReturnValue({ in: inFn });
+      vi.mocked(supabase.from).mockReturnValue(queryBuilder({
+        update: vi.fn().mockReturnValue({ eq })
+      }));
+
+      await TrackAcquisitionService.markMatched('user-123', ['sp-1', 'sp-2']);
+
+      expect(eq).toHaveBeenCalledWith('user_id', 'user-123');
+      expect(inFn).toHaveBeenCalledWith('spotify_track_id', ['sp-1', 'sp-2']);
+      expect(is).toHaveBeenCalledWith('matched_at', null);
+    });
+  });
+});
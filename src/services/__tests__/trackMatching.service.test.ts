@@ -1,11 +1,13 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { TrackMatchingService } from '../trackMatching.service';
 import { supabase } from '@/integrations/supabase/client';
+import { queryBuilder } from '@/test/supabaseMock';
 
 describe('TrackMatchingService', () => {
   beforeEach(() => {
     vi.clearAllMocks();
     vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
   });
 
   describe('fetchLocalTracks', () => {
@@ -62,6 +64,49 @@ describe('TrackMatchingService', () => {
     });
   });
 
+  describe('searchLocalTracks', () => {
+    const mockSearch = () => {
+      const or = vi.fn().mockReturnValue({
+        order: vi.fn().mockReturnValue({
+          limit: vi.fn().mockResolvedValue({ data: [], error: null })
+        })
+      });
+      vi.mocked(supabase.from).mockReturnValue(queryBuilder({
+        select: vi.fn().mockReturnValue({ eq: vi.fn().mockReturnValue({ or }) })
+      }));
+      return or;
+    };
+
+    it('matches the term in the title or artist', async () => {
+      const or = mockSearch();
+
+      await TrackMatchingService.searchLocalTracks('user-123', 'Blue Monday');
+
+      expect(or).toHaveBeenCalledWith('title.ilike.%Blue Monday%,artist.ilike.%Blue Monday%');
+    });
+
+    it('drops characters that would break the filter or act as wildcards', async () => {
+      const or = mockSearch();
+
+      await TrackMatchingService.searchLocalTracks('user-123', 'dj* (live), 100%');
+
+      expect(or).toHaveBeenCalledWith('title.ilike.%dj   live   100%,artist.ilike.%dj   live   100%');
+    });
+
+    it('escapes _ and backslash so they match literally', async () => {
+      const or = mockSearch();
+
+      await TrackMatchingService.searchLocalTracks('user-123', 'a_b\\c');
+
+      expect(or).toHaveBeenCalledWith('title.ilike.%a\\_b\\\\c%,artist.ilike.%a\\_b\\\\c%');
+    });
+
+    it('does not search for a term with nothing left', async () => {
+      expect(await TrackMatchingService.searchLocalTracks('user-123', '*%')).toEqual([]);
+      expect(supabase.from).not.toHaveBeenCalled();
+    });
+  });
+
   describe('fetchSpotifyTracks', () => {
     it('should fetch spotify tracks for a user', async () => {
       const mockTracks = [
@@ -597,6 +642,336 @@ describe('TrackMatchingService', () => {
       // Should match using fallback to artist field
       expect(result).toHaveLength(0);
     });
+
+    it('should report a different owned version when durations clearly differ', async () => {
+      const localTracks = [
+        { id: '1', title: 'Energy', artist: 'Artist', primary_artist: 'Artist', album: 'Album', genre: 'House', file_path: '/energy.mp3', duration_seconds: 190 },
+      ];
+
+      const spotifyTracks = [
+        { id: 's1', title: 'Energy', artist: 'Artist', primary_artist: 'Artist', album: 'Album', genre: 'house', super_genre: 'House', duration_ms: 430000 },
+      ];
+
+      vi.mocked(supabase.from).mockImplementation((table: string) => {
+        if (table === 'local_mp3s') {
+          const rangeMock = vi.fn()
+            .mockResolvedValueOnce({ data: localTracks, error: null })
+            .mockResolvedValueOnce({ data: [], error: null });
+          return queryBuilder({
+            select: vi.fn().mockReturnValue({
+              eq: vi.fn().mockReturnValue({
+                range: rangeMock
+              })
+            })
+          });
+        }
+        if (table === 'spotify_liked') {
+          return queryBuilder({
+            select: vi.fn().mockReturnValue({
+              eq: vi.fn().mockReturnValue({
+                limit: vi.fn().mockResolvedValue({ data: spotifyTracks, error: null })
+              })
+            })
+          });
+        }
+        return queryBuilder({});
+      });
+
+      const result = await TrackMatchingService.findMissingTracks('user-123');
+
+      expect(result).toHaveLength(1);
+      expect(result[0].reason).toBe('Different version owned locally');
+      expect(result[0].ownedVersion?.localTrack.id).toBe('1');
+      expect(result[0].ownedVersion?.durationDeltaSeconds).toBe(-240);
+      expect(result[0].ownedVersion?.differentMix).toBe(false);
+    });
+
+    it('should match through the user\'s artist aliases', async () => {
+      const localTracks = [
+        { id: '1', title: 'Halo', artist: 'Beyoncé', primary_artist: 'Beyoncé', album: 'Album', genre: 'Pop', file_path: '/halo.mp3' },
+      ];
+
+      const spotifyTracks = [
+        { id: 's1', title: 'Halo', artist: 'Beyonce Knowles', primary_artist: 'Beyonce Knowles', album: 'Album', genre: 'pop', super_genre: 'Pop' },
+      ];
+
+      vi.mocked(supabase.from).mockImplementation((table: string) => {
+        if (table === 'local_mp3s') {
+          const rangeMock = vi.fn()
+            .mockResolvedValueOnce({ data: localTracks, error: null })
+            .mockResolvedValueOnce({ data: [], error: null });
+          return queryBuilder({
+            select: vi.fn().mockReturnValue({
+              eq: vi.fn().mockReturnValue({
+                range: rangeMock
+              })
+            })
+          });
+        }
+        if (table === 'spotify_liked') {
+          return queryBuilder({
+            select: vi.fn().mockReturnValue({
+              eq: vi.fn().mockReturnValue({
+                limit: vi.fn().mockResolvedValue({ data: spotifyTracks, error: null })
+              })
+            })
+          });
+        }
+        if (table === 'artist_aliases') {
+          return queryBuilder({
+            select: vi.fn().mockReturnValue({
+              eq: vi.fn().mockReturnValue({
+                order: vi.fn().mockResolvedValue({
+                  data: [{ id: 'a1', alias: 'Beyonce Knowles', canonical_artist: 'Beyoncé', created_at: '2026-01-01' }],
+                  error: null,
+                })
+              })
+            })
+          });
+        }
+        return queryBuilder({});
+      });
+
+      const result = await TrackMatchingService.findMissingTracks('user-123');
+
+      expect(result).toHaveLength(0);
+    });
+
+    it('should let a confirmed match win over the engine and record engine results', async () => {
+      const localTracks = [
+        { id: 'm1', title: 'Track 01', artist: 'Unknown', primary_artist: null, album: null, genre: null, file_path: '/track01.mp3' },
+      ];
+
+      const spotifyTracks = [
+        { id: 's1', title: 'Real Title', artist: 'Real Artist', primary_artist: 'Real Artist', album: 'Album', genre: 'rock', super_genre: 'Rock' },
+      ];
+
+      const insert = vi.fn().mockResolvedValue({ error: null });
+      vi.mocked(supabase.from).mockImplementation((table: string) => {
+        if (table === 'local_mp3s') {
+          const rangeMock = vi.fn()
+            .mockResolvedValueOnce({ data: localTracks, error: null })
+            .mockResolvedValueOnce({ data: [], error: null });
+          return queryBuilder({
+            select: vi.fn().mockReturnValue({
+              eq: vi.fn().mockReturnValue({
+                range: rangeMock
+              })
+            })
+          });
+        }
+        if (table === 'spotify_liked') {
+          return queryBuilder({
+            select: vi.fn().mockReturnValue({
+              eq: vi.fn().mockReturnValue({
+                limit: vi.fn().mockResolvedValue({ data: spotifyTracks, error: null })
+              })
+            })
+          });
+        }
+        if (table === 'track_matches') {
+          return queryBuilder({
+            select: vi.fn().mockReturnValue({
+              not: vi.fn().mockReturnValue({
+                order: vi.fn().mockReturnValue({
+                  limit: vi.fn().mockResolvedValue({
+                    data: [{ spotify_track_id: 's1', mp3_id: 'm1', is_confirmed: true }],
+                    error: null,
+                  })
+                })
+              })
+            }),
+            delete: vi.fn().mockReturnValue({
+              in: vi.fn().mockReturnValue({
+                is: vi.fn().mockResolvedValue({ error: null })
+              })
+            }),
+            insert,
+          });
+        }
+        return queryBuilder({});
+      });
+
+      const result = await TrackMatchingService.findMissingTracks('user-123');
+
+      expect(result).toHaveLength(0);
+      // User-confirmed matches are decisions, not engine results
+      expect(insert).not.toHaveBeenCalled();
+    });
+
+    it('should still match when artist aliases cannot be loaded', async () => {
+      const localTracks = [
+        { id: '1', title: 'Track One', artist: 'Artist', primary_artist: 'Artist', album: 'Album', genre: 'Rock', file_path: '/track.mp3' },
+      ];
+
+      const spotifyTracks = [
+        { id: 's1', title: 'Track One', artist: 'Artist', primary_artist: 'Artist', album: 'Album', genre: 'rock', super_genre: 'Rock' },
+      ];
+
+      vi.mocked(supabase.from).mockImplementation((table: string) => {
+        if (table === 'local_mp3s') {
+          const rangeMock = vi.fn()
+            .mockResolvedValueOnce({ data: localTracks, error: null })
+            .mockResolvedValueOnce({ data: [], error: null });
+          return queryBuilder({
+            select: vi.fn().mockReturnValue({
+              eq: vi.fn().mockReturnValue({
+                range: rangeMock
+              })
+            })
+          });
+        }
+        if (table === 'spotify_liked') {
+          return queryBuilder({
+            select: vi.fn().mockReturnValue({
+              eq: vi.fn().mockReturnValue({
+                limit: vi.fn().mockResolvedValue({ data: spotifyTracks, error: null })
+              })
+            })
+          });
+        }
+        if (table === 'artist_aliases') {
+          return queryBuilder({
+            select: vi.fn().mockReturnValue({
+              eq: vi.fn().mockReturnValue({
+                order: vi.fn().mockResolvedValue({ data: null, error: { message: 'relation does not exist' } })
+              })
+            })
+          });
+        }
+        return queryBuilder({});
+      });
+
+      const result = await TrackMatchingService.findMissingTracks('user-123');
+
+      expect(result).toHaveLength(0);
+    });
+
+    it('should apply the given matching profile', async () => {
+      const localTracks = [
+        { id: '1', title: 'Finally (Extended Mix)', artist: 'Kings of Tomorrow', primary_artist: 'Kings of Tomorrow', album: 'Album', genre: 'House', file_path: '/finally.mp3' },
+      ];
+
+      const spotifyTracks = [
+        { id: 's1', title: 'Finally - Dub Mix', artist: 'Kings of Tomorrow', primary_artist: 'Kings of Tomorrow', album: 'Album', genre: 'house', super_genre: 'House' },
+      ];
+
+      vi.mocked(supabase.from).mockImplementation((table: string) => {
+        if (table === 'local_mp3s') {
+          const rangeMock = vi.fn()
+            .mockResolvedValueOnce({ data: localTracks, error: null })
+            .mockResolvedValueOnce({ data: [], error: null });
+          return queryBuilder({
+            select: vi.fn().mockReturnValue({
+              eq: vi.fn().mockReturnValue({
+                range: rangeMock
+              })
+            })
+          });
+        }
+        if (table === 'spotify_liked') {
+          return queryBuilder({
+            select: vi.fn().mockReturnValue({
+              eq: vi.fn().mockReturnValue({
+                limit: vi.fn().mockResolvedValue({ data: spotifyTracks, error: null })
+              })
+            })
+          });
+        }
+        return queryBuilder({});
+      });
+
+      const balanced = await TrackMatchingService.findMissingTracks('user-123');
+      const strict = await TrackMatchingService.findMissingTracks('user-123', undefined, undefined, undefined, 'strict');
+
+      // Strict keeps the dub and extended mixes apart
+      expect(balanced).toHaveLength(0);
+      expect(strict).toHaveLength(1);
+      expect(strict[0].reason).toBe('Artist and title owned, but not this remix');
+      expect(strict[0].ownedVersion).toMatchObject({ localTrack: { id: '1' }, differentMix: true });
+    });
+  });
+
+  describe('analyzeMissingTracks', () => {
+    it('should count matches made on ISRC in the summary', async () => {
+      const localTracks = [
+        { id: '1', title: 'Track 01', artist: 'Unknown', primary_artist: null, album: null, genre: null, file_path: '/01.mp3', isrc: 'GBAYE0601498' },
+        { id: '2', title: 'Energy', artist: 'Artist', primary_artist: 'Artist', album: null, genre: null, file_path: '/energy.mp3', isrc: null },
+      ];
+
+      const spotifyTracks = [
+        { id: 's1', title: 'Blue Monday', artist: 'New Order', primary_artist: 'New Order', album: null, genre: null, super_genre: null, isrc: 'GBAYE0601498' },
+        { id: 's2', title: 'Energy', artist: 'Artist', primary_artist: 'Artist', album: null, genre: null, super_genre: null, isrc: null },
+        { id: 's3', title: 'Unowned', artist: 'Someone', primary_artist: 'Someone', album: null, genre: null, super_genre: null, isrc: 'USRC11700123' },
+      ];
+
+      vi.mocked(supabase.from).mockImplementation((table: string) => {
+        if (table === 'local_mp3s') {
+          return queryBuilder({
+            select: vi.fn().mockReturnValue({
+              eq: vi.fn().mockReturnValue({
+                range: vi.fn()
+                  .mockResolvedValueOnce({ data: localTracks, error: null })
+                  .mockResolvedValueOnce({ data: [], error: null })
+              })
+            })
+          });
+        }
+        if (table === 'spotify_liked') {
+          return queryBuilder({
+            select: vi.fn().mockReturnValue({
+              eq: vi.fn().mockReturnValue({
+                limit: vi.fn().mockResolvedValue({ data: spotifyTracks, error: null })
+              })
+            })
+          });
+        }
+        return queryBuilder({});
+      });
+
+      const { missingTracks, summary, matchedTrackIds } = await TrackMatchingService.analyzeMissingTracks('user-123');
+
+      expect(missingTracks.map(t => t.spotifyTrack.id)).toEqual(['s3']);
+      expect(matchedTrackIds).toEqual(['s1', 's2']);
+      expect(summary).toEqual({ spotifyTracks: 3, matched: 2, isrcMatches: 1, userConfirmed: 0 });
+    });
+  });
+
+  describe('explainTrack', () => {
+    it('should explain the requested Spotify track against the library', async () => {
+      const localTracks = [
+        { id: '1', title: 'Finally (Extended Mix)', artist: 'Kings of Tomorrow', primary_artist: 'Kings of Tomorrow', album: null, genre: null, file_path: '/finally.mp3' },
+      ];
+      const spotifyTrack = { id: 's1', title: 'Finally - Dub Mix', artist: 'Kings of Tomorrow', primary_artist: 'Kings of Tomorrow', album: null, genre: null, super_genre: null };
+      const eqSpotify = vi.fn().mockReturnValue({
+        single: vi.fn().mockResolvedValue({ data: spotifyTrack, error: null })
+      });
+
+      vi.mocked(supabase.from).mockImplementation((table: string) => {
+        if (table === 'local_mp3s') {
+          return queryBuilder({
+            select: vi.fn().mockReturnValue({
+              eq: vi.fn().mockReturnValue({
+                range: vi.fn()
+                  .mockResolvedValueOnce({ data: localTracks, error: null })
+                  .mockResolvedValueOnce({ data: [], error: null })
+              })
+            })
+          });
+        }
+        if (table === 'spotify_liked') {
+          return queryBuilder({ select: vi.fn().mockReturnValue({ eq: eqSpotify }) });
+        }
+        return queryBuilder({});
+      });
+
+      const explanation = await TrackMatchingService.explainTrack('user-123', 's1', 'strict');
+
+      expect(eqSpotify).toHaveBeenCalledWith('id', 's1');
+      expect(explanation.profile).toBe('strict');
+      expect(explanation.result.matched).toBe(false);
+      expect(explanation.candidates[0].reason).toBe('Different mix ("extended mix" vs "dub mix")');
+    });
   });
 
   // ---------------------------------------------------------------------------
@@ -0,0 +1,194 @@
+/**
+ * Benchmark for the indexed fuzzy matcher.
+ *
+ * Compares matchTrack (artist buckets + trigram postings) against the previous
+ * full-library scan on a synthetic 50k-track library: both must produce identical
+ * results, on the synthetic set and on the eval fixture, and the trigram filter must
+ * hand the similarity check only a fraction of each artist's bucket.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  normalize,
+  normalizeArtist,
+  extractCoreTitle,
+  calculateSimilarity,
+  buildLocalIndex,
+  fuzzyCandidates,
+  matchTrack,
+  FUZZY_MATCH_THRESHOLD,
+  type LocalIndex,
+  type LocalTrack,
+  type SpotifyTrack,
+} from '../trackMatchingEngine';
+import type { EvalFixtureFile } from './fixtures/eval-types';
+import evalCasesJson from './fixtures/eval-cases.json';
+
+const fixture = evalCasesJson as unknown as EvalFixtureFile;
+
+const LIBRARY_SIZE = 50_000;
+const TRACKS_PER_ARTIST = 20;
+const QUERY_COUNT = 1_000;
+
+// ---- Synthetic data ----
+
+// Deterministic PRNG so the library is identical on every run
+function mulberry32(seed: number): () => number {
+  return () => {
+    seed |= 0;
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const WORDS = [
+  'night', 'love', 'fire', 'dream', 'city', 'light', 'heart', 'soul', 'dance', 'rain',
+  'summer', 'shadow', 'golden', 'river', 'electric', 'midnight', 'paradise', 'echo', 'storm', 'velvet',
+  'crystal', 'ocean', 'machine', 'disco', 'funk', 'groove', 'sunset', 'horizon', 'gravity', 'signal',
+  'rhythm', 'fever', 'mirror', 'silver', 'neon', 'jungle', 'thunder', 'magic', 'wild', 'secret',
+];
+const MIXES = ['', ' (Original Mix)', ' (Extended Mix)', ' (Radio Edit)', ' (Dub)', ' - Remastered 2011'];
+
+function pick<T>(rand: () => number, items: T[]): T {
+  return items[Math.floor(rand() * items.length)];
+}
+
+function makeTitle(rand: () => number): string {
+  const count = 2 + Math.floor(rand() * 3);
+  const words = Array.from({ length: count }, () => pick(rand, WORDS));
+  return words.map(w => w[0].toUpperCase() + w.slice(1)).join(' ');
+}
+
+function typo(rand: () => number, title: string): string {
+  const i = 1 + Math.floor(rand() * (title.length - 2));
+  return title.slice(0, i) + title.slice(i + 1);
+}
+
+function buildSyntheticLibrary(): { local: LocalTrack[]; spotify: SpotifyTrack[] } {
+  const rand = mulberry32(42);
+  const local: LocalTrack[] = [];
+  const artistCount = LIBRARY_SIZE / TRACKS_PER_ARTIST;
+
+  for (let a = 0; a < artistCount; a++) {
+    const artist = `${pick(rand, WORDS)} ${pick(rand, WORDS)} ${a}`;
+    for (let t = 0; t < TRACKS_PER_ARTIST; t++) {
+      local.push({
+        id: `local-${a}-${t}`,
+        title: makeTitle(rand) + pick(rand, MIXES),
+        artist,
+        primary_artist: null,
+        album: null,
+        genre: null,
+        file_path: `/music/${a}/${t}.mp3`,
+      });
+    }
+  }
+
+  // A third exact, a third with a typo (fuzzy tier), a third missing (worst case for a scan)
+  const spotify: SpotifyTrack[] = [];
+  for (let q = 0; q < QUERY_COUNT; q++) {
+    const source = local[Math.floor(rand() * local.length)];
+    const kind = q % 3;
+    const title = kind === 0 ? source.title! : kind === 1 ? typo(rand, source.title!) : makeTitle(rand) + ' Unreleased';
+    spotify.push({
+      id: `spotify-${q}`,
+      title,
+      artist: source.artist!,
+      primary_artist: null,
+      album: null,
+      genre: null,
+      super_genre: null,
+      super_genre_manual_override: false,
+    });
+  }
+
+  return { local, spotify };
+}
+
+// ---- Reference: the previous full-library scan ----
+
+function linearMatch(spotifyTrack: SpotifyTrack, localIndex: LocalIndex): { matched: boolean; localId?: string } {
+  const spotifyTitle = normalize(spotifyTrack.title);
+  const spotifyCoreTitle = extractCoreTitle(spotifyTrack.title);
+  const spotifyArtist = normalizeArtist(spotifyTrack.primary_artist || spotifyTrack.artist);
+
+  if (localIndex.exactSet.has(`${spotifyTitle}_${spotifyArtist}`)) return { matched: true };
+  if (localIndex.coreSet.has(`${spotifyCoreTitle}_${spotifyArtist}`)) return { matched: true };
+
+  for (const local of localIndex.normalized) {
+    if (local.artist !== spotifyArtist) continue;
+    if (spotifyTitle === local.coreTitle || spotifyCoreTitle === local.title) {
+      return { matched: true, localId: local.track.id };
+    }
+  }
+
+  for (const local of localIndex.normalized) {
+    if (local.artist !== spotifyArtist) continue;
+    const titleSim = calculateSimilarity(local.title, spotifyTitle);
+    const coreSim = calculateSimilarity(local.coreTitle, spotifyCoreTitle);
+    if (titleSim >= FUZZY_MATCH_THRESHOLD || coreSim >= FUZZY_MATCH_THRESHOLD) {
+      return { matched: true, localId: local.track.id };
+    }
+  }
+
+  return { matched: false };
+}
+
+function sameOutcome(indexed: ReturnType<typeof matchTrack>, linear: ReturnType<typeof linearMatch>): boolean {
+  if (indexed.matched !== linear.matched) return false;
+  // Tier 1/2 set hits carry no local id in the reference
+  return linear.localId === undefined || indexed.matchedLocalTrack?.id === linear.localId;
+}
+
+// ---- Suite ----
+
+describe('Track Matching Benchmark', () => {
+  it(`indexed matching agrees with a full scan on a ${LIBRARY_SIZE.toLocaleString()}-track library`, () => {
+    const { local, spotify } = buildSyntheticLibrary();
+    const localIndex = buildLocalIndex(local);
+
+    const linearResults = spotify.map(st => linearMatch(st, localIndex));
+    const indexedResults = spotify.map(st => matchTrack(st, localIndex));
+
+    // Fuzzy candidates the index hands the similarity check, per query; a full scan checks the whole library
+    const candidateCounts = spotify.map(st =>
+      fuzzyCandidates(
+        localIndex,
+        normalizeArtist(st.primary_artist || st.artist),
+        normalize(st.title),
+        extractCoreTitle(st.title)
+      ).length
+    );
+    const candidatesChecked = candidateCounts.reduce((sum, n) => sum + n, 0);
+    const matchedCount = indexedResults.filter(r => r.matched).length;
+
+    console.log('\n=== TRACK MATCHING BENCHMARK ===');
+    console.log(`Library: ${local.length} local tracks, ${spotify.length} Spotify tracks`);
+    console.log(`Full scan candidates: ${(local.length * spotify.length).toLocaleString()}`);
+    console.log(`Indexed candidates:   ${candidatesChecked.toLocaleString()}`);
+    console.log(`Matched:   ${matchedCount}/${spotify.length}`);
+    console.log('================================\n');
+
+    const mismatches = spotify.filter((_, i) => !sameOutcome(indexedResults[i], linearResults[i]));
+    expect(mismatches).toEqual([]);
+    expect(Math.max(...candidateCounts)).toBeLessThanOrEqual(TRACKS_PER_ARTIST);
+    // Trigram pruning must cut well below checking every track in the artist's bucket
+    expect(candidatesChecked).toBeLessThan((spotify.length * TRACKS_PER_ARTIST) / 5);
+  }, 60_000);
+
+  it('eval fixture results are unchanged by the index', () => {
+    const allLocalTracks = fixture.cases
+      .filter(c => c.expectedLocalMatch !== null)
+      .map(c => c.expectedLocalMatch!);
+    const localIndex = buildLocalIndex(allLocalTracks);
+
+    const changed = fixture.cases.filter(c => {
+      const spotifyTrack = c.spotifyTrack as SpotifyTrack;
+      return !sameOutcome(matchTrack(spotifyTrack, localIndex), linearMatch(spotifyTrack, localIndex));
+    });
+
+    expect(changed.map(c => c.id)).toEqual([]);
+  });
+});
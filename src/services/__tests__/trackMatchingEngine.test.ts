@@ -3,7 +3,8 @@
  *
  * Covers the pure functions used in the 3-tier matching pipeline:
  * normalize, extractCoreTitle, normalizeArtist, levenshteinDistance,
- * calculateSimilarity, buildLocalIndex, matchTrack, findMissingTracksPure
+ * calculateSimilarity, compareDurations, trigrams, buildLocalIndex,
+ * fuzzyCandidates, matchTrack, findMissingTracksPure
  */
 
 import { describe, it, expect } from 'vitest';
@@ -11,13 +12,26 @@ import {
   normalize,
   extractCoreTitle,
   normalizeArtist,
+  buildArtistAliasMap,
+  artistNames,
+  MATCHING_PROFILES,
+  isMatchingProfileName,
+  normalizeMix,
+  compareVersions,
   levenshteinDistance,
   calculateSimilarity,
+  compareDurations,
+  trigrams,
   buildLocalIndex,
+  fuzzyCandidates,
   matchTrack,
   findMissingTracksPure,
   FUZZY_MATCH_THRESHOLD,
+  DURATION_TOLERANCE_SECONDS,
+  DURATION_MISMATCH_SECONDS,
   type LocalTrack,
+  type MatchDecisions,
+  type MatchingProfile,
   type SpotifyTrack,
 } from '../trackMatchingEngine';
 
@@ -174,6 +188,43 @@ describe('trackMatchingEngine – normalizeArtist()', () => {
   it('handles artist name with no prefix', () => {
     expect(normalizeArtist('Aphex Twin')).toBe('aphex twin');
   });
+
+  it('treats case and accent variants as one artist', () => {
+    expect(normalizeArtist('BEYONCÉ')).toBe(normalizeArtist('Beyoncé'));
+    expect(normalizeArtist('Beyonce')).toBe(normalizeArtist('Beyoncé'));
+  });
+
+  it('matches Cyrillic names against their romanized form', () => {
+    expect(normalizeArtist('Кино')).toBe(normalizeArtist('Kino'));
+  });
+
+  it('resolves aliases to the canonical artist', () => {
+    const aliases = buildArtistAliasMap([{ alias: 'Beyonce Knowles', canonical_artist: 'Beyoncé' }]);
+    expect(normalizeArtist('BEYONCÉ KNOWLES', aliases)).toBe('beyonce');
+    expect(normalizeArtist('Beyoncé', aliases)).toBe('beyonce');
+  });
+
+  it('leaves artists without an alias unchanged', () => {
+    const aliases = buildArtistAliasMap([{ alias: 'Beyonce Knowles', canonical_artist: 'Beyoncé' }]);
+    expect(normalizeArtist('Aphex Twin', aliases)).toBe('aphex twin');
+  });
+});
+
+// ─── buildArtistAliasMap ─────────────────────────────────────────────────────
+
+describe('trackMatchingEngine – buildArtistAliasMap()', () => {
+  it('normalizes both sides', () => {
+    const aliases = buildArtistAliasMap([{ alias: 'The Artist Formerly Known', canonical_artist: 'PRINCE' }]);
+    expect(aliases.get('artist formerly known')).toBe('prince');
+  });
+
+  it('drops empty and self-referencing entries', () => {
+    const aliases = buildArtistAliasMap([
+      { alias: '', canonical_artist: 'Prince' },
+      { alias: 'Sigur Ros', canonical_artist: 'Sigur Rós' },
+    ]);
+    expect(aliases.size).toBe(0);
+  });
 });
 
 // ─── levenshteinDistance ─────────────────────────────────────────────────────
@@ -248,6 +299,36 @@ describe('trackMatchingEngine – calculateSimilarity()', () => {
   });
 });
 
+// ─── compareDurations ────────────────────────────────────────────────────────
+
+describe('trackMatchingEngine – compareDurations()', () => {
+  it('is neutral with a null delta when either side is unknown', () => {
+    expect(compareDurations(null, 200)).toEqual({ delta: null, agreement: 'neutral' });
+    expect(compareDurations(200000, null)).toEqual({ delta: null, agreement: 'neutral' });
+    expect(compareDurations(undefined, undefined)).toEqual({ delta: null, agreement: 'neutral' });
+  });
+
+  it('agrees within the tolerance', () => {
+    const result = compareDurations(200000, 200 + DURATION_TOLERANCE_SECONDS);
+    expect(result.agreement).toBe('agree');
+    expect(result.delta).toBe(DURATION_TOLERANCE_SECONDS);
+  });
+
+  it('differs beyond the mismatch threshold', () => {
+    const result = compareDurations(180000, 180 + DURATION_MISMATCH_SECONDS + 1);
+    expect(result.agreement).toBe('differ');
+  });
+
+  it('is neutral in the grey zone between the thresholds', () => {
+    const result = compareDurations(180000, 180 + DURATION_TOLERANCE_SECONDS + 1);
+    expect(result.agreement).toBe('neutral');
+  });
+
+  it('reports a signed local-minus-Spotify delta', () => {
+    expect(compareDurations(420000, 180).delta).toBe(-240);
+  });
+});
+
 // ─── buildLocalIndex ──────────────────────────────────────────────────────────
 
 describe('trackMatchingEngine – buildLocalIndex()', () => {
@@ -291,6 +372,71 @@ describe('trackMatchingEngine – buildLocalIndex()', () => {
     // Should strip "New Order - " prefix
     expect(index.exactSet.has('blue monday_new order')).toBe(true);
   });
+
+  it('buckets entries by normalized artist in library order', () => {
+    const tracks = [
+      makeLocal({ id: '1', title: 'A', artist: 'The Orb' }),
+      makeLocal({ id: '2', title: 'B', artist: 'Other' }),
+      makeLocal({ id: '3', title: 'C', artist: 'Orb' }),
+    ];
+    const index = buildLocalIndex(tracks);
+    expect(index.byArtist.get('orb')?.entries.map(e => e.track.id)).toEqual(['1', '3']);
+    expect(index.byArtist.get('other')?.entries).toHaveLength(1);
+  });
+});
+
+// ─── trigrams / fuzzyCandidates ──────────────────────────────────────────────
+
+describe('trackMatchingEngine – trigrams()', () => {
+  it('pads so short strings still produce grams', () => {
+    expect(trigrams('')).toEqual(new Set(['   ']));
+    expect(trigrams('a')).toEqual(new Set(['  a', ' a ']));
+  });
+
+  it('deduplicates repeated grams', () => {
+    expect(trigrams('aaaa').size).toBe(4);
+  });
+});
+
+describe('trackMatchingEngine – fuzzyCandidates()', () => {
+  const tracks = [
+    makeLocal({ id: '1', title: 'Summertime Sadness', artist: 'Lana Del Rey' }),
+    makeLocal({ id: '2', title: 'Video Games', artist: 'Lana Del Rey' }),
+    makeLocal({ id: '3', title: 'Summertime Sadness', artist: 'Someone Else' }),
+  ];
+  const index = buildLocalIndex(tracks);
+
+  it('only returns entries by the same artist', () => {
+    const ids = fuzzyCandidates(index, 'lana del rey', 'summertime sadnes', 'summertime sadnes').map(e => e.track.id);
+    expect(ids).toContain('1');
+    expect(ids).not.toContain('3');
+  });
+
+  it('skips entries sharing no trigram with the query', () => {
+    const ids = fuzzyCandidates(index, 'lana del rey', 'xyz', 'xyz').map(e => e.track.id);
+    expect(ids).toEqual([]);
+  });
+
+  it('returns an empty list for an unknown artist', () => {
+    expect(fuzzyCandidates(index, 'nobody', 'summertime sadness', 'summertime sadness')).toEqual([]);
+  });
+
+  it('drops entries whose length alone rules out the threshold', () => {
+    const ids = fuzzyCandidates(index, 'lana del rey', 'summer', 'summer').map(e => e.track.id);
+    expect(ids).toEqual([]);
+  });
+
+  it('drops entries sharing too few trigrams to reach the threshold', () => {
+    // Same length as 'summertime sadness' but only the 'summer' prefix in common
+    const ids = fuzzyCandidates(index, 'lana del rey', 'summer xyzwvqutprs', 'summer xyzwvqutprs').map(e => e.track.id);
+    expect(ids).toEqual([]);
+  });
+
+  it('returns candidates in library order', () => {
+    // A zero threshold only requires a single shared trigram
+    const ids = fuzzyCandidates(index, 'lana del rey', 'summertime games', 'summertime games', 0).map(e => e.track.id);
+    expect(ids).toEqual(['1', '2']);
+  });
 });
 
 // ─── matchTrack ───────────────────────────────────────────────────────────────
@@ -419,6 +565,470 @@ describe('trackMatchingEngine – matchTrack() no match', () => {
   });
 });
 
+describe('trackMatchingEngine – matchTrack() duration', () => {
+  it('reports a version mismatch when a radio edit is the only local copy of an extended mix', () => {
+    const local = makeLocal({ id: '1', title: 'Energy', artist: 'Artist', duration_seconds: 190 });
+    const spotify = makeSpotify({ id: 'sp1', title: 'Energy', artist: 'Artist', duration_ms: 430000 });
+    const result = matchTrack(spotify, buildLocalIndex([local]));
+    expect(result.matched).toBe(false);
+    expect(result.versionMismatch).toBe(true);
+    expect(result.matchedLocalTrack?.id).toBe('1');
+    expect(result.durationDeltaSeconds).toBe(-240);
+  });
+
+  it('prefers the local copy whose duration agrees', () => {
+    const radio = makeLocal({ id: 'radio', title: 'Energy', artist: 'Artist', duration_seconds: 190 });
+    const extended = makeLocal({ id: 'ext', title: 'Energy', artist: 'Artist', duration_seconds: 431 });
+    const spotify = makeSpotify({ id: 'sp1', title: 'Energy', artist: 'Artist', duration_ms: 430000 });
+    const result = matchTrack(spotify, buildLocalIndex([radio, extended]));
+    expect(result.matched).toBe(true);
+    expect(result.tier).toBe(1);
+    expect(result.matchedLocalTrack?.id).toBe('ext');
+    expect(result.durationAgreement).toBe('agree');
+    expect(result.durationDeltaSeconds).toBe(1);
+  });
+
+  it('falls through to a later tier when the exact hit is a different version', () => {
+    const radio = makeLocal({ id: 'radio', title: 'Energy', artist: 'Artist', duration_seconds: 190 });
+    const extended = makeLocal({ id: 'ext', title: 'Energy (Extended Mix)', artist: 'Artist', duration_seconds: 430 });
+    const spotify = makeSpotify({ id: 'sp1', title: 'Energy', artist: 'Artist', duration_ms: 430000 });
+    const result = matchTrack(spotify, buildLocalIndex([radio, extended]));
+    expect(result.matched).toBe(true);
+    expect(result.tier).toBe(2);
+    expect(result.matchedLocalTrack?.id).toBe('ext');
+  });
+
+  it('matches as before when durations are unknown', () => {
+    const local = makeLocal({ id: '1', title: 'Energy', artist: 'Artist' });
+    const spotify = makeSpotify({ id: 'sp1', title: 'Energy', artist: 'Artist', duration_ms: 430000 });
+    const result = matchTrack(spotify, buildLocalIndex([local]));
+    expect(result.matched).toBe(true);
+    expect(result.durationDeltaSeconds).toBeUndefined();
+  });
+
+  it('lowers the fuzzy threshold when durations agree', () => {
+    // 'summer nights' vs 'sumer night' is ~84.6% similar, just under the base threshold
+    const local = makeLocal({ id: '1', title: 'Sumer Night', artist: 'Artist', duration_seconds: 300 });
+    const withDuration = makeSpotify({ id: 'sp1', title: 'Summer Nights', artist: 'Artist', duration_ms: 301000 });
+    const withoutDuration = makeSpotify({ id: 'sp2', title: 'Summer Nights', artist: 'Artist' });
+    const index = buildLocalIndex([local]);
+    expect(matchTrack(withoutDuration, index).matched).toBe(false);
+    const result = matchTrack(withDuration, index);
+    expect(result.matched).toBe(true);
+    expect(result.tier).toBe(3);
+  });
+});
+
+// ─── artistNames ─────────────────────────────────────────────────────────────
+
+describe('trackMatchingEngine – artistNames()', () => {
+  it('splits a comma-joined Spotify credit into each artist', () => {
+    const names = artistNames({ artist: 'Purple Disco Machine, Lizzo', primary_artist: null });
+    expect(names).toEqual(['purple disco machine lizzo', 'purple disco machine', 'lizzo']);
+  });
+
+  it('includes featured artists and collaboration separators', () => {
+    const names = artistNames({
+      artist: 'Calvin Harris x Dua Lipa',
+      primary_artist: 'Calvin Harris',
+      featured_artists: ['Young Thug'],
+    });
+    expect(names).toEqual(expect.arrayContaining(['calvin harris', 'dua lipa', 'young thug']));
+  });
+
+  it('resolves each part through aliases', () => {
+    const aliases = buildArtistAliasMap([{ alias: 'Beyonce Knowles', canonical_artist: 'Beyoncé' }]);
+    const names = artistNames({ artist: 'Jay-Z & Beyonce Knowles', primary_artist: null }, aliases);
+    expect(names).toContain('beyonce');
+  });
+
+  it('returns no names for an empty credit', () => {
+    expect(artistNames({ artist: null, primary_artist: null })).toEqual([]);
+  });
+});
+
+// ─── matchTrack artist overlap ───────────────────────────────────────────────
+
+describe('trackMatchingEngine – matchTrack() artist overlap', () => {
+  it('matches a collaboration credited to a different lead artist', () => {
+    const local = makeLocal({ id: 'l1', title: 'About Damn Time', artist: 'Purple Disco Machine, Lizzo' });
+    const spotify = makeSpotify({ id: 'sp1', title: 'About Damn Time', artist: 'Lizzo' });
+    const result = matchTrack(spotify, buildLocalIndex([local]));
+    expect(result.matched).toBe(true);
+    expect(result.tier).toBe(3);
+    expect(result.matchedLocalTrack?.id).toBe('l1');
+    expect(result.overlappingArtists).toEqual(['lizzo']);
+  });
+
+  it('matches via local featured_artists', () => {
+    const local = makeLocal({
+      id: 'l1',
+      title: 'Hideaway',
+      artist: 'Kiesza feat. Joey Bada$$',
+      primary_artist: 'Kiesza',
+      featured_artists: ['Joey Bada$$'],
+    });
+    const spotify = makeSpotify({ id: 'sp1', title: 'Hideaway', artist: 'Joey Bada$$' });
+    expect(matchTrack(spotify, buildLocalIndex([local])).overlappingArtists).toEqual(['joey bada']);
+  });
+
+  it('requires the full title, mix included, to agree', () => {
+    const local = makeLocal({ id: 'l1', title: 'About Damn Time (Extended Mix)', artist: 'Purple Disco Machine, Lizzo' });
+    const spotify = makeSpotify({ id: 'sp1', title: 'About Damn Time', artist: 'Lizzo' });
+    expect(matchTrack(spotify, buildLocalIndex([local])).matched).toBe(false);
+  });
+
+  it('does not match when no artist is shared', () => {
+    const local = makeLocal({ id: 'l1', title: 'About Damn Time', artist: 'Purple Disco Machine' });
+    const spotify = makeSpotify({ id: 'sp1', title: 'About Damn Time', artist: 'Lizzo' });
+    expect(matchTrack(spotify, buildLocalIndex([local])).matched).toBe(false);
+  });
+
+  it('honours a higher minimum overlap', () => {
+    const local = makeLocal({ id: 'l1', title: 'Dance', artist: 'Artist A, Artist B, Artist C' });
+    const oneShared = makeSpotify({ id: 'sp1', title: 'Dance', artist: 'Artist A, Artist D' });
+    const twoShared = makeSpotify({ id: 'sp2', title: 'Dance', artist: 'Artist B, Artist A' });
+    const index = buildLocalIndex([local]);
+    expect(matchTrack(oneShared, index, { minArtistOverlap: 2 }).matched).toBe(false);
+    expect(matchTrack(twoShared, index, { minArtistOverlap: 2 }).overlappingArtists).toEqual(['artist b', 'artist a']);
+  });
+
+  it('caps the minimum overlap at the smaller credit list', () => {
+    const local = makeLocal({ id: 'l1', title: 'About Damn Time', artist: 'Purple Disco Machine, Lizzo' });
+    const spotify = makeSpotify({ id: 'sp1', title: 'About Damn Time', artist: 'Lizzo' });
+    expect(matchTrack(spotify, buildLocalIndex([local]), { minArtistOverlap: 3 }).matched).toBe(true);
+  });
+
+  it('does not report overlap for same-lead-artist matches', () => {
+    const local = makeLocal({ id: 'l1', title: 'Energy', artist: 'Artist' });
+    const spotify = makeSpotify({ id: 'sp1', title: 'Energy', artist: 'Artist' });
+    expect(matchTrack(spotify, buildLocalIndex([local])).overlappingArtists).toBeUndefined();
+  });
+});
+
+// ─── matchTrack profiles ─────────────────────────────────────────────────────
+
+describe('trackMatchingEngine – matchTrack() profiles', () => {
+  const { strict, balanced, lenient } = MATCHING_PROFILES;
+
+  it('defaults to the balanced profile', () => {
+    const local = makeLocal({ id: 'l1', title: 'Rhythm Is A Dancer', artist: 'Snap' });
+    const spotify = makeSpotify({ id: 'sp1', title: 'Rythm Is Dancer', artist: 'Snap' });
+    const index = buildLocalIndex([local]);
+    expect(matchTrack(spotify, index).matched).toBe(matchTrack(spotify, index, { profile: balanced }).matched);
+  });
+
+  it('applies each profile fuzzy threshold', () => {
+    const index = buildLocalIndex([
+      makeLocal({ id: 'l1', title: 'Rhythm Is A Dancer', artist: 'Snap' }),
+      makeLocal({ id: 'l2', title: 'Get Lucky', artist: 'Daft Punk' }),
+    ]);
+    // ~83% similar
+    const rhythm = makeSpotify({ id: 'sp1', title: 'Rythm Is Dancer', artist: 'Snap' });
+    // ~89% similar
+    const lucky = makeSpotify({ id: 'sp2', title: 'Get Lucki', artist: 'Daft Punk' });
+
+    expect(matchTrack(rhythm, index, { profile: lenient }).matched).toBe(true);
+    expect(matchTrack(rhythm, index, { profile: balanced }).matched).toBe(false);
+    expect(matchTrack(lucky, index, { profile: balanced }).matched).toBe(true);
+    expect(matchTrack(lucky, index, { profile: strict }).matched).toBe(false);
+  });
+
+  it('strict runs no fuzzy tier', () => {
+    const index = buildLocalIndex([makeLocal({ id: 'l1', title: 'Rhythm Is A Dancer', artist: 'Snap' })]);
+    const spotify = makeSpotify({ id: 'sp1', title: 'Rhythm Is A Dancr', artist: 'Snap' });
+    expect(matchTrack(spotify, index, { profile: balanced }).tier).toBe(3);
+    expect(matchTrack(spotify, index, { profile: strict }).matched).toBe(false);
+  });
+
+  it('strict keeps differently named versions apart', () => {
+    const local = makeLocal({ id: 'l1', title: 'Finally (Extended Mix)', artist: 'Kings of Tomorrow' });
+    const spotify = makeSpotify({ id: 'sp1', title: 'Finally - Dub Mix', artist: 'Kings of Tomorrow' });
+    const index = buildLocalIndex([local]);
+    expect(matchTrack(spotify, index, { profile: balanced }).tier).toBe(2);
+    expect(matchTrack(spotify, index, { profile: strict }).matched).toBe(false);
+  });
+
+  it('strict still bridges a plain title and a versioned one', () => {
+    const local = makeLocal({ id: 'l1', title: 'Finally (Original Mix)', artist: 'Kings of Tomorrow' });
+    const spotify = makeSpotify({ id: 'sp1', title: 'Finally', artist: 'Kings of Tomorrow' });
+    expect(matchTrack(spotify, buildLocalIndex([local]), { profile: strict }).tier).toBe(2);
+  });
+
+  it('strict matches the same version named on both sides', () => {
+    const local = makeLocal({ id: 'l1', title: 'Finally (Dub Mix)', artist: 'Kings of Tomorrow' });
+    const spotify = makeSpotify({ id: 'sp1', title: 'Finally - Dub Mix', artist: 'Kings of Tomorrow' });
+    expect(matchTrack(spotify, buildLocalIndex([local]), { profile: strict }).matched).toBe(true);
+  });
+
+  it('strict only matches on the lead artist', () => {
+    const local = makeLocal({ id: 'l1', title: 'About Damn Time', artist: 'Purple Disco Machine, Lizzo' });
+    const spotify = makeSpotify({ id: 'sp1', title: 'About Damn Time', artist: 'Lizzo' });
+    const index = buildLocalIndex([local]);
+    expect(matchTrack(spotify, index, { profile: balanced }).matched).toBe(true);
+    expect(matchTrack(spotify, index, { profile: strict }).matched).toBe(false);
+  });
+
+  it("'all' artist strictness needs every artist on the shorter credit", () => {
+    const profile: MatchingProfile = { ...balanced, artistStrictness: 'all' };
+    const local = makeLocal({ id: 'l1', title: 'Dance', artist: 'Artist A, Artist B, Artist C' });
+    const index = buildLocalIndex([local]);
+    expect(matchTrack(makeSpotify({ id: 'sp1', title: 'Dance', artist: 'Artist B, Artist D' }), index, { profile }).matched).toBe(false);
+    expect(matchTrack(makeSpotify({ id: 'sp2', title: 'Dance', artist: 'Artist C, Artist B' }), index, { profile }).matched).toBe(true);
+  });
+
+  it('skips tiers the profile disables', () => {
+    const exactOnly: MatchingProfile = { ...balanced, enabledTiers: [1] };
+    const index = buildLocalIndex([makeLocal({ id: 'l1', title: 'Energy (Extended Mix)', artist: 'Artist' })]);
+    expect(matchTrack(makeSpotify({ id: 'sp1', title: 'Energy', artist: 'Artist' }), index, { profile: exactOnly }).matched).toBe(false);
+    expect(matchTrack(makeSpotify({ id: 'sp2', title: 'Energy (Extended Mix)', artist: 'Artist' }), index, { profile: exactOnly }).tier).toBe(1);
+  });
+
+  it('lets an explicit minArtistOverlap override the profile', () => {
+    const local = makeLocal({ id: 'l1', title: 'About Damn Time', artist: 'Purple Disco Machine, Lizzo' });
+    const spotify = makeSpotify({ id: 'sp1', title: 'About Damn Time', artist: 'Lizzo' });
+    const profile: MatchingProfile = { ...balanced, artistStrictness: 'lead' };
+    expect(matchTrack(spotify, buildLocalIndex([local]), { profile }).matched).toBe(false);
+    expect(matchTrack(spotify, buildLocalIndex([local]), { profile, minArtistOverlap: 1 }).matched).toBe(true);
+  });
+
+  it('recognises profile names', () => {
+    expect(isMatchingProfileName('strict')).toBe(true);
+    expect(isMatchingProfileName('lenient')).toBe(true);
+    expect(isMatchingProfileName('loose')).toBe(false);
+    expect(isMatchingProfileName('toString')).toBe(false);
+    expect(isMatchingProfileName(null)).toBe(false);
+  });
+});
+
+// ─── version-aware matching ──────────────────────────────────────────────────
+
+describe('trackMatchingEngine – normalizeMix()', () => {
+  it('extracts the mix from the title', () => {
+    expect(normalizeMix("Zombie (THEMBA's Herd Mix)")).toBe('thembas herd mix');
+    expect(normalizeMix('Finally - Dub Mix')).toBe('dub mix');
+  });
+
+  it('prefers the stored mix column', () => {
+    expect(normalizeMix('Finally (Dub Mix)', 'Extended Mix')).toBe('extended mix');
+  });
+
+  it('folds default-version labels and remasters into original', () => {
+    expect(normalizeMix('Zombie (Original Mix)')).toBe('original');
+    expect(normalizeMix('Zombie - Album Version')).toBe('original');
+    expect(normalizeMix('Zombie - Remastered 2011')).toBe('original');
+  });
+
+  it('returns empty when no version is named', () => {
+    expect(normalizeMix('Zombie')).toBe('');
+    expect(normalizeMix(null)).toBe('');
+  });
+});
+
+describe('trackMatchingEngine – compareVersions()', () => {
+  it('same mix or both plain is the same version', () => {
+    expect(compareVersions('dub mix', 'dub mix')).toBe('same');
+    expect(compareVersions('', '')).toBe('same');
+  });
+
+  it('a plain title is the original', () => {
+    expect(compareVersions('', 'original')).toBe('same');
+    expect(compareVersions('original', '')).toBe('same');
+  });
+
+  it('a plain title against a remix is unknown', () => {
+    expect(compareVersions('', 'thembas herd mix')).toBe('unknown');
+    expect(compareVersions('thembas herd mix', '')).toBe('unknown');
+  });
+
+  it('two different named versions differ', () => {
+    expect(compareVersions('original', 'thembas herd mix')).toBe('different');
+    expect(compareVersions('dub mix', 'extended mix')).toBe('different');
+  });
+
+  it('tolerates small spelling differences in the mix name', () => {
+    expect(compareVersions('thembas herd mix', 'themba herd mix')).toBe('same');
+  });
+});
+
+describe('trackMatchingEngine – matchTrack() version-aware', () => {
+  const versionAware = { profile: { ...MATCHING_PROFILES.balanced, mixSensitivity: 'version-aware' as const } };
+
+  it('reports a different remix as owned, not matched', () => {
+    const local = makeLocal({ id: 'l1', title: 'Zombie (Original Mix)', artist: 'Themba' });
+    const spotify = makeSpotify({ id: 'sp1', title: "Zombie (THEMBA's Herd Mix)", artist: 'Themba' });
+    const index = buildLocalIndex([local]);
+
+    expect(matchTrack(spotify, index).matched).toBe(true);
+
+    const result = matchTrack(spotify, index, versionAware);
+    expect(result.matched).toBe(false);
+    expect(result.versionMismatch).toBe(true);
+    expect(result.versionAgreement).toBe('different');
+    expect(result.matchedLocalTrack?.id).toBe('l1');
+  });
+
+  it('prefers the owned copy of the same remix', () => {
+    const index = buildLocalIndex([
+      makeLocal({ id: 'l1', title: 'Zombie (Original Mix)', artist: 'Themba' }),
+      makeLocal({ id: 'l2', title: "Zombie [THEMBA's Herd Mix]", artist: 'Themba' }),
+    ]);
+    const spotify = makeSpotify({ id: 'sp1', title: "Zombie - THEMBA's Herd Mix", artist: 'Themba' });
+
+    const result = matchTrack(spotify, index, versionAware);
+    expect(result.matchedLocalTrack?.id).toBe('l2');
+    expect(result.versionAgreement).toBe('same');
+  });
+
+  it('matches when one side names no version, flagged unknown', () => {
+    const local = makeLocal({ id: 'l1', title: 'Zombie', artist: 'Themba' });
+    const spotify = makeSpotify({ id: 'sp1', title: "Zombie (THEMBA's Herd Mix)", artist: 'Themba' });
+
+    const result = matchTrack(spotify, buildLocalIndex([local]), versionAware);
+    expect(result.matched).toBe(true);
+    expect(result.versionAgreement).toBe('unknown');
+  });
+
+  it('uses the stored mix columns over the titles', () => {
+    const local = makeLocal({ id: 'l1', title: 'Zombie', artist: 'Themba', mix: 'Original Mix' });
+    const spotify = makeSpotify({ id: 'sp1', title: 'Zombie', artist: 'Themba', mix: "THEMBA's Herd Mix" });
+
+    expect(matchTrack(spotify, buildLocalIndex([local]), versionAware).versionAgreement).toBe('different');
+  });
+
+  it('rejects a fuzzy title match on a different mix', () => {
+    const local = makeLocal({ id: 'l1', title: 'Zombiee (Dub Mix)', artist: 'Themba' });
+    const spotify = makeSpotify({ id: 'sp1', title: 'Zombie (Extended Mix)', artist: 'Themba' });
+
+    const result = matchTrack(spotify, buildLocalIndex([local]), versionAware);
+    expect(result.matched).toBe(false);
+    expect(result.versionAgreement).toBe('different');
+  });
+
+  it('leaves versionAgreement unset when mixes are ignored', () => {
+    const local = makeLocal({ id: 'l1', title: 'Zombie (Original Mix)', artist: 'Themba' });
+    const spotify = makeSpotify({ id: 'sp1', title: 'Zombie (Original Mix)', artist: 'Themba' });
+    expect(matchTrack(spotify, buildLocalIndex([local])).versionAgreement).toBeUndefined();
+  });
+});
+
+// ─── matchTrack decisions ────────────────────────────────────────────────────
+
+function withDecisions(
+  confirmed: Record<string, string> = {},
+  rejected: Record<string, string[]> = {}
+): { decisions: MatchDecisions } {
+  return {
+    decisions: {
+      confirmed: new Map(Object.entries(confirmed)),
+      rejected: new Map(Object.entries(rejected).map(([id, localIds]) => [id, new Set(localIds)])),
+    },
+  };
+}
+
+describe('trackMatchingEngine – matchTrack() user decisions', () => {
+  it('matches a confirmed local track even when titles are unrelated', () => {
+    const index = buildLocalIndex([makeLocal({ id: 'l1', title: 'Track 01', artist: 'Unknown' })]);
+    const spotify = makeSpotify({ id: 'sp1', title: 'Real Title', artist: 'Real Artist' });
+    const result = matchTrack(spotify, index, withDecisions({ sp1: 'l1' }));
+    expect(result.matched).toBe(true);
+    expect(result.userConfirmed).toBe(true);
+    expect(result.tier).toBeNull();
+    expect(result.matchedLocalTrack?.id).toBe('l1');
+  });
+
+  it('falls back to the engine when the confirmed local track is gone', () => {
+    const index = buildLocalIndex([makeLocal({ id: 'l2', title: 'Real Title', artist: 'Real Artist' })]);
+    const spotify = makeSpotify({ id: 'sp1', title: 'Real Title', artist: 'Real Artist' });
+    const result = matchTrack(spotify, index, withDecisions({ sp1: 'deleted' }));
+    expect(result.tier).toBe(1);
+    expect(result.userConfirmed).toBeUndefined();
+  });
+
+  it('skips a rejected exact match', () => {
+    const index = buildLocalIndex([makeLocal({ id: 'l1', title: 'Energy', artist: 'Artist' })]);
+    const spotify = makeSpotify({ id: 'sp1', title: 'Energy', artist: 'Artist' });
+    expect(matchTrack(spotify, index, withDecisions({}, { sp1: ['l1'] })).matched).toBe(false);
+  });
+
+  it('skips a rejected fuzzy match and keeps looking', () => {
+    const index = buildLocalIndex([
+      makeLocal({ id: 'l1', title: 'Midnight Cty', artist: 'Artist' }),
+      makeLocal({ id: 'l2', title: 'Midnight Citi', artist: 'Artist' }),
+    ]);
+    const spotify = makeSpotify({ id: 'sp1', title: 'Midnight City', artist: 'Artist' });
+    const result = matchTrack(spotify, index, withDecisions({}, { sp1: ['l1'] }));
+    expect(result.tier).toBe(3);
+    expect(result.matchedLocalTrack?.id).toBe('l2');
+  });
+
+  it('only applies rejections to the Spotify track they were made for', () => {
+    const index = buildLocalIndex([makeLocal({ id: 'l1', title: 'Energy', artist: 'Artist' })]);
+    const spotify = makeSpotify({ id: 'sp2', title: 'Energy', artist: 'Artist' });
+    expect(matchTrack(spotify, index, withDecisions({}, { sp1: ['l1'] })).matched).toBe(true);
+  });
+});
+
+// ─── matchTrack ISRC ─────────────────────────────────────────────────────────
+
+describe('trackMatchingEngine – matchTrack() tier 0 (ISRC)', () => {
+  it('matches on ISRC when title and artist tags disagree', () => {
+    const index = buildLocalIndex([makeLocal({ id: 'l1', title: 'Track 01', artist: 'Unknown', isrc: 'GBAYE0601498' })]);
+    const spotify = makeSpotify({ id: 'sp1', title: 'Blue Monday', artist: 'New Order', isrc: 'GBAYE0601498' });
+    const result = matchTrack(spotify, index);
+    expect(result.matched).toBe(true);
+    expect(result.tier).toBe(0);
+    expect(result.matchedLocalTrack?.id).toBe('l1');
+  });
+
+  it('compares ISRCs ignoring case and hyphens', () => {
+    const index = buildLocalIndex([makeLocal({ id: 'l1', title: 'Track 01', isrc: 'gb-aye-06-01498' })]);
+    const spotify = makeSpotify({ id: 'sp1', title: 'Blue Monday', isrc: 'GBAYE0601498' });
+    expect(matchTrack(spotify, index).tier).toBe(0);
+  });
+
+  it('runs before the string tiers', () => {
+    const index = buildLocalIndex([
+      makeLocal({ id: 'l1', title: 'Blue Monday', artist: 'New Order' }),
+      makeLocal({ id: 'l2', title: 'Blue Monday 88', artist: 'New Order', isrc: 'GBAYE0601498' }),
+    ]);
+    const spotify = makeSpotify({ id: 'sp1', title: 'Blue Monday', artist: 'New Order', isrc: 'GBAYE0601498' });
+    expect(matchTrack(spotify, index).matchedLocalTrack?.id).toBe('l2');
+  });
+
+  it('ignores duration and mix for an ISRC match', () => {
+    const local = makeLocal({ id: 'l1', title: 'Energy (Dub Mix)', duration_seconds: 420, isrc: 'USRC11700123' });
+    const spotify = makeSpotify({ id: 'sp1', title: 'Energy (Radio Edit)', duration_ms: 180000, isrc: 'USRC11700123' });
+    const result = matchTrack(spotify, buildLocalIndex([local]), { profile: MATCHING_PROFILES.strict });
+    expect(result.tier).toBe(0);
+    expect(result.durationAgreement).toBe('differ');
+  });
+
+  it('never matches malformed ISRCs to each other', () => {
+    const index = buildLocalIndex([makeLocal({ id: 'l1', title: 'Track 01', isrc: 'unknown' })]);
+    const spotify = makeSpotify({ id: 'sp1', title: 'Blue Monday', isrc: 'unknown' });
+    expect(matchTrack(spotify, index).matched).toBe(false);
+  });
+
+  it('skips a rejected ISRC match and falls through to the string tiers', () => {
+    const index = buildLocalIndex([
+      makeLocal({ id: 'l1', title: 'Track 01', isrc: 'GBAYE0601498' }),
+      makeLocal({ id: 'l2', title: 'Blue Monday', artist: 'New Order' }),
+    ]);
+    const spotify = makeSpotify({ id: 'sp1', title: 'Blue Monday', artist: 'New Order', isrc: 'GBAYE0601498' });
+    const result = matchTrack(spotify, index, withDecisions({}, { sp1: ['l1'] }));
+    expect(result.tier).toBe(1);
+    expect(result.matchedLocalTrack?.id).toBe('l2');
+  });
+
+  it('is skipped when the profile disables tier 0', () => {
+    const profile: MatchingProfile = { ...MATCHING_PROFILES.balanced, enabledTiers: [1, 2, 3] };
+    const index = buildLocalIndex([makeLocal({ id: 'l1', title: 'Track 01', isrc: 'GBAYE0601498' })]);
+    const spotify = makeSpotify({ id: 'sp1', title: 'Blue Monday', isrc: 'GBAYE0601498' });
+    expect(matchTrack(spotify, index, { profile }).matched).toBe(false);
+  });
+});
+
 // ─── findMissingTracksPure ────────────────────────────────────────────────────
 
 describe('trackMatchingEngine – findMissingTracksPure()', () => {
@@ -472,4 +1082,18 @@ describe('trackMatchingEngine – findMissingTracksPure()', () => {
     expect(found?.matched).toBe(true);
     expect(missing?.matched).toBe(false);
   });
+
+  it('matches through an artist alias on either side', () => {
+    const aliases = buildArtistAliasMap([{ alias: 'Beyonce Knowles', canonical_artist: 'Beyoncé' }]);
+    const spotify = [makeSpotify({ id: 'sp1', title: 'Halo', artist: 'Beyonce Knowles' })];
+    const local = [makeLocal({ id: 'l1', title: 'Halo', artist: 'BEYONCÉ' })];
+    expect(findMissingTracksPure(spotify, local)[0].matched).toBe(false);
+    expect(findMissingTracksPure(spotify, local, aliases)[0].matched).toBe(true);
+  });
+
+  it('matches a Cyrillic Spotify artist against romanized local tags', () => {
+    const spotify = [makeSpotify({ id: 'sp1', title: 'Группа крови', artist: 'Кино' })];
+    const local = [makeLocal({ id: 'l1', title: 'Gruppa krovi', artist: 'Kino' })];
+    expect(findMissingTracksPure(spotify, local)[0].matched).toBe(true);
+  });
 });
@@ -2,8 +2,10 @@ import { describe, it, expect } from 'vitest';
 import {
   buildLocalIndex,
   matchTrack,
+  MATCHING_PROFILES,
 } from '../trackMatchingEngine';
 import type { EvalFixtureFile, EvalCase } from './fixtures/eval-types';
+import { runEval, summarize } from './fixtures/eval-report';
 import evalCasesJson from './fixtures/eval-cases.json';
 
 const fixture = evalCasesJson as unknown as EvalFixtureFile;
@@ -202,4 +204,23 @@ describe('Track Matching Eval', () => {
       expect(metrics.falsePositives).toBe(0);
     });
   });
+
+  describe('matching profiles', () => {
+    const summaries = Object.fromEntries(
+      Object.values(MATCHING_PROFILES).map(profile => [
+        profile.name,
+        summarize(fixture.cases, runEval(fixture.cases, { profile })),
+      ])
+    );
+
+    it.each(Object.keys(MATCHING_PROFILES))('%s never matches a true-missing case', name => {
+      expect(summaries[name].outcomes['false-match']).toBe(0);
+      expect(summaries[name].outcomes['wrong-match']).toBe(0);
+    });
+
+    it('recall never drops from strict to balanced to lenient', () => {
+      expect(summaries.strict.recall).toBeLessThanOrEqual(summaries.balanced.recall);
+      expect(summaries.balanced.recall).toBeLessThanOrEqual(summaries.lenient.recall);
+    });
+  });
 });
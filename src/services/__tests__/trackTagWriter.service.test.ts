@@ -0,0 +1,131 @@
+import { describe, it, expect, vi } from 'vitest';
+import { TrackTagWriterService } from '../trackTagWriter.service';
+import { supabase } from '@/integrations/supabase/client';
+import { queryBuilder } from '@/test/supabaseMock';
+import { generateFileHash } from '@/utils/fileHash';
+import type { AudioTags } from '@/types/audioTags';
+
+const tags = (overrides: Partial<AudioTags> = {}): AudioTags => ({
+  title: 'Some Track',
+  artist: 'Some Artist',
+  album: null,
+  year: 1995,
+  genre: 'House',
+  bpm: 124,
+  key: null,
+  comment: null,
+  ...overrides,
+});
+
+/**
+ * fLaC marker and a STREAMINFO block (44.1kHz, mono, 16-bit) flagged as the
+ * last metadata block
+ */
+function minimalFlac(): Uint8Array {
+  const bytes = new Uint8Array(4 + 4 + 34);
+  bytes.set([0x66, 0x4c, 0x61, 0x43, 0x80, 0x00, 0x00, 34]);
+  const view = new DataView(bytes.buffer);
+  view.setUint16(8, 4096);
+  view.setUint16(10, 4096);
+  bytes.set([0x0a, 0xc4, 0x40, 0xf0], 18);
+  return bytes;
+}
+
+/**
+ * A file handle backed by memory: getFile returns what was last written
+ */
+function memoryHandle(name: string, content: Uint8Array) {
+  let file = new File([content], name, { lastModified: Date.parse('2026-01-01T00:00:00Z') });
+  return {
+    getFile: vi.fn(async () => file),
+    createWritable: vi.fn(async () => ({
+      write: async (blob: Blob) => {
+        file = new File([blob], name, { lastModified: Date.parse('2026-10-19T12:00:00Z') });
+      },
+      close: async () => {},
+    })),
+  } as unknown as FileSystemFileHandle;
+}
+
+describe('TrackTagWriterService', () => {
+  it('only writes MP3, FLAC and M4A files', () => {
+    expect(TrackTagWriterService.canWrite('a/b/Track.MP3')).toBe(true);
+    expect(TrackTagWriterService.canWrite('Track.flac')).toBe(true);
+    expect(TrackTagWriterService.canWrite('Track.m4a')).toBe(true);
+    expect(TrackTagWriterService.canWrite('Track.wav')).toBe(false);
+  });
+
+  describe('diffTags', () => {
+    it('lists the tags that change, from the file value to the edited one', () => {
+      const changes = TrackTagWriterService.diffTags(
+        tags({ comment: 'old' }),
+        tags({ title: 'New Title', key: '8A', comment: null })
+      );
+
+      expect(changes).toEqual([
+        { field: 'title', label: 'Title', from: 'Some Track', to: 'New Title' },
+        { field: 'key', label: 'Key', from: null, to: '8A' },
+        { field: 'comment', label: 'Comment', from: 'old', to: null },
+      ]);
+    });
+
+    it('treats blank and surrounding whitespace as unchanged', () => {
+      expect(TrackTagWriterService.diffTags(
+        tags({ album: '' }),
+        tags({ title: ' Some Track ', album: null })
+      )).toEqual([]);
+    });
+
+    it('turns a diff into tag updates', () => {
+      const changes = TrackTagWriterService.diffTags(tags(), tags({ bpm: 128, genre: null }));
+
+      expect(TrackTagWriterService.toUpdates(changes)).toEqual({ genre: null, bpm: 128 });
+    });
+  });
+
+  it('refuses to write unsupported formats', async () => {
+    await expect(TrackTagWriterService.writeTags(new File(['x'], 'Track.wav'), { title: 'x' }))
+      .rejects.toThrow('Tag writing not supported for .wav files');
+  });
+
+  describe('writeBack', () => {
+    it('writes the tags to the file and refreshes the row from the written file', async () => {
+      const update = vi.fn(() => ({ eq: vi.fn().mockResolvedValue({ error: null }) }));
+      vi.mocked(supabase.from).mockReturnValue(queryBuilder({ update }));
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      const handle = memoryHandle('Track.flac', minimalFlac());
+
+      const result = await TrackTagWriterService.writeBack('track-1', handle, { title: 'Some Track', key: '8A' });
+
+      const written = await handle.getFile();
+      expect(await TrackTagWriterService.readTags(written)).toMatchObject({ title: 'Some Track', key: '8A' });
+      expect(result).toEqual({
+        hash: await generateFileHash(written),
+        file_size: written.size,
+        last_modified: '2026-10-19T12:00:00.000Z',
+      });
+      expect(supabase.from).toHaveBeenCalledWith('local_mp3s');
+      expect(update).toHaveBeenCalledWith(result);
+    });
+
+    it('throws when the row update fails', async () => {
+      const error = { message: 'permission denied' };
+      vi.mocked(supabase.from).mockReturnValue(queryBuilder({
+        update: () => ({ eq: vi.fn().mockResolvedValue({ error }) }),
+      }));
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      await expect(TrackTagWriterService.writeBack('track-1', memoryHandle('Track.flac', minimalFlac()), { title: 'x' }))
+        .rejects.toBe(error);
+    });
+  });
+
+  it('recognises the scanned file by its hash', async () => {
+    const file = new File([minimalFlac()], 'Track.flac');
+    const hash = await generateFileHash(file);
+
+    expect(await TrackTagWriterService.isScannedFile(file, hash)).toBe(true);
+    expect(await TrackTagWriterService.isScannedFile(file, 'other')).toBe(false);
+    expect(await TrackTagWriterService.isScannedFile(file, null)).toBe(false);
+  });
+});
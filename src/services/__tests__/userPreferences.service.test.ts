@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { UserPreferencesService } from '../userPreferences.service';
+import { supabase } from '@/integrations/supabase/client';
+import { queryBuilder } from '@/test/supabaseMock';
+
+describe('UserPreferencesService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  const mockRow = (data: unknown, error: unknown = null) => {
+    const eq = vi.fn().mockReturnValue({
+      maybeSingle: vi.fn().mockResolvedValue({ data, error }),
+    });
+    vi.mocked(supabase.from).mockReturnValue(queryBuilder({
+      select: vi.fn().mockReturnValue({ eq }),
+    }));
+    return eq;
+  };
+
+  describe('getMatchingProfile', () => {
+    it('should return the saved profile', async () => {
+      const eq = mockRow({ matching_profile: 'strict' });
+
+      const result = await UserPreferencesService.getMatchingProfile('user-123');
+
+      expect(supabase.from).toHaveBeenCalledWith('user_preferences');
+      expect(eq).toHaveBeenCalledWith('user_id', 'user-123');
+      expect(result).toBe('strict');
+    });
+
+    it('should fall back to balanced when no preferences exist', async () => {
+      mockRow(null);
+
+      expect(await UserPreferencesService.getMatchingProfile('user-123')).toBe('balanced');
+    });
+
+    it('should fall back to balanced for an unknown stored value', async () => {
+      mockRow({ matching_profile: 'aggressive' });
+
+      expect(await UserPreferencesService.getMatchingProfile('user-123')).toBe('balanced');
+    });
+
+    it('should throw on database error', async () => {
+      mockRow(null, { message: 'Database error' });
+
+      await expect(UserPreferencesService.getMatchingProfile('user-123')).rejects.toEqual({ message: 'Database error' });
+    });
+  });
+
+  describe('setMatchingProfile', () => {
+    it('should upsert the profile on user_id', async () => {
+      const upsert = vi.fn().mockResolvedValue({ error: null });
+      vi.mocked(supabase.from).mockReturnValue(queryBuilder({ upsert }));
+
+      await UserPreferencesService.setMatchingProfile('user-123', 'lenient');
+
+      expect(upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ user_id: 'user-123', matching_profile: 'lenient' }),
+        { onConflict: 'user_id' }
+      );
+    });
+
+    it('should throw on database error', async () => {
+      const upsert = vi.fn().mockResolvedValue({ error: { message: 'Database error' } });
+      vi.mocked(supabase.from).mockReturnValue(queryBuilder({ upsert }));
+
+      await expect(UserPreferencesService.setMatchingProfile('user-123', 'strict')).rejects.toEqual({ message: 'Database error' });
+    });
+  });
+
+  describe('getSuperGenreTagTarget', () => {
+    it('should return the saved target', async () => {
+      mockRow({ super_genre_tag_target: { type: 'mediamonkey', field: 1 } });
+
+      expect(await UserPreferencesService.getSuperGenreTagTarget('user-123')).toEqual({ type: 'mediamonkey', field: 1 });
+    });
+
+    it('should fall back to Grouping when none or an invalid one is stored', async () => {
+      mockRow(null);
+      expect(await UserPreferencesService.getSuperGenreTagTarget('user-123')).toEqual({ type: 'grouping' });
+
+      mockRow({ super_genre_tag_target: { type: 'genre' } });
+      expect(await UserPreferencesService.getSuperGenreTagTarget('user-123')).toEqual({ type: 'grouping' });
+    });
+  });
+
+  describe('setSuperGenreTagTarget', () => {
+    it('should upsert the target on user_id', async () => {
+      const upsert = vi.fn().mockResolvedValue({ error: null });
+      vi.mocked(supabase.from).mockReturnValue(queryBuilder({ upsert }));
+
+      await UserPreferencesService.setSuperGenreTagTarget('user-123', { type: 'txxx', description: 'SuperGenre' });
+
+      expect(upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ user_id: 'user-123', super_genre_tag_target: { type: 'txxx', description: 'SuperGenre' } }),
+        { onConflict: 'user_id' }
+      );
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import { supabase } from '@/integrations/supabase/client';
+import { buildArtistAliasMap, type ArtistAliasMap } from './trackMatchingEngine';
+
+export interface ArtistAliasRecord {
+  id: string;
+  alias: string;
+  canonical_artist: string;
+  created_at: string;
+}
+
+export class ArtistAliasService {
+  /**
+   * Get all artist aliases for a user
+   */
+  static async getAliases(userId: string): Promise<ArtistAliasRecord[]> {
+    const { data, error } = await supabase
+      .from('artist_aliases')
+      .select('id, alias, canonical_artist, created_at')
+      .eq('user_id', userId)
+      .order('alias', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching artist aliases:', error);
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Get the user's aliases as a normalized lookup for the matching engine
+   */
+  static async getAliasMap(userId: string): Promise<ArtistAliasMap> {
+    const aliases = await this.getAliases(userId);
+    return buildArtistAliasMap(aliases);
+  }
+
+  /**
+   * Record that `alias` names the same artist as `canonicalArtist`.
+   * Re-adding an existing alias points it at the new canonical name.
+   */
+  static async addAlias(userId: string, alias: string, canonicalArtist: string): Promise<ArtistAliasRecord> {
+    const trimmedAlias = alias.trim();
+    const trimmedCanonical = canonicalArtist.trim();
+
+    if (!trimmedAlias || !trimmedCanonical) {
+      throw new Error('Alias and artist name are both required');
+    }
+
+    const { data, error } = await supabase
+      .from('artist_aliases')
+      .upsert(
+        { user_id: userId, alias: trimmedAlias, canonical_artist: trimmedCanonical },
+        { onConflict: 'user_id,alias' }
+      )
+      .select('id, alias, canonical_artist, created_at')
+      .single();
+
+    if (error) {
+      console.error('Error saving artist alias:', error);
+      throw error;
+    }
+
+    console.log(`🔗 Artist alias saved: "${trimmedAlias}" → "${trimmedCanonical}"`);
+    return data;
+  }
+
+  /**
+   * Remove an artist alias
+   */
+  static async deleteAlias(aliasId: string): Promise<void> {
+    const { error } = await supabase
+      .from('artist_aliases')
+      .delete()
+      .eq('id', aliasId);
+
+    if (error) {
+      console.error('Error deleting artist alias:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,297 @@
+/**
+ * Batch Tag Editor Service
+ *
+ * Applies one tag operation to many library tracks at once: find and replace,
+ * set a value, title-case, strip URL junk, or move "feat." from the title to
+ * the artist. The plan is worked out from the track rows first (the dry run);
+ * writing then goes through the track tag writer file by file, so one bad
+ * file doesn't stop the batch.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { TablesUpdate } from '@/integrations/supabase/types';
+import type { AudioTags, BatchTagOperation, BatchTextField } from '@/types/audioTags';
+import type { ProcessingProgress } from '@/types/slskd';
+import { getAllAudioFiles, type FileWithHandle } from './directoryHandle.service';
+import { NormalizationService } from './normalization.service';
+import { URL_JUNK_PATTERN } from './trackMatchingEngine';
+import { TrackTagWriterService, type TagChange } from './trackTagWriter.service';
+
+export const BATCH_TRACK_COLUMNS =
+  'id, file_path, file_size, hash, title, artist, album, year, genre, bpm, key, comment';
+
+export interface BatchTrack extends AudioTags {
+  id: string;
+  file_path: string;
+  file_size: number | null;
+  hash: string | null;
+}
+
+/** A planned track's file in the picked folder, or why it can't be written */
+export type LocatedFile = { handle: FileSystemFileHandle } | { error: string };
+
+export interface BatchPlanEntry {
+  track: BatchTrack;
+  changes: TagChange[];
+}
+
+export interface BatchWriteResult {
+  track: BatchTrack;
+  /** Why the file wasn't written; null when it was */
+  error: string | null;
+}
+
+// "Song (feat. X)" / "Song [ft. X]"
+const BRACKETED_FEATURING = /\s*[([]\s*(?:feat\.?|ft\.?|featuring)\s+([^)\]]+?)\s*[)\]]/i;
+// "Song feat. X" / "Song feat. X (Extended Mix)"
+const TRAILING_FEATURING = /\s+(?:feat\.?|ft\.?|featuring)\s+(.+?)(?=\s*[([]|$)/i;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const pathSegments = (path: string) => path.toLowerCase().split(/[\\/]/).filter(Boolean);
+
+const baseName = (path: string) => pathSegments(path).pop() ?? path.toLowerCase();
+
+/**
+ * How many trailing path segments two paths share
+ */
+function sharedSuffixLength(a: string[], b: string[]): number {
+  let length = 0;
+  while (length < a.length && length < b.length && a[a.length - 1 - length] === b[b.length - 1 - length]) {
+    length++;
+  }
+  return length;
+}
+
+/**
+ * Capitalize each word. Words with mixed case (McCoy, iPod) are left alone,
+ * all-caps words are lowered first.
+ */
+export function toTitleCase(value: string): string {
+  return value.replace(/[\p{L}\p{N}']+/gu, word => {
+    const rest = word.slice(1);
+    if (rest !== rest.toLowerCase() && rest !== rest.toUpperCase()) return word;
+    return word.charAt(0).toUpperCase() + rest.toLowerCase();
+  });
+}
+
+/**
+ * Remove URL junk and tidy what it leaves behind: empty brackets, doubled
+ * spaces and dangling separators
+ */
+export function stripUrlJunk(value: string): string {
+  return value
+    .replace(/[([]\s*www\.[^)\]\s]*\s*[)\]]/gi, '')
+    .replace(URL_JUNK_PATTERN, '')
+    .replace(/[([]\s*[)\]]/g, '')
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s\-–|]+|[\s\-–|]+$/g, '');
+}
+
+/**
+ * Move a featuring clause from the title to the artist. The artist is left
+ * as it is when it already names the featured artist.
+ */
+export function moveFeaturing(tags: AudioTags): AudioTags {
+  if (!tags.title || !tags.artist) return tags;
+
+  const match = tags.title.match(BRACKETED_FEATURING) ?? tags.title.match(TRAILING_FEATURING);
+  if (!match) return tags;
+
+  const featured = match[1].trim();
+  const title = tags.title.replace(match[0], '').replace(/\s+/g, ' ').trim();
+  const artist = tags.artist.toLowerCase().includes(featured.toLowerCase())
+    ? tags.artist
+    : `${tags.artist} feat. ${featured}`;
+
+  return { ...tags, title, artist };
+}
+
+function applyToField(
+  value: string | null,
+  operation: Exclude<BatchTagOperation, { type: 'moveFeaturing' }>
+): string | null {
+  switch (operation.type) {
+    case 'set':
+      return operation.value;
+    case 'replace': {
+      if (!value || !operation.find) return value;
+      const pattern = new RegExp(escapeRegExp(operation.find), operation.matchCase ? 'g' : 'gi');
+      return value.replace(pattern, () => operation.replace);
+    }
+    case 'titleCase':
+      return value && toTitleCase(value);
+    case 'stripUrls':
+      return value && stripUrlJunk(value);
+  }
+}
+
+export class BatchTagEditorService {
+  /**
+   * Fetch the selected tracks' current tags
+   */
+  static async fetchTracks(trackIds: string[]): Promise<BatchTrack[]> {
+    const { data, error } = await supabase
+      .from('local_mp3s')
+      .select(BATCH_TRACK_COLUMNS)
+      .in('id', trackIds);
+
+    if (error) {
+      console.error('Error fetching tracks for batch edit:', error);
+      throw error;
+    }
+
+    return data ?? [];
+  }
+
+  /**
+   * The tags of a track after applying the operation
+   */
+  static applyOperation(tags: AudioTags, operation: BatchTagOperation): AudioTags {
+    if (operation.type === 'moveFeaturing') {
+      return moveFeaturing(tags);
+    }
+    const field: BatchTextField = operation.field;
+    return { ...tags, [field]: applyToField(tags[field], operation) };
+  }
+
+  /**
+   * Dry run: the changes the operation makes to each track. Tracks it
+   * leaves unchanged are left out.
+   */
+  static planBatch(tracks: BatchTrack[], operation: BatchTagOperation): BatchPlanEntry[] {
+    return tracks
+      .map(track => ({
+        track,
+        changes: TrackTagWriterService.diffTags(track, this.applyOperation(track, operation)),
+      }))
+      .filter(entry => entry.changes.length > 0);
+  }
+
+  /**
+   * Find each planned track's file in a library folder. Files sharing the
+   * track's filename are ranked by how much of its path they share, and a
+   * file is only used once it is shown to be the scanned one: by hash, or
+   * without a hash by size and full path. Tracks whose file is missing,
+   * ambiguous or different get an error instead of a handle.
+   */
+  static async locateFiles(
+    entries: BatchPlanEntry[],
+    directory: FileSystemDirectoryHandle
+  ): Promise<Map<string, LocatedFile>> {
+    const filesByName = new Map<string, FileWithHandle[]>();
+    for (const file of await getAllAudioFiles(directory)) {
+      const name = baseName(file.relativePath);
+      filesByName.set(name, [...(filesByName.get(name) ?? []), file]);
+    }
+
+    const located = new Map<string, LocatedFile>();
+    for (const { track } of entries) {
+      const trackPath = pathSegments(track.file_path);
+      const candidates = (filesByName.get(baseName(track.file_path)) ?? [])
+        .map(file => ({ file, shared: sharedSuffixLength(trackPath, pathSegments(file.relativePath)) }))
+        .sort((a, b) => b.shared - a.shared);
+
+      if (candidates.length === 0) {
+        located.set(track.id, { error: 'File not found in the selected folder' });
+        continue;
+      }
+
+      let match: FileWithHandle | undefined;
+      if (track.hash) {
+        for (const { file } of candidates) {
+          if (await TrackTagWriterService.isScannedFile(file.file, track.hash)) {
+            match = file;
+            break;
+          }
+        }
+      } else {
+        const best = candidates.filter(candidate => candidate.shared === candidates[0].shared);
+        if (
+          best.length === 1 &&
+          best[0].shared === trackPath.length &&
+          track.file_size !== null &&
+          best[0].file.file.size === track.file_size
+        ) {
+          match = best[0].file;
+        }
+      }
+
+      located.set(track.id, match
+        ? { handle: match.handle }
+        : {
+          error: candidates.length > 1
+            ? 'Several files with this name in the selected folder, none matching the library'
+            : 'File in the selected folder does not match the library',
+        });
+    }
+
+    return located;
+  }
+
+  /**
+   * Row columns to update along with the file: the changed tags and the
+   * normalized fields derived from title and artist
+   */
+  static rowUpdate(track: BatchTrack, changes: TagChange[]): TablesUpdate<'local_mp3s'> {
+    const row: TablesUpdate<'local_mp3s'> = Object.fromEntries(
+      changes.map(change => [change.field, change.to])
+    );
+
+    if (changes.some(change => change.field === 'title' || change.field === 'artist')) {
+      const normalized = new NormalizationService().processMetadata(
+        row.title !== undefined ? row.title : track.title,
+        row.artist !== undefined ? row.artist : track.artist
+      );
+      row.normalized_title = normalized.normalizedTitle || null;
+      row.normalized_artist = normalized.normalizedArtist || null;
+      row.core_title = normalized.coreTitle || null;
+      row.primary_artist = normalized.primaryArtist || null;
+      row.featured_artists = normalized.featuredArtists.length > 0 ? normalized.featuredArtists : null;
+    }
+
+    return row;
+  }
+
+  /**
+   * Write the planned changes file by file. A file that can't be found or
+   * written is reported in its result and the batch carries on.
+   */
+  static async writeBatch(
+    entries: BatchPlanEntry[],
+    located: Map<string, LocatedFile>,
+    onProgress?: (progress: ProcessingProgress) => void
+  ): Promise<BatchWriteResult[]> {
+    const results: BatchWriteResult[] = [];
+
+    console.log(`🏷️ Writing tags to ${entries.length} files...`);
+
+    for (const [index, { track, changes }] of entries.entries()) {
+      onProgress?.({ current: index + 1, total: entries.length, currentFile: track.file_path });
+
+      const file = located.get(track.id) ?? { error: 'File not found in the selected folder' };
+      if ('error' in file) {
+        results.push({ track, error: file.error });
+        continue;
+      }
+
+      try {
+        await TrackTagWriterService.writeBack(
+          track.id,
+          file.handle,
+          TrackTagWriterService.toUpdates(changes),
+          this.rowUpdate(track, changes)
+        );
+        results.push({ track, error: null });
+      } catch (error) {
+        console.error(`❌ Failed to write tags to ${track.file_path}:`, error);
+        results.push({ track, error: error instanceof Error ? error.message : 'Failed to write tags' });
+      }
+    }
+
+    const failed = results.filter(result => result.error).length;
+    console.log(`✅ Batch tag write done: ${results.length - failed} written, ${failed} failed`);
+
+    return results;
+  }
+}
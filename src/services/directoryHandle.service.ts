@@ -10,14 +10,21 @@
  * - Persist handle in IndexedDB for future sessions
  * - Verify permissions are still valid
  * - Recursively iterate files in the directory
+ * - Pick a single file for writing back edited tags
+ * - Pick a library folder for batch tag writes
+ * - Journal in-place tag writes so the last processing run can be reverted
  */
 
-import { isSupportedAudioFile } from './fileScanner';
+import type { TagJournalEntry } from '@/types/slskd';
+import { isSupportedAudioFile, SUPPORTED_AUDIO_EXTENSIONS } from './fileScanner';
 
 const DB_NAME = 'mako-sync-fs';
-const DB_VERSION = 1;
+const DB_VERSION = 2;
 const STORE_NAME = 'handles';
+const JOURNAL_STORE_NAME = 'tag-journal';
 const DOWNLOADS_KEY = 'slskd-downloads';
+// Run id of the latest processing run, kept next to the handles
+const TAG_JOURNAL_RUN_KEY = 'tag-journal-run';
 
 /**
  * Open the IndexedDB database
@@ -34,6 +41,9 @@ function openDB(): Promise<IDBDatabase> {
       if (!db.objectStoreNames.contains(STORE_NAME)) {
         db.createObjectStore(STORE_NAME);
       }
+      if (!db.objectStoreNames.contains(JOURNAL_STORE_NAME)) {
+        db.createObjectStore(JOURNAL_STORE_NAME);
+      }
     };
   });
 }
@@ -103,11 +113,138 @@ export async function clearStoredDirectoryHandle(): Promise<void> {
 }
 
 /**
- * Verify we have read/write permission for a directory handle
+ * Start the journal of a new processing run: the previous run's entries are
+ * dropped and `runId` is recorded as the latest run
+ */
+export async function beginTagJournalRun(runId: string): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([STORE_NAME, JOURNAL_STORE_NAME], 'readwrite');
+    tx.objectStore(JOURNAL_STORE_NAME).clear();
+    tx.objectStore(STORE_NAME).put(runId, TAG_JOURNAL_RUN_KEY);
+
+    tx.onerror = () => reject(tx.error);
+    tx.oncomplete = () => {
+      db.close();
+      resolve();
+    };
+  });
+}
+
+/**
+ * Get the run id of the latest processing run, or null if none was started
+ */
+export async function getTagJournalRun(): Promise<string | null> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, 'readonly');
+    const store = tx.objectStore(STORE_NAME);
+    const request = store.get(TAG_JOURNAL_RUN_KEY);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result ?? null);
+
+    tx.oncomplete = () => db.close();
+  });
+}
+
+/**
+ * Record a tag write in the journal. Rejects when the entry's run is not the
+ * latest one started with beginTagJournalRun, so a run that was superseded
+ * can't mix its entries into the journal.
+ */
+export async function addTagJournalEntry(entry: TagJournalEntry): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([STORE_NAME, JOURNAL_STORE_NAME], 'readwrite');
+    const runRequest = tx.objectStore(STORE_NAME).get(TAG_JOURNAL_RUN_KEY);
+
+    runRequest.onerror = () => reject(runRequest.error);
+    runRequest.onsuccess = () => {
+      if (runRequest.result !== entry.runId) {
+        reject(new Error('Tag journal run is not the latest processing run'));
+        return;
+      }
+      const request = tx.objectStore(JOURNAL_STORE_NAME).put(entry, `${entry.runId}/${entry.relativePath}`);
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve();
+    };
+
+    tx.oncomplete = () => db.close();
+  });
+}
+
+/**
+ * Get the journal entries of the last processing run
+ */
+export async function getTagJournal(): Promise<TagJournalEntry[]> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(JOURNAL_STORE_NAME, 'readonly');
+    const store = tx.objectStore(JOURNAL_STORE_NAME);
+    const request = store.getAll();
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+
+    tx.oncomplete = () => db.close();
+  });
+}
+
+/**
+ * Count the files the latest processing run journaled, without loading their
+ * backups
+ * Returns 0 if the journal can't be read
+ */
+export async function countTagJournal(): Promise<number> {
+  try {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction([STORE_NAME, JOURNAL_STORE_NAME], 'readonly');
+      const runRequest = tx.objectStore(STORE_NAME).get(TAG_JOURNAL_RUN_KEY);
+
+      runRequest.onerror = () => reject(runRequest.error);
+      runRequest.onsuccess = () => {
+        if (!runRequest.result) {
+          resolve(0);
+          return;
+        }
+        const runPrefix = `${runRequest.result}/`;
+        const request = tx.objectStore(JOURNAL_STORE_NAME).getAllKeys();
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => resolve(request.result.filter(key => String(key).startsWith(runPrefix)).length);
+      };
+
+      tx.oncomplete = () => db.close();
+    });
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Clear the tag journal
+ */
+export async function clearTagJournal(): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(JOURNAL_STORE_NAME, 'readwrite');
+    const store = tx.objectStore(JOURNAL_STORE_NAME);
+    const request = store.clear();
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve();
+
+    tx.oncomplete = () => db.close();
+  });
+}
+
+/**
+ * Verify we have read/write permission for a directory or file handle
  * Returns true if permission is granted, false otherwise
  */
 export async function verifyPermission(
-  handle: FileSystemDirectoryHandle,
+  handle: FileSystemHandle,
   mode: 'read' | 'readwrite' = 'readwrite'
 ): Promise<boolean> {
   // Check current permission state
@@ -156,6 +293,60 @@ export async function requestDirectoryAccess(): Promise<FileSystemDirectoryHandl
   }
 }
 
+/**
+ * Ask the user to pick a library folder with read/write access, e.g. to write
+ * batch tag edits back to its files. Not stored, so the downloads folder is
+ * kept.
+ * Returns null if the user cancels
+ */
+export async function requestLibraryDirectoryAccess(): Promise<FileSystemDirectoryHandle | null> {
+  if (!isFileSystemAccessSupported()) {
+    throw new Error('File System Access API is not supported in this browser');
+  }
+
+  try {
+    return await window.showDirectoryPicker!({
+      id: 'library',
+      mode: 'readwrite',
+      startIn: 'music',
+    });
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      return null; // User cancelled
+    }
+    throw error;
+  }
+}
+
+/**
+ * Ask the user to pick one audio file with read/write access, e.g. to write
+ * edited tags back to a library track
+ * Returns null if the user cancels or permission is denied
+ */
+export async function requestAudioFileAccess(): Promise<FileSystemFileHandle | null> {
+  if (!window.showOpenFilePicker) {
+    throw new Error('File System Access API is not supported in this browser');
+  }
+
+  try {
+    const [handle] = await window.showOpenFilePicker({
+      id: 'library-track',
+      startIn: 'music',
+      types: [{
+        description: 'Audio files',
+        accept: { 'audio/*': SUPPORTED_AUDIO_EXTENSIONS },
+      }],
+    });
+
+    return (await verifyPermission(handle)) ? handle : null;
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      return null; // User cancelled
+    }
+    throw error;
+  }
+}
+
 /**
  * Get the downloads directory handle, either from storage or by requesting
  * Returns null if no handle is available or permission denied
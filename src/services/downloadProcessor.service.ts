@@ -4,15 +4,16 @@
  * Processes downloaded MP3 files from slskd:
  * - Extracts metadata (artist, title, album, genre) using music-metadata-browser
  * - Maps ID3 genre tags to SuperGenre using the effective genre map
- * - Writes SuperGenre to Grouping (TIT1) ID3 tag using browser-id3-writer
+ * - Writes SuperGenre to the user's tag target (superGenreTagTarget.ts) with the
+ *   ID3, Vorbis Comment or MP4 atom writer
  * - Uses File System Access API to write tags back to original files in place
  *
- * Grouping (TIT1) is a standard ID3 field supported by all major DJ software
- * (Serato, Rekordbox, Traktor) and media players (MediaMonkey, iTunes).
+ * The default target, Grouping (TIT1), is a standard ID3 field supported by all
+ * major DJ software (Serato, Rekordbox, Traktor) and media players (MediaMonkey,
+ * iTunes).
  */
 
-import { parseBlob } from 'music-metadata-browser';
-import { ID3Writer } from 'browser-id3-writer';
+import { parseBlob, type IAudioMetadata } from 'music-metadata-browser';
 import { Buffer } from 'buffer';
 import { withTimeout } from '@/utils/promiseUtils';
 import type {
@@ -21,9 +22,19 @@ import type {
   ProcessingProgress,
   ProcessedFileStatus,
 } from '@/types/slskd';
-import type { FileWithHandle } from './directoryHandle.service';
+import type { SuperGenreTagTarget } from '@/types/audioTags';
+import { beginTagJournalRun, type FileWithHandle } from './directoryHandle.service';
 import { isSupportedAudioFile, stripAudioExtension } from './fileScanner';
-import { writeFlacGroupingTag } from './flacTagWriter';
+import { writeFlacTags } from './flacTagWriter';
+import { writeId3Tags } from './id3TagWriter';
+import { writeMp4Tags } from './mp4TagWriter';
+import {
+  DEFAULT_SUPER_GENRE_TAG_TARGET,
+  GENRE_PREPEND_SEPARATOR,
+  readSuperGenreTag,
+  superGenreTagUpdates,
+} from './superGenreTagTarget';
+import { recordTagWrite } from './tagJournal.service';
 
 // Make Buffer available globally for music-metadata-browser
 if (typeof window !== 'undefined') {
@@ -37,11 +48,14 @@ const PARSE_TIMEOUT_MS = 30000;
 const DEFAULT_BATCH_SIZE = 5;
 
 /**
- * Read the existing Grouping tag from a file
+ * Read the existing SuperGenre tag from a file (Grouping unless another target is given)
  * Used to check if we need to write or can skip
- * Uses metadata.common.grouping which works across MP3, FLAC, and M4A
+ * Works across MP3, FLAC, and M4A
  */
-async function getExistingGroupingTag(file: File): Promise<string | null> {
+async function getExistingGroupingTag(
+  file: File,
+  target: SuperGenreTagTarget = DEFAULT_SUPER_GENRE_TAG_TARGET
+): Promise<string | null> {
   try {
     const metadata = await withTimeout(
       parseBlob(file, {
@@ -52,7 +66,7 @@ async function getExistingGroupingTag(file: File): Promise<string | null> {
       `Metadata parsing timed out for ${file.name}`
     );
 
-    return metadata.common.grouping ?? null;
+    return readSuperGenreTag(metadata, target);
   } catch {
     // If we can't read metadata, assume we need to write
     return null;
@@ -455,140 +469,76 @@ export function reprocessWithUpdatedMap(
 }
 
 /**
- * Write SuperGenre to Grouping (TIT1) ID3 tag for MP3 files while preserving existing tags
- *
- * Grouping (TIT1) is a standard ID3 field supported by all major DJ software
- * (Serato, Rekordbox, Traktor) and media players (MediaMonkey, iTunes).
+ * Write SuperGenre to an MP3 file's ID3 tag while preserving existing tags
  *
  * ID3Writer replaces all tags by default, so we need to:
  * 1. Read existing metadata
  * 2. Re-write all important tags
- * 3. Add SuperGenre to Grouping field
+ * 3. Add SuperGenre to the target field (Grouping/TIT1 by default)
  *
  * @param file - The original MP3 file
  * @param superGenre - The SuperGenre to write
+ * @param target - Where the SuperGenre goes
  * @returns A new Blob with the updated ID3 tag
  */
-async function writeMp3SuperGenreTag(file: File, superGenre: string): Promise<Blob> {
+async function writeMp3SuperGenreTag(
+  file: File,
+  superGenre: string,
+  target: SuperGenreTagTarget = DEFAULT_SUPER_GENRE_TAG_TARGET
+): Promise<Blob> {
   // First, read existing metadata so we can preserve it
   const metadata = await parseBlob(file, {
     includeChapters: false,
     skipCovers: false, // We want to preserve cover art
   });
 
-  return writeSuperGenreTagFromMetadata(file, superGenre, metadata);
+  return writeSuperGenreTagFromMetadata(file, superGenre, metadata, target);
 }
 
 /**
  * Format-dispatching entry point for writing SuperGenre to any supported audio format.
- * Routes MP3 to the ID3 writer and FLAC to the Vorbis Comment writer.
+ * Routes MP3 to the ID3 writer, FLAC to the Vorbis Comment writer and M4A to the MP4 atom writer.
  */
-async function writeSuperGenreTag(file: File, superGenre: string): Promise<Blob> {
+async function writeSuperGenreTag(
+  file: File,
+  superGenre: string,
+  target: SuperGenreTagTarget = DEFAULT_SUPER_GENRE_TAG_TARGET
+): Promise<Blob> {
   const ext = file.name.toLowerCase().split('.').pop();
-  if (ext === 'flac') {
-    const buffer = await file.arrayBuffer();
-    return writeFlacGroupingTag(buffer, superGenre);
+  if (ext === 'flac' || ext === 'm4a') {
+    // Parsed for the current genre, which the genre prepend mode keeps
+    const metadata = await parseBlob(file, {
+      includeChapters: false,
+      skipCovers: true,
+    });
+    return writeSuperGenreTagFromMetadata(file, superGenre, metadata, target);
   }
-  return writeMp3SuperGenreTag(file, superGenre);
+  return writeMp3SuperGenreTag(file, superGenre, target);
 }
 
 /**
  * Write SuperGenre tag using pre-parsed metadata (avoids re-parsing the file)
  */
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-async function writeSuperGenreTagFromMetadata(file: File, superGenre: string, metadata: any): Promise<Blob> {
-  const arrayBuffer = await file.arrayBuffer();
-  const writer = new ID3Writer(arrayBuffer);
-
-  // Preserve common tags
-  const common = metadata.common;
-
-  if (common.title) {
-    writer.setFrame('TIT2', common.title);
-  }
-  if (common.artist) {
-    writer.setFrame('TPE1', [common.artist]);
-  }
-  if (common.album) {
-    writer.setFrame('TALB', common.album);
-  }
-  if (common.year) {
-    writer.setFrame('TYER', common.year);
-  }
-  if (common.track?.no) {
-    writer.setFrame('TRCK', common.track.of
-      ? `${common.track.no}/${common.track.of}`
-      : String(common.track.no));
-  }
-  if (common.genre && common.genre.length > 0) {
-    writer.setFrame('TCON', common.genre);
-  }
-  if (common.albumartist) {
-    writer.setFrame('TPE2', common.albumartist);
-  }
-  if (common.composer && common.composer.length > 0) {
-    writer.setFrame('TCOM', common.composer);
-  }
-  // Preserve existing TXXX and COMM frames from native tags
-  const id3v23 = metadata.native['ID3v2.3'] || [];
-  const id3v24 = metadata.native['ID3v2.4'] || [];
-  const id3v2Native = [...id3v23, ...id3v24];
-
-  let hasDefaultComment = false;
-  for (const tag of id3v2Native) {
-    // Preserve TXXX frames
-    if (tag.id === 'TXXX' && tag.value) {
-      const txxx = tag.value as { description?: string; text?: string };
-      const desc = txxx.description || '';
-      if (txxx.text) {
-        writer.setFrame('TXXX', {
-          description: desc,
-          value: txxx.text,
-        });
-      }
-    }
-    // Preserve all COMM frames
-    if (tag.id === 'COMM' && tag.value) {
-      const comm = tag.value as { description?: string; text?: string; language?: string };
-      const desc = comm.description || '';
-      if (comm.text) {
-        writer.setFrame('COMM', {
-          description: desc,
-          text: comm.text,
-          language: comm.language || 'eng',
-        });
-        if (desc === '') hasDefaultComment = true;
-      }
-    }
-  }
-
-  // If no native COMM frame with empty description was found, use common.comment as fallback
-  if (!hasDefaultComment && common.comment && common.comment.length > 0) {
-    writer.setFrame('COMM', {
-      description: '',
-      text: common.comment[0],
-      language: 'eng',
-    });
-  }
-
-  // Preserve cover art if present
-  if (common.picture && common.picture.length > 0) {
-    const pic = common.picture[0];
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    (writer as any).setFrame('APIC', {
-      type: pic.type === 'Cover (front)' ? 3 : 0,
-      data: pic.data,
-      description: pic.description || '',
-      useUnicodeEncoding: false,
-    });
-  }
-
-  // Write SuperGenre to Grouping field (TIT1)
-  // Standard ID3 field supported by Serato, Rekordbox, Traktor, MediaMonkey, iTunes
-  writer.setFrame('TIT1', superGenre);
+async function writeSuperGenreTagFromMetadata(
+  file: File,
+  superGenre: string,
+  metadata: IAudioMetadata,
+  target: SuperGenreTagTarget,
+  original?: ArrayBuffer
+): Promise<Blob> {
+  const buffer = original ?? await file.arrayBuffer();
+  const ext = file.name.toLowerCase().split('.').pop();
+  const format = ext === 'flac' || ext === 'm4a' ? ext : 'mp3';
+  const updates = superGenreTagUpdates(
+    target,
+    superGenre,
+    format,
+    metadata.common.genre?.join(GENRE_PREPEND_SEPARATOR)
+  );
 
-  writer.addTag();
-  return writer.getBlob();
+  if (format === 'flac') return writeFlacTags(buffer, updates);
+  if (format === 'm4a') return writeMp4Tags(buffer, updates);
+  return writeId3Tags(buffer, metadata, updates);
 }
 
 // Batch size for parallel tag writing
@@ -596,12 +546,18 @@ const TAG_WRITE_BATCH_SIZE = 5;
 
 /**
  * Process a single file for tag writing: parse once, check if skip needed, write if not.
+ * The write is journaled first so the run can be reverted.
  * Returns 'skipped' | 'written' | error string.
+ *
+ * @param startJournalRun - Starts the run's journal; called before the first write
  */
 async function writeTagForSingleFile(
-  file: ProcessedFile
+  file: ProcessedFile,
+  runId: string,
+  startJournalRun: () => Promise<void>,
+  target: SuperGenreTagTarget
 ): Promise<'skipped' | 'written'> {
-  // Single parse: read metadata (with covers for preservation) and check existing TIT1
+  // Single parse: read metadata (with covers for preservation) and check the existing tag
   const metadata = await withTimeout(
     parseBlob(file.file, {
       includeChapters: false,
@@ -611,17 +567,25 @@ async function writeTagForSingleFile(
     `Metadata parsing timed out for ${file.filename}`
   );
 
-  // Check existing grouping tag using metadata.common.grouping (works across MP3, FLAC, M4A)
-  if (metadata.common.grouping === file.superGenre) {
+  // Check the existing tag in the target (works across MP3, FLAC, M4A)
+  if (readSuperGenreTag(metadata, target) === file.superGenre) {
     return 'skipped';
   }
 
-  // Write tag — FLAC uses the Vorbis Comment writer; MP3 uses the ID3 path
-  const ext = file.file.name.toLowerCase().split('.').pop();
-  const taggedBlob =
-    ext === 'flac'
-      ? writeFlacGroupingTag(await file.file.arrayBuffer(), file.superGenre!)
-      : await writeSuperGenreTagFromMetadata(file.file, file.superGenre!, metadata);
+  // Write tag — FLAC uses the Vorbis Comment writer, M4A the MP4 atom writer;
+  // MP3 uses the ID3 path
+  const original = await file.file.arrayBuffer();
+  const taggedBlob = await writeSuperGenreTagFromMetadata(
+    file.file,
+    file.superGenre!,
+    metadata,
+    target,
+    original
+  );
+
+  // Keep the original tag bytes before overwriting; no journal entry, no write
+  await startJournalRun();
+  await recordTagWrite(runId, file, original, taggedBlob);
 
   // Write back to original file using the handle
   const writable = await file.fileHandle!.createWritable();
@@ -637,34 +601,34 @@ async function writeTagForSingleFile(
  * Optimized with:
  * - Single parse per file (check existing tag + read metadata in one pass)
  * - Parallel batching (processes TAG_WRITE_BATCH_SIZE files concurrently)
- * - Skip files where existing Grouping tag already matches target
+ * - Skip files where the existing tag in the target already matches
+ * - Journal each write so the run can be reverted (see tagJournal.service)
  *
  * @param files - Array of processed files to write tags to (must have fileHandle)
  * @param onProgress - Optional callback for progress updates
+ * @param target - Where the SuperGenre is written (Grouping by default)
  * @returns Object with success count, skipped count, and any errors
  */
 export async function writeTagsInPlace(
   files: ProcessedFile[],
-  onProgress?: (progress: { current: number; total: number; filename: string; skipped?: boolean }) => void
+  onProgress?: (progress: { current: number; total: number; filename: string; skipped?: boolean }) => void,
+  target: SuperGenreTagTarget = DEFAULT_SUPER_GENRE_TAG_TARGET
 ): Promise<{ success: number; skipped: number; errors: Array<{ filename: string; error: string }> }> {
-  const allMapped = files.filter(
+  const mappedFiles = files.filter(
     (f) => f.status === 'mapped' && f.superGenre && f.fileHandle
   );
   const errors: Array<{ filename: string; error: string }> = [];
 
-  // M4A uses MP4 iTunes atoms, not ID3 — browser-side writing is not supported
-  const mappedFiles = allMapped.filter(f => {
-    if (f.filename.toLowerCase().endsWith('.m4a')) {
-      errors.push({ filename: f.filename, error: 'M4A tag writing not supported in the browser — use a desktop tool (e.g. Mp3tag, MusicBrainz Picard)' });
-      return false;
-    }
-    return true;
-  });
-
   let success = 0;
   let skipped = 0;
+  const runId = new Date().toISOString();
+
+  // The journal run starts with the first file actually written, so a run
+  // that writes nothing keeps the previous run revertable
+  let journalRun: Promise<void> | null = null;
+  const startJournalRun = () => (journalRun ??= beginTagJournalRun(runId));
 
-  console.log(`📝 Processing ${mappedFiles.length} mapped files for tag writing (${errors.length} M4A skipped)...`);
+  console.log(`📝 Processing ${mappedFiles.length} mapped files for tag writing...`);
 
   // Process in parallel batches
   for (let i = 0; i < mappedFiles.length; i += TAG_WRITE_BATCH_SIZE) {
@@ -673,7 +637,7 @@ export async function writeTagsInPlace(
     const batchResults = await Promise.all(
       batch.map(async (file, index) => {
         try {
-          const result = await writeTagForSingleFile(file);
+          const result = await writeTagForSingleFile(file, runId, startJournalRun, target);
 
           if (onProgress) {
             onProgress({
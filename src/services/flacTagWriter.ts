@@ -1,19 +1,35 @@
 /**
  * FLAC Vorbis Comment Tag Writer
  *
- * Writes a GROUPING Vorbis Comment tag to a FLAC file in the browser without
- * any native dependencies. Follows the FLAC format spec and Vorbis Comment spec
+ * Writes Vorbis Comment tags (the SuperGenre, GROUPING by default, and the
+ * fields the track tag editor changes) to a FLAC file in the browser without any native
+ * dependencies. Follows the FLAC format spec and Vorbis Comment spec
  * (key=value pairs, UTF-8, little-endian lengths).
  *
- * Mirrors the write-back pattern of the MP3 path in downloadProcessor.service.ts:
+ * Mirrors the write-back pattern of the MP3 path in id3TagWriter.ts:
  * accepts an ArrayBuffer, returns a new Blob with updated tags.
  */
 
+import type { AudioTagField, AudioTagUpdates } from '@/types/audioTags';
+
 const FLAC_MARKER = 'fLaC';
 const BLOCK_TYPE_STREAMINFO = 0;
 const BLOCK_TYPE_VORBIS_COMMENT = 4;
 const VENDOR_STRING = 'mako-sync';
 
+/** Vorbis field written for each tag, followed by aliases it replaces */
+const VORBIS_FIELDS: Record<AudioTagField, string[]> = {
+  title: ['TITLE'],
+  artist: ['ARTIST'],
+  album: ['ALBUM'],
+  year: ['DATE'],
+  genre: ['GENRE'],
+  bpm: ['BPM'],
+  key: ['INITIALKEY', 'KEY'],
+  comment: ['COMMENT'],
+  grouping: ['GROUPING'],
+};
+
 interface FlacMetadataBlock {
   type: number;
   data: Uint8Array;
@@ -63,15 +79,17 @@ function parseFlacBlocks(buffer: ArrayBuffer): {
 }
 
 /**
- * Build a Vorbis Comment block with GROUPING set to the given value.
- * Existing comments are preserved; any existing GROUPING entry is replaced.
+ * Build a Vorbis Comment block with the given fields set. Existing comments are
+ * preserved; any existing entry for a field is replaced (field names are
+ * case-insensitive) and a null value only removes it.
  */
-function buildVorbisCommentBlock(
+function buildVorbisComments(
   existingData: Uint8Array | null,
-  groupingValue: string
+  fields: Record<string, string | null>
 ): Uint8Array {
   const decoder = new TextDecoder();
   const encoder = new TextEncoder();
+  const names = Object.keys(fields).map((name) => name.toUpperCase());
 
   let vendorString = VENDOR_STRING;
   const comments: string[] = [];
@@ -100,15 +118,18 @@ function buildVorbisCommentBlock(
       const comment = decoder.decode(existingData.slice(pos, pos + commentLength));
       pos += commentLength;
 
-      // Skip existing GROUPING entries — we'll write the new value below
-      if (!comment.toUpperCase().startsWith('GROUPING=')) {
+      // Skip existing entries for the fields being set — we'll write the new values below
+      const name = comment.split('=')[0].toUpperCase();
+      if (!names.includes(name)) {
         comments.push(comment);
       }
     }
   }
 
-  // Append new GROUPING entry
-  comments.push(`GROUPING=${groupingValue}`);
+  // Append the new entries
+  for (const [name, value] of Object.entries(fields)) {
+    if (value !== null) comments.push(`${name}=${value}`);
+  }
 
   const vendorBytes = encoder.encode(vendorString);
   const commentByteArrays = comments.map((c) => encoder.encode(c));
@@ -143,6 +164,17 @@ function buildVorbisCommentBlock(
   return block;
 }
 
+/**
+ * Build a Vorbis Comment block with GROUPING set to the given value.
+ * Existing comments are preserved; any existing GROUPING entry is replaced.
+ */
+function buildVorbisCommentBlock(
+  existingData: Uint8Array | null,
+  groupingValue: string
+): Uint8Array {
+  return buildVorbisComments(existingData, { GROUPING: groupingValue });
+}
+
 /**
  * Reassemble a FLAC file from metadata blocks and audio data.
  * Sets the last-metadata-block flag on the final block.
@@ -186,17 +218,13 @@ function reassembleFlac(
 }
 
 /**
- * Write a GROUPING Vorbis Comment tag to a FLAC file.
+ * Write Vorbis Comment fields to a FLAC file.
  *
  * If a VORBIS_COMMENT block already exists, it is updated in place.
  * If none exists, a new one is inserted after STREAMINFO.
  * All other metadata blocks and audio frames are preserved unchanged.
- *
- * @param buffer - ArrayBuffer of the original FLAC file
- * @param superGenre - The SuperGenre value to write to GROUPING
- * @returns A new Blob containing the updated FLAC data
  */
-export function writeFlacGroupingTag(buffer: ArrayBuffer, superGenre: string): Blob {
+function writeVorbisComments(buffer: ArrayBuffer, fields: Record<string, string | null>): Blob {
   const { blocks, audioDataOffset } = parseFlacBlocks(buffer);
   const audioData = new Uint8Array(buffer, audioDataOffset);
 
@@ -206,13 +234,13 @@ export function writeFlacGroupingTag(buffer: ArrayBuffer, superGenre: string): B
     // Update existing VORBIS_COMMENT block
     blocks[vcIndex] = {
       type: BLOCK_TYPE_VORBIS_COMMENT,
-      data: buildVorbisCommentBlock(blocks[vcIndex].data, superGenre),
+      data: buildVorbisComments(blocks[vcIndex].data, fields),
     };
   } else {
     // Insert new VORBIS_COMMENT block after STREAMINFO
     const newBlock: FlacMetadataBlock = {
       type: BLOCK_TYPE_VORBIS_COMMENT,
-      data: buildVorbisCommentBlock(null, superGenre),
+      data: buildVorbisComments(null, fields),
     };
     const siIndex = blocks.findIndex((b) => b.type === BLOCK_TYPE_STREAMINFO);
     blocks.splice(siIndex !== -1 ? siIndex + 1 : 0, 0, newBlock);
@@ -221,9 +249,49 @@ export function writeFlacGroupingTag(buffer: ArrayBuffer, superGenre: string): B
   return new Blob([reassembleFlac(blocks, audioData)], { type: 'audio/flac' });
 }
 
+/**
+ * Write a GROUPING Vorbis Comment tag to a FLAC file.
+ *
+ * @param buffer - ArrayBuffer of the original FLAC file
+ * @param superGenre - The SuperGenre value to write to GROUPING
+ * @returns A new Blob containing the updated FLAC data
+ */
+export function writeFlacGroupingTag(buffer: ArrayBuffer, superGenre: string): Blob {
+  return writeVorbisComments(buffer, { GROUPING: superGenre });
+}
+
+/**
+ * Write tags to a FLAC file. Only the tags given are changed; the year is
+ * written to DATE and the key to INITIALKEY (replacing any KEY entry), as
+ * DJ software reads them. User-defined text fields are written as fields of
+ * their own, named in upper case.
+ *
+ * @param buffer - ArrayBuffer of the original FLAC file
+ * @param tags - Tags to write
+ * @returns A new Blob containing the updated FLAC data
+ */
+export function writeFlacTags(buffer: ArrayBuffer, tags: AudioTagUpdates): Blob {
+  const fields: Record<string, string | null> = {};
+
+  for (const field of Object.keys(VORBIS_FIELDS) as AudioTagField[]) {
+    const value = tags[field];
+    if (value === undefined) continue;
+
+    const [name, ...aliases] = VORBIS_FIELDS[field];
+    for (const alias of aliases) fields[alias] = null;
+    fields[name] = value === null ? null : String(value);
+  }
+  for (const [name, value] of Object.entries(tags.userText ?? {})) {
+    fields[name.toUpperCase()] = value;
+  }
+
+  return writeVorbisComments(buffer, fields);
+}
+
 // Export internals for testing
 export const _testExports = {
   parseFlacBlocks,
   buildVorbisCommentBlock,
+  buildVorbisComments,
   reassembleFlac,
 };
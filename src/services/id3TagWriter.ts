@@ -0,0 +1,311 @@
+/**
+ * MP3 ID3v2 Tag Writer
+ *
+ * Writes ID3v2 tags to an MP3 file with browser-id3-writer: the SuperGenre
+ * (Grouping/TIT1 by default), the fields the track tag editor changes, and
+ * user-defined TXXX and described COMM frames.
+ *
+ * ID3Writer replaces all tags by default, so we need to:
+ * 1. Read existing metadata (parsed by the caller with music-metadata-browser)
+ * 2. Re-write the tags the updates can change
+ * 3. Apply the updates on top
+ * 4. Copy every other frame of the original tag over as raw bytes, as
+ *    ID3Writer can only write some frame types
+ *
+ * Grouping (TIT1) is a standard ID3 field supported by all major DJ software
+ * (Serato, Rekordbox, Traktor) and media players (MediaMonkey, iTunes).
+ */
+
+import { ID3Writer } from 'browser-id3-writer';
+import type { IAudioMetadata } from 'music-metadata-browser';
+import type { AudioTagField, AudioTagUpdates } from '@/types/audioTags';
+
+const lowerKeys = (values: Record<string, unknown> | undefined) =>
+  new Set(Object.keys(values ?? {}).map((key) => key.toLowerCase()));
+
+/**
+ * Frames writeId3Tags writes itself (TDRC is the ID3v2.4 year); every other
+ * frame is copied over from the original tag
+ */
+const WRITTEN_FRAMES = new Set([
+  'TIT2', 'TPE1', 'TALB', 'TYER', 'TDRC', 'TRCK', 'TCON', 'TPE2', 'TCOM', 'TBPM', 'TKEY', 'TIT1', 'TXXX', 'COMM',
+]);
+
+interface Id3Frame {
+  id: string;
+  data: Uint8Array;
+}
+
+const synchsafe = (bytes: Uint8Array, offset: number) =>
+  (bytes[offset] << 21) | (bytes[offset + 1] << 14) | (bytes[offset + 2] << 7) | bytes[offset + 3];
+
+const uint32 = (bytes: Uint8Array, offset: number) =>
+  new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(offset);
+
+function concat(parts: ArrayLike<number>[]): Uint8Array {
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+}
+
+/** UTF-16 with a byte order mark, ID3v2.3 text encoding 1 */
+function utf16(value: string): Uint8Array {
+  const output = new Uint8Array(2 + value.length * 2);
+  output.set([0xff, 0xfe]);
+  for (let i = 0; i < value.length; i++) {
+    output[2 + i * 2] = value.charCodeAt(i) & 0xff;
+    output[3 + i * 2] = value.charCodeAt(i) >> 8;
+  }
+  return output;
+}
+
+/**
+ * Re-encode an ID3v2.4 text, lyrics or user URL frame in UTF-8 or UTF-16BE,
+ * which ID3v2.3 doesn't have, as UTF-16. Other frames are kept as they are.
+ */
+function toId3v23Frame(id: string, data: Uint8Array): Uint8Array {
+  const encoding = data[0];
+  if ((encoding !== 2 && encoding !== 3) || !(id.startsWith('T') || id === 'USLT' || id === 'WXXX')) {
+    return data;
+  }
+
+  // Lyrics have a language between the encoding and the text
+  const language = id === 'USLT' ? data.subarray(1, 4) : new Uint8Array(0);
+  const text = new TextDecoder(encoding === 2 ? 'utf-16be' : 'utf-8').decode(data.subarray(1 + language.length));
+  const separator = text.indexOf('\0');
+  const description = text.slice(0, separator);
+  const rest = text.slice(separator + 1);
+
+  if (id === 'WXXX') {
+    return concat([[1], utf16(description), [0, 0], new TextEncoder().encode(rest)]);
+  }
+  if (id === 'USLT') {
+    return concat([[1], language, utf16(description), [0, 0], utf16(rest)]);
+  }
+  // ID3v2.4 separates several values with null characters, ID3v2.3 with "/"
+  return concat([[1], utf16(text.replace(/\0+$/, '').replace(/\0/g, '/'))]);
+}
+
+/**
+ * The frames of the ID3v2.3 or ID3v2.4 tag at the start of a file, as raw
+ * ID3v2.3 frame data. Null when there is no tag that can be read frame by
+ * frame (none, ID3v2.2, or unsynchronised as a whole). Compressed, encrypted
+ * and otherwise transformed frames are left out.
+ */
+function readId3v2Frames(bytes: Uint8Array): Id3Frame[] | null {
+  if (bytes.length < 10 || String.fromCharCode(...bytes.subarray(0, 3)) !== 'ID3') return null;
+
+  const version = bytes[3];
+  const flags = bytes[5];
+  if ((version !== 3 && version !== 4) || flags & 0x80) return null;
+
+  const end = Math.min(10 + synchsafe(bytes, 6), bytes.length);
+  let pos = 10;
+  if (flags & 0x40) {
+    // The ID3v2.3 extended header size leaves out its own four bytes
+    pos += version === 3 ? 4 + uint32(bytes, pos) : synchsafe(bytes, pos);
+  }
+
+  const frames: Id3Frame[] = [];
+  while (pos + 10 <= end && bytes[pos] !== 0) {
+    const id = String.fromCharCode(...bytes.subarray(pos, pos + 4));
+    const size = version === 4 ? synchsafe(bytes, pos + 4) : uint32(bytes, pos + 4);
+    const formatFlags = bytes[pos + 9] & (version === 4 ? 0x4f : 0xe0);
+    if (!/^[A-Z0-9]{4}$/.test(id) || pos + 10 + size > end) break;
+
+    if (!formatFlags) {
+      const data = bytes.subarray(pos + 10, pos + 10 + size);
+      frames.push({ id, data: version === 4 ? toId3v23Frame(id, data) : data });
+    }
+    pos += 10 + size;
+  }
+  return frames;
+}
+
+/**
+ * Add frames to a file tagged by ID3Writer, after its frames and before its
+ * padding
+ */
+function appendFrames(output: Uint8Array, frames: Id3Frame[]): Uint8Array {
+  if (frames.length === 0) return output;
+
+  const tagEnd = 10 + synchsafe(output, 6);
+  let framesEnd = 10;
+  while (framesEnd + 10 <= tagEnd && output[framesEnd] !== 0) {
+    framesEnd += 10 + uint32(output, framesEnd + 4);
+  }
+
+  const added = frames.map((frame) => {
+    const header = new Uint8Array(10);
+    header.set([...frame.id].map((c) => c.charCodeAt(0)));
+    new DataView(header.buffer).setUint32(4, frame.data.length);
+    return concat([header, frame.data]);
+  });
+  const result = concat([output.subarray(0, framesEnd), ...added, output.subarray(framesEnd)]);
+
+  const size = result.length - output.length + tagEnd - 10;
+  result.set([(size >>> 21) & 0x7f, (size >>> 14) & 0x7f, (size >>> 7) & 0x7f, size & 0x7f], 6);
+  return result;
+}
+
+/**
+ * Write ID3v2 tags to an MP3 file, preserving the existing tags.
+ *
+ * Only the tags given are changed: undefined keeps the value in `metadata`,
+ * null drops the frame. Track number, album artist, composer, TXXX frames and
+ * COMM frames are carried over unless an update replaces them; TXXX and COMM
+ * frames are matched by description, case-insensitively. All other frames
+ * (ISRC, disc number, publisher, lyrics, every picture...) are copied over
+ * from the original tag as they are.
+ *
+ * @param buffer - ArrayBuffer of the original MP3 file
+ * @param metadata - The file's parsed metadata (parsed with covers)
+ * @param tags - Tags to write
+ * @returns A new Blob with the updated ID3 tag
+ */
+export function writeId3Tags(
+  buffer: ArrayBuffer,
+  metadata: IAudioMetadata,
+  tags: AudioTagUpdates
+): Blob {
+  const carried = readId3v2Frames(new Uint8Array(buffer))?.filter((frame) => !WRITTEN_FRAMES.has(frame.id)) ?? null;
+  const writer = new ID3Writer(buffer);
+  const common = metadata.common;
+
+  // The update when there is one, otherwise the file's current value
+  const pick = (field: AudioTagField, current: string | number | undefined) =>
+    tags[field] !== undefined ? tags[field] : current;
+
+  const title = pick('title', common.title);
+  if (title) {
+    writer.setFrame('TIT2', String(title));
+  }
+  const artist = pick('artist', common.artist);
+  if (artist) {
+    writer.setFrame('TPE1', [String(artist)]);
+  }
+  const album = pick('album', common.album);
+  if (album) {
+    writer.setFrame('TALB', String(album));
+  }
+  const year = pick('year', common.year);
+  if (year) {
+    writer.setFrame('TYER', Number(year));
+  }
+  if (common.track?.no) {
+    writer.setFrame('TRCK', common.track.of
+      ? `${common.track.no}/${common.track.of}`
+      : String(common.track.no));
+  }
+  const genre = tags.genre !== undefined ? (tags.genre ? [tags.genre] : []) : common.genre;
+  if (genre && genre.length > 0) {
+    writer.setFrame('TCON', genre);
+  }
+  if (common.albumartist) {
+    writer.setFrame('TPE2', common.albumartist);
+  }
+  if (common.composer && common.composer.length > 0) {
+    writer.setFrame('TCOM', common.composer);
+  }
+  const bpm = pick('bpm', common.bpm);
+  if (bpm) {
+    writer.setFrame('TBPM', Math.round(Number(bpm)));
+  }
+  const key = pick('key', common.key);
+  if (key) {
+    writer.setFrame('TKEY', String(key));
+  }
+
+  // Preserve existing TXXX and COMM frames from native tags
+  const id3v23 = metadata.native['ID3v2.3'] || [];
+  const id3v24 = metadata.native['ID3v2.4'] || [];
+  const id3v2Native = [...id3v23, ...id3v24];
+
+  const userText = lowerKeys(tags.userText);
+  const id3Comments = lowerKeys(tags.id3Comments);
+
+  let hasDefaultComment = false;
+  for (const tag of id3v2Native) {
+    // Preserve TXXX frames, except the ones being updated. music-metadata
+    // reports them as "TXXX:<description>" with the text as the value.
+    if ((tag.id === 'TXXX' || tag.id.startsWith('TXXX:')) && tag.value) {
+      const txxx = typeof tag.value === 'string'
+        ? { description: tag.id.slice('TXXX:'.length), text: tag.value }
+        : tag.value as { description?: string; text?: string };
+      const desc = txxx.description || '';
+      if (userText.has(desc.toLowerCase())) continue;
+      if (txxx.text) {
+        writer.setFrame('TXXX', {
+          description: desc,
+          value: txxx.text,
+        });
+      }
+    }
+    // Preserve all COMM frames, except the ones being updated
+    if ((tag.id === 'COMM' || tag.id.startsWith('COMM:')) && tag.value) {
+      const comm = tag.value as { description?: string; text?: string; language?: string };
+      const desc = comm.description || '';
+      if (desc === '' && tags.comment !== undefined) continue;
+      if (id3Comments.has(desc.toLowerCase())) continue;
+      if (comm.text) {
+        writer.setFrame('COMM', {
+          description: desc,
+          text: comm.text,
+          language: comm.language || 'eng',
+        });
+        if (desc === '') hasDefaultComment = true;
+      }
+    }
+  }
+
+  if (tags.comment) {
+    writer.setFrame('COMM', {
+      description: '',
+      text: tags.comment,
+      language: 'eng',
+    });
+  } else if (tags.comment === undefined && !hasDefaultComment && common.comment && common.comment.length > 0) {
+    // If no native COMM frame with empty description was found, use common.comment as fallback
+    writer.setFrame('COMM', {
+      description: '',
+      text: common.comment[0],
+      language: 'eng',
+    });
+  }
+
+  for (const [description, value] of Object.entries(tags.userText ?? {})) {
+    if (value) {
+      writer.setFrame('TXXX', { description, value });
+    }
+  }
+  for (const [description, text] of Object.entries(tags.id3Comments ?? {})) {
+    if (text) {
+      writer.setFrame('COMM', { description, text, language: 'eng' });
+    }
+  }
+
+  // Preserve cover art if present, when the original frames can't be copied
+  if (!carried && common.picture && common.picture.length > 0) {
+    const pic = common.picture[0];
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (writer as any).setFrame('APIC', {
+      type: pic.type === 'Cover (front)' ? 3 : 0,
+      data: pic.data,
+      description: pic.description || '',
+      useUnicodeEncoding: false,
+    });
+  }
+
+  // Grouping (TIT1), where the SuperGenre goes by default
+  const grouping = pick('grouping', common.grouping);
+  if (grouping) {
+    writer.setFrame('TIT1', String(grouping));
+  }
+
+  const output = new Uint8Array(writer.addTag());
+  return new Blob([appendFrames(output, carried ?? [])], { type: 'audio/mpeg' });
+}
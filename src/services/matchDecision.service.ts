@@ -0,0 +1,220 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { MatchDecisions, MatchResult, MatchTier } from './trackMatchingEngine';
+
+/**
+ * track_matches.is_confirmed semantics:
+ *   null  – written by the engine on the last analysis run, not reviewed
+ *   true  – confirmed (or manually linked) by the user
+ *   false – rejected by the user; the local file is never matched to that Spotify track again
+ */
+export type MatchMethod = 'isrc' | 'exact' | 'core_title' | 'fuzzy' | 'artist_overlap' | 'manual';
+
+export interface MatchForReview {
+  id: string;
+  spotifyTrackId: string;
+  mp3Id: string;
+  method: MatchMethod;
+  confidence: number | null;
+  spotifyTitle: string;
+  spotifyArtist: string;
+  localTitle: string | null;
+  localArtist: string | null;
+  localFilePath: string;
+}
+
+const TIER_METHODS: Record<MatchTier, MatchMethod> = {
+  0: 'isrc',
+  1: 'exact',
+  2: 'core_title',
+  3: 'fuzzy',
+};
+
+// Keep .in() filters well under URL length limits
+const ID_CHUNK_SIZE = 200;
+const INSERT_CHUNK_SIZE = 500;
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+export class MatchDecisionService {
+  /**
+   * Load the user's confirmed and rejected matches. RLS scopes track_matches to
+   * rows whose Spotify track or local file belongs to the user.
+   */
+  static async getDecisions(): Promise<MatchDecisions> {
+    const { data, error } = await supabase
+      .from('track_matches')
+      .select('spotify_track_id, mp3_id, is_confirmed')
+      .not('is_confirmed', 'is', null)
+      .order('matched_at', { ascending: true })
+      .limit(50000);
+
+    if (error) {
+      console.error('Error fetching match decisions:', error);
+      throw error;
+    }
+
+    const decisions: MatchDecisions = { confirmed: new Map(), rejected: new Map() };
+    for (const row of data || []) {
+      if (row.is_confirmed) {
+        // Ordered oldest first, so the most recent confirmation wins
+        decisions.confirmed.set(row.spotify_track_id, row.mp3_id);
+      } else {
+        const rejected = decisions.rejected.get(row.spotify_track_id) ?? new Set<string>();
+        rejected.add(row.mp3_id);
+        decisions.rejected.set(row.spotify_track_id, rejected);
+      }
+    }
+    return decisions;
+  }
+
+  /**
+   * Replace the engine's unreviewed matches for the Spotify tracks in this run.
+   * User decisions are left untouched.
+   */
+  static async recordEngineMatches(results: MatchResult[]): Promise<number> {
+    const spotifyIds = results.map(r => r.spotifyTrack.id);
+
+    for (const ids of chunk(spotifyIds, ID_CHUNK_SIZE)) {
+      const { error } = await supabase
+        .from('track_matches')
+        .delete()
+        .in('spotify_track_id', ids)
+        .is('is_confirmed', null);
+
+      if (error) {
+        console.error('Error clearing previous engine matches:', error);
+        throw error;
+      }
+    }
+
+    const matchedAt = new Date().toISOString();
+    const rows = results
+      .filter(r => r.matched && r.tier !== null && r.matchedLocalTrack)
+      .map(r => ({
+        spotify_track_id: r.spotifyTrack.id,
+        mp3_id: r.matchedLocalTrack!.id,
+        match_method: r.overlappingArtists ? 'artist_overlap' : TIER_METHODS[r.tier!],
+        match_confidence: r.tier === 3 ? Math.round((r.similarity ?? 0) * 10) / 10 : 100,
+        is_confirmed: null,
+        matched_at: matchedAt,
+      }));
+
+    for (const batch of chunk(rows, INSERT_CHUNK_SIZE)) {
+      const { error } = await supabase.from('track_matches').insert(batch);
+
+      if (error) {
+        console.error('Error recording engine matches:', error);
+        throw error;
+      }
+    }
+
+    console.log(`💾 Recorded ${rows.length} engine matches`);
+    return rows.length;
+  }
+
+  /**
+   * Get unreviewed fuzzy and artist-overlap matches, lowest similarity first
+   */
+  static async getMatchesForReview(limit = 100): Promise<MatchForReview[]> {
+    const { data, error } = await supabase
+      .from('track_matches')
+      .select('id, spotify_track_id, mp3_id, match_method, match_confidence, spotify_liked(title, artist), local_mp3s(title, artist, file_path)')
+      .is('is_confirmed', null)
+      .in('match_method', ['fuzzy', 'artist_overlap'])
+      .order('match_confidence', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error fetching matches for review:', error);
+      throw error;
+    }
+
+    return (data || [])
+      .filter(row => row.spotify_liked && row.local_mp3s)
+      .map(row => ({
+        id: row.id,
+        spotifyTrackId: row.spotify_track_id,
+        mp3Id: row.mp3_id,
+        method: row.match_method as MatchMethod,
+        confidence: row.match_confidence,
+        spotifyTitle: row.spotify_liked!.title,
+        spotifyArtist: row.spotify_liked!.artist,
+        localTitle: row.local_mp3s!.title,
+        localArtist: row.local_mp3s!.artist,
+        localFilePath: row.local_mp3s!.file_path,
+      }));
+  }
+
+  /**
+   * Confirm that a local file is the Spotify track, either an engine match or a
+   * manual link. Any other confirmation for the same Spotify track is dropped, so
+   * there is only ever one confirmed file.
+   */
+  static async confirmMatch(spotifyTrackId: string, mp3Id: string): Promise<void> {
+    await this.clearOtherConfirmations(spotifyTrackId, mp3Id);
+    await this.saveDecision(spotifyTrackId, mp3Id, true);
+  }
+
+  /**
+   * Reject a local file as a match for the Spotify track
+   */
+  static async rejectMatch(spotifyTrackId: string, mp3Id: string): Promise<void> {
+    await this.saveDecision(spotifyTrackId, mp3Id, false);
+  }
+
+  // Update the existing row for the pair, keeping the engine's method and confidence,
+  // or insert a manual one when the engine never proposed this pair
+  private static async saveDecision(spotifyTrackId: string, mp3Id: string, isConfirmed: boolean): Promise<void> {
+    const matchedAt = new Date().toISOString();
+
+    const { data: updated, error: updateError } = await supabase
+      .from('track_matches')
+      .update({ is_confirmed: isConfirmed, matched_at: matchedAt })
+      .eq('spotify_track_id', spotifyTrackId)
+      .eq('mp3_id', mp3Id)
+      .select('id');
+
+    if (updateError) {
+      console.error('Error saving match decision:', updateError);
+      throw updateError;
+    }
+
+    if (updated && updated.length > 0) return;
+
+    const { error: insertError } = await supabase
+      .from('track_matches')
+      .insert({
+        spotify_track_id: spotifyTrackId,
+        mp3_id: mp3Id,
+        is_confirmed: isConfirmed,
+        match_method: 'manual',
+        match_confidence: isConfirmed ? 100 : null,
+        matched_at: matchedAt,
+      });
+
+    if (insertError) {
+      console.error('Error saving match decision:', insertError);
+      throw insertError;
+    }
+  }
+
+  private static async clearOtherConfirmations(spotifyTrackId: string, mp3Id: string): Promise<void> {
+    const { error } = await supabase
+      .from('track_matches')
+      .delete()
+      .eq('spotify_track_id', spotifyTrackId)
+      .eq('is_confirmed', true)
+      .neq('mp3_id', mp3Id);
+
+    if (error) {
+      console.error('Error clearing previous confirmation:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,252 @@
+/**
+ * Explain-match debugger
+ *
+ * Says why a single Spotify track did or didn't match: its normalized keys, the
+ * closest local tracks with their similarity scores, and the tier each would match
+ * at or the reason it was rejected. Pure and IO-free like trackMatchingEngine.
+ */
+
+import { NormalizationService } from './normalization.service';
+import {
+  artistNames,
+  buildLocalIndex,
+  calculateSimilarity,
+  compareDurations,
+  extractCoreTitle,
+  matchTrack,
+  normalize,
+  normalizeArtist,
+  normalizeMix,
+  DEFAULT_MATCHING_PROFILE,
+  DURATION_FUZZY_BONUS,
+  MATCHING_PROFILES,
+  type DurationAgreement,
+  type LocalIndex,
+  type LocalIndexEntry,
+  type LocalTrack,
+  type MatchOptions,
+  type MatchResult,
+  type MatchTier,
+  type MatchingProfileName,
+  type SpotifyTrack,
+} from './trackMatchingEngine';
+import type { EvalCase } from './__tests__/fixtures/eval-types';
+
+// ---- Types ----
+
+export interface CandidateExplanation {
+  localTrack: LocalTrack;
+  normalizedTitle: string;
+  coreTitle: string;
+  normalizedArtist: string;
+  /** Full normalized titles, as compared by tiers 1 and 3 */
+  titleSimilarity: number;
+  /** Core titles without mix info, as compared by tiers 2 and 3 */
+  coreTitleSimilarity: number;
+  artistSimilarity: number;
+  /** Credited artists both tracks share, other than the lead artist */
+  sharedArtists: string[];
+  sameIsrc: boolean;
+  durationDeltaSeconds: number | null;
+  durationAgreement: DurationAgreement;
+  /** Tier this track matches at when it is the only local track, null if it doesn't match */
+  tier: MatchTier | null;
+  /** The local track the engine actually matched */
+  chosen: boolean;
+  reason: string;
+}
+
+export interface MatchExplanation {
+  spotifyTrack: SpotifyTrack;
+  normalizedTitle: string;
+  coreTitle: string;
+  normalizedArtist: string;
+  /** Normalized mix, as compared in version-aware mode */
+  mix: string;
+  profile: MatchingProfileName;
+  /** The real engine result against the whole library */
+  result: MatchResult;
+  /** Closest local tracks, the matched one first */
+  candidates: CandidateExplanation[];
+}
+
+// ---- Constants ----
+
+export const EXPLAIN_CANDIDATE_LIMIT = 8;
+
+export const TIER_LABELS: Record<MatchTier, string> = {
+  0: 'ISRC',
+  1: 'exact',
+  2: 'core title',
+  3: 'fuzzy',
+};
+
+const normalizationService = new NormalizationService();
+
+// ---- Pure functions ----
+
+function formatDelta(seconds: number): string {
+  return `${seconds > 0 ? '+' : ''}${seconds}s`;
+}
+
+/**
+ * Why a candidate that doesn't match on its own was turned down, checked in the
+ * order the tiers would reject it.
+ */
+function rejectionReason(
+  entry: LocalIndexEntry,
+  solo: MatchResult,
+  candidate: Omit<CandidateExplanation, 'tier' | 'chosen' | 'reason'>,
+  spotifyArtist: string,
+  spotifyMix: string,
+  options: MatchOptions
+): string {
+  const profile = options.profile ?? MATCHING_PROFILES[DEFAULT_MATCHING_PROFILE];
+
+  if (solo.versionMismatch) {
+    if (solo.versionAgreement === 'different') {
+      return `Different mix ("${entry.mix || 'none'}" vs "${spotifyMix || 'none'}")`;
+    }
+    return `Different length (${formatDelta(candidate.durationDeltaSeconds ?? 0)}), likely another version`;
+  }
+
+  const threshold = candidate.durationAgreement === 'agree'
+    ? profile.fuzzyThreshold - DURATION_FUZZY_BONUS
+    : profile.fuzzyThreshold;
+
+  if (entry.artist !== spotifyArtist) {
+    if (candidate.sharedArtists.length === 0) {
+      return `Different artist ("${entry.artist}" vs "${spotifyArtist}", ${candidate.artistSimilarity.toFixed(0)}% similar)`;
+    }
+    if (options.minArtistOverlap === undefined && profile.artistStrictness === 'lead') {
+      return `Only shares ${candidate.sharedArtists.join(', ')}; the ${profile.name} profile needs the same lead artist`;
+    }
+    if (candidate.titleSimilarity < threshold) {
+      return `Shares ${candidate.sharedArtists.join(', ')}, but title similarity ${candidate.titleSimilarity.toFixed(0)}% is below the ${threshold}% threshold`;
+    }
+    return `Shares ${candidate.sharedArtists.join(', ')}, but not enough of the credited artists`;
+  }
+
+  const best = Math.max(candidate.titleSimilarity, candidate.coreTitleSimilarity);
+  return `Title similarity ${best.toFixed(0)}% is below the ${threshold}% threshold`;
+}
+
+/**
+ * Explain how `spotifyTrack` matches against the library. Runs matchTrack once for
+ * the real result, then once per candidate against a single-track index to find
+ * the tier that candidate would match at on its own. Candidates are the local
+ * tracks closest by title and artist, plus any sharing the ISRC.
+ */
+export function explainMatch(
+  spotifyTrack: SpotifyTrack,
+  localIndex: LocalIndex,
+  options: MatchOptions = {},
+  limit: number = EXPLAIN_CANDIDATE_LIMIT
+): MatchExplanation {
+  const profile = options.profile ?? MATCHING_PROFILES[DEFAULT_MATCHING_PROFILE];
+  const result = matchTrack(spotifyTrack, localIndex, options);
+
+  const normalizedTitle = normalize(spotifyTrack.title);
+  const coreTitle = extractCoreTitle(spotifyTrack.title);
+  const normalizedArtist = normalizeArtist(spotifyTrack.primary_artist || spotifyTrack.artist, localIndex.aliases);
+  const mix = normalizeMix(spotifyTrack.title, spotifyTrack.mix);
+  const isrc = normalizationService.normalizeIsrc(spotifyTrack.isrc);
+  const spotifyNames = new Set(artistNames(spotifyTrack, localIndex.aliases));
+  const chosenId = result.matched ? result.matchedLocalTrack?.id : undefined;
+
+  // Score the whole library; this runs for one track at a time, on demand
+  const scored = localIndex.normalized.map(entry => {
+    const titleSimilarity = calculateSimilarity(entry.title, normalizedTitle);
+    const coreTitleSimilarity = calculateSimilarity(entry.coreTitle, coreTitle);
+    const artistSimilarity = calculateSimilarity(entry.artist, normalizedArtist);
+    const sameIsrc = !!isrc && entry.isrc === isrc;
+    const sharedArtists = entry.artistNames.filter(name => name !== normalizedArtist && spotifyNames.has(name));
+    return {
+      entry,
+      similarities: { titleSimilarity, coreTitleSimilarity, artistSimilarity, sharedArtists, sameIsrc },
+      // The matched track, then ISRC hits, always make the list; the rest rank by title plus artist
+      pinned: entry.track.id === chosenId ? 2 : sameIsrc ? 1 : 0,
+      score: Math.max(titleSimilarity, coreTitleSimilarity) + (sharedArtists.length > 0 ? 100 : artistSimilarity),
+    };
+  });
+
+  const closest = scored
+    .sort((a, b) => b.pinned - a.pinned || b.score - a.score)
+    .slice(0, limit);
+
+  // Candidates are judged without decisions; a rejection is reported as such below
+  const soloOptions: MatchOptions = { ...options, decisions: undefined };
+  const rejected = options.decisions?.rejected.get(spotifyTrack.id);
+
+  const candidates = closest.map(({ entry, similarities }) => {
+    const { delta, agreement } = compareDurations(spotifyTrack.duration_ms, entry.track.duration_seconds);
+    const solo = matchTrack(spotifyTrack, buildLocalIndex([entry.track], localIndex.aliases), soloOptions);
+    const chosen = entry.track.id === chosenId;
+    const base = {
+      localTrack: entry.track,
+      normalizedTitle: entry.title,
+      coreTitle: entry.coreTitle,
+      normalizedArtist: entry.artist,
+      ...similarities,
+      durationDeltaSeconds: delta,
+      durationAgreement: agreement,
+    };
+
+    let reason: string;
+    if (chosen && result.userConfirmed) reason = 'You confirmed or linked this match';
+    else if (rejected?.has(entry.track.id)) reason = 'You rejected this match';
+    else if (chosen) reason = `Matched at tier ${result.tier} (${TIER_LABELS[result.tier!]})`;
+    else if (solo.matched) reason = `Would match at tier ${solo.tier} (${TIER_LABELS[solo.tier!]}), but another local track matched first`;
+    else reason = rejectionReason(entry, solo, base, normalizedArtist, mix, options);
+
+    return { ...base, tier: solo.matched ? solo.tier : null, chosen, reason };
+  });
+
+  return {
+    spotifyTrack,
+    normalizedTitle,
+    coreTitle,
+    normalizedArtist,
+    mix,
+    profile: profile.name,
+    result,
+    candidates,
+  };
+}
+
+/**
+ * Turn an explanation into an eval case for eval-cases.json. With an expected local
+ * track the case is a false negative, without one the track is truly missing. The
+ * id is a placeholder; scripts/add-eval-cases.ts assigns the next free one.
+ */
+export function toEvalCase(explanation: MatchExplanation, expected: CandidateExplanation | null): EvalCase {
+  const { spotifyTrack } = explanation;
+  const local = expected?.localTrack;
+  return {
+    id: `new-${spotifyTrack.id}`,
+    spotifyTrack: {
+      id: spotifyTrack.id,
+      title: spotifyTrack.title,
+      artist: spotifyTrack.artist,
+      primary_artist: spotifyTrack.primary_artist,
+      album: spotifyTrack.album,
+      genre: spotifyTrack.genre,
+      super_genre: spotifyTrack.super_genre,
+    },
+    expectedLocalMatch: local
+      ? {
+          id: local.id,
+          title: local.title,
+          artist: local.artist,
+          primary_artist: local.primary_artist,
+          album: local.album,
+          genre: local.genre,
+          file_path: local.file_path,
+        }
+      : null,
+    verdict: local ? 'false-negative' : 'true-missing',
+    failureCategory: local ? 'unknown' : null,
+    notes: expected ? `Explain (${explanation.profile}): ${expected.reason}` : '',
+    superGenre: spotifyTrack.super_genre,
+  };
+}
@@ -2,6 +2,8 @@ import { parseBlob } from 'music-metadata-browser';
 import { Buffer } from 'buffer';
 import { generateFileHash } from '@/utils/fileHash';
 import { NormalizationService } from './normalization.service';
+import { DEFAULT_SUPER_GENRE_TAG_TARGET, readSuperGenreTag } from './superGenreTagTarget';
+import type { SuperGenreTagTarget } from '@/types/audioTags';
 import { z } from 'zod';
 import { withTimeout } from '@/utils/promiseUtils';
 
@@ -79,6 +81,7 @@ const metadataSchema = z.object({
   primary_artist: z.string().max(500),
   featured_artists: z.array(z.string().max(500)).max(50),
   mix: z.string().max(200).nullable(),
+  isrc: z.string().max(12).nullable(),
   file_path: z.string().max(1000),
   file_size: z.number().int().min(0).max(10737418240), // 10GB max
   hash: z.string().max(128).nullable(),
@@ -110,12 +113,17 @@ export interface ScannedTrack {
   primary_artist: string;
   featured_artists: string[];
   mix: string | null;
+  isrc: string | null;
 }
 
 /**
  * Extracts metadata from an MP3 file
+ * The SuperGenre is read from the given tag target (Grouping by default)
  */
-export const extractMetadata = async (file: File): Promise<ScannedTrack> => {
+export const extractMetadata = async (
+  file: File,
+  superGenreTarget: SuperGenreTagTarget = DEFAULT_SUPER_GENRE_TAG_TARGET
+): Promise<ScannedTrack> => {
   if (VERBOSE_LOGGING) {
     console.log(`🚀 STARTING metadata extraction for: ${file.name} (${(file.size / (1024 * 1024)).toFixed(1)} MB)`);
     console.log(`📊 File details:`, {
@@ -200,6 +208,7 @@ export const extractMetadata = async (file: File): Promise<ScannedTrack> => {
     let bpm = null;
     let key = null;
     let bitrate = null;
+    let isrc: string | null = null;
 
     // Primary extraction from common metadata
     if (metadata.common) {
@@ -208,9 +217,10 @@ export const extractMetadata = async (file: File): Promise<ScannedTrack> => {
       album = metadata.common.album || null;
       year = metadata.common.year || null;
       genre = metadata.common.genre?.[0] || null;
-      super_genre = (metadata.common as any).grouping || null;
+      super_genre = readSuperGenreTag(metadata, superGenreTarget) || null;
       bpm = metadata.common.bpm || null;
       key = metadata.common.key || null;
+      isrc = metadata.common.isrc?.[0] || null;
 
       if (VERBOSE_LOGGING) {
         console.log(`📊 Common metadata for "${file.name}":`, {
@@ -261,7 +271,7 @@ export const extractMetadata = async (file: File): Promise<ScannedTrack> => {
     }
 
     // Fallback: Try extracting from native tags if common is missing
-    if (metadata.native && (!title || !artist || !album || !year || !genre || !super_genre || !bpm || !key)) {
+    if (metadata.native && (!title || !artist || !album || !year || !genre || !super_genre || !bpm || !key || !isrc)) {
       if (VERBOSE_LOGGING) console.log(`🔄 Attempting fallback extraction from native tags...`);
 
       // Try ID3v2.4 first, then ID3v2.3, then ID3v1
@@ -297,7 +307,7 @@ export const extractMetadata = async (file: File): Promise<ScannedTrack> => {
             if (!genre && (tag.id === 'TCON' || tag.id === 'GENRE' || tag.id === 'Genre')) {
               genre = typeof tag.value === 'string' ? tag.value : null;
             }
-            if (!super_genre && tag.id === 'TIT1') {
+            if (!super_genre && superGenreTarget.type === 'grouping' && tag.id === 'TIT1') {
               super_genre = typeof tag.value === 'string' ? tag.value : null;
             }
             if (!bpm && (tag.id === 'TBPM' || tag.id === 'BPM' || tag.id === 'Bpm')) {
@@ -309,11 +319,14 @@ export const extractMetadata = async (file: File): Promise<ScannedTrack> => {
             if (!key && (tag.id === 'TKEY' || tag.id === 'KEY' || tag.id === 'Key' || tag.id === 'INITIALKEY')) {
               key = typeof tag.value === 'string' ? tag.value : null;
             }
+            if (!isrc && (tag.id === 'TSRC' || tag.id === 'ISRC')) {
+              isrc = typeof tag.value === 'string' ? tag.value : null;
+            }
           }
           
           // If we found some data in this format, break out
-          if (title || artist || album || year || genre || super_genre || bpm || key) {
-            if (VERBOSE_LOGGING) console.log(`✅ Found metadata in ${format}:`, { title, artist, album, year, genre, super_genre, bpm, key });
+          if (title || artist || album || year || genre || super_genre || bpm || key || isrc) {
+            if (VERBOSE_LOGGING) console.log(`✅ Found metadata in ${format}:`, { title, artist, album, year, genre, super_genre, bpm, key, isrc });
             break;
           }
         }
@@ -348,6 +361,8 @@ export const extractMetadata = async (file: File): Promise<ScannedTrack> => {
       primary_artist: normalized.primaryArtist,
       featured_artists: normalized.featuredArtists,
       mix: normalized.mix,
+      // Malformed codes are dropped rather than failing validation
+      isrc: normalizationService.normalizeIsrc(isrc),
     };
 
     // Validate the extracted metadata before returning
@@ -391,6 +406,7 @@ export const extractMetadata = async (file: File): Promise<ScannedTrack> => {
       primary_artist: normalized.primaryArtist,
       featured_artists: normalized.featuredArtists,
       mix: normalized.mix,
+      isrc: null,
     };
     
     // Validate even error case data
@@ -414,14 +430,15 @@ const FILE_READ_DELAY_MS = 10;
  */
 export const extractMetadataBatch = async (
   files: File[],
-  onProgress?: (current: number, total: number) => void
+  onProgress?: (current: number, total: number) => void,
+  superGenreTarget: SuperGenreTagTarget = DEFAULT_SUPER_GENRE_TAG_TARGET
 ): Promise<ScannedTrack[]> => {
   const scannedTracks: ScannedTrack[] = [];
 
   // Process files sequentially to avoid exhausting File System Access API
   for (let i = 0; i < files.length; i++) {
     const file = files[i];
-    const track = await extractMetadata(file);
+    const track = await extractMetadata(file, superGenreTarget);
     scannedTracks.push(track);
 
     if (onProgress) {
@@ -0,0 +1,435 @@
+/**
+ * MP4/M4A iTunes Metadata Tag Writer
+ *
+ * Writes iTunes metadata items (the SuperGenre, ©grp grouping by default, and
+ * the fields the track tag editor changes) to an M4A file in the browser without
+ * any native dependencies. Items live in moov/udta/meta/ilst; that path is
+ * rebuilt (and created where missing) while every other atom is copied
+ * unchanged. Atom sizes are big-endian uint32, or a uint64 following a size
+ * of 1.
+ *
+ * Rebuilding moov changes its size, which moves everything stored after it. The
+ * stco/co64 chunk offset tables of every track are shifted by the same amount
+ * so they keep pointing at the audio in mdat. Layouts where that isn't enough
+ * are refused: fragmented files (moof/mfra, or mvex in moov) address their
+ * samples from the fragments, and when moov follows mdat only padding may come
+ * after it.
+ *
+ * Mirrors flacTagWriter.ts: accepts an ArrayBuffer, returns a new Blob with
+ * updated tags.
+ */
+
+import type { AudioTagField, AudioTagUpdates } from '@/types/audioTags';
+
+const UINT32_RANGE = 2 ** 32;
+
+/** Atoms on the way from moov to the chunk offset tables */
+const SAMPLE_TABLE_PATH = new Set(['trak', 'mdia', 'minf', 'stbl']);
+
+/**
+ * ilst item written for each tag, and the items it replaces. Freeform ('----')
+ * items are keyed by their mean and name.
+ */
+const TAG_ITEMS: Record<AudioTagField, { key: string; replaces?: string[] }> = {
+  title: { key: '©nam' },
+  artist: { key: '©ART' },
+  album: { key: '©alb' },
+  year: { key: '©day' },
+  genre: { key: '©gen', replaces: ['gnre'] }, // gnre holds an ID3v1 genre number
+  bpm: { key: 'tmpo' },
+  key: { key: '----:com.apple.iTunes:initialkey' },
+  comment: { key: '©cmt' },
+  grouping: { key: '©grp' },
+};
+
+/** Mean of the freeform items user-defined text fields are written to */
+const FREEFORM_MEAN = 'com.apple.iTunes';
+
+/** Well-known types of a data atom */
+const DATA_TYPE_UTF8 = 1;
+const DATA_TYPE_INTEGER = 21;
+
+interface Mp4Atom {
+  type: string;
+  /** Offset of the atom header */
+  start: number;
+  /** 8, or 16 when the size is 64-bit */
+  headerSize: number;
+  /** Total size including the header */
+  size: number;
+}
+
+/**
+ * Atom types are four bytes, one character each (© is byte 0xA9)
+ */
+function readType(bytes: Uint8Array, offset: number): string {
+  return String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+}
+
+/**
+ * Parse the sibling atoms between `start` and `end`. A size of 0 means the
+ * atom runs to `end`; trailing bytes too short for a header are ignored.
+ */
+function parseAtoms(bytes: Uint8Array, start: number, end: number): Mp4Atom[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const atoms: Mp4Atom[] = [];
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    const type = readType(bytes, offset + 4);
+    let size = view.getUint32(offset);
+    let headerSize = 8;
+
+    if (size === 1) {
+      if (offset + 16 > end) {
+        throw new Error(`Not a valid MP4 file: truncated '${type}' atom header`);
+      }
+      size = view.getUint32(offset + 8) * UINT32_RANGE + view.getUint32(offset + 12);
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+
+    if (size < headerSize || offset + size > end) {
+      throw new Error(`Not a valid MP4 file: '${type}' atom at byte ${offset} overruns its parent`);
+    }
+
+    atoms.push({ type, start: offset, headerSize, size });
+    offset += size;
+  }
+
+  return atoms;
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+}
+
+/**
+ * Build an atom with a 32-bit size from its type and payload
+ */
+function makeAtom(type: string, ...payload: Uint8Array[]): Uint8Array {
+  const body = concatBytes(payload);
+  const atom = new Uint8Array(8 + body.length);
+  const view = new DataView(atom.buffer);
+
+  if (atom.length >= UINT32_RANGE) {
+    throw new Error(`'${type}' atom is too large to write`);
+  }
+  view.setUint32(0, atom.length);
+  for (let i = 0; i < 4; i++) atom[4 + i] = type.charCodeAt(i);
+  atom.set(body, 8);
+
+  return atom;
+}
+
+function atomBytes(bytes: Uint8Array, atom: Mp4Atom): Uint8Array {
+  return bytes.subarray(atom.start, atom.start + atom.size);
+}
+
+function parseChildren(bytes: Uint8Array, atom: Mp4Atom, skip = 0): Mp4Atom[] {
+  return parseAtoms(bytes, atom.start + atom.headerSize + skip, atom.start + atom.size);
+}
+
+/**
+ * The children of a container as bytes, with the first `type` child replaced
+ * by `replacement`, or `replacement` appended when there is none
+ */
+function replaceChild(
+  bytes: Uint8Array,
+  children: Mp4Atom[],
+  type: string,
+  replacement: Uint8Array
+): Uint8Array[] {
+  const parts = children.map((child) => atomBytes(bytes, child));
+  const index = children.findIndex((child) => child.type === type);
+
+  if (index === -1) parts.push(replacement);
+  else parts[index] = replacement;
+
+  return parts;
+}
+
+/**
+ * Build a data atom: version 0 and a 24-bit type, a zero locale, then the value
+ */
+function buildDataAtom(dataType: number, value: Uint8Array): Uint8Array {
+  const header = new Uint8Array(8);
+  new DataView(header.buffer).setUint32(0, dataType);
+  return makeAtom('data', header, value);
+}
+
+/**
+ * Build the ilst item for a tag: text in a UTF-8 data atom, the BPM as a
+ * 16-bit integer
+ */
+function buildItem(field: AudioTagField, value: string | number): Uint8Array {
+  const { key } = TAG_ITEMS[field];
+
+  if (field === 'bpm') {
+    const bpm = new Uint8Array(2);
+    new DataView(bpm.buffer).setUint16(0, Math.min(Math.max(Math.round(Number(value)), 0), 0xffff));
+    return makeAtom(key, buildDataAtom(DATA_TYPE_INTEGER, bpm));
+  }
+
+  return buildTextItem(key, String(value));
+}
+
+/**
+ * Build a text item; freeform items get their mean and name
+ */
+function buildTextItem(key: string, value: string): Uint8Array {
+  const data = buildDataAtom(DATA_TYPE_UTF8, new TextEncoder().encode(value));
+  if (!key.startsWith('----:')) {
+    return makeAtom(key, data);
+  }
+
+  const [, mean, name] = key.split(':');
+  const fullBoxString = (text: string) => [new Uint8Array(4), new TextEncoder().encode(text)];
+  return makeAtom('----', makeAtom('mean', ...fullBoxString(mean)), makeAtom('name', ...fullBoxString(name)), data);
+}
+
+/**
+ * Freeform names are matched case-insensitively; taggers disagree on case
+ */
+function normalizeKey(key: string): string {
+  return key.startsWith('----:') ? key.toLowerCase() : key;
+}
+
+/**
+ * The key an ilst item is matched by: its type, or for a freeform item
+ * '----:<mean>:<name>'
+ */
+function itemKey(bytes: Uint8Array, item: Mp4Atom): string {
+  if (item.type !== '----') return item.type;
+
+  const decoder = new TextDecoder();
+  const parts = parseChildren(bytes, item)
+    .filter((child) => child.type === 'mean' || child.type === 'name')
+    .map((child) => decoder.decode(bytes.subarray(child.start + child.headerSize + 4, child.start + child.size)));
+  return normalizeKey(['----', ...parts].join(':'));
+}
+
+/**
+ * Build the ilst atom with the given tags set. Existing items are preserved in
+ * order; an item being written takes the place of the one it replaces, and a
+ * null tag removes its items. User-defined text fields become freeform items.
+ */
+function buildIlst(bytes: Uint8Array, ilst: Mp4Atom | null, tags: AudioTagUpdates): Uint8Array {
+  let items = (ilst ? parseChildren(bytes, ilst) : []).map((item) => ({
+    key: itemKey(bytes, item),
+    data: atomBytes(bytes, item),
+  }));
+
+  const updates = [
+    ...(Object.keys(TAG_ITEMS) as AudioTagField[])
+      .filter((field) => tags[field] !== undefined)
+      .map((field) => ({
+        keys: [TAG_ITEMS[field].key, ...(TAG_ITEMS[field].replaces ?? [])],
+        build: () => buildItem(field, tags[field]!),
+        remove: tags[field] === null,
+      })),
+    ...Object.entries(tags.userText ?? {}).map(([name, value]) => {
+      const key = `----:${FREEFORM_MEAN}:${name}`;
+      return { keys: [key], build: () => buildTextItem(key, value!), remove: value === null };
+    }),
+  ];
+
+  for (const update of updates) {
+    const keys = update.keys.map(normalizeKey);
+    const index = items.findIndex((item) => keys.includes(item.key));
+
+    items = items.filter((item) => !keys.includes(item.key));
+    if (!update.remove) {
+      items.splice(index === -1 ? items.length : index, 0, { key: keys[0], data: update.build() });
+    }
+  }
+
+  return makeAtom('ilst', ...items.map((item) => item.data));
+}
+
+/**
+ * Handler declaring the meta atom as iTunes metadata ('mdir')
+ */
+function buildMetadataHandler(): Uint8Array {
+  const body = new Uint8Array(25);
+  // Version/flags and pre_defined stay zero
+  body.set([0x6d, 0x64, 0x69, 0x72], 8); // 'mdir'
+  body.set([0x61, 0x70, 0x70, 0x6c], 12); // 'appl'
+  // Reserved words and an empty name stay zero
+  return makeAtom('hdlr', body);
+}
+
+/**
+ * Build the meta atom. ISO files write it as a full box (4 bytes of version
+ * and flags before the children); QuickTime files don't, which shows as the
+ * hdlr child starting straight after the header. The existing layout is kept.
+ */
+function buildMeta(bytes: Uint8Array, meta: Mp4Atom | null, tags: AudioTagUpdates): Uint8Array {
+  if (!meta) {
+    return makeAtom('meta', new Uint8Array(4), buildMetadataHandler(), buildIlst(bytes, null, tags));
+  }
+
+  const bodyStart = meta.start + meta.headerSize;
+  const isFullBox = readType(bytes, bodyStart + 4) !== 'hdlr';
+  const prefix = bytes.subarray(bodyStart, bodyStart + (isFullBox ? 4 : 0));
+  const children = parseChildren(bytes, meta, prefix.length);
+
+  const parts = replaceChild(
+    bytes,
+    children,
+    'ilst',
+    buildIlst(bytes, children.find((child) => child.type === 'ilst') ?? null, tags)
+  );
+  if (!children.some((child) => child.type === 'hdlr')) {
+    parts.unshift(buildMetadataHandler());
+  }
+
+  return makeAtom('meta', prefix, ...parts);
+}
+
+/**
+ * Build the moov atom with its udta/meta/ilst path rebuilt for the tags
+ */
+function buildMoov(bytes: Uint8Array, moov: Mp4Atom, tags: AudioTagUpdates): Uint8Array {
+  const moovChildren = parseChildren(bytes, moov);
+  const udta = moovChildren.find((child) => child.type === 'udta') ?? null;
+  const udtaChildren = udta ? parseChildren(bytes, udta) : [];
+  const meta = udtaChildren.find((child) => child.type === 'meta') ?? null;
+
+  const newUdta = makeAtom('udta', ...replaceChild(bytes, udtaChildren, 'meta', buildMeta(bytes, meta, tags)));
+  return makeAtom('moov', ...replaceChild(bytes, moovChildren, 'udta', newUdta));
+}
+
+/**
+ * Shift every stco/co64 chunk offset at or after `from` by `delta`, in place.
+ * `moov` is a rebuilt moov atom, so its header is 8 bytes.
+ */
+function adjustChunkOffsets(moov: Uint8Array, from: number, delta: number): void {
+  const view = new DataView(moov.buffer, moov.byteOffset, moov.byteLength);
+
+  const visit = (start: number, end: number) => {
+    for (const atom of parseAtoms(moov, start, end)) {
+      const bodyStart = atom.start + atom.headerSize;
+
+      if (SAMPLE_TABLE_PATH.has(atom.type)) {
+        visit(bodyStart, atom.start + atom.size);
+        continue;
+      }
+      if (atom.type !== 'stco' && atom.type !== 'co64') continue;
+
+      // Version/flags, entry count, then 32-bit (stco) or 64-bit (co64) offsets
+      const entryCount = view.getUint32(bodyStart + 4);
+      const entrySize = atom.type === 'stco' ? 4 : 8;
+      if (bodyStart + 8 + entryCount * entrySize > atom.start + atom.size) {
+        throw new Error(`Not a valid MP4 file: '${atom.type}' entry count exceeds the atom`);
+      }
+
+      for (let i = 0; i < entryCount; i++) {
+        const position = bodyStart + 8 + i * entrySize;
+
+        if (atom.type === 'stco') {
+          const offset = view.getUint32(position);
+          if (offset < from) continue;
+          if (offset + delta >= UINT32_RANGE) {
+            throw new Error('Chunk offset no longer fits in stco after resizing moov');
+          }
+          view.setUint32(position, offset + delta);
+        } else {
+          const offset = view.getUint32(position) * UINT32_RANGE + view.getUint32(position + 4);
+          if (offset < from) continue;
+          view.setUint32(position, Math.floor((offset + delta) / UINT32_RANGE));
+          view.setUint32(position + 4, (offset + delta) % UINT32_RANGE);
+        }
+      }
+    }
+  };
+
+  visit(8, moov.length);
+}
+
+/**
+ * Refuse layouts whose sample offsets aren't all in stco/co64 tables this
+ * writer can shift, rather than write a file whose audio may be misaddressed
+ */
+function checkLayout(bytes: Uint8Array, atoms: Mp4Atom[], moov: Mp4Atom): void {
+  const fragmented =
+    atoms.some((atom) => atom.type === 'moof' || atom.type === 'mfra') ||
+    parseChildren(bytes, moov).some((child) => child.type === 'mvex');
+  if (fragmented) {
+    throw new Error('Fragmented MP4 files are not supported: their sample offsets live in the fragments');
+  }
+
+  const moovIndex = atoms.indexOf(moov);
+  const mdatFirst = atoms.slice(0, moovIndex).some((atom) => atom.type === 'mdat');
+  const dataAfterMoov = atoms.slice(moovIndex + 1).some((atom) => atom.type !== 'free' && atom.type !== 'skip');
+  if (mdatFirst && dataAfterMoov) {
+    throw new Error('MP4 files with data both before and after moov are not supported');
+  }
+}
+
+/**
+ * Write iTunes metadata items to an MP4/M4A file.
+ *
+ * Only the tags given are changed; an existing item of the same kind is
+ * replaced in place, a null tag is removed and other items are preserved. The
+ * key is written as the freeform initialkey item DJ software reads. udta, meta, hdlr and ilst
+ * are created if the file has none. Chunk offsets are updated for the change
+ * in moov size, and every other atom (including mdat) is copied unchanged.
+ * Throws for fragmented files and for files with data after a moov that
+ * follows mdat.
+ *
+ * @param buffer - ArrayBuffer of the original M4A file
+ * @param tags - Tags to write
+ * @returns A new Blob containing the updated M4A data
+ */
+export function writeMp4Tags(buffer: ArrayBuffer, tags: AudioTagUpdates): Blob {
+  const bytes = new Uint8Array(buffer);
+  const atoms = parseAtoms(bytes, 0, bytes.length);
+
+  if (atoms[0]?.type !== 'ftyp') {
+    throw new Error('Not a valid MP4 file: missing ftyp atom');
+  }
+  const moov = atoms.find((atom) => atom.type === 'moov');
+  if (!moov) {
+    throw new Error('Not a valid MP4 file: missing moov atom');
+  }
+
+  checkLayout(bytes, atoms, moov);
+
+  const moovEnd = moov.start + moov.size;
+  const newMoov = buildMoov(bytes, moov, tags);
+  const delta = newMoov.length - moov.size;
+  if (delta !== 0) {
+    adjustChunkOffsets(newMoov, moovEnd, delta);
+  }
+
+  return new Blob(
+    [bytes.subarray(0, moov.start), newMoov, bytes.subarray(moovEnd)],
+    { type: 'audio/mp4' }
+  );
+}
+
+/**
+ * Write a SuperGenre to the Grouping (©grp) item of an MP4/M4A file.
+ *
+ * @param buffer - ArrayBuffer of the original M4A file
+ * @param superGenre - The SuperGenre value to write to Grouping
+ * @returns A new Blob containing the updated M4A data
+ */
+export function writeMp4GroupingTag(buffer: ArrayBuffer, superGenre: string): Blob {
+  return writeMp4Tags(buffer, { grouping: superGenre });
+}
+
+// Export internals for testing
+export const _testExports = {
+  parseAtoms,
+  buildIlst,
+  adjustChunkOffsets,
+};
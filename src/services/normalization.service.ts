@@ -12,6 +12,48 @@ export interface NormalizedMetadata {
   mix: string | null;
 }
 
+// Russian/Ukrainian/Belarusian lowercase Cyrillic → Latin (simplified BGN/PCGN)
+const CYRILLIC_TO_LATIN: Record<string, string> = {
+  'а': 'a', 'б': 'b', 'в': 'v', 'г': 'g', 'д': 'd', 'е': 'e', 'ё': 'yo', 'ж': 'zh',
+  'з': 'z', 'и': 'i', 'й': 'y', 'к': 'k', 'л': 'l', 'м': 'm', 'н': 'n', 'о': 'o',
+  'п': 'p', 'р': 'r', 'с': 's', 'т': 't', 'у': 'u', 'ф': 'f', 'х': 'kh', 'ц': 'ts',
+  'ч': 'ch', 'ш': 'sh', 'щ': 'shch', 'ъ': '', 'ы': 'y', 'ь': '', 'э': 'e', 'ю': 'yu',
+  'я': 'ya', 'і': 'i', 'ї': 'yi', 'є': 'ye', 'ґ': 'g', 'ў': 'u',
+};
+
+// Hiragana → Hepburn romaji. Katakana is mapped onto hiragana first.
+const KANA_TO_ROMAJI: Record<string, string> = {
+  'あ': 'a', 'い': 'i', 'う': 'u', 'え': 'e', 'お': 'o',
+  'か': 'ka', 'き': 'ki', 'く': 'ku', 'け': 'ke', 'こ': 'ko',
+  'が': 'ga', 'ぎ': 'gi', 'ぐ': 'gu', 'げ': 'ge', 'ご': 'go',
+  'さ': 'sa', 'し': 'shi', 'す': 'su', 'せ': 'se', 'そ': 'so',
+  'ざ': 'za', 'じ': 'ji', 'ず': 'zu', 'ぜ': 'ze', 'ぞ': 'zo',
+  'た': 'ta', 'ち': 'chi', 'つ': 'tsu', 'て': 'te', 'と': 'to',
+  'だ': 'da', 'ぢ': 'ji', 'づ': 'zu', 'で': 'de', 'ど': 'do',
+  'な': 'na', 'に': 'ni', 'ぬ': 'nu', 'ね': 'ne', 'の': 'no',
+  'は': 'ha', 'ひ': 'hi', 'ふ': 'fu', 'へ': 'he', 'ほ': 'ho',
+  'ば': 'ba', 'び': 'bi', 'ぶ': 'bu', 'べ': 'be', 'ぼ': 'bo',
+  'ぱ': 'pa', 'ぴ': 'pi', 'ぷ': 'pu', 'ぺ': 'pe', 'ぽ': 'po',
+  'ま': 'ma', 'み': 'mi', 'む': 'mu', 'め': 'me', 'も': 'mo',
+  'や': 'ya', 'ゆ': 'yu', 'よ': 'yo',
+  'ら': 'ra', 'り': 'ri', 'る': 'ru', 'れ': 're', 'ろ': 'ro',
+  'わ': 'wa', 'ゐ': 'i', 'ゑ': 'e', 'を': 'o', 'ん': 'n', 'ゔ': 'vu',
+  'ぁ': 'a', 'ぃ': 'i', 'ぅ': 'u', 'ぇ': 'e', 'ぉ': 'o',
+  'ゃ': 'ya', 'ゅ': 'yu', 'ょ': 'yo', 'ゎ': 'wa', 'ゕ': 'ka', 'ゖ': 'ke',
+};
+
+// Two-letter country, three-character registrant, two-digit year, five-digit designation
+const ISRC_PATTERN = /^[A-Z]{2}[A-Z0-9]{3}\d{7}$/;
+
+const SMALL_Y_KANA: Record<string, string> = { 'ゃ': 'a', 'ゅ': 'u', 'ょ': 'o' };
+const SMALL_VOWEL_KANA: Record<string, string> = { 'ぁ': 'a', 'ぃ': 'i', 'ぅ': 'u', 'ぇ': 'e', 'ぉ': 'o' };
+
+function toHiragana(char: string): string {
+  const code = char.charCodeAt(0);
+  // Katakana ァ..ヶ sit exactly 0x60 above their hiragana counterparts
+  return code >= 0x30a1 && code <= 0x30f6 ? String.fromCharCode(code - 0x60) : char;
+}
+
 export class NormalizationService {
   // Mix/version keywords that indicate track version information
   private readonly mixKeywords = [
@@ -49,7 +91,71 @@ export class NormalizationService {
   }
 
   /**
-   * Step 1.2: Remove accents and diacritics
+   * Step 1.2: Transliterate Cyrillic and Japanese kana to Latin
+   * "Кино" → "kino"; "サカナクション" → "sakanakushon"
+   * Runs before diacritics removal, which would otherwise strip "й" to "и".
+   * Kanji has no reading without a dictionary and is left as-is.
+   */
+  private transliterate(text: string): string {
+    if (!/[\u0400-\u04ff\u3040-\u30ff]/.test(text)) return text;
+
+    let result = '';
+    let geminate = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      const cyrillic = CYRILLIC_TO_LATIN[char];
+      if (cyrillic !== undefined) {
+        result += cyrillic;
+        continue;
+      }
+
+      if (char === '・') {
+        result += ' ';
+        continue;
+      }
+
+      const kana = toHiragana(char);
+      if (kana === 'っ') {
+        geminate = true;
+        continue;
+      }
+      // Long vowel mark: Hepburn writes a macron, which diacritics removal drops anyway
+      if (kana === 'ー') continue;
+
+      let romaji = KANA_TO_ROMAJI[kana];
+      if (romaji === undefined) {
+        geminate = false;
+        result += char;
+        continue;
+      }
+
+      // Fold a following small kana into this syllable: きゃ → kya, しょ → sho, ファ → fa
+      const next = toHiragana(text[i + 1] ?? '');
+      if (SMALL_Y_KANA[next] && romaji.length > 1) {
+        const stem = romaji.slice(0, -1);
+        romaji = (/(sh|ch|j)$/.test(stem) ? stem : stem + 'y') + SMALL_Y_KANA[next];
+        i++;
+      } else if (SMALL_VOWEL_KANA[next] && (romaji.length > 1 || romaji === 'u')) {
+        romaji = (romaji === 'u' ? 'w' : romaji.slice(0, -1)) + SMALL_VOWEL_KANA[next];
+        i++;
+      }
+
+      // Small tsu doubles the next consonant: ちょっと → chotto, マッチ → matchi
+      if (geminate) {
+        romaji = (romaji.startsWith('ch') ? 't' : romaji[0]) + romaji;
+        geminate = false;
+      }
+
+      result += romaji;
+    }
+
+    return result;
+  }
+
+  /**
+   * Step 1.3: Remove accents and diacritics
    * "Beyoncé" → "beyonce"; "Sigur Rós" → "sigur ros"
    */
   private removeDiacritics(text: string): string {
@@ -59,7 +165,7 @@ export class NormalizationService {
   }
 
   /**
-   * Step 1.3: Unify punctuation
+   * Step 1.4: Unify punctuation
    * Various quotes → ', hyphens → -, &/x/+ → &
    */
   private unifyPunctuation(text: string): string {
@@ -80,7 +186,7 @@ export class NormalizationService {
   }
 
   /**
-   * Step 1.4: Standardize featuring notation
+   * Step 1.5: Standardize featuring notation
    * feat.|ft.|featuring|with → feat
    */
   private standardizeFeatures(text: string): string {
@@ -149,7 +255,7 @@ export class NormalizationService {
   }
 
   /**
-   * Step 1.5: Extract mix/version information using smart semantic analysis
+   * Step 1.6: Extract mix/version information using smart semantic analysis
    * Prioritizes mix info over artist features by scoring all metadata pieces
    */
   extractVersionInfo(title: string | null): { core: string; mix: string | null } {
@@ -240,6 +346,7 @@ export class NormalizationService {
     if (!text) return '';
     
     let normalized = this.unicodeNormalize(text);
+    normalized = this.transliterate(normalized);
     normalized = this.removeDiacritics(normalized);
     normalized = this.unifyPunctuation(normalized);
     normalized = this.standardizeFeatures(normalized);
@@ -247,6 +354,17 @@ export class NormalizationService {
     return normalized.trim();
   }
 
+  /**
+   * Normalize an ISRC: uppercase with hyphens and spaces removed
+   * ("us-rc1-17-00123" → "USRC11700123"). Returns null for anything that isn't a
+   * well-formed ISRC, so junk tags never match each other.
+   */
+  normalizeIsrc(isrc: string | null | undefined): string | null {
+    if (!isrc) return null;
+    const compact = isrc.toUpperCase().replace(/[\s-]/g, '');
+    return ISRC_PATTERN.test(compact) ? compact : null;
+  }
+
   /**
    * Process complete track metadata
    */
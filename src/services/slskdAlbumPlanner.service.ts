@@ -0,0 +1,155 @@
+/**
+ * slskd Album Planner Service
+ *
+ * Groups missing Spotify tracks by album and recommends one album search
+ * wherever the user is missing enough of an album's liked tracks, instead of
+ * a search per track. Pure functions; the Missing Tracks UI shows the plan and
+ * pushes the accepted part of it through SlskdPushQueueService.
+ */
+
+import { SlskdClientService } from './slskdClient.service';
+import type { SlskdPushItem, SlskdTrackToSync } from '@/types/slskd';
+
+/** Default share of an album's liked tracks that must be missing to search the album */
+export const DEFAULT_ALBUM_THRESHOLD = 0.5;
+
+/** An album search only pays off when it replaces at least this many track searches */
+export const MIN_ALBUM_TRACKS = 2;
+
+export interface AlbumPlanEntry {
+  key: string;
+  artist: string;
+  album: string;
+  /** Missing tracks the album search stands in for */
+  tracks: SlskdTrackToSync[];
+  /** The user's liked tracks on the album, missing or not */
+  albumTrackCount: number;
+  /** tracks.length / albumTrackCount */
+  coverage: number;
+}
+
+export interface AlbumPlan {
+  /** Recommended album searches, most tracks saved first */
+  albums: AlbumPlanEntry[];
+  /** Tracks still searched one by one */
+  singles: SlskdTrackToSync[];
+  /** Searches without the plan: one per track */
+  trackSearches: number;
+  /** Searches with every recommended album accepted */
+  plannedSearches: number;
+}
+
+type AlbumTrack = Pick<SlskdTrackToSync, 'artist' | 'primary_artist' | 'album'>;
+
+export class SlskdAlbumPlannerService {
+  /**
+   * Key identifying an album by its primary artist and name, or null for a
+   * track without an album
+   */
+  static albumKey(track: AlbumTrack): string | null {
+    if (!track.album?.trim()) return null;
+    const artist = track.primary_artist || track.artist;
+    return SlskdClientService.normalizeSearchText(
+      SlskdClientService.formatAlbumSearchQuery(artist, track.album, 'primary')
+    );
+  }
+
+  /**
+   * How many of the user's liked tracks are on each album, keyed by albumKey
+   */
+  static countAlbumTracks(tracks: AlbumTrack[]): Record<string, number> {
+    const counts: Record<string, number> = {};
+    for (const track of tracks) {
+      const key = this.albumKey(track);
+      if (key) counts[key] = (counts[key] ?? 0) + 1;
+    }
+    return counts;
+  }
+
+  /**
+   * Plan the searches for `tracks`: an album search for each album where at
+   * least `threshold` of its liked tracks (and at least MIN_ALBUM_TRACKS) are
+   * missing, a track search for everything else. Albums missing from
+   * `albumTrackCounts` count only the missing tracks.
+   */
+  static buildPlan(
+    tracks: SlskdTrackToSync[],
+    albumTrackCounts: Record<string, number>,
+    threshold = DEFAULT_ALBUM_THRESHOLD
+  ): AlbumPlan {
+    const byAlbum = new Map<string, SlskdTrackToSync[]>();
+    const singles: SlskdTrackToSync[] = [];
+
+    for (const track of tracks) {
+      const key = this.albumKey(track);
+      if (!key) {
+        singles.push(track);
+        continue;
+      }
+      byAlbum.set(key, [...(byAlbum.get(key) ?? []), track]);
+    }
+
+    const albums: AlbumPlanEntry[] = [];
+    for (const [key, albumTracks] of byAlbum) {
+      const albumTrackCount = Math.max(albumTrackCounts[key] ?? 0, albumTracks.length);
+      const coverage = albumTracks.length / albumTrackCount;
+      if (albumTracks.length >= MIN_ALBUM_TRACKS && coverage >= threshold) {
+        const [first] = albumTracks;
+        albums.push({
+          key,
+          artist: first.primary_artist || first.artist,
+          album: first.album as string,
+          tracks: albumTracks,
+          albumTrackCount,
+          coverage,
+        });
+      } else {
+        singles.push(...albumTracks);
+      }
+    }
+
+    albums.sort((a, b) => b.tracks.length - a.tracks.length || a.album.localeCompare(b.album));
+
+    return {
+      albums,
+      singles,
+      trackSearches: tracks.length,
+      plannedSearches: albums.length + singles.length,
+    };
+  }
+
+  /**
+   * Searches saved by accepting the given albums of a plan
+   */
+  static savedSearches(plan: AlbumPlan, acceptedKeys: Set<string>): number {
+    return plan.albums
+      .filter(entry => acceptedKeys.has(entry.key))
+      .reduce((saved, entry) => saved + entry.tracks.length - 1, 0);
+  }
+
+  /**
+   * What to push for a plan: one album search per accepted album, and a track
+   * search for every other track, in the order the plan lists them
+   */
+  static toPushItems(plan: AlbumPlan, acceptedKeys: Set<string>): SlskdPushItem[] {
+    const items: SlskdPushItem[] = [];
+    const singles: SlskdTrackToSync[] = [];
+
+    for (const entry of plan.albums) {
+      if (!acceptedKeys.has(entry.key)) {
+        singles.push(...entry.tracks);
+        continue;
+      }
+      items.push({
+        id: `album:${entry.key}`,
+        title: entry.album,
+        artist: entry.artist,
+        primary_artist: entry.artist,
+        album: entry.album,
+        albumTracks: entry.tracks,
+      });
+    }
+
+    return [...items, ...singles, ...plan.singles];
+  }
+}
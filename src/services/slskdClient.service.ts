@@ -6,10 +6,105 @@
  */
 
 import type {
+  SlskdCandidate,
   SlskdConfig,
+  SlskdDownloadOrigin,
+  SlskdDownloadRequest,
+  SlskdQualityPolicy,
+  SlskdSearchFile,
+  SlskdSearchAttempt,
+  SlskdSearchPeerResponse,
   SlskdSearchResponse,
+  SlskdSearchStrategy,
   SlskdSessionResponse,
+  SlskdTrackToSync,
+  SlskdTransfer,
+  SlskdTransferStatus,
+  SlskdUserTransfers,
+  SlskdWishlistCategory,
+  SlskdWishlistEntry,
 } from '@/types/slskd';
+import { NormalizationService } from './normalization.service';
+import type { TrackAcquisition } from './trackAcquisition.service';
+
+/** Quality of each downloadable audio format, 0-1. Anything else is not a candidate. */
+const FORMAT_SCORES: Record<string, number> = {
+  flac: 1,
+  wav: 0.9,
+  aiff: 0.9,
+  mp3: 0.8,
+  m4a: 0.6,
+  aac: 0.6,
+  ogg: 0.5,
+  opus: 0.5,
+};
+
+/** Formats a quality policy can allow, best first */
+export const SLSKD_AUDIO_FORMATS = Object.keys(FORMAT_SCORES);
+
+const LOSSLESS_FORMATS = new Set(['flac', 'wav', 'aiff']);
+
+/** Weights of the candidate scores; filename similarity matters most */
+const CANDIDATE_WEIGHTS = { similarity: 0.5, format: 0.2, bitrate: 0.2, size: 0.1 };
+
+/** Files smaller than this are previews or broken */
+const MIN_CANDIDATE_BYTES = 1_500_000;
+
+/** Lengths further apart than this are another version (radio edit vs extended mix) */
+const LENGTH_MISMATCH_SECONDS = 30;
+
+/** The auto-pick only takes a file whose name covers this much of "artist - title" */
+export const MIN_AUTO_PICK_SIMILARITY = 0.75;
+
+export const SEARCH_STRATEGY_LABELS: Record<SlskdSearchStrategy, string> = {
+  'artist-title': 'artist and title',
+  'core-title': 'title without mix',
+  'title-only': 'title only',
+  transliterated: 'transliterated',
+  album: 'album',
+};
+
+/** Terminal search states; a search in one of these with no responses found nothing */
+const FINISHED_SEARCH_STATES = /Completed|TimedOut|Errored/;
+
+/** slskd reports a stopped search as "Completed, Cancelled" */
+const CANCELLED_SEARCH_STATE = /Cancelled/;
+
+/** A search older than this is stale even if its track is still missing */
+export const WISHLIST_STALE_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const normalizationService = new NormalizationService();
+
+/**
+ * A non-2xx response from slskd. `retryAfterMs` comes from the Retry-After
+ * header, when slskd (or a proxy in front of it) sent one.
+ */
+export class SlskdApiError extends Error {
+  constructor(
+    readonly status: number,
+    detail: string,
+    readonly retryAfterMs: number | null = null
+  ) {
+    super(`slskd API error (${status}): ${detail}`);
+    this.name = 'SlskdApiError';
+  }
+
+  /** Rate limited or a server error: worth trying again after a pause */
+  get isRetryable(): boolean {
+    return this.status === 429 || this.status >= 500;
+  }
+}
+
+/** Retry-After is either a number of seconds or an HTTP date */
+const parseRetryAfter = (header: string | null): number | null => {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
 
 export class SlskdClientService {
   /**
@@ -35,7 +130,7 @@ export class SlskdClientService {
 
     if (!response.ok) {
       const errorMessage = await response.text().catch(() => 'Unknown error');
-      throw new Error(`slskd API error (${response.status}): ${errorMessage}`);
+      throw new SlskdApiError(response.status, errorMessage, parseRetryAfter(response.headers.get('retry-after')));
     }
 
     // Handle empty responses
@@ -108,6 +203,271 @@ export class SlskdClientService {
     });
   }
 
+  /**
+   * Delete a search (and its responses) from slskd
+   */
+  static async deleteSearch(config: SlskdConfig, searchId: string): Promise<void> {
+    await this.request<unknown>(config, `/api/v0/searches/${encodeURIComponent(searchId)}`, {
+      method: 'DELETE',
+    });
+  }
+
+  /**
+   * Get a single search and its state
+   */
+  static async getSearch(
+    config: SlskdConfig,
+    searchId: string
+  ): Promise<SlskdSearchResponse> {
+    return this.request<SlskdSearchResponse>(config, `/api/v0/searches/${encodeURIComponent(searchId)}`, {
+      method: 'GET',
+    });
+  }
+
+  /**
+   * Get the peer responses (files found) for a search
+   */
+  static async getSearchResponses(
+    config: SlskdConfig,
+    searchId: string
+  ): Promise<SlskdSearchPeerResponse[]> {
+    return this.request<SlskdSearchPeerResponse[]>(
+      config,
+      `/api/v0/searches/${encodeURIComponent(searchId)}/responses`,
+      { method: 'GET' }
+    );
+  }
+
+  /**
+   * Enqueue downloads of one or more files from a peer
+   */
+  static async enqueueDownload(
+    config: SlskdConfig,
+    username: string,
+    files: SlskdDownloadRequest[]
+  ): Promise<void> {
+    await this.request<unknown>(config, `/api/v0/transfers/downloads/${encodeURIComponent(username)}`, {
+      method: 'POST',
+      body: JSON.stringify(files),
+    });
+  }
+
+  /**
+   * Get all downloads, flattened from slskd's per-user, per-directory grouping
+   */
+  static async getDownloads(config: SlskdConfig): Promise<SlskdTransfer[]> {
+    const users = await this.request<SlskdUserTransfers[]>(config, '/api/v0/transfers/downloads', {
+      method: 'GET',
+    });
+    // An empty response body comes back as {}
+    if (!Array.isArray(users)) return [];
+    return users.flatMap(user =>
+      (user.directories ?? []).flatMap(directory =>
+        (directory.files ?? []).map(file => ({ ...file, username: file.username || user.username }))
+      )
+    );
+  }
+
+  /**
+   * Cancel a download. With `remove` the transfer is also cleared from slskd's list.
+   */
+  static async cancelDownload(
+    config: SlskdConfig,
+    username: string,
+    transferId: string,
+    remove = false
+  ): Promise<void> {
+    await this.request<unknown>(
+      config,
+      `/api/v0/transfers/downloads/${encodeURIComponent(username)}/${encodeURIComponent(transferId)}?remove=${remove}`,
+      { method: 'DELETE' }
+    );
+  }
+
+  /**
+   * Retry a failed or cancelled download: clear the finished transfer, then queue
+   * the same file from the same peer again
+   */
+  static async retryDownload(config: SlskdConfig, transfer: SlskdTransfer): Promise<void> {
+    await this.cancelDownload(config, transfer.username, transfer.id, true);
+    await this.enqueueDownload(config, transfer.username, [
+      { filename: transfer.filename, size: transfer.size },
+    ]);
+  }
+
+  /**
+   * Map slskd's transfer state flags to the states Mako shows
+   */
+  static getTransferStatus(state: string): SlskdTransferStatus {
+    if (state.includes('Succeeded')) return 'completed';
+    if (state.includes('Cancelled')) return 'cancelled';
+    // Errored, TimedOut, Rejected and Aborted all end as "Completed, <reason>"
+    if (state.includes('Completed')) return 'failed';
+    if (state.includes('InProgress') || state.includes('Initializing')) return 'downloading';
+    return 'queued';
+  }
+
+  /**
+   * Find the Spotify track a download was for: the origin recorded for this exact
+   * file when Mako queued it, otherwise the wishlist track whose "artist title"
+   * best matches the file name
+   */
+  static findDownloadOrigin(
+    transfer: SlskdTransfer,
+    origins: SlskdDownloadOrigin[]
+  ): SlskdDownloadOrigin | null {
+    const exact = origins.find(o => o.username === transfer.username && o.filename === transfer.filename);
+    if (exact) return exact;
+
+    let best: SlskdDownloadOrigin | null = null;
+    let bestSimilarity = 0;
+    for (const origin of origins) {
+      if (origin.filename) continue;
+      const similarity = this.filenameSimilarity(transfer.filename, {
+        id: origin.spotifyTrackId,
+        title: origin.title,
+        artist: origin.artist,
+        primary_artist: origin.primary_artist,
+      });
+      if (similarity >= MIN_AUTO_PICK_SIMILARITY && similarity > bestSimilarity) {
+        best = origin;
+        bestSimilarity = similarity;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Share of the words in "artist title" that appear in the file's name and
+   * parent folder. Title words count for more than artist words, since the
+   * artist is often only in a folder further up. A title or artist with no
+   * words left to compare counts as not found.
+   */
+  static filenameSimilarity(filename: string, track: SlskdTrackToSync): number {
+    // Soulseek paths use either separator; the last two segments are folder + file
+    const segments = filename.split(/[\\/]/).slice(-2).join(' ').replace(/\.[^.]+$/, '');
+    const words = new Set(this.normalizeSearchText(segments.replace(/_/g, ' ')).split(' '));
+    const coverage = (text: string) => {
+      const wanted = this.normalizeSearchText(text).split(' ').filter(Boolean);
+      if (wanted.length === 0) return 0;
+      return wanted.filter(word => words.has(word)).length / wanted.length;
+    };
+    return 0.7 * coverage(track.title) + 0.3 * coverage(track.primary_artist || track.artist);
+  }
+
+  /**
+   * Why the quality policy rejects a file, or null if it passes. Banned keywords
+   * that are part of the track's own title or artist are allowed, so a song
+   * called "Preview" can still be found.
+   */
+  static checkQualityPolicy(
+    file: SlskdSearchFile,
+    format: string,
+    policy: SlskdQualityPolicy,
+    track: SlskdTrackToSync
+  ): string | null {
+    if (!policy.allowedFormats.includes(format)) {
+      return `${format.toUpperCase()} is not an allowed format`;
+    }
+    if (!LOSSLESS_FORMATS.has(format) && file.bitRate && file.bitRate < policy.minBitrate) {
+      return `${file.bitRate}kbps is below ${policy.minBitrate}kbps`;
+    }
+
+    const sizeMb = file.size / 1024 / 1024;
+    if (sizeMb < policy.minSizeMb) return `${sizeMb.toFixed(1)} MB is below ${policy.minSizeMb} MB`;
+    if (policy.maxSizeMb > 0 && sizeMb > policy.maxSizeMb) {
+      return `${sizeMb.toFixed(1)} MB is above ${policy.maxSizeMb} MB`;
+    }
+
+    // Any punctuation separates words in a path, e.g. "01-preview.mp3"
+    const path = ` ${this.normalizeSearchText(file.filename.replace(/[^\p{L}\p{M}\p{N}\s]|_/gu, ' '))} `;
+    const own = ` ${this.normalizeSearchText(`${track.artist} ${track.title}`.replace(/[^\p{L}\p{M}\p{N}\s]|_/gu, ' '))} `;
+    for (const keyword of policy.bannedKeywords) {
+      const word = ` ${this.normalizeSearchText(keyword)} `;
+      if (word.trim() && path.includes(word) && !own.includes(word)) {
+        return `Contains banned keyword "${keyword.trim()}"`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Score one search result file, or null if it can't be a candidate
+   * (locked, or not an audio format)
+   */
+  private static scoreFile(file: SlskdSearchFile, track: SlskdTrackToSync) {
+    if (file.isLocked) return null;
+    const extension = (file.extension || file.filename.split('.').pop() || '').toLowerCase().replace(/^\./, '');
+    const format = extension === 'aif' ? 'aiff' : extension;
+    const formatScore = FORMAT_SCORES[format];
+    if (formatScore === undefined) return null;
+
+    let bitrateScore = 0.5; // unknown
+    if (LOSSLESS_FORMATS.has(format)) bitrateScore = 1;
+    else if (file.bitRate) bitrateScore = Math.min(1, Math.max(0, (file.bitRate - 128) / (320 - 128)));
+
+    let sizeScore = file.size < MIN_CANDIDATE_BYTES ? 0 : 1;
+    if (sizeScore > 0 && track.duration_ms && file.length) {
+      if (Math.abs(file.length - track.duration_ms / 1000) > LENGTH_MISMATCH_SECONDS) sizeScore = 0.2;
+    }
+
+    const similarity = this.filenameSimilarity(file.filename, track);
+    const score =
+      CANDIDATE_WEIGHTS.similarity * similarity +
+      CANDIDATE_WEIGHTS.format * formatScore +
+      CANDIDATE_WEIGHTS.bitrate * bitrateScore +
+      CANDIDATE_WEIGHTS.size * sizeScore;
+
+    return { format, similarity, formatScore, bitrateScore, sizeScore, score };
+  }
+
+  /**
+   * Flatten peer responses into candidate files ranked best first. Files the
+   * quality policy rejects come after all others. Ties go to peers with a free
+   * upload slot, then the faster peer.
+   */
+  static rankSearchCandidates(
+    responses: SlskdSearchPeerResponse[],
+    track: SlskdTrackToSync,
+    policy?: SlskdQualityPolicy
+  ): SlskdCandidate[] {
+    const candidates: SlskdCandidate[] = [];
+    for (const response of responses) {
+      for (const file of response.files ?? []) {
+        const scores = this.scoreFile(file, track);
+        if (!scores) continue;
+        candidates.push({
+          username: response.username,
+          file,
+          hasFreeUploadSlot: response.hasFreeUploadSlot,
+          uploadSpeed: response.uploadSpeed,
+          queueLength: response.queueLength,
+          ...scores,
+          rejectedReason: policy ? this.checkQualityPolicy(file, scores.format, policy, track) : null,
+        });
+      }
+    }
+
+    return candidates.sort((a, b) =>
+      Number(a.rejectedReason !== null) - Number(b.rejectedReason !== null) ||
+      b.score - a.score ||
+      Number(b.hasFreeUploadSlot) - Number(a.hasFreeUploadSlot) ||
+      b.uploadSpeed - a.uploadSpeed
+    );
+  }
+
+  /**
+   * Best candidate for an automatic download: the highest-ranked file that passes
+   * the quality policy, whose name is close enough to the track and that isn't a
+   * preview. Null if none qualifies.
+   */
+  static pickBestCandidate(candidates: SlskdCandidate[]): SlskdCandidate | null {
+    return candidates.find(c =>
+      c.rejectedReason === null && c.similarity >= MIN_AUTO_PICK_SIMILARITY && c.sizeScore === 1
+    ) ?? null;
+  }
+
   /**
    * Format search query for slskd
    *
@@ -165,14 +525,125 @@ export class SlskdClientService {
     return `${sanitize(processedArtist)} - ${sanitize(album)}`;
   }
 
+  /**
+   * The chain of searches to try for a track, in order. Strategies that would
+   * repeat an earlier search are left out (compared normalized, keeping
+   * letters of any script so non-Latin searches aren't mistaken for empty
+   * ones), as is a title-only search for a one-word title (it would match far
+   * too much) and an album search without an album.
+   */
+  static buildSearchStrategies(
+    track: SlskdTrackToSync,
+    format: 'primary' | 'full' = 'primary'
+  ): SlskdSearchAttempt[] {
+    const artist = track.primary_artist || track.artist;
+    const core = normalizationService.extractVersionInfo(track.title).core || track.title;
+
+    const candidates: Array<SlskdSearchAttempt | null> = [
+      { strategy: 'artist-title', searchText: this.formatSearchQuery(artist, track.title, format) },
+      { strategy: 'core-title', searchText: this.formatSearchQuery(artist, core, 'primary') },
+      core.trim().split(/\s+/).length > 1
+        ? { strategy: 'title-only', searchText: core.replace(/["]/g, '').trim() }
+        : null,
+      {
+        strategy: 'transliterated',
+        searchText: normalizationService.normalize(this.formatSearchQuery(artist, core, 'primary')),
+      },
+      track.album
+        ? { strategy: 'album', searchText: this.formatAlbumSearchQuery(artist, track.album, format) }
+        : null,
+    ];
+
+    const seen = new Set<string>();
+    return candidates.filter((attempt): attempt is SlskdSearchAttempt => {
+      if (!attempt) return false;
+      const key = this.normalizeSearchText(attempt.searchText);
+      if (!key || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  /**
+   * The search to try after `current` failed, or null when the chain is used up
+   */
+  static nextSearchStrategy(
+    track: SlskdTrackToSync,
+    current: SlskdSearchStrategy | null,
+    format: 'primary' | 'full' = 'primary'
+  ): SlskdSearchAttempt | null {
+    const chain = this.buildSearchStrategies(track, format);
+    if (current === null) return chain[0] ?? null;
+    const order = Object.keys(SEARCH_STRATEGY_LABELS) as SlskdSearchStrategy[];
+    // The current strategy may have been skipped for this track; move past its position
+    return chain.find(attempt => order.indexOf(attempt.strategy) > order.indexOf(current)) ?? null;
+  }
+
+  /**
+   * Whether a search has finished without a single response. Cancelled searches
+   * don't count; the user stopped those on purpose.
+   */
+  static isSearchExhausted(search: SlskdSearchResponse): boolean {
+    return FINISHED_SEARCH_STATES.test(search.state)
+      && !CANCELLED_SEARCH_STATE.test(search.state)
+      && !search.responseCount;
+  }
+
+  /**
+   * Whether a search has stopped running, for any reason
+   */
+  static isSearchFinished(search: SlskdSearchResponse): boolean {
+    return (FINISHED_SEARCH_STATES.test(search.state) || CANCELLED_SEARCH_STATE.test(search.state))
+      && !search.state.includes('InProgress');
+  }
+
+  /**
+   * Describe each wishlist search for the wishlist view: its age, the Spotify
+   * track it was queued for (from the acquisition records) and whether that
+   * track is matched locally now. Oldest searches come first.
+   */
+  static buildWishlistEntries(
+    searches: SlskdSearchResponse[],
+    acquisitions: Iterable<Pick<TrackAcquisition, 'spotify_track_id' | 'slskd_search_id' | 'matched_at'>>,
+    now: Date = new Date()
+  ): SlskdWishlistEntry[] {
+    const bySearchId = new Map<string, Pick<TrackAcquisition, 'spotify_track_id' | 'matched_at'>>();
+    for (const acquisition of acquisitions) {
+      if (acquisition.slskd_search_id) bySearchId.set(acquisition.slskd_search_id, acquisition);
+    }
+
+    const entries = searches.map(search => {
+      const acquisition = bySearchId.get(search.id);
+      const started = search.startedAt ? new Date(search.startedAt).getTime() : NaN;
+      const ageDays = Number.isNaN(started) ? null : Math.max(0, Math.floor((now.getTime() - started) / DAY_MS));
+      const matched = Boolean(acquisition?.matched_at);
+
+      const categories: SlskdWishlistCategory[] = [];
+      if (this.isSearchFinished(search)) categories.push('finished');
+      if (!acquisition) categories.push('orphaned');
+      if (matched || (ageDays !== null && ageDays > WISHLIST_STALE_DAYS)) categories.push('stale');
+
+      return {
+        search,
+        ageDays,
+        spotifyTrackId: acquisition?.spotify_track_id ?? null,
+        matched,
+        categories,
+      };
+    });
+
+    return entries.sort((a, b) => (b.ageDays ?? -1) - (a.ageDays ?? -1));
+  }
+
   /**
    * Normalize search text for duplicate detection
-   * Removes special characters and normalizes whitespace
+   * Removes special characters (keeping letters and digits of any script) and normalizes whitespace
    */
   static normalizeSearchText(text: string): string {
     return text
+      .normalize('NFC')
       .toLowerCase()
-      .replace(/[^\w\s]/g, '')
+      .replace(/[^\p{L}\p{M}\p{N}\s]/gu, '')
       .replace(/\s+/g, ' ')
       .trim();
   }
@@ -0,0 +1,165 @@
+/**
+ * slskd Config Service
+ *
+ * Loads and saves the slskd configuration in user_preferences so it follows
+ * the user across machines and browsers. The API key is kept in Vault and only
+ * reached through the slskd-config Edge Function; user_preferences stores its
+ * secret ID. A config left in localStorage by an earlier version is migrated
+ * on first load. The loaded config is cached in SlskdStorageService.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import type { SlskdConfig, SlskdPushPolicy, SlskdQualityPolicy } from '@/types/slskd';
+import { SlskdStorageService } from './slskdStorage.service';
+
+const PREFERENCE_COLUMNS =
+  'slskd_api_endpoint, slskd_api_key_secret_id, slskd_downloads_folder, slskd_search_format, slskd_quality_policy, slskd_push_policy, slskd_connection_status, slskd_last_connection_test';
+
+export class SlskdConfigService {
+  // One load per user, shared by every component that needs the config
+  private static loading: { userId: string; promise: Promise<SlskdConfig> } | null = null;
+
+  /**
+   * Call the slskd-config Edge Function
+   */
+  private static async invoke<T>(body: Record<string, unknown>): Promise<T> {
+    const { data, error } = await supabase.functions.invoke('slskd-config', { body });
+
+    if (error) {
+      console.error(`Error calling slskd-config (${body.action}):`, error);
+      throw error;
+    }
+
+    return data as T;
+  }
+
+  /**
+   * Load the user's slskd config into SlskdStorageService, migrating a
+   * localStorage config the first time. Repeated calls for the same user share
+   * the first load.
+   */
+  static loadConfig(userId: string): Promise<SlskdConfig> {
+    if (this.loading?.userId === userId) return this.loading.promise;
+
+    // A load that was reset while in flight doesn't fill the cache again
+    const isCurrent = () => this.loading?.promise === promise;
+    const promise: Promise<SlskdConfig> = this.fetchConfig(userId)
+      .then(config => (isCurrent() ? SlskdStorageService.saveConfig(config) : config))
+      .catch(error => {
+        if (isCurrent()) this.loading = null;
+        throw error;
+      });
+    this.loading = { userId, promise };
+    return promise;
+  }
+
+  private static async fetchConfig(userId: string): Promise<SlskdConfig> {
+    const { data, error } = await supabase
+      .from('user_preferences')
+      .select(PREFERENCE_COLUMNS)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching slskd config:', error);
+      throw error;
+    }
+
+    const legacy = SlskdStorageService.getLegacyConfig();
+    if (!data?.slskd_api_endpoint && legacy?.apiEndpoint) {
+      await this.saveConfig(userId, legacy);
+      SlskdStorageService.clearLegacyConfig();
+      console.log('📦 Migrated slskd config from localStorage to user preferences');
+      return legacy;
+    }
+    if (!data) return SlskdStorageService.withDefaults(null);
+
+    const apiKey = data.slskd_api_key_secret_id
+      ? (await this.invoke<{ api_key: string | null }>({ action: 'get_api_key' })).api_key
+      : null;
+
+    return SlskdStorageService.withDefaults({
+      apiEndpoint: data.slskd_api_endpoint ?? '',
+      apiKey: apiKey ?? '',
+      downloadsFolder: data.slskd_downloads_folder ?? '',
+      searchFormat: data.slskd_search_format === 'full' ? 'full' : 'primary',
+      qualityPolicy: (data.slskd_quality_policy ?? undefined) as unknown as SlskdQualityPolicy | undefined,
+      pushPolicy: (data.slskd_push_policy ?? undefined) as unknown as SlskdPushPolicy | undefined,
+      connectionStatus: data.slskd_connection_status ?? false,
+      lastConnectionTest: data.slskd_last_connection_test ?? undefined,
+    });
+  }
+
+  /**
+   * Save the user's slskd config. The API key is only sent to Vault when it
+   * differs from the loaded one, so other edits don't churn secrets.
+   */
+  static async saveConfig(userId: string, config: SlskdConfig): Promise<SlskdConfig> {
+    const { error } = await supabase
+      .from('user_preferences')
+      .upsert(
+        {
+          user_id: userId,
+          slskd_api_endpoint: config.apiEndpoint,
+          slskd_downloads_folder: config.downloadsFolder,
+          slskd_search_format: config.searchFormat,
+          slskd_quality_policy: config.qualityPolicy as unknown as Json,
+          slskd_push_policy: config.pushPolicy as unknown as Json,
+          slskd_connection_status: config.connectionStatus,
+          slskd_last_connection_test: config.lastConnectionTest ?? null,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'user_id' }
+      );
+
+    if (error) {
+      console.error('Error saving slskd config:', error);
+      throw error;
+    }
+
+    if (config.apiKey !== SlskdStorageService.getConfig().apiKey) {
+      await this.invoke(config.apiKey
+        ? { action: 'store_api_key', api_key: config.apiKey }
+        : { action: 'delete_api_key' });
+    }
+
+    return SlskdStorageService.saveConfig(config);
+  }
+
+  /**
+   * Remove the user's slskd config, including the API key in Vault
+   */
+  static async clearConfig(userId: string): Promise<void> {
+    await this.invoke({ action: 'delete_api_key' });
+
+    const { error } = await supabase
+      .from('user_preferences')
+      .update({
+        slskd_api_endpoint: null,
+        slskd_downloads_folder: null,
+        slskd_quality_policy: null,
+        slskd_push_policy: null,
+        slskd_connection_status: false,
+        slskd_last_connection_test: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error clearing slskd config:', error);
+      throw error;
+    }
+
+    this.reset();
+  }
+
+  /**
+   * Forget the loaded config, API key included, e.g. on sign-out. The next
+   * loadConfig fetches it again.
+   */
+  static reset(): void {
+    this.loading = null;
+    SlskdStorageService.clearConfig();
+  }
+}
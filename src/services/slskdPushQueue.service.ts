@@ -0,0 +1,381 @@
+/**
+ * slskd Push Queue Service
+ *
+ * Pushes tracks to the slskd wishlist in the background, paced by the user's
+ * push policy. The queue lives in localStorage, so a push keeps running while
+ * the user moves between pages and picks up where it stopped after a reload;
+ * its result adds up over every run. Responses of 429 and 5xx pause all
+ * workers and the track is tried again with backoff. An album item is one
+ * album search; its result counts every track it stands in for.
+ */
+
+import { SlskdClientService, SlskdApiError } from './slskdClient.service';
+import { SlskdStorageService } from './slskdStorage.service';
+import { TrackAcquisitionService } from './trackAcquisition.service';
+import type {
+  SlskdDownloadOrigin,
+  SlskdPushItem,
+  SlskdPushQueueState,
+  SlskdSearchResponse,
+  SlskdSearchStrategy,
+  SlskdSyncResult,
+  SlskdTrackToSync,
+} from '@/types/slskd';
+
+const QUEUE_STORAGE_KEY = 'mako-sync:slskd-push-queue';
+
+/** Most searches a push creates at the same time */
+export const MAX_PUSH_CONCURRENCY = 5;
+
+/** Attempts per track before a 429 or 5xx counts as a failure */
+export const MAX_PUSH_ATTEMPTS = 5;
+const BACKOFF_BASE_MS = 2000;
+const BACKOFF_MAX_MS = 60000;
+
+/** Wishlisted tracks are written to track_acquisitions in batches of this size */
+const RECORD_BATCH_SIZE = 20;
+
+type QueueListener = (state: SlskdPushQueueState | null) => void;
+
+const emptyResult = (): SlskdSyncResult => ({
+  totalTracks: 0,
+  addedCount: 0,
+  skippedCount: 0,
+  failedCount: 0,
+  errors: [],
+  wishlisted: [],
+});
+
+/** Tracks a push item covers */
+export const itemTracks = (item: SlskdPushItem): SlskdTrackToSync[] => item.albumTracks ?? [item];
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export class SlskdPushQueueService {
+  // undefined until read from localStorage
+  private static state: SlskdPushQueueState | null | undefined;
+  private static listeners = new Set<QueueListener>();
+  private static running: Promise<void> | null = null;
+  private static flushing: Promise<void> | null = null;
+  private static stopRequested = false;
+
+  /**
+   * The current (or last) push, or null if there is none
+   */
+  static getState(): SlskdPushQueueState | null {
+    if (this.state === undefined) {
+      try {
+        const stored = localStorage.getItem(QUEUE_STORAGE_KEY);
+        this.state = stored ? JSON.parse(stored) : null;
+      } catch {
+        this.state = null;
+      }
+    }
+    return this.state ?? null;
+  }
+
+  /**
+   * Be told whenever the push makes progress. Returns an unsubscribe function.
+   */
+  static subscribe(listener: QueueListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Whether a push is running in this page (a stored push may be waiting to resume)
+   */
+  static isRunning(): boolean {
+    return this.running !== null;
+  }
+
+  /**
+   * Add tracks (or album searches) to the push and start it. Items already
+   * waiting are not added twice; a finished push for the same user is replaced
+   * by a new one. Resolves with the result once the queue is empty.
+   */
+  static async enqueue(userId: string, items: SlskdPushItem[]): Promise<SlskdSyncResult> {
+    const now = new Date().toISOString();
+    const current = this.getState();
+    const state: SlskdPushQueueState =
+      current && current.userId === userId && current.status !== 'done'
+        ? { ...current, status: 'running', error: undefined }
+        : {
+            userId,
+            status: 'running',
+            pending: [],
+            currentTrack: '',
+            result: emptyResult(),
+            unrecorded: [],
+            startedAt: now,
+            updatedAt: now,
+          };
+
+    const waiting = new Set(state.pending.map(item => item.id));
+    const added = items.filter(item => !waiting.has(item.id) && waiting.add(item.id));
+    const addedTracks = added.reduce((count, item) => count + itemTracks(item).length, 0);
+    this.setState({
+      ...state,
+      pending: [...state.pending, ...added],
+      result: { ...state.result, totalTracks: state.result.totalTracks + addedTracks },
+    });
+
+    await this.start();
+    return this.getState()?.result ?? emptyResult();
+  }
+
+  /**
+   * Continue a push that a reload interrupted. Does nothing if there is none
+   * for this user, or it is already running.
+   */
+  static resume(userId: string): Promise<void> {
+    const state = this.getState();
+    if (!state || state.userId !== userId || state.status !== 'running') return Promise.resolve();
+    console.log(`🔁 Resuming slskd push: ${state.pending.length} searches left`);
+    return this.start();
+  }
+
+  /**
+   * Stop the push after the requests in flight; the tracks not pushed yet are dropped
+   */
+  static async cancel(): Promise<void> {
+    const state = this.getState();
+    if (!state) return;
+    this.stopRequested = true;
+    await this.running;
+    this.stopRequested = false;
+    this.update(() => ({ pending: [], status: 'done', currentTrack: '', backoffUntil: undefined }));
+    await this.flushRecords(true);
+  }
+
+  /**
+   * Forget a finished push. A running one is kept.
+   */
+  static clear(): void {
+    if (this.running || this.getState()?.status === 'running') return;
+    this.state = null;
+    localStorage.removeItem(QUEUE_STORAGE_KEY);
+    this.listeners.forEach(listener => listener(null));
+  }
+
+  /**
+   * Delay before attempt `attempt + 1` of a track: the server's Retry-After when
+   * it sent one, otherwise exponential from 2s, capped at a minute
+   */
+  static backoffDelay(attempt: number, retryAfterMs: number | null = null): number {
+    if (retryAfterMs !== null) return Math.min(retryAfterMs, BACKOFF_MAX_MS);
+    return Math.min(BACKOFF_BASE_MS * 2 ** (attempt - 1), BACKOFF_MAX_MS);
+  }
+
+  private static start(): Promise<void> {
+    if (!this.running) {
+      this.running = this.run().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private static setState(state: SlskdPushQueueState): void {
+    this.state = { ...state, updatedAt: new Date().toISOString() };
+    localStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(this.state));
+    this.listeners.forEach(listener => listener(this.state ?? null));
+  }
+
+  private static update(changes: (state: SlskdPushQueueState) => Partial<SlskdPushQueueState>): void {
+    const state = this.getState();
+    if (state) this.setState({ ...state, ...changes(state) });
+  }
+
+  private static async run(): Promise<void> {
+    const config = SlskdStorageService.getConfig();
+    const { concurrency, spacingMs } = config.pushPolicy;
+
+    if (!config.apiEndpoint || !config.apiKey) {
+      this.update(() => ({
+        status: 'failed',
+        error: 'slskd not configured. Go to Settings → Security to configure.',
+      }));
+      return;
+    }
+
+    // Every request waits for its slot: past any backoff, and spacingMs after the last one
+    let nextSlot = 0;
+    const waitForSlot = async () => {
+      while (!this.stopRequested) {
+        const backoffUntil = Date.parse(this.getState()?.backoffUntil ?? '') || 0;
+        const wait = Math.max(backoffUntil, nextSlot) - Date.now();
+        if (wait <= 0) break;
+        await sleep(wait);
+      }
+      nextSlot = Date.now() + spacingMs;
+      if (this.getState()?.backoffUntil) this.update(() => ({ backoffUntil: undefined }));
+    };
+
+    // Retry 429 and 5xx with backoff; anything else is thrown
+    const withBackoff = async <T>(request: () => Promise<T>): Promise<T> => {
+      for (let attempt = 1; ; attempt++) {
+        await waitForSlot();
+        if (this.stopRequested) throw new Error('Push cancelled');
+        try {
+          return await request();
+        } catch (error) {
+          if (!(error instanceof SlskdApiError) || !error.isRetryable || attempt >= MAX_PUSH_ATTEMPTS) throw error;
+          const delay = this.backoffDelay(attempt, error.retryAfterMs);
+          console.warn(`⏳ slskd answered ${error.status}, retrying in ${Math.round(delay / 1000)}s`);
+          const until = Date.now() + delay;
+          this.update(state => ({
+            backoffUntil: new Date(Math.max(until, Date.parse(state.backoffUntil ?? '') || 0)).toISOString(),
+          }));
+        }
+      }
+    };
+
+    let existingSearches: SlskdSearchResponse[];
+    try {
+      existingSearches = await withBackoff(() => SlskdClientService.getExistingSearches(config));
+    } catch (error) {
+      console.error('Error starting slskd push:', error);
+      this.update(() => ({
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        backoffUntil: undefined,
+      }));
+      return;
+    }
+
+    const inFlight = new Set<string>();
+
+    const pushItem = async (item: SlskdPushItem) => {
+      const artist = item.primary_artist || item.artist;
+      const tracks = itemTracks(item);
+      const isAlbum = Boolean(item.albumTracks && item.album);
+      const label = isAlbum ? `${artist} - ${item.album} (album)` : `${artist} - ${item.title}`;
+      const searchText = isAlbum
+        ? SlskdClientService.formatAlbumSearchQuery(artist, item.album as string, config.searchFormat)
+        : SlskdClientService.formatSearchQuery(artist, item.title, config.searchFormat);
+      const strategy: SlskdSearchStrategy = isAlbum ? 'album' : 'artist-title';
+      this.update(() => ({ currentTrack: label }));
+
+      let outcome: (result: SlskdSyncResult) => Partial<SlskdSyncResult>;
+      let searchId: string | null | undefined;
+
+      if (SlskdClientService.isSearchDuplicate(existingSearches, searchText)) {
+        searchId = null;
+        outcome = result => ({ skippedCount: result.skippedCount + tracks.length });
+      } else {
+        // Claimed before the request, so another worker doesn't push the same search
+        const claim: SlskdSearchResponse = { id: '', searchText, state: 'InProgress' };
+        existingSearches.push(claim);
+        try {
+          const search = await withBackoff(() => SlskdClientService.addToWishlist(config, searchText));
+          searchId = search.id || null;
+          outcome = result => ({ addedCount: result.addedCount + tracks.length });
+        } catch (error) {
+          existingSearches.splice(existingSearches.indexOf(claim), 1);
+          // Left pending; cancel() drops it
+          if (this.stopRequested) return;
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          outcome = result => ({
+            failedCount: result.failedCount + tracks.length,
+            errors: [...result.errors, { track: label, error: message }],
+          });
+        }
+      }
+
+      // undefined when the search failed
+      let wishlisted = searchId === undefined
+        ? []
+        : tracks.map(track => ({ spotifyTrackId: track.id, searchId: searchId ?? null, strategy }));
+      if (wishlisted.length > 0) {
+        const queuedAt = new Date().toISOString();
+        try {
+          SlskdStorageService.recordDownloadOrigins(tracks.map((track): SlskdDownloadOrigin => ({
+            spotifyTrackId: track.id,
+            title: track.title,
+            artist: track.artist,
+            primary_artist: track.primary_artist,
+            queuedAt,
+          })));
+        } catch (error) {
+          // localStorage full or unavailable: fail this item, the queue carries on
+          console.error('Error recording slskd download origins:', error);
+          const message = `Could not record download origins: ${error instanceof Error ? error.message : 'Unknown error'}`;
+          wishlisted = [];
+          outcome = result => ({
+            failedCount: result.failedCount + tracks.length,
+            errors: [...result.errors, { track: label, error: message }],
+          });
+        }
+      }
+      this.update(state => ({
+        pending: state.pending.filter(pending => pending.id !== item.id),
+        result: {
+          ...state.result,
+          ...outcome(state.result),
+          wishlisted: [...state.result.wishlisted, ...wishlisted],
+        },
+        unrecorded: [...state.unrecorded, ...wishlisted],
+      }));
+    };
+
+    const worker = async () => {
+      for (;;) {
+        if (this.stopRequested) return;
+        const item = this.getState()?.pending.find(pending => !inFlight.has(pending.id));
+        if (!item) return;
+        inFlight.add(item.id);
+        try {
+          await pushItem(item);
+        } finally {
+          inFlight.delete(item.id);
+        }
+        await this.flushRecords(false);
+      }
+    };
+
+    // Items enqueued while the last workers were finishing get a new round
+    while (!this.stopRequested && (this.getState()?.pending.length ?? 0) > 0) {
+      const workers = Math.max(1, Math.min(MAX_PUSH_CONCURRENCY, Math.round(concurrency) || 1));
+      await Promise.all(Array.from({ length: workers }, worker));
+    }
+    if (this.stopRequested) return;
+
+    await this.flushRecords(true);
+    this.update(() => ({ status: 'done', currentTrack: '', backoffUntil: undefined }));
+    const { result } = this.getState() ?? { result: emptyResult() };
+    console.log(`✅ slskd push finished: ${result.addedCount} added, ${result.skippedCount} skipped, ${result.failedCount} failed`);
+  }
+
+  /**
+   * Write wishlisted tracks to track_acquisitions, once a batch has built up
+   * (or whatever is left, with `all`). Entries that fail to save are kept for
+   * the next flush.
+   */
+  private static async flushRecords(all: boolean): Promise<void> {
+    // One write at a time, so no entry is recorded twice
+    while (this.flushing) {
+      if (!all) return;
+      await this.flushing;
+    }
+
+    const state = this.getState();
+    if (!state || state.unrecorded.length === 0) return;
+    if (!all && state.unrecorded.length < RECORD_BATCH_SIZE) return;
+
+    const entries = state.unrecorded;
+    this.flushing = TrackAcquisitionService.recordWishlisted(state.userId, entries)
+      .then(() => {
+        this.update(current => ({ unrecorded: current.unrecorded.filter(entry => !entries.includes(entry)) }));
+      })
+      .catch(() => {
+        // Logged by the service; kept for the next flush
+      })
+      .finally(() => {
+        this.flushing = null;
+      });
+    await this.flushing;
+  }
+}
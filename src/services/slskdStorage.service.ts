@@ -1,51 +1,114 @@
 /**
  * slskd Storage Service
  *
- * Handles localStorage operations for slskd configuration.
- * Configuration is stored locally in the browser, not in Supabase.
+ * Holds the current slskd configuration in memory for synchronous reads. The
+ * source of truth is user_preferences (see SlskdConfigService), which fills
+ * this in after sign-in. Download origins stay in localStorage.
  */
 
-import type { SlskdConfig } from '@/types/slskd';
+import type { SlskdConfig, SlskdDownloadOrigin, SlskdPushPolicy, SlskdQualityPolicy } from '@/types/slskd';
 
-const STORAGE_KEY = 'mako-sync:slskd-config';
+// Where the config lived before it moved to user_preferences; read once to migrate it
+const LEGACY_STORAGE_KEY = 'mako-sync:slskd-config';
+const ORIGINS_STORAGE_KEY = 'mako-sync:slskd-download-origins';
+
+// Oldest origins are dropped past this; slskd itself forgets old transfers too
+const MAX_DOWNLOAD_ORIGINS = 500;
+
+export const DEFAULT_QUALITY_POLICY: SlskdQualityPolicy = {
+  minBitrate: 320,
+  allowedFormats: ['flac', 'mp3', 'm4a'],
+  minSizeMb: 2,
+  maxSizeMb: 200,
+  bannedKeywords: ['snippet', 'preview', 'karaoke'],
+};
+
+export const DEFAULT_PUSH_POLICY: SlskdPushPolicy = {
+  concurrency: 2,
+  spacingMs: 250,
+};
 
 const DEFAULT_CONFIG: SlskdConfig = {
   apiEndpoint: '',
   apiKey: '',
   downloadsFolder: '',
   searchFormat: 'primary',
+  qualityPolicy: DEFAULT_QUALITY_POLICY,
+  pushPolicy: DEFAULT_PUSH_POLICY,
   connectionStatus: false,
 };
 
+type ConfigListener = (config: SlskdConfig) => void;
+
 export class SlskdStorageService {
+  private static config: SlskdConfig = DEFAULT_CONFIG;
+  private static listeners = new Set<ConfigListener>();
+
+  /**
+   * Fill in the defaults for anything a stored config is missing. Configs saved
+   * before the quality or push policy existed get the default policy.
+   */
+  static withDefaults(config: Partial<SlskdConfig> | null | undefined): SlskdConfig {
+    return {
+      ...DEFAULT_CONFIG,
+      ...config,
+      qualityPolicy: { ...DEFAULT_QUALITY_POLICY, ...config?.qualityPolicy },
+      pushPolicy: { ...DEFAULT_PUSH_POLICY, ...config?.pushPolicy },
+    };
+  }
+
   /**
-   * Get slskd configuration from localStorage
+   * Get the current slskd configuration
    */
   static getConfig(): SlskdConfig {
-    try {
-      const stored = localStorage.getItem(STORAGE_KEY);
-      if (!stored) return DEFAULT_CONFIG;
-      return { ...DEFAULT_CONFIG, ...JSON.parse(stored) };
-    } catch {
-      return DEFAULT_CONFIG;
-    }
+    return this.config;
   }
 
   /**
-   * Save slskd configuration to localStorage
+   * Update the current slskd configuration and notify subscribers
    */
   static saveConfig(config: Partial<SlskdConfig>): SlskdConfig {
-    const current = this.getConfig();
-    const updated = { ...current, ...config };
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
-    return updated;
+    this.config = this.withDefaults({ ...this.config, ...config });
+    this.listeners.forEach(listener => listener(this.config));
+    return this.config;
   }
 
   /**
    * Clear slskd configuration
    */
   static clearConfig(): void {
-    localStorage.removeItem(STORAGE_KEY);
+    this.config = DEFAULT_CONFIG;
+    this.listeners.forEach(listener => listener(this.config));
+  }
+
+  /**
+   * Be told whenever the configuration changes. Returns an unsubscribe function.
+   */
+  static subscribe(listener: ConfigListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * The configuration this browser kept in localStorage before it moved to
+   * user_preferences, or null if there is none
+   */
+  static getLegacyConfig(): SlskdConfig | null {
+    try {
+      const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+      return stored ? this.withDefaults(JSON.parse(stored)) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Remove the localStorage configuration once it has been migrated
+   */
+  static clearLegacyConfig(): void {
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
   }
 
   /**
@@ -57,9 +120,28 @@ export class SlskdStorageService {
   }
 
   /**
-   * Get the localStorage key (for storage event listeners)
+   * Get the Spotify tracks recorded for queued downloads and wishlist pushes
+   */
+  static getDownloadOrigins(): SlskdDownloadOrigin[] {
+    try {
+      const stored = localStorage.getItem(ORIGINS_STORAGE_KEY);
+      const parsed = stored ? JSON.parse(stored) : [];
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Record which Spotify tracks downloads are for. An origin for the same file
+   * (or the same wishlist track) replaces the older one.
    */
-  static getStorageKey(): string {
-    return STORAGE_KEY;
+  static recordDownloadOrigins(origins: SlskdDownloadOrigin[]): void {
+    const key = (o: SlskdDownloadOrigin) =>
+      o.filename ? `${o.username}:${o.filename}` : `wishlist:${o.spotifyTrackId}`;
+    const incoming = new Set(origins.map(key));
+    const kept = this.getDownloadOrigins().filter(o => !incoming.has(key(o)));
+    const updated = [...kept, ...origins].slice(-MAX_DOWNLOAD_ORIGINS);
+    localStorage.setItem(ORIGINS_STORAGE_KEY, JSON.stringify(updated));
   }
 }
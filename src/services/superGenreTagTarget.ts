@@ -0,0 +1,167 @@
+/**
+ * SuperGenre Tag Target
+ *
+ * Where the SuperGenre is kept in a file. Grouping is the default; the genre
+ * (replaced, or with the SuperGenre put in front), the comment, a TXXX frame
+ * or one of MediaMonkey's custom fields can be used instead.
+ *
+ * Turns a target into the tag updates the writers apply, and reads the
+ * SuperGenre back from parsed metadata so files already tagged are skipped
+ * and scans pick it up.
+ *
+ * MediaMonkey keeps its custom fields in MP3s as COMM frames described
+ * "Songs-DB_Custom1" to "Songs-DB_Custom5" (see python/fix_comments.py), and
+ * in FLAC and M4A files as CUSTOM1 to CUSTOM5 text fields.
+ */
+
+import type { IAudioMetadata } from 'music-metadata-browser';
+import type { AudioTagUpdates, SuperGenreTagTarget } from '@/types/audioTags';
+import { SUPER_GENRES, type SuperGenre } from '@/types/genreMapping';
+
+export type TaggableFormat = 'mp3' | 'flac' | 'm4a';
+
+export const DEFAULT_SUPER_GENRE_TAG_TARGET: SuperGenreTagTarget = { type: 'grouping' };
+
+/** Separates the SuperGenre from the genre it was put in front of */
+export const GENRE_PREPEND_SEPARATOR = ' / ';
+
+const MP4_FREEFORM_PREFIX = '----:com.apple.iTunes:';
+
+const isSuperGenre = (value: string | undefined): value is SuperGenre =>
+  !!value && SUPER_GENRES.includes(value as SuperGenre);
+
+const mediaMonkeyComment = (field: number) => `Songs-DB_Custom${field}`;
+
+const mediaMonkeyTextField = (field: number) => `CUSTOM${field}`;
+
+/**
+ * Whether a stored value is a valid tag target
+ */
+export function isSuperGenreTagTarget(value: unknown): value is SuperGenreTagTarget {
+  if (!value || typeof value !== 'object') return false;
+  const target = value as Record<string, unknown>;
+
+  switch (target.type) {
+    case 'grouping':
+    case 'comment':
+      return true;
+    case 'genre':
+      return target.mode === 'replace' || target.mode === 'prepend';
+    case 'txxx':
+      return typeof target.description === 'string' && target.description.trim() !== '';
+    case 'mediamonkey':
+      return [1, 2, 3, 4, 5].includes(target.field as number);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Human-readable name of a tag target
+ */
+export function describeTagTarget(target: SuperGenreTagTarget): string {
+  switch (target.type) {
+    case 'grouping':
+      return 'Grouping';
+    case 'genre':
+      return target.mode === 'prepend' ? 'Genre (SuperGenre in front)' : 'Genre (replaced)';
+    case 'comment':
+      return 'Comment';
+    case 'txxx':
+      return `Custom field "${target.description}"`;
+    case 'mediamonkey':
+      return `MediaMonkey Custom${target.field}`;
+  }
+}
+
+/**
+ * Put the SuperGenre in front of a genre: "Deep House" becomes
+ * "House / Deep House". A SuperGenre put there before is replaced.
+ */
+export function prependSuperGenre(genre: string | null | undefined, superGenre: string): string {
+  const parts = (genre ?? '').split('/').map((part) => part.trim()).filter(Boolean);
+
+  if (parts[0] === superGenre) return parts.join(GENRE_PREPEND_SEPARATOR);
+  if (parts.length > 1 && isSuperGenre(parts[0])) parts.shift();
+
+  return [superGenre, ...parts].join(GENRE_PREPEND_SEPARATOR);
+}
+
+/**
+ * The tag updates that write the SuperGenre to the target
+ *
+ * @param currentGenre - The file's genre, for the genre prepend mode
+ */
+export function superGenreTagUpdates(
+  target: SuperGenreTagTarget,
+  superGenre: string,
+  format: TaggableFormat,
+  currentGenre?: string | null
+): AudioTagUpdates {
+  switch (target.type) {
+    case 'grouping':
+      return { grouping: superGenre };
+    case 'genre':
+      return { genre: target.mode === 'prepend' ? prependSuperGenre(currentGenre, superGenre) : superGenre };
+    case 'comment':
+      return { comment: superGenre };
+    case 'txxx':
+      return { userText: { [target.description]: superGenre } };
+    case 'mediamonkey':
+      return format === 'mp3'
+        ? { id3Comments: { [mediaMonkeyComment(target.field)]: superGenre } }
+        : { userText: { [mediaMonkeyTextField(target.field)]: superGenre } };
+  }
+}
+
+/**
+ * Value of a user-defined text field in any format: the TXXX frame in ID3,
+ * the field in Vorbis comments, the freeform item in MP4
+ */
+function readUserText(metadata: IAudioMetadata, name: string): string | null {
+  const ids = [`txxx:${name}`, name, `${MP4_FREEFORM_PREFIX}${name}`].map((id) => id.toLowerCase());
+
+  for (const tags of Object.values(metadata.native)) {
+    const tag = tags.find((t) => ids.includes(t.id.toLowerCase()));
+    if (tag && typeof tag.value === 'string') return tag.value;
+  }
+  return null;
+}
+
+/**
+ * Text of the ID3 comment frame with this description
+ */
+function readId3Comment(metadata: IAudioMetadata, description: string): string | null {
+  const id = `COMM:${description}`.toLowerCase();
+
+  for (const [format, tags] of Object.entries(metadata.native)) {
+    if (!format.startsWith('ID3v2')) continue;
+    const tag = tags.find((t) => t.id.toLowerCase() === id);
+    const text = (tag?.value as { text?: string } | undefined)?.text;
+    if (text) return text;
+  }
+  return null;
+}
+
+/**
+ * Read the SuperGenre back from the target. Grouping and the custom fields
+ * are taken as they are; the genre and the comment hold other values too, so
+ * only a known SuperGenre counts there.
+ */
+export function readSuperGenreTag(metadata: IAudioMetadata, target: SuperGenreTagTarget): string | null {
+  switch (target.type) {
+    case 'grouping':
+      return metadata.common.grouping ?? null;
+    case 'genre': {
+      const first = metadata.common.genre?.[0]?.split('/')[0].trim();
+      return isSuperGenre(first) ? first : null;
+    }
+    case 'comment':
+      return metadata.common.comment?.find(isSuperGenre) ?? null;
+    case 'txxx':
+      return readUserText(metadata, target.description);
+    case 'mediamonkey':
+      return readId3Comment(metadata, mediaMonkeyComment(target.field))
+        ?? readUserText(metadata, mediaMonkeyTextField(target.field));
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * Tag Journal Service
+ *
+ * Undo support for in-place tag writes. Before a file is overwritten, the
+ * byte range where the tagged file differs from the original is found (the
+ * common prefix and suffix are skipped; for every writer this is the tag
+ * area, the audio is untouched) and the original bytes of that range are
+ * journaled in IndexedDB. Reverting splices them back into the file.
+ *
+ * Each processing run starts a new journal keyed by its run id, so only the
+ * last run is kept and only it can be reverted.
+ */
+
+import type { ProcessedFile, TagJournalEntry } from '@/types/slskd';
+import { generateFileHash } from '@/utils/fileHash';
+import {
+  addTagJournalEntry,
+  clearTagJournal,
+  getTagJournal,
+  getTagJournalRun,
+  verifyPermission,
+  writeFileWithHandle,
+} from './directoryHandle.service';
+
+/**
+ * The byte range where `written` differs from `original`
+ */
+export function findChangedRegion(
+  original: Uint8Array,
+  written: Uint8Array
+): { offset: number; originalBytes: Uint8Array; writtenLength: number } {
+  const maxCommon = Math.min(original.length, written.length);
+
+  let prefix = 0;
+  while (prefix < maxCommon && original[prefix] === written[prefix]) prefix++;
+
+  // The suffix can't overlap the prefix in either file
+  let suffix = 0;
+  while (
+    suffix < maxCommon - prefix &&
+    original[original.length - 1 - suffix] === written[written.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  return {
+    offset: prefix,
+    originalBytes: original.slice(prefix, original.length - suffix),
+    writtenLength: written.length - suffix - prefix,
+  };
+}
+
+/**
+ * Build the journal entry for a file about to be overwritten with `written`
+ */
+export async function createTagJournalEntry(
+  runId: string,
+  file: ProcessedFile,
+  original: ArrayBuffer,
+  written: Blob
+): Promise<TagJournalEntry> {
+  const writtenBuffer = await written.arrayBuffer();
+  const region = findChangedRegion(new Uint8Array(original), new Uint8Array(writtenBuffer));
+
+  return {
+    runId,
+    filename: file.filename,
+    relativePath: file.relativePath,
+    fileHandle: file.fileHandle!,
+    offset: region.offset,
+    originalBytes: region.originalBytes.buffer as ArrayBuffer,
+    writtenLength: region.writtenLength,
+    originalHash: await generateFileHash(file.file),
+    writtenHash: await generateFileHash(new File([writtenBuffer], file.filename)),
+    writtenAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Journal a tag write before it happens
+ */
+export async function recordTagWrite(
+  runId: string,
+  file: ProcessedFile,
+  original: ArrayBuffer,
+  written: Blob
+): Promise<void> {
+  await addTagJournalEntry(await createTagJournalEntry(runId, file, original, written));
+}
+
+/**
+ * Rebuild the original file from the written one
+ */
+export function restoreOriginal(current: ArrayBuffer, entry: TagJournalEntry): Blob {
+  return new Blob([
+    current.slice(0, entry.offset),
+    entry.originalBytes,
+    current.slice(entry.offset + entry.writtenLength),
+  ]);
+}
+
+/**
+ * Restore the original tags of every file written in the last processing run.
+ *
+ * Files changed since they were written are left alone and reported. Files
+ * already back to their original content count as reverted, so a failed
+ * revert can be retried. The journal is cleared once every file is reverted.
+ *
+ * Throws without touching any file when the journal holds entries of a run
+ * other than the latest one.
+ */
+export async function revertLastTagRun(
+  onProgress?: (progress: { current: number; total: number; filename: string }) => void
+): Promise<{ reverted: number; errors: Array<{ filename: string; error: string }> }> {
+  const [runId, entries] = await Promise.all([getTagJournalRun(), getTagJournal()]);
+  if (entries.some((entry) => entry.runId !== runId)) {
+    throw new Error('The tag journal is not from the last processing run');
+  }
+
+  const errors: Array<{ filename: string; error: string }> = [];
+  let reverted = 0;
+
+  console.log(`↩️ Reverting tags of ${entries.length} files...`);
+
+  for (const [index, entry] of entries.entries()) {
+    onProgress?.({ current: index + 1, total: entries.length, filename: entry.filename });
+
+    try {
+      if (!(await verifyPermission(entry.fileHandle))) {
+        throw new Error('Permission denied');
+      }
+
+      const current = await entry.fileHandle.getFile();
+      const hash = await generateFileHash(current);
+
+      if (hash !== entry.originalHash) {
+        if (hash !== entry.writtenHash) {
+          throw new Error('File changed since its tags were written');
+        }
+        await writeFileWithHandle(entry.fileHandle, restoreOriginal(await current.arrayBuffer(), entry));
+      }
+      reverted++;
+    } catch (error) {
+      console.error(`Failed to revert tags of ${entry.filename}:`, error);
+      errors.push({
+        filename: entry.filename,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  if (errors.length === 0) {
+    await clearTagJournal();
+  }
+
+  console.log(`✅ Revert complete: ${reverted} reverted, ${errors.length} errors`);
+
+  return { reverted, errors };
+}
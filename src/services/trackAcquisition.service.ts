@@ -0,0 +1,282 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { SlskdSearchStrategy, SlskdTrackToSync } from '@/types/slskd';
+
+/**
+ * One Spotify track's progress from missing to owned. A null timestamp means
+ * that step hasn't happened yet.
+ */
+export interface TrackAcquisition {
+  id: string;
+  spotify_track_id: string;
+  wishlisted_at: string | null;
+  slskd_search_id: string | null;
+  /** Query strategy of the current slskd search */
+  search_strategy: SlskdSearchStrategy | null;
+  /** Strategy whose search returned results; null while none has */
+  found_by_strategy: SlskdSearchStrategy | null;
+  downloaded_at: string | null;
+  downloaded_file_path: string | null;
+  tagged_at: string | null;
+  matched_at: string | null;
+}
+
+/**
+ * A wishlisted track whose slskd search hasn't found anything yet
+ */
+export interface PendingSearch {
+  id: string;
+  slskd_search_id: string;
+  search_strategy: SlskdSearchStrategy | null;
+  track: SlskdTrackToSync;
+}
+
+export type AcquisitionStage = 'wishlisted' | 'downloaded' | 'tagged' | 'matched';
+
+export interface AcquisitionStatus {
+  stage: AcquisitionStage;
+  /** When the track reached its current stage */
+  since: string;
+  /** No progress for ACQUISITION_STUCK_DAYS before reaching 'matched' */
+  stuck: boolean;
+}
+
+/** A track that hasn't moved on for this long is flagged as stuck */
+export const ACQUISITION_STUCK_DAYS = 7;
+
+const ACQUISITION_COLUMNS =
+  'id, spotify_track_id, wishlisted_at, slskd_search_id, search_strategy, found_by_strategy, downloaded_at, downloaded_file_path, tagged_at, matched_at';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const basename = (path: string): string => (path.split(/[\\/]/).pop() || path).toLowerCase();
+
+/**
+ * Where a track is in its acquisition: the latest step reached, and whether it
+ * has been sitting there too long. Null if no step has happened.
+ */
+export function getAcquisitionStatus(acquisition: TrackAcquisition, now: Date = new Date()): AcquisitionStatus | null {
+  const steps: Array<[AcquisitionStage, string | null]> = [
+    ['matched', acquisition.matched_at],
+    ['tagged', acquisition.tagged_at],
+    ['downloaded', acquisition.downloaded_at],
+    ['wishlisted', acquisition.wishlisted_at],
+  ];
+  const current = steps.find(([, at]) => at !== null);
+  if (!current) return null;
+
+  const [stage, since] = current as [AcquisitionStage, string];
+  const stuck = stage !== 'matched' && now.getTime() - new Date(since).getTime() > ACQUISITION_STUCK_DAYS * DAY_MS;
+  return { stage, since, stuck };
+}
+
+export class TrackAcquisitionService {
+  /**
+   * Get the user's acquisition records, keyed by Spotify track id
+   */
+  static async getAcquisitions(userId: string): Promise<Map<string, TrackAcquisition>> {
+    const { data, error } = await supabase
+      .from('track_acquisitions')
+      .select(ACQUISITION_COLUMNS)
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error fetching track acquisitions:', error);
+      throw error;
+    }
+
+    return new Map((data || []).map(row => [row.spotify_track_id, row as TrackAcquisition]));
+  }
+
+  /**
+   * Record tracks pushed to the slskd wishlist. Tracks whose search already
+   * existed keep the search id and strategy recorded the first time.
+   */
+  static async recordWishlisted(
+    userId: string,
+    entries: Array<{ spotifyTrackId: string; searchId: string | null; strategy: SlskdSearchStrategy }>
+  ): Promise<void> {
+    if (entries.length === 0) return;
+    const now = new Date().toISOString();
+
+    // Upserts write every column given, so rows without a search id go separately
+    const withSearch = entries.filter(e => e.searchId).map(e => ({
+      user_id: userId,
+      spotify_track_id: e.spotifyTrackId,
+      wishlisted_at: now,
+      slskd_search_id: e.searchId,
+      search_strategy: e.strategy,
+      updated_at: now,
+    }));
+    const withoutSearch = entries.filter(e => !e.searchId).map(e => ({
+      user_id: userId,
+      spotify_track_id: e.spotifyTrackId,
+      wishlisted_at: now,
+      updated_at: now,
+    }));
+
+    for (const rows of [withSearch, withoutSearch]) {
+      if (rows.length === 0) continue;
+      const { error } = await supabase
+        .from('track_acquisitions')
+        .upsert(rows, { onConflict: 'user_id,spotify_track_id' });
+
+      if (error) {
+        console.error('Error recording wishlisted tracks:', error);
+        throw error;
+      }
+    }
+
+    console.log(`📋 Recorded ${entries.length} wishlisted tracks`);
+  }
+
+  /**
+   * Wishlisted tracks still waiting on their slskd search: not downloaded, and
+   * no strategy has found results yet
+   */
+  static async getPendingSearches(userId: string): Promise<PendingSearch[]> {
+    const { data, error } = await supabase
+      .from('track_acquisitions')
+      .select('id, slskd_search_id, search_strategy, spotify_liked(id, title, artist, primary_artist, album)')
+      .eq('user_id', userId)
+      .not('slskd_search_id', 'is', null)
+      .is('found_by_strategy', null)
+      .is('downloaded_at', null);
+
+    if (error) {
+      console.error('Error fetching pending searches:', error);
+      throw error;
+    }
+
+    return (data || []).flatMap(row => {
+      const liked = row.spotify_liked;
+      if (!row.slskd_search_id || !liked) return [];
+      return [{
+        id: row.id,
+        slskd_search_id: row.slskd_search_id,
+        search_strategy: row.search_strategy as SlskdSearchStrategy | null,
+        track: {
+          id: liked.id,
+          title: liked.title,
+          artist: liked.artist,
+          primary_artist: liked.primary_artist ?? undefined,
+          album: liked.album,
+        },
+      }];
+    });
+  }
+
+  /**
+   * Record that a track's search was replaced by one using the next strategy
+   */
+  static async recordSearchRequeued(id: string, searchId: string, strategy: SlskdSearchStrategy): Promise<void> {
+    const { error } = await supabase
+      .from('track_acquisitions')
+      .update({ slskd_search_id: searchId, search_strategy: strategy, updated_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error recording re-queued search:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record the strategy whose search returned results for a track
+   */
+  static async recordSearchFound(id: string, strategy: SlskdSearchStrategy): Promise<void> {
+    const { error } = await supabase
+      .from('track_acquisitions')
+      .update({ found_by_strategy: strategy, updated_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error recording search strategy:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record that slskd finished downloading a file for a track
+   */
+  static async recordDownloaded(userId: string, spotifyTrackId: string, filePath: string): Promise<void> {
+    const now = new Date().toISOString();
+    const { error } = await supabase
+      .from('track_acquisitions')
+      .upsert(
+        {
+          user_id: userId,
+          spotify_track_id: spotifyTrackId,
+          downloaded_at: now,
+          downloaded_file_path: filePath,
+          updated_at: now,
+        },
+        { onConflict: 'user_id,spotify_track_id' }
+      );
+
+    if (error) {
+      console.error('Error recording downloaded track:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Mark downloaded tracks as tagged, matching the tagged files to downloads by
+   * file name (the local copy keeps the peer's file name). Returns how many
+   * tracks were marked.
+   */
+  static async markTagged(userId: string, filenames: string[]): Promise<number> {
+    if (filenames.length === 0) return 0;
+
+    const { data, error } = await supabase
+      .from('track_acquisitions')
+      .select('id, downloaded_file_path')
+      .eq('user_id', userId)
+      .not('downloaded_file_path', 'is', null)
+      .is('tagged_at', null);
+
+    if (error) {
+      console.error('Error fetching downloaded tracks:', error);
+      throw error;
+    }
+
+    const tagged = new Set(filenames.map(basename));
+    const ids = (data || [])
+      .filter(row => row.downloaded_file_path && tagged.has(basename(row.downloaded_file_path)))
+      .map(row => row.id);
+    if (ids.length === 0) return 0;
+
+    const now = new Date().toISOString();
+    const { error: updateError } = await supabase
+      .from('track_acquisitions')
+      .update({ tagged_at: now, updated_at: now })
+      .in('id', ids);
+
+    if (updateError) {
+      console.error('Error marking tracks tagged:', updateError);
+      throw updateError;
+    }
+
+    console.log(`🏷️ Marked ${ids.length} downloaded tracks as tagged`);
+    return ids.length;
+  }
+
+  /**
+   * Mark tracks as matched by a scan. Tracks matched before keep their first date.
+   */
+  static async markMatched(userId: string, spotifyTrackIds: string[]): Promise<void> {
+    if (spotifyTrackIds.length === 0) return;
+    const now = new Date().toISOString();
+
+    const { error } = await supabase
+      .from('track_acquisitions')
+      .update({ matched_at: now, updated_at: now })
+      .eq('user_id', userId)
+      .in('spotify_track_id', spotifyTrackIds)
+      .is('matched_at', null);
+
+    if (error) {
+      console.error('Error marking tracks matched:', error);
+      throw error;
+    }
+  }
+}
@@ -6,11 +6,23 @@ import {
   extractCoreTitle,
   calculateSimilarity,
   buildLocalIndex,
+  fuzzyCandidates,
+  matchTrack,
   FUZZY_MATCH_THRESHOLD,
+  MATCHING_PROFILES,
+  DEFAULT_MATCHING_PROFILE,
+  type ArtistAliasMap,
+  type MatchDecisions,
+  type MatchingProfileName,
+  type MatchResult,
   type LocalTrack,
   type SpotifyTrack,
 } from './trackMatchingEngine';
 import type { PhysicalMediaRecord } from '@/types/discogs';
+import { ArtistAliasService } from './artistAlias.service';
+import { MatchDecisionService } from './matchDecision.service';
+import { explainMatch, type MatchExplanation } from './matchExplainer';
+import { SlskdAlbumPlannerService } from './slskdAlbumPlanner.service';
 
 export interface VinylFlatTrack {
   recordId: string;
@@ -27,9 +39,34 @@ export interface VinylGapRecord {
   matched: LocalTrack[];
 }
 
-interface MissingTrack {
+export interface MissingTrack {
   spotifyTrack: SpotifyTrack;
   reason: string;
+  /** Set when the user owns the track, but a clearly different version (by duration or mix) */
+  ownedVersion?: {
+    localTrack: LocalTrack;
+    durationDeltaSeconds: number | null;
+    /** Version-aware mode found a different mix, e.g. the original instead of a remix */
+    differentMix: boolean;
+  };
+}
+
+export interface MissingTracksSummary {
+  spotifyTracks: number;
+  matched: number;
+  /** Matches made on ISRC (tier 0) rather than title and artist */
+  isrcMatches: number;
+  /** Matches that came from a confirmed or manually linked match */
+  userConfirmed: number;
+}
+
+export interface MissingTracksAnalysis {
+  missingTracks: MissingTrack[];
+  summary: MissingTracksSummary;
+  /** Spotify tracks that matched a local track */
+  matchedTrackIds: string[];
+  /** Liked tracks per album (by SlskdAlbumPlannerService.albumKey), for planning album searches */
+  albumTrackCounts: Record<string, number>;
 }
 
 // Debug mode - set to true to log detailed matching info for specific tracks
@@ -56,7 +93,7 @@ export class TrackMatchingService {
       const { data, error } = await withTimeout(
         supabase
           .from('local_mp3s')
-          .select('id, title, artist, primary_artist, album, genre, file_path')
+          .select('id, title, artist, primary_artist, featured_artists, album, genre, file_path, duration_seconds, mix, isrc')
           .eq('user_id', userId)
           .range(offset, offset + PAGE_SIZE - 1)
           .then(r => r),
@@ -81,6 +118,29 @@ export class TrackMatchingService {
     return allTracks;
   }
 
+  // Search local tracks by title or artist, for manually linking a Spotify track
+  static async searchLocalTracks(userId: string, query: string, limit = 20): Promise<LocalTrack[]> {
+    // Commas and parentheses would break the PostgREST or() filter; % and *
+    // (PostgREST's alias for %) are wildcards, and _ and \ are escaped so
+    // ILIKE matches them literally
+    const term = query.replace(/[,()%*]/g, ' ').trim().replace(/[\\_]/g, '\\$&');
+    if (!term) return [];
+
+    const { data, error } = await supabase
+      .from('local_mp3s')
+      .select('id, title, artist, primary_artist, featured_artists, album, genre, file_path, duration_seconds, mix, isrc')
+      .eq('user_id', userId)
+      .or(`title.ilike.%${term}%,artist.ilike.%${term}%`)
+      .order('artist', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to search local tracks: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
   // Fetch Spotify tracks for user with optional cascading filters
   static async fetchSpotifyTracks(
     userId: string,
@@ -90,7 +150,7 @@ export class TrackMatchingService {
   ): Promise<SpotifyTrack[]> {
     let query = supabase
       .from('spotify_liked')
-      .select('id, title, artist, primary_artist, album, genre, super_genre, super_genre_manual_override')
+      .select('id, title, artist, primary_artist, featured_artists, album, genre, super_genre, super_genre_manual_override, duration_ms, mix, isrc')
       .eq('user_id', userId)
       .limit(50000); // Override default 1000 limit to handle large collections
 
@@ -121,23 +181,78 @@ export class TrackMatchingService {
     return data || [];
   }
 
+  // Fetch the user's artist aliases. Matching still runs without them if they can't be loaded.
+  static async fetchArtistAliases(userId: string): Promise<ArtistAliasMap> {
+    try {
+      const aliases = await ArtistAliasService.getAliasMap(userId);
+      if (aliases.size > 0) {
+        console.log(`🔗 Loaded ${aliases.size} artist aliases for matching`);
+      }
+      return aliases;
+    } catch (error) {
+      console.warn('⚠️ Could not load artist aliases, matching without them:', error);
+      return new Map();
+    }
+  }
+
+  // Fetch the user's confirmed/rejected matches. Matching still runs without them if they can't be loaded.
+  static async fetchMatchDecisions(): Promise<MatchDecisions> {
+    try {
+      const decisions = await MatchDecisionService.getDecisions();
+      const count = decisions.confirmed.size + decisions.rejected.size;
+      if (count > 0) {
+        console.log(`📌 Loaded match decisions for ${count} Spotify tracks`);
+      }
+      return decisions;
+    } catch (error) {
+      console.warn('⚠️ Could not load match decisions, matching without them:', error);
+      return { confirmed: new Map(), rejected: new Map() };
+    }
+  }
+
   // Find missing tracks (Spotify tracks not in local collection)
-  // Uses three-tier matching: exact → core title → fuzzy
   static async findMissingTracks(
     userId: string,
     superGenreFilter?: string,
     genreFilter?: string,
-    artistFilter?: string
+    artistFilter?: string,
+    profileName: MatchingProfileName = DEFAULT_MATCHING_PROFILE
   ): Promise<MissingTrack[]> {
-    const [localTracks, spotifyTracks] = await Promise.all([
+    const { missingTracks } = await this.analyzeMissingTracks(userId, superGenreFilter, genreFilter, artistFilter, profileName);
+    return missingTracks;
+  }
+
+  // Find missing tracks and summarize how the rest were matched.
+  // Confirmed/rejected matches from the user win; engine results are recorded in track_matches
+  // Uses ISRC first, then three-tier matching: exact → core title → fuzzy, with duration as a tie-breaker.
+  // The matching profile sets the fuzzy threshold, enabled tiers, mix and artist strictness.
+  static async analyzeMissingTracks(
+    userId: string,
+    superGenreFilter?: string,
+    genreFilter?: string,
+    artistFilter?: string,
+    profileName: MatchingProfileName = DEFAULT_MATCHING_PROFILE
+  ): Promise<MissingTracksAnalysis> {
+    const [localTracks, spotifyTracks, aliases, decisions] = await Promise.all([
       this.fetchLocalTracks(userId),
-      this.fetchSpotifyTracks(userId, superGenreFilter, genreFilter, artistFilter)
+      this.fetchSpotifyTracks(userId, superGenreFilter, genreFilter, artistFilter),
+      this.fetchArtistAliases(userId),
+      this.fetchMatchDecisions()
     ]);
 
     const missingTracks: MissingTrack[] = [];
+    const matchedTrackIds: string[] = [];
+    const results: MatchResult[] = [];
+    const summary: MissingTracksSummary = {
+      spotifyTracks: spotifyTracks.length,
+      matched: 0,
+      isrcMatches: 0,
+      userConfirmed: 0,
+    };
+    const profile = MATCHING_PROFILES[profileName];
 
     // Build lookup structures using the engine
-    const localIndex = buildLocalIndex(localTracks);
+    const localIndex = buildLocalIndex(localTracks, aliases);
 
     // Debug: Log local tracks matching debug criteria
     if (DEBUG_MATCHING) {
@@ -174,70 +289,56 @@ export class TrackMatchingService {
     }
 
     for (const spotifyTrack of spotifyTracks) {
-      const spotifyTitle = normalize(spotifyTrack.title);
-      const spotifyCoreTitle = extractCoreTitle(spotifyTrack.title);
-      const spotifyArtist = normalizeArtist(spotifyTrack.primary_artist || spotifyTrack.artist);
-
       const debug = shouldDebug(spotifyTrack.title, spotifyTrack.primary_artist || spotifyTrack.artist);
+      const result = matchTrack(spotifyTrack, localIndex, { decisions, profile });
+      results.push(result);
 
       if (debug) {
         console.log('🔍 DEBUG: Processing Spotify track:');
         console.log(`  🎵 Original: "${spotifyTrack.title}" by "${spotifyTrack.artist}"`);
         console.log(`     Primary artist: "${spotifyTrack.primary_artist}"`);
-        console.log(`     Normalized title: "${spotifyTitle}"`);
-        console.log(`     Core title: "${spotifyCoreTitle}"`);
-        console.log(`     Normalized artist: "${spotifyArtist}"`);
-      }
-
-      // Tier 1: Exact match on full title + artist
-      const exactKey = `${spotifyTitle}_${spotifyArtist}`;
-      if (localIndex.exactSet.has(exactKey)) {
-        if (debug) console.log(`  ✅ Tier 1 MATCH (exact): key="${exactKey}"`);
-        continue;
-      }
-      if (debug) console.log(`  ❌ Tier 1 no match: key="${exactKey}"`);
-
-      // Tier 2: Match on core title (without mix/version) + artist
-      const coreKey = `${spotifyCoreTitle}_${spotifyArtist}`;
-      if (localIndex.coreSet.has(coreKey)) {
-        if (debug) console.log(`  ✅ Tier 2 MATCH (core): key="${coreKey}"`);
-        continue;
-      }
-      if (debug) console.log(`  ❌ Tier 2 no match: key="${coreKey}"`);
-
-      // Tier 3: Fuzzy matching
-      let fuzzyMatch = false;
-      let bestFuzzyMatch: { local: typeof localIndex.normalized[0]; titleSim: number; coreSim: number } | null = null;
-
-      for (const local of localIndex.normalized) {
-        if (local.artist !== spotifyArtist) continue;
-
-        const titleSimilarity = calculateSimilarity(local.title, spotifyTitle);
-        const coreSimilarity = calculateSimilarity(local.coreTitle, spotifyCoreTitle);
-
-        if (debug && (titleSimilarity > 50 || coreSimilarity > 50)) {
-          console.log(`  🔎 Fuzzy candidate: "${local.track.title}"`);
-          console.log(`     Title similarity: ${titleSimilarity.toFixed(1)}%, Core similarity: ${coreSimilarity.toFixed(1)}%`);
+        console.log(`     Normalized title: "${result.normalizedSpotifyTitle}"`);
+        console.log(`     Core title: "${extractCoreTitle(spotifyTrack.title)}"`);
+        console.log(`     Normalized artist: "${result.normalizedSpotifyArtist}"`);
+        if (result.durationDeltaSeconds !== undefined) {
+          console.log(`     Duration delta: ${result.durationDeltaSeconds}s (${result.durationAgreement})`);
         }
+      }
 
-        if (titleSimilarity >= FUZZY_MATCH_THRESHOLD || coreSimilarity >= FUZZY_MATCH_THRESHOLD) {
-          fuzzyMatch = true;
-          bestFuzzyMatch = { local, titleSim: titleSimilarity, coreSim: coreSimilarity };
-          break;
+      if (result.matched) {
+        summary.matched++;
+        matchedTrackIds.push(spotifyTrack.id);
+        if (result.tier === 0) summary.isrcMatches++;
+        if (result.userConfirmed) summary.userConfirmed++;
+        if (debug) {
+          console.log(result.userConfirmed
+            ? `  ✅ User-confirmed MATCH: "${result.matchedLocalTrack?.title}"`
+            : `  ✅ Tier ${result.tier} MATCH: "${result.matchedLocalTrack?.title}"`);
+          if (result.similarity !== undefined) console.log(`     Similarity: ${result.similarity.toFixed(1)}%`);
         }
+        continue;
       }
 
-      if (fuzzyMatch && bestFuzzyMatch) {
+      if (result.versionMismatch && result.matchedLocalTrack) {
+        const differentMix = result.versionAgreement === 'different';
         if (debug) {
-          console.log(`  ✅ Tier 3 MATCH (fuzzy): "${bestFuzzyMatch.local.track.title}"`);
-          console.log(`     Similarity: title=${bestFuzzyMatch.titleSim.toFixed(1)}%, core=${bestFuzzyMatch.coreSim.toFixed(1)}%`);
+          console.log(`  ⚠️  Different version owned: "${result.matchedLocalTrack.title}" (${differentMix ? 'mix' : `${result.durationDeltaSeconds}s`})`);
         }
+        missingTracks.push({
+          spotifyTrack,
+          reason: differentMix ? 'Artist and title owned, but not this remix' : 'Different version owned locally',
+          ownedVersion: {
+            localTrack: result.matchedLocalTrack,
+            durationDeltaSeconds: result.durationDeltaSeconds ?? null,
+            differentMix,
+          },
+        });
         continue;
       }
 
       if (debug) {
-        console.log(`  ❌ Tier 3 no fuzzy match found`);
-        const artistMatches = localIndex.normalized.filter(l => l.artist === spotifyArtist);
+        const spotifyArtist = result.normalizedSpotifyArtist;
+        const artistMatches = localIndex.byArtist.get(spotifyArtist)?.entries ?? [];
         if (artistMatches.length === 0) {
           console.log(`  ⚠️  No local tracks found for artist "${spotifyArtist}"`);
         } else {
@@ -259,7 +360,46 @@ export class TrackMatchingService {
       });
     }
 
-    return missingTracks;
+    // Recording is best-effort: the analysis result doesn't depend on it
+    try {
+      await MatchDecisionService.recordEngineMatches(results);
+    } catch (error) {
+      console.warn('⚠️ Could not record match results:', error);
+    }
+
+    if (summary.isrcMatches > 0) {
+      console.log(`🏷️ ${summary.isrcMatches} of ${summary.matched} matches made on ISRC`);
+    }
+
+    const albumTrackCounts = SlskdAlbumPlannerService.countAlbumTracks(spotifyTracks);
+
+    return { missingTracks, summary, matchedTrackIds, albumTrackCounts };
+  }
+
+  // Explain how one Spotify track matches against the user's library, for the explain-match debugger.
+  // Uses the same aliases, decisions and profile as an analysis run.
+  static async explainTrack(
+    userId: string,
+    spotifyTrackId: string,
+    profileName: MatchingProfileName = DEFAULT_MATCHING_PROFILE
+  ): Promise<MatchExplanation> {
+    const [localTracks, spotifyResult, aliases, decisions] = await Promise.all([
+      this.fetchLocalTracks(userId),
+      supabase
+        .from('spotify_liked')
+        .select('id, title, artist, primary_artist, featured_artists, album, genre, super_genre, super_genre_manual_override, duration_ms, mix, isrc')
+        .eq('id', spotifyTrackId)
+        .single(),
+      this.fetchArtistAliases(userId),
+      this.fetchMatchDecisions()
+    ]);
+
+    if (spotifyResult.error) {
+      throw new Error(`Failed to fetch Spotify track: ${spotifyResult.error.message}`);
+    }
+
+    const localIndex = buildLocalIndex(localTracks, aliases);
+    return explainMatch(spotifyResult.data, localIndex, { decisions, profile: MATCHING_PROFILES[profileName] });
   }
 
   // Cross-reference a vinyl record's Discogs tracklist against the user's local files.
@@ -272,9 +412,12 @@ export class TrackMatchingService {
     matched: LocalTrack[];
     missing: { position: string; title: string }[];
   }> {
-    const localTracks = await this.fetchLocalTracks(userId);
-    const localIndex = buildLocalIndex(localTracks);
-    const normalizedArtist = normalizeArtist(artist);
+    const [localTracks, aliases] = await Promise.all([
+      this.fetchLocalTracks(userId),
+      this.fetchArtistAliases(userId)
+    ]);
+    const localIndex = buildLocalIndex(localTracks, aliases);
+    const normalizedArtist = normalizeArtist(artist, aliases);
 
     const matched: LocalTrack[] = [];
     const missing: { position: string; title: string }[] = [];
@@ -289,7 +432,7 @@ export class TrackMatchingService {
       // Tier 1: exact
       const exactKey = `${normTitle}_${normalizedArtist}`;
       if (localIndex.exactSet.has(exactKey)) {
-        const found = localIndex.normalized.find(l => `${l.title}_${l.artist}` === exactKey);
+        const found = localIndex.exactMap.get(exactKey)?.[0];
         if (found) matched.push(found.track);
         continue;
       }
@@ -297,15 +440,14 @@ export class TrackMatchingService {
       // Tier 2: core title
       const coreKey = `${coreTitle}_${normalizedArtist}`;
       if (localIndex.coreSet.has(coreKey)) {
-        const found = localIndex.normalized.find(l => `${l.coreTitle}_${l.artist}` === coreKey);
+        const found = localIndex.coreMap.get(coreKey)?.[0];
         if (found) matched.push(found.track);
         continue;
       }
 
       // Tier 3: fuzzy
       let fuzzyFound: LocalTrack | null = null;
-      for (const local of localIndex.normalized) {
-        if (local.artist !== normalizedArtist) continue;
+      for (const local of fuzzyCandidates(localIndex, normalizedArtist, normTitle, coreTitle)) {
         const titleSim = calculateSimilarity(local.title, normTitle);
         const coreSim = calculateSimilarity(local.coreTitle, coreTitle);
         if (titleSim >= FUZZY_MATCH_THRESHOLD || coreSim >= FUZZY_MATCH_THRESHOLD) {
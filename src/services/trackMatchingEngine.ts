@@ -17,6 +17,12 @@ export interface LocalTrack {
   album: string | null;
   genre: string | null;
   file_path: string;
+  duration_seconds?: number | null;
+  /** Mix/version as stored at scan time or edited by the user, e.g. "Extended Mix" */
+  mix?: string | null;
+  featured_artists?: string[] | null;
+  /** ISRC from the file's TSRC/ISRC tag, when present */
+  isrc?: string | null;
 }
 
 export interface SpotifyTrack {
@@ -28,13 +34,39 @@ export interface SpotifyTrack {
   genre: string | null;
   super_genre: string | null;
   super_genre_manual_override: boolean;
+  duration_ms?: number | null;
+  featured_artists?: string[] | null;
+  /** Mix/version as stored at sync time, e.g. "THEMBA's Herd Mix" */
+  mix?: string | null;
+  /** ISRC from Spotify's external_ids */
+  isrc?: string | null;
 }
 
+/**
+ * How a local file's duration compares to the Spotify track's.
+ * 'neutral' covers unknown durations and the grey zone between the two thresholds.
+ */
+export type DurationAgreement = 'agree' | 'neutral' | 'differ';
+
+/**
+ * How the mix/version named in two titles compares:
+ * 'same'      – the same named mix, or both the original
+ * 'different' – two different versions, e.g. "Original Mix" vs "THEMBA's Herd Mix"
+ * 'unknown'   – only one side names a version, so the other may be either
+ */
+export type VersionAgreement = 'same' | 'different' | 'unknown';
+
 export interface MatchResult {
   matched: boolean;
-  /** Which tier matched (1=exact, 2=core title, 3=fuzzy), null if no match */
-  tier: 1 | 2 | 3 | null;
+  /**
+   * Which tier matched (0=ISRC, 1=exact, 2=core title, 3=fuzzy or artist overlap),
+   * null if no match or a user decision matched
+   */
+  tier: MatchTier | null;
+  /** Set when a confirmed or manually linked match from the user overrode the engine */
+  userConfirmed?: boolean;
   spotifyTrack: SpotifyTrack;
+  /** Local track that matched; for version mismatches, the version the user owns */
   matchedLocalTrack?: LocalTrack;
   /** Similarity percentage for tier 3 matches */
   similarity?: number;
@@ -42,23 +74,182 @@ export interface MatchResult {
   normalizedSpotifyArtist: string;
   normalizedLocalTitle?: string;
   normalizedLocalArtist?: string;
+  /** Local minus Spotify duration in whole seconds, when both are known */
+  durationDeltaSeconds?: number;
+  durationAgreement?: DurationAgreement;
+  /**
+   * True when title and artist match but every candidate is clearly a different length,
+   * or, in version-aware mode, a different mix
+   */
+  versionMismatch?: boolean;
+  /** Set in version-aware mode; 'different' only accompanies a version mismatch */
+  versionAgreement?: VersionAgreement;
+  /** Artists shared between the two credits, set when the match came from artist overlap */
+  overlappingArtists?: string[];
+}
+
+export interface LocalIndexEntry {
+  track: LocalTrack;
+  title: string;
+  coreTitle: string;
+  artist: string;
+  /** Every credited artist, normalized: primary, featured and collaboration parts */
+  artistNames: string[];
+  /** Individually credited artists, i.e. artistNames without a combined "A, B" credit */
+  creditedArtistCount: number;
+  /** Normalized mix/version, 'original' for the default version, '' when the title names none */
+  mix: string;
+  /** Normalized ISRC, '' when the file has none */
+  isrc: string;
+}
+
+/**
+ * All local entries for one normalized artist, with trigram postings over their
+ * titles and core titles. Postings hold positions in `entries`, ascending.
+ */
+export interface ArtistBucket {
+  entries: LocalIndexEntry[];
+  titleGrams: Map<string, number[]>;
+  coreGrams: Map<string, number[]>;
 }
 
 export interface LocalIndex {
   exactSet: Set<string>;
   coreSet: Set<string>;
-  normalized: Array<{
-    track: LocalTrack;
-    title: string;
-    coreTitle: string;
-    artist: string;
-  }>;
+  /** Same keys as exactSet/coreSet, pointing at the local entries that produced them */
+  exactMap: Map<string, LocalIndexEntry[]>;
+  coreMap: Map<string, LocalIndexEntry[]>;
+  /** Entries bucketed by normalized artist, in library order */
+  byArtist: Map<string, ArtistBucket>;
+  normalized: LocalIndexEntry[];
+  /** Entries by local track id, for resolving stored match decisions */
+  byId: Map<string, LocalIndexEntry>;
+  /** Entries by each individual credited artist, for collaboration matching */
+  byArtistName: Map<string, LocalIndexEntry[]>;
+  /** Entries by normalized ISRC */
+  byIsrc: Map<string, LocalIndexEntry[]>;
+  /** Aliases the index was built with; matchTrack applies the same ones to Spotify artists */
+  aliases: ArtistAliasMap;
+}
+
+/** Normalized alias → normalized canonical artist */
+export type ArtistAliasMap = Map<string, string>;
+
+export interface ArtistAlias {
+  alias: string;
+  canonical_artist: string;
+}
+
+/**
+ * Match decisions the user has made, keyed by Spotify track id. These win over
+ * the engine: a confirmed local track is matched outright, rejected ones are
+ * never offered as candidates again.
+ */
+export interface MatchDecisions {
+  confirmed: Map<string, string>;
+  rejected: Map<string, Set<string>>;
+}
+
+/** 0 = ISRC, 1 = exact, 2 = core title, 3 = fuzzy and artist overlap */
+export type MatchTier = 0 | 1 | 2 | 3;
+
+export type MatchingProfileName = 'strict' | 'balanced' | 'lenient';
+
+/**
+ * How eagerly the engine treats two titles as the same track. DJs who keep several
+ * versions of a track want strict; collectors who only ask "do I have this song"
+ * want lenient.
+ */
+export interface MatchingProfile {
+  name: MatchingProfileName;
+  /** Similarity (0-100) a fuzzy or artist-overlap match needs before the duration bonus */
+  fuzzyThreshold: number;
+  enabledTiers: MatchTier[];
+  /**
+   * 'ignore'        – mix/version info is stripped, "Track (Dub Mix)" matches "Track (Extended Mix)"
+   * 'version-aware' – the mix on each side is compared (see VersionAgreement); a different
+   *                   version is reported as owned-but-not-this-remix instead of a match
+   */
+  mixSensitivity: 'ignore' | 'version-aware';
+  /**
+   * 'lead'   – only the lead artist counts, the artist-overlap pass is off
+   * 'shared' – one shared credited artist is enough for a collaboration
+   * 'all'    – every artist on the shorter credit list must be shared
+   */
+  artistStrictness: 'lead' | 'shared' | 'all';
+}
+
+export interface MatchOptions {
+  decisions?: MatchDecisions;
+  /** Defaults to the balanced profile */
+  profile?: MatchingProfile;
+  /**
+   * Credited artists two tracks must share for the artist-overlap pass, capped at
+   * the smaller credit list so a solo track can still match a collaboration.
+   * Overrides the profile's artist strictness.
+   */
+  minArtistOverlap?: number;
 }
 
 // ---- Constants ----
 
 export const FUZZY_MATCH_THRESHOLD = 85;
 
+/** Durations within this many seconds are treated as the same recording */
+export const DURATION_TOLERANCE_SECONDS = 5;
+
+/** Durations further apart than this are treated as different versions (radio edit vs extended mix) */
+export const DURATION_MISMATCH_SECONDS = 30;
+
+/** Points knocked off the fuzzy threshold when durations agree */
+export const DURATION_FUZZY_BONUS = 5;
+
+export const DEFAULT_MIN_ARTIST_OVERLAP = 1;
+
+// Shared artists required per strictness; null turns the artist-overlap pass off.
+// 'all' is capped at the shorter credit list like any other minimum.
+const MIN_ARTIST_OVERLAP: Record<MatchingProfile['artistStrictness'], number | null> = {
+  lead: null,
+  shared: DEFAULT_MIN_ARTIST_OVERLAP,
+  all: Infinity,
+};
+
+export const MATCHING_PROFILES: Record<MatchingProfileName, MatchingProfile> = {
+  strict: {
+    name: 'strict',
+    fuzzyThreshold: 92,
+    enabledTiers: [0, 1, 2],
+    mixSensitivity: 'version-aware',
+    artistStrictness: 'lead',
+  },
+  balanced: {
+    name: 'balanced',
+    fuzzyThreshold: FUZZY_MATCH_THRESHOLD,
+    enabledTiers: [0, 1, 2, 3],
+    mixSensitivity: 'ignore',
+    artistStrictness: 'shared',
+  },
+  lenient: {
+    name: 'lenient',
+    fuzzyThreshold: 78,
+    enabledTiers: [0, 1, 2, 3],
+    mixSensitivity: 'ignore',
+    artistStrictness: 'shared',
+  },
+};
+
+export const DEFAULT_MATCHING_PROFILE: MatchingProfileName = 'balanced';
+
+export function isMatchingProfileName(value: unknown): value is MatchingProfileName {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(MATCHING_PROFILES, value);
+}
+
+// Separators between credited artists: "A, B", "A & B", "A x B", "A feat. B", "A vs B"...
+const ARTIST_SEPARATOR = /\s*(?:[,;/&+]|\s(?:x|×|and|vs\.?|feat\.?|ft\.?|featuring|with)\s)\s*/i;
+
+/** URL-like junk left in tags by download sites (e.g., "www.djsoundtop.com") */
+export const URL_JUNK_PATTERN = /\bwww\.\S+/gi;
+
 // ---- Singleton normalization service ----
 
 const normalizationService = new NormalizationService();
@@ -74,7 +265,7 @@ export function normalize(str: string | null): string {
   // Use NormalizationService for NFKC + diacritics + punctuation unification
   let normalized = normalizationService.normalize(str);
   // Strip URL-like junk (e.g., "www.djsoundtop.com")
-  normalized = normalized.replace(/\bwww\.\S+/gi, '');
+  normalized = normalized.replace(URL_JUNK_PATTERN, '');
   // Strip feat/ft/featuring clauses (e.g., "feat Palmer Brown", "feat. Ras Stimulant")
   normalized = normalized.replace(/\s+feat\.?\s+.*$/i, '');
   normalized = normalized.replace(/\s+ft\.?\s+.*$/i, '');
@@ -90,7 +281,7 @@ export function normalize(str: string | null): string {
 export function extractCoreTitle(title: string | null): string {
   if (!title) return '';
   // Strip URL junk before version extraction so it doesn't pollute the core
-  let cleaned = title.replace(/\bwww\.\S+/gi, '').trim();
+  let cleaned = title.replace(URL_JUNK_PATTERN, '').trim();
   const { core } = normalizationService.extractVersionInfo(cleaned);
   // Also strip trailing "Original Mix" / "Extended Mix" that may remain unparenthesized
   let coreClean = core.replace(/\s+original\s+mix\s*$/i, '').replace(/\s+extended\s+mix\s*$/i, '').trim();
@@ -103,10 +294,37 @@ export function extractCoreTitle(title: string | null): string {
   return coreNormalized;
 }
 
+// Labels that name the default version rather than a remix. Remasters are the same recording.
+const ORIGINAL_MIX_PATTERN = /^(?:original|original mix|original version|album version|main mix|main version)$|\bremaster/;
+
+/**
+ * Normalized mix/version for version-aware matching. Uses the stored `mix` column
+ * when set, otherwise extracts it from the title the same way the scanner does.
+ * Returns 'original' for default-version labels and '' when no version is named.
+ */
+export function normalizeMix(title: string | null, storedMix?: string | null): string {
+  const mix = storedMix ?? (title ? normalizationService.extractVersionInfo(title).mix : null);
+  const normalized = normalize(mix);
+  return ORIGINAL_MIX_PATTERN.test(normalized) ? 'original' : normalized;
+}
+
 /**
- * Normalize an artist name: full normalization pipeline + strip "The " prefix.
+ * Compare two normalized mixes (see normalizeMix). A plain title is the original,
+ * so it agrees with an explicit "Original Mix" but can't rule out a remix.
  */
-export function normalizeArtist(artist: string | null): string {
+export function compareVersions(spotifyMix: string, localMix: string): VersionAgreement {
+  if (spotifyMix === localMix) return 'same';
+  if (!spotifyMix || !localMix) {
+    return spotifyMix === 'original' || localMix === 'original' ? 'same' : 'unknown';
+  }
+  return calculateSimilarity(spotifyMix, localMix) >= FUZZY_MATCH_THRESHOLD ? 'same' : 'different';
+}
+
+/**
+ * Normalize an artist name: full normalization pipeline + strip "The " prefix,
+ * then resolve through the user's aliases when given.
+ */
+export function normalizeArtist(artist: string | null, aliases?: ArtistAliasMap): string {
   if (!artist) return '';
 
   let normalized = normalize(artist);
@@ -115,7 +333,51 @@ export function normalizeArtist(artist: string | null): string {
     normalized = normalized.slice(4);
   }
 
-  return normalized;
+  return aliases?.get(normalized) ?? normalized;
+}
+
+/**
+ * Every artist credited on a track, normalized and alias-resolved: the full credit,
+ * the primary artist, featured artists, and each collaboration part.
+ * "Purple Disco Machine, Lizzo" → purple disco machine lizzo, purple disco machine, lizzo
+ */
+export function artistNames(
+  track: { artist: string | null; primary_artist: string | null; featured_artists?: string[] | null },
+  aliases?: ArtistAliasMap
+): string[] {
+  const lead = normalizeArtist(track.primary_artist || track.artist, aliases);
+  return [...new Set([lead, ...creditedArtists(track, aliases)].filter(Boolean))];
+}
+
+/** Each individually credited artist, split out of artist, primary_artist and featured_artists */
+function creditedArtists(
+  track: { artist: string | null; primary_artist: string | null; featured_artists?: string[] | null },
+  aliases?: ArtistAliasMap
+): Set<string> {
+  const names = new Set<string>();
+  for (const credit of [track.artist, track.primary_artist, ...(track.featured_artists ?? [])]) {
+    if (!credit) continue;
+    for (const part of credit.split(ARTIST_SEPARATOR)) {
+      const normalized = normalizeArtist(part, aliases);
+      if (normalized) names.add(normalized);
+    }
+  }
+  return names;
+}
+
+/**
+ * Build an alias lookup from stored alias rows. Both sides are normalized, so
+ * "Beyonce Knowles" → "Beyoncé" resolves "BEYONCE KNOWLES" to "beyonce".
+ * Self-referencing and empty entries are dropped.
+ */
+export function buildArtistAliasMap(aliases: ArtistAlias[]): ArtistAliasMap {
+  const map: ArtistAliasMap = new Map();
+  for (const { alias, canonical_artist } of aliases) {
+    const from = normalizeArtist(alias);
+    const to = normalizeArtist(canonical_artist);
+    if (from && to && from !== to) map.set(from, to);
+  }
+  return map;
 }
 
 /** Calculate Levenshtein distance between two strings */
@@ -156,6 +418,38 @@ export function calculateSimilarity(str1: string, str2: string): number {
   return maxLength === 0 ? 100 : ((maxLength - distance) / maxLength) * 100;
 }
 
+/**
+ * Compare a Spotify duration (ms) with a local file duration (seconds).
+ * Returns a null delta when either side is unknown.
+ */
+export function compareDurations(
+  spotifyDurationMs: number | null | undefined,
+  localDurationSeconds: number | null | undefined
+): { delta: number | null; agreement: DurationAgreement } {
+  if (!spotifyDurationMs || !localDurationSeconds) {
+    return { delta: null, agreement: 'neutral' };
+  }
+  const delta = Math.round(localDurationSeconds - spotifyDurationMs / 1000);
+  const abs = Math.abs(delta);
+  if (abs <= DURATION_TOLERANCE_SECONDS) return { delta, agreement: 'agree' };
+  if (abs > DURATION_MISMATCH_SECONDS) return { delta, agreement: 'differ' };
+  return { delta, agreement: 'neutral' };
+}
+
+/**
+ * Padded character trigrams of a string. Padding means every string of length ≥ 0
+ * yields at least one gram, and two strings within FUZZY_MATCH_THRESHOLD similarity
+ * always share at least one gram (each edit can only break three).
+ */
+export function trigrams(str: string): Set<string> {
+  const padded = `  ${str} `;
+  const grams = new Set<string>();
+  for (let i = 0; i + 3 <= padded.length; i++) {
+    grams.add(padded.slice(i, i + 3));
+  }
+  return grams;
+}
+
 /**
  * Strip artist-name prefix from a title if present.
  * Handles "Artist - Title" pattern where artist is embedded in the title field.
@@ -176,48 +470,167 @@ function stripArtistPrefix(title: string | null, artist: string | null, rawArtis
 /**
  * Build lookup structures from local tracks for efficient matching.
  */
-export function buildLocalIndex(localTracks: LocalTrack[]): LocalIndex {
-  const exactSet = new Set(
-    localTracks.map(track => {
-      const artist = track.primary_artist || track.artist;
-      const title = stripArtistPrefix(track.title, artist, track.artist);
-      return `${normalize(title)}_${normalizeArtist(artist)}`;
-    })
-  );
-
-  const coreSet = new Set(
-    localTracks.map(track => {
-      const artist = track.primary_artist || track.artist;
-      const title = stripArtistPrefix(track.title, artist, track.artist);
-      return `${extractCoreTitle(title)}_${normalizeArtist(artist)}`;
-    })
-  );
+export function buildLocalIndex(localTracks: LocalTrack[], aliases: ArtistAliasMap = new Map()): LocalIndex {
+  const exactMap = new Map<string, LocalIndexEntry[]>();
+  const coreMap = new Map<string, LocalIndexEntry[]>();
+
+  const addTo = (map: Map<string, LocalIndexEntry[]>, key: string, entry: LocalIndexEntry) => {
+    const bucket = map.get(key);
+    if (bucket) bucket.push(entry);
+    else map.set(key, [entry]);
+  };
+
+  const byArtist = new Map<string, ArtistBucket>();
+  const byArtistName = new Map<string, LocalIndexEntry[]>();
+  const byIsrc = new Map<string, LocalIndexEntry[]>();
+
+  const post = (grams: Map<string, number[]>, str: string, position: number) => {
+    for (const gram of trigrams(str)) {
+      const postings = grams.get(gram);
+      if (postings) postings.push(position);
+      else grams.set(gram, [position]);
+    }
+  };
 
   const normalized = localTracks.map(track => {
     const artist = track.primary_artist || track.artist;
     const title = stripArtistPrefix(track.title, artist, track.artist);
-    return {
+    const entry: LocalIndexEntry = {
       track,
       title: normalize(title),
       coreTitle: extractCoreTitle(title),
-      artist: normalizeArtist(artist),
+      artist: normalizeArtist(artist, aliases),
+      artistNames: artistNames(track, aliases),
+      creditedArtistCount: creditedArtists(track, aliases).size,
+      mix: normalizeMix(title, track.mix),
+      isrc: normalizationService.normalizeIsrc(track.isrc) ?? '',
     };
+    for (const name of entry.artistNames) addTo(byArtistName, name, entry);
+    if (entry.isrc) addTo(byIsrc, entry.isrc, entry);
+    addTo(exactMap, `${entry.title}_${entry.artist}`, entry);
+    addTo(coreMap, `${entry.coreTitle}_${entry.artist}`, entry);
+
+    let bucket = byArtist.get(entry.artist);
+    if (!bucket) {
+      bucket = { entries: [], titleGrams: new Map(), coreGrams: new Map() };
+      byArtist.set(entry.artist, bucket);
+    }
+    const position = bucket.entries.push(entry) - 1;
+    post(bucket.titleGrams, entry.title, position);
+    post(bucket.coreGrams, entry.coreTitle, position);
+    return entry;
   });
 
-  return { exactSet, coreSet, normalized };
+  return {
+    exactSet: new Set(exactMap.keys()),
+    coreSet: new Set(coreMap.keys()),
+    exactMap,
+    coreMap,
+    byArtist,
+    normalized,
+    byId: new Map(normalized.map(entry => [entry.track.id, entry])),
+    byArtistName,
+    byIsrc,
+    aliases,
+  };
+}
+
+/**
+ * Count, per bucket position, how many of the query's trigrams its string shares.
+ */
+function countSharedGrams(grams: Map<string, number[]>, queryGrams: Set<string>): Map<number, number> {
+  const counts = new Map<number, number>();
+  for (const gram of queryGrams) {
+    for (const p of grams.get(gram) ?? []) counts.set(p, (counts.get(p) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Whether two strings could reach `threshold` similarity given their lengths and
+ * `shared` trigrams. Similarity ≥ threshold allows at most (1 − threshold/100) · max(len)
+ * edits; the length difference alone costs that many, and each edit breaks at most
+ * three of the query's grams. A passing pair always shares at least one gram.
+ */
+function canReachThreshold(shared: number, queryGramCount: number, queryLength: number, candidateLength: number, threshold: number): boolean {
+  const maxEdits = Math.floor(((100 - threshold) / 100) * Math.max(queryLength, candidateLength));
+  if (Math.abs(queryLength - candidateLength) > maxEdits) return false;
+  return shared >= Math.max(1, queryGramCount - 3 * maxEdits);
+}
+
+/**
+ * Local entries by `artist` that could reach `threshold` similarity against `title`
+ * or `coreTitle`, judged by shared trigrams. Lossless: never drops an entry a full
+ * scan would accept. Returned in library order, so the first passing candidate is
+ * the same one a full scan would find.
+ */
+export function fuzzyCandidates(
+  localIndex: LocalIndex,
+  artist: string,
+  title: string,
+  coreTitle: string,
+  threshold: number = FUZZY_MATCH_THRESHOLD - DURATION_FUZZY_BONUS
+): LocalIndexEntry[] {
+  const bucket = localIndex.byArtist.get(artist);
+  if (!bucket) return [];
+
+  const titleGrams = trigrams(title);
+  const coreGrams = trigrams(coreTitle);
+  const titleCounts = countSharedGrams(bucket.titleGrams, titleGrams);
+  const coreCounts = countSharedGrams(bucket.coreGrams, coreGrams);
+
+  const positions: number[] = [];
+  for (const p of new Set([...titleCounts.keys(), ...coreCounts.keys()])) {
+    const entry = bucket.entries[p];
+    if (
+      canReachThreshold(titleCounts.get(p) ?? 0, titleGrams.size, title.length, entry.title.length, threshold) ||
+      canReachThreshold(coreCounts.get(p) ?? 0, coreGrams.size, coreTitle.length, entry.coreTitle.length, threshold)
+    ) {
+      positions.push(p);
+    }
+  }
+  return positions.sort((a, b) => a - b).map(p => bucket.entries[p]);
+}
+
+/**
+ * Pick the best candidate by duration: agreeing lengths first, then unknown or
+ * grey-zone lengths. Returns null when every candidate is clearly a different length.
+ */
+function pickByDuration(
+  spotifyDurationMs: number | null | undefined,
+  candidates: LocalIndexEntry[]
+): { entry: LocalIndexEntry; delta: number | null; agreement: DurationAgreement } | null {
+  let neutral: { entry: LocalIndexEntry; delta: number | null; agreement: DurationAgreement } | null = null;
+  for (const entry of candidates) {
+    const { delta, agreement } = compareDurations(spotifyDurationMs, entry.track.duration_seconds);
+    if (agreement === 'agree') return { entry, delta, agreement };
+    if (agreement === 'neutral' && !neutral) neutral = { entry, delta, agreement };
+  }
+  return neutral;
 }
 
 /**
  * Match a single Spotify track against a local index.
  * Returns detailed result about which tier matched and why.
+ * User decisions, when given, are applied before and during the tiers.
  */
 export function matchTrack(
   spotifyTrack: SpotifyTrack,
-  localIndex: LocalIndex
+  localIndex: LocalIndex,
+  options: MatchOptions = {}
 ): MatchResult {
+  const { decisions, profile = MATCHING_PROFILES[DEFAULT_MATCHING_PROFILE] } = options;
+  const minArtistOverlap = options.minArtistOverlap ?? MIN_ARTIST_OVERLAP[profile.artistStrictness];
+  const tierEnabled = (tier: MatchTier) => profile.enabledTiers.includes(tier);
+  const fuzzyThreshold = (agreement: DurationAgreement) =>
+    agreement === 'agree' ? profile.fuzzyThreshold - DURATION_FUZZY_BONUS : profile.fuzzyThreshold;
+
   const spotifyTitle = normalize(spotifyTrack.title);
   const spotifyCoreTitle = extractCoreTitle(spotifyTrack.title);
-  const spotifyArtist = normalizeArtist(spotifyTrack.primary_artist || spotifyTrack.artist);
+  const versionAware = profile.mixSensitivity === 'version-aware';
+  const spotifyMix = versionAware ? normalizeMix(spotifyTrack.title, spotifyTrack.mix) : '';
+  const spotifyArtist = normalizeArtist(spotifyTrack.primary_artist || spotifyTrack.artist, localIndex.aliases);
+  const spotifyDuration = spotifyTrack.duration_ms;
 
   const baseResult = {
     spotifyTrack,
@@ -225,36 +638,162 @@ export function matchTrack(
     normalizedSpotifyArtist: spotifyArtist,
   };
 
+  const durationFields = (delta: number | null, agreement: DurationAgreement) =>
+    delta === null ? {} : { durationDeltaSeconds: delta, durationAgreement: agreement };
+
+  const versionOf = (entry: LocalIndexEntry): VersionAgreement | undefined =>
+    versionAware ? compareVersions(spotifyMix, entry.mix) : undefined;
+  const versionFields = (entry: LocalIndexEntry) => {
+    const versionAgreement = versionOf(entry);
+    return versionAgreement ? { versionAgreement } : {};
+  };
+
+  // First title/artist hit that was rejected on duration or mix. Reported only if no tier matches.
+  let versionMismatch: MatchResult | null = null;
+  const noteMismatch = (entry: LocalIndexEntry) => {
+    if (versionMismatch) return;
+    const { delta, agreement } = compareDurations(spotifyDuration, entry.track.duration_seconds);
+    versionMismatch = {
+      ...baseResult,
+      matched: false,
+      tier: null,
+      matchedLocalTrack: entry.track,
+      normalizedLocalTitle: entry.title,
+      normalizedLocalArtist: entry.artist,
+      ...durationFields(delta, agreement),
+      ...versionFields(entry),
+      versionMismatch: true,
+    };
+  };
+
+  // Version-aware mode: a different mix is never a match. Candidates naming the
+  // same mix are tried before those that leave the version unknown.
+  const sameVersion = (entries: LocalIndexEntry[] | undefined) => {
+    if (!versionAware || !entries?.length) return entries;
+    const same = entries.filter(entry => versionOf(entry) === 'same');
+    const unknown = entries.filter(entry => versionOf(entry) === 'unknown');
+    if (same.length + unknown.length < entries.length) {
+      noteMismatch(entries.find(entry => versionOf(entry) === 'different')!);
+    }
+    return [...same, ...unknown];
+  };
+
+  // A confirmed or manually linked local track wins, as long as it is still in the library
+  const confirmedId = decisions?.confirmed.get(spotifyTrack.id);
+  const confirmed = confirmedId ? localIndex.byId.get(confirmedId) : undefined;
+  if (confirmed) {
+    const { delta, agreement } = compareDurations(spotifyDuration, confirmed.track.duration_seconds);
+    return {
+      ...baseResult,
+      matched: true,
+      tier: null,
+      userConfirmed: true,
+      matchedLocalTrack: confirmed.track,
+      normalizedLocalTitle: confirmed.title,
+      normalizedLocalArtist: confirmed.artist,
+      ...durationFields(delta, agreement),
+    };
+  }
+
+  // Local tracks the user rejected for this Spotify track are never candidates
+  const rejected = decisions?.rejected.get(spotifyTrack.id);
+  const allowed = (entries: LocalIndexEntry[] | undefined) =>
+    rejected && entries ? entries.filter(entry => !rejected.has(entry.track.id)) : entries;
+
+  // Tier 0: ISRC. The same code means the same recording, whatever the tags say,
+  // so title, artist, duration and mix are not checked.
+  const isrc = tierEnabled(0) ? normalizationService.normalizeIsrc(spotifyTrack.isrc) : null;
+  const isrcMatch = isrc ? allowed(localIndex.byIsrc.get(isrc))?.[0] : undefined;
+  if (isrcMatch) {
+    const { delta, agreement } = compareDurations(spotifyDuration, isrcMatch.track.duration_seconds);
+    return {
+      ...baseResult,
+      matched: true,
+      tier: 0,
+      matchedLocalTrack: isrcMatch.track,
+      normalizedLocalTitle: isrcMatch.title,
+      normalizedLocalArtist: isrcMatch.artist,
+      ...durationFields(delta, agreement),
+    };
+  }
+
   // Tier 1: Exact match on full title + artist
   const exactKey = `${spotifyTitle}_${spotifyArtist}`;
-  if (localIndex.exactSet.has(exactKey)) {
-    return { ...baseResult, matched: true, tier: 1 };
+  const exactCandidates = tierEnabled(1) ? sameVersion(allowed(localIndex.exactMap.get(exactKey))) : undefined;
+  if (exactCandidates?.length) {
+    const pick = pickByDuration(spotifyDuration, exactCandidates);
+    if (pick) {
+      return {
+        ...baseResult,
+        matched: true,
+        tier: 1,
+        matchedLocalTrack: pick.entry.track,
+        ...durationFields(pick.delta, pick.agreement),
+        ...versionFields(pick.entry),
+      };
+    }
+    noteMismatch(exactCandidates[0]);
   }
 
   // Tier 2: Core title match (without mix/version) + artist
   const coreKey = `${spotifyCoreTitle}_${spotifyArtist}`;
-  if (localIndex.coreSet.has(coreKey)) {
-    return { ...baseResult, matched: true, tier: 2 };
+  const coreCandidates = tierEnabled(2) ? sameVersion(allowed(localIndex.coreMap.get(coreKey))) : undefined;
+  if (coreCandidates?.length) {
+    const pick = pickByDuration(spotifyDuration, coreCandidates);
+    if (pick) {
+      return {
+        ...baseResult,
+        matched: true,
+        tier: 2,
+        matchedLocalTrack: pick.entry.track,
+        ...durationFields(pick.delta, pick.agreement),
+        ...versionFields(pick.entry),
+      };
+    }
+    noteMismatch(coreCandidates[0]);
   }
 
   // Tier 2b: Cross-compare — Spotify full title vs local core title (or vice versa).
   // Handles cases where one side includes mix info that the other stripped.
   // E.g., Spotify "Zombie (THEMBA's Herd Mix)" vs local core "zombie thembas herd mix"
-  for (const local of localIndex.normalized) {
-    if (local.artist !== spotifyArtist) continue;
+  const crossCandidates = tierEnabled(2) ? localIndex.byArtist.get(spotifyArtist)?.entries ?? [] : [];
+  for (const local of crossCandidates) {
+    if (rejected?.has(local.track.id)) continue;
     if (spotifyTitle === local.coreTitle || spotifyCoreTitle === local.title) {
-      return { ...baseResult, matched: true, tier: 2, matchedLocalTrack: local.track };
+      const { delta, agreement } = compareDurations(spotifyDuration, local.track.duration_seconds);
+      if (agreement === 'differ' || versionOf(local) === 'different') {
+        noteMismatch(local);
+        continue;
+      }
+      return {
+        ...baseResult,
+        matched: true,
+        tier: 2,
+        matchedLocalTrack: local.track,
+        ...durationFields(delta, agreement),
+        ...versionFields(local),
+      };
     }
   }
 
-  // Tier 3: Fuzzy matching
-  for (const local of localIndex.normalized) {
-    if (local.artist !== spotifyArtist) continue;
+  // Tier 3: Fuzzy matching. Agreeing durations lower the bar slightly.
+  const fuzzyPool = tierEnabled(3)
+    ? fuzzyCandidates(localIndex, spotifyArtist, spotifyTitle, spotifyCoreTitle, profile.fuzzyThreshold - DURATION_FUZZY_BONUS)
+    : [];
+  for (const local of fuzzyPool) {
+    if (rejected?.has(local.track.id)) continue;
+
+    const { delta, agreement } = compareDurations(spotifyDuration, local.track.duration_seconds);
+    const threshold = fuzzyThreshold(agreement);
 
     const titleSim = calculateSimilarity(local.title, spotifyTitle);
     const coreSim = calculateSimilarity(local.coreTitle, spotifyCoreTitle);
 
-    if (titleSim >= FUZZY_MATCH_THRESHOLD || coreSim >= FUZZY_MATCH_THRESHOLD) {
+    if (titleSim >= threshold || coreSim >= threshold) {
+      if (agreement === 'differ' || versionOf(local) === 'different') {
+        noteMismatch(local);
+        continue;
+      }
       return {
         ...baseResult,
         matched: true,
@@ -263,10 +802,62 @@ export function matchTrack(
         similarity: Math.max(titleSim, coreSim),
         normalizedLocalTitle: local.title,
         normalizedLocalArtist: local.artist,
+        ...durationFields(delta, agreement),
+        ...versionFields(local),
       };
     }
   }
 
+  // Tier 3b: Artist overlap. Tiers above need the same lead artist; this catches
+  // collaborations credited differently on each side, e.g. Spotify "Lizzo" vs
+  // local "Purple Disco Machine, Lizzo". A shared artist is weaker evidence than the
+  // same lead artist, so the full title (mix included) must clear the fuzzy bar.
+  const overlapEnabled = tierEnabled(3) && minArtistOverlap !== null;
+  const spotifyArtistNames = overlapEnabled ? artistNames(spotifyTrack, localIndex.aliases) : [];
+  const spotifyCreditCount = overlapEnabled ? creditedArtists(spotifyTrack, localIndex.aliases).size : 0;
+  const sharedNames = new Map<LocalIndexEntry, string[]>();
+  for (const name of spotifyArtistNames) {
+    for (const entry of localIndex.byArtistName.get(name) ?? []) {
+      // Same lead artist was already judged by tiers 1-3
+      if (entry.artist === spotifyArtist || rejected?.has(entry.track.id)) continue;
+      const shared = sharedNames.get(entry);
+      if (shared) shared.push(name);
+      else sharedNames.set(entry, [name]);
+    }
+  }
+
+  // Candidates sharing the lead Spotify artist come first, each group in library order
+  for (const [local, shared] of sharedNames) {
+    const required = Math.min(minArtistOverlap!, spotifyCreditCount, local.creditedArtistCount);
+    if (shared.length < required) continue;
+
+    const { delta, agreement } = compareDurations(spotifyDuration, local.track.duration_seconds);
+    const threshold = fuzzyThreshold(agreement);
+
+    const titleSim = calculateSimilarity(local.title, spotifyTitle);
+
+    if (titleSim >= threshold) {
+      if (agreement === 'differ' || versionOf(local) === 'different') {
+        noteMismatch(local);
+        continue;
+      }
+      return {
+        ...baseResult,
+        matched: true,
+        tier: 3,
+        matchedLocalTrack: local.track,
+        similarity: titleSim,
+        normalizedLocalTitle: local.title,
+        normalizedLocalArtist: local.artist,
+        overlappingArtists: shared,
+        ...durationFields(delta, agreement),
+        ...versionFields(local),
+      };
+    }
+  }
+
+  if (versionMismatch) return versionMismatch;
+
   // No match
   return { ...baseResult, matched: false, tier: null };
 }
@@ -277,8 +868,10 @@ export function matchTrack(
  */
 export function findMissingTracksPure(
   spotifyTracks: SpotifyTrack[],
-  localTracks: LocalTrack[]
+  localTracks: LocalTrack[],
+  aliases?: ArtistAliasMap,
+  options?: MatchOptions
 ): MatchResult[] {
-  const localIndex = buildLocalIndex(localTracks);
-  return spotifyTracks.map(st => matchTrack(st, localIndex));
+  const localIndex = buildLocalIndex(localTracks, aliases);
+  return spotifyTracks.map(st => matchTrack(st, localIndex, options));
 }
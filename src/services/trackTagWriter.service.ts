@@ -0,0 +1,179 @@
+/**
+ * Track Tag Writer Service
+ *
+ * Writes tags edited in the track editor back to the audio file, so the
+ * local_mp3s row and the file on disk don't drift apart. MP3 goes through the
+ * ID3 writer, FLAC through the Vorbis Comment writer and M4A through the MP4
+ * atom writer. After a write the row's hash, size and last_modified are
+ * refreshed from the new file, so the next scan sees it as unchanged.
+ */
+
+import { parseBlob, type IAudioMetadata } from 'music-metadata-browser';
+import { supabase } from '@/integrations/supabase/client';
+import type { TablesUpdate } from '@/integrations/supabase/types';
+import { generateFileHash } from '@/utils/fileHash';
+import { withTimeout } from '@/utils/promiseUtils';
+import type { AudioTags, AudioTagUpdates, EditableTagField } from '@/types/audioTags';
+import { writeFileWithHandle } from './directoryHandle.service';
+import { writeFlacTags } from './flacTagWriter';
+import { writeId3Tags } from './id3TagWriter';
+import { writeMp4Tags } from './mp4TagWriter';
+
+// Timeout for parsing a file's tags (30 seconds)
+const PARSE_TIMEOUT_MS = 30000;
+
+const WRITABLE_EXTENSIONS = ['mp3', 'flac', 'm4a'];
+
+export const TAG_FIELD_LABELS: Record<EditableTagField, string> = {
+  title: 'Title',
+  artist: 'Artist',
+  album: 'Album',
+  year: 'Year',
+  genre: 'Genre',
+  bpm: 'BPM',
+  key: 'Key',
+  comment: 'Comment',
+};
+
+export interface TagChange {
+  field: EditableTagField;
+  label: string;
+  /** Value in the file now */
+  from: string | number | null;
+  /** Value to write; null removes the tag */
+  to: string | number | null;
+}
+
+export interface TagWriteBackResult {
+  hash: string;
+  file_size: number;
+  last_modified: string;
+}
+
+const extension = (filename: string) => filename.toLowerCase().split('.').pop() ?? '';
+
+/** Empty strings count as no value */
+const normalizeValue = (value: string | number | null): string | number | null =>
+  typeof value === 'string' ? value.trim() || null : value;
+
+export class TrackTagWriterService {
+  /**
+   * Whether tags can be written to a file of this type
+   */
+  static canWrite(filename: string): boolean {
+    return WRITABLE_EXTENSIONS.includes(extension(filename));
+  }
+
+  private static parse(file: File, skipCovers: boolean): Promise<IAudioMetadata> {
+    return withTimeout(
+      parseBlob(file, { includeChapters: false, skipCovers }),
+      PARSE_TIMEOUT_MS,
+      `Metadata parsing timed out for ${file.name}`
+    );
+  }
+
+  /**
+   * Read the editable tags from a file
+   */
+  static async readTags(file: File): Promise<AudioTags> {
+    const { common, native } = await this.parse(file, true);
+
+    // M4A keeps the key in a freeform item that isn't mapped to common.key
+    const nativeKey = Object.values(native)
+      .flat()
+      .find(tag => /^(TKEY|INITIALKEY|----:com\.apple\.iTunes:initialkey)$/i.test(tag.id));
+
+    return {
+      title: common.title ?? null,
+      artist: common.artist ?? null,
+      album: common.album ?? null,
+      year: common.year ?? null,
+      genre: common.genre?.[0] ?? null,
+      bpm: common.bpm ? Math.round(common.bpm) : null,
+      key: common.key ?? (typeof nativeKey?.value === 'string' ? nativeKey.value : null),
+      comment: common.comment?.[0] ?? null,
+    };
+  }
+
+  /**
+   * The tags that differ between the file and the edited values
+   */
+  static diffTags(current: AudioTags, next: AudioTags): TagChange[] {
+    return (Object.keys(TAG_FIELD_LABELS) as EditableTagField[])
+      .map(field => ({
+        field,
+        label: TAG_FIELD_LABELS[field],
+        from: normalizeValue(current[field]),
+        to: normalizeValue(next[field]),
+      }))
+      .filter(change => change.from !== change.to);
+  }
+
+  /**
+   * The tag updates that apply a diff
+   */
+  static toUpdates(changes: TagChange[]): AudioTagUpdates {
+    return Object.fromEntries(changes.map(change => [change.field, change.to]));
+  }
+
+  /**
+   * Build the file with the updated tags, leaving every other tag as it is
+   */
+  static async writeTags(file: File, updates: AudioTagUpdates): Promise<Blob> {
+    const ext = extension(file.name);
+
+    switch (ext) {
+      case 'mp3':
+        // Parsed with covers so the ID3 rewrite keeps the artwork
+        return writeId3Tags(await file.arrayBuffer(), await this.parse(file, false), updates);
+      case 'flac':
+        return writeFlacTags(await file.arrayBuffer(), updates);
+      case 'm4a':
+        return writeMp4Tags(await file.arrayBuffer(), updates);
+      default:
+        throw new Error(`Tag writing not supported for .${ext} files`);
+    }
+  }
+
+  /**
+   * Whether a picked file is the one a track row was scanned from
+   */
+  static async isScannedFile(file: File, hash: string | null): Promise<boolean> {
+    return hash !== null && (await generateFileHash(file)) === hash;
+  }
+
+  /**
+   * Write the updated tags to the file behind `handle`, then refresh the
+   * track row's hash, size and last_modified from the written file. Any
+   * `row` columns are updated in the same query.
+   */
+  static async writeBack(
+    trackId: string,
+    handle: FileSystemFileHandle,
+    updates: AudioTagUpdates,
+    row: TablesUpdate<'local_mp3s'> = {}
+  ): Promise<TagWriteBackResult> {
+    const file = await handle.getFile();
+    await writeFileWithHandle(handle, await this.writeTags(file, updates));
+
+    const written = await handle.getFile();
+    const result: TagWriteBackResult = {
+      hash: await generateFileHash(written),
+      file_size: written.size,
+      last_modified: new Date(written.lastModified).toISOString(),
+    };
+
+    const { error } = await supabase
+      .from('local_mp3s')
+      .update({ ...row, ...result })
+      .eq('id', trackId);
+
+    if (error) {
+      console.error('Error updating track after writing tags:', error);
+      throw error;
+    }
+
+    console.log(`🏷️ Wrote ${Object.keys(updates).length} tags to ${file.name}`);
+    return result;
+  }
+}
@@ -0,0 +1,89 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import type { SuperGenreTagTarget } from '@/types/audioTags';
+import { DEFAULT_SUPER_GENRE_TAG_TARGET, isSuperGenreTagTarget } from './superGenreTagTarget';
+import {
+  DEFAULT_MATCHING_PROFILE,
+  isMatchingProfileName,
+  type MatchingProfileName,
+} from './trackMatchingEngine';
+
+export class UserPreferencesService {
+  /**
+   * Get the user's matching profile, or the default when none has been saved
+   */
+  static async getMatchingProfile(userId: string): Promise<MatchingProfileName> {
+    const { data, error } = await supabase
+      .from('user_preferences')
+      .select('matching_profile')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching matching profile:', error);
+      throw error;
+    }
+
+    return isMatchingProfileName(data?.matching_profile) ? data.matching_profile : DEFAULT_MATCHING_PROFILE;
+  }
+
+  /**
+   * Save the user's matching profile, creating their preferences row if needed
+   */
+  static async setMatchingProfile(userId: string, profile: MatchingProfileName): Promise<void> {
+    const { error } = await supabase
+      .from('user_preferences')
+      .upsert(
+        { user_id: userId, matching_profile: profile, updated_at: new Date().toISOString() },
+        { onConflict: 'user_id' }
+      );
+
+    if (error) {
+      console.error('Error saving matching profile:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the tag the user's SuperGenres are written to, or Grouping when none
+   * has been saved
+   */
+  static async getSuperGenreTagTarget(userId: string): Promise<SuperGenreTagTarget> {
+    const { data, error } = await supabase
+      .from('user_preferences')
+      .select('super_genre_tag_target')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching SuperGenre tag target:', error);
+      throw error;
+    }
+
+    return isSuperGenreTagTarget(data?.super_genre_tag_target)
+      ? data.super_genre_tag_target
+      : DEFAULT_SUPER_GENRE_TAG_TARGET;
+  }
+
+  /**
+   * Save the tag the user's SuperGenres are written to, creating their
+   * preferences row if needed
+   */
+  static async setSuperGenreTagTarget(userId: string, target: SuperGenreTagTarget): Promise<void> {
+    const { error } = await supabase
+      .from('user_preferences')
+      .upsert(
+        {
+          user_id: userId,
+          super_genre_tag_target: target as unknown as Json,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'user_id' }
+      );
+
+    if (error) {
+      console.error('Error saving SuperGenre tag target:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,395 @@
+/**
+ * Fake slskd Server
+ *
+ * A small in-memory stand-in for the slskd REST API, for integration tests and
+ * for working on the slskd features without a Soulseek account. Covers the
+ * endpoints Mako uses: application, session, searches (with responses) and
+ * download transfers.
+ *
+ * Behaviour is scripted rather than timed so tests are deterministic: a search
+ * stays InProgress for a number of reads before reaching its scripted state,
+ * and a download moves from queued to downloading to its outcome the same way.
+ * The server can also answer every request with 401, delay each response, or
+ * fail the next few requests with a status such as 429 or 503.
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { randomUUID } from 'node:crypto';
+import type {
+  SlskdSearchPeerResponse,
+  SlskdSearchResponse,
+  SlskdTransfer,
+  SlskdUserTransfers,
+} from '../../types/slskd';
+
+export interface FakeSearchScript {
+  /** Search text this script applies to; the first matching script wins */
+  match: RegExp | string;
+  /** State once the search is done */
+  state: Exclude<SlskdSearchResponse['state'], 'InProgress'>;
+  /** Reads that still report InProgress before the final state (default 1) */
+  pollsUntilDone?: number;
+  /** Peer responses, returned once the search is done; a function gets the search text */
+  responses?: SlskdSearchPeerResponse[] | ((searchText: string) => SlskdSearchPeerResponse[]);
+}
+
+export interface FakeTransferScript {
+  /** Filename this script applies to; the first matching script wins */
+  match: RegExp | string;
+  outcome: 'succeeded' | 'errored' | 'rejected';
+  /** Reads before the transfer reaches its outcome (default 3: queued, downloading, then the outcome) */
+  pollsUntilDone?: number;
+}
+
+export interface FakeSlskdOptions {
+  /** Key expected in X-API-Key (default 'fake-api-key') */
+  apiKey?: string;
+  /** Answer every request with 401, as slskd does for a wrong or revoked key */
+  unauthorized?: boolean;
+  /** Delay before each response, to simulate a slow instance */
+  delayMs?: number;
+  /** Whether slskd reports being logged in to Soulseek (default true) */
+  loggedIn?: boolean;
+  /** Scripts for searches; searches matching none complete with no responses */
+  searches?: FakeSearchScript[];
+  /** Scripts for downloads; downloads matching none succeed */
+  transfers?: FakeTransferScript[];
+}
+
+interface FakeSearch {
+  search: SlskdSearchResponse;
+  script: FakeSearchScript;
+  reads: number;
+}
+
+interface FakeTransfer {
+  transfer: SlskdTransfer;
+  script: FakeTransferScript;
+  reads: number;
+}
+
+export interface FakeFailureOptions {
+  /** Requests to fail (default 1) */
+  times?: number;
+  /** Only fail requests with this method, e.g. 'POST' */
+  method?: string;
+  /** Sent as the Retry-After header */
+  retryAfterSeconds?: number;
+}
+
+interface FakeFailure extends FakeFailureOptions {
+  status: number;
+  remaining: number;
+}
+
+const DEFAULT_SEARCH_SCRIPT: FakeSearchScript = { match: '', state: 'Completed', responses: [] };
+const DEFAULT_TRANSFER_SCRIPT: FakeTransferScript = { match: '', outcome: 'succeeded' };
+
+const matches = (pattern: RegExp | string, text: string): boolean =>
+  typeof pattern === 'string' ? text.toLowerCase().includes(pattern.toLowerCase()) : pattern.test(text);
+
+const directoryOf = (filename: string): string => filename.split(/[\\/]/).slice(0, -1).join('\\');
+
+/**
+ * Peer responses that look like a real search result for `searchText`: a FLAC
+ * and a 320kbps MP3 named after it, from two peers
+ */
+export function fakePeerResponses(searchText: string): SlskdSearchPeerResponse[] {
+  const name = searchText.replace(/[\\/:*?"<>|]/g, '');
+  return [
+    {
+      username: 'fake-peer-1',
+      fileCount: 1,
+      files: [{ filename: `Music\\${name}\\${name}.flac`, size: 34_000_000, extension: 'flac', bitDepth: 16, sampleRate: 44100, length: 360 }],
+      hasFreeUploadSlot: true,
+      uploadSpeed: 2_000_000,
+      queueLength: 0,
+    },
+    {
+      username: 'fake-peer-2',
+      fileCount: 1,
+      files: [{ filename: `Shared\\${name}.mp3`, size: 14_000_000, extension: 'mp3', bitRate: 320, length: 360 }],
+      hasFreeUploadSlot: false,
+      uploadSpeed: 500_000,
+      queueLength: 3,
+    },
+  ];
+}
+
+export class FakeSlskd {
+  private options: FakeSlskdOptions;
+  private readonly searches = new Map<string, FakeSearch>();
+  private readonly transfers = new Map<string, FakeTransfer>();
+  private readonly failures: FakeFailure[] = [];
+  private server: Server | null = null;
+
+  constructor(options: FakeSlskdOptions = {}) {
+    this.options = options;
+  }
+
+  get apiKey(): string {
+    return this.options.apiKey ?? 'fake-api-key';
+  }
+
+  /**
+   * Change the scripted behaviour, e.g. to revoke the key part way through a test
+   */
+  configure(options: Partial<FakeSlskdOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  /**
+   * Answer the next authorised requests with `status`, e.g. 429 to simulate
+   * rate limiting
+   */
+  failNext(status: number, options: FakeFailureOptions = {}): void {
+    this.failures.push({ ...options, status, remaining: options.times ?? 1 });
+  }
+
+  /** Every search created so far, in creation order */
+  getSearches(): SlskdSearchResponse[] {
+    return [...this.searches.values()].map(entry => entry.search);
+  }
+
+  /** Every download queued so far, in creation order */
+  getTransfers(): SlskdTransfer[] {
+    return [...this.transfers.values()].map(entry => entry.transfer);
+  }
+
+  /**
+   * Start listening on `port` (0 picks a free one). Resolves with the base URL
+   * to use as the slskd API endpoint.
+   */
+  listen(port = 0, host = '127.0.0.1'): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const server = createServer((req, res) => {
+        this.handle(req, res).catch((error: unknown) => {
+          this.send(res, 500, { error: error instanceof Error ? error.message : String(error) });
+        });
+      });
+      server.once('error', reject);
+      server.listen(port, host, () => {
+        this.server = server;
+        const address = server.address() as AddressInfo;
+        resolve(`http://${host}:${address.port}`);
+      });
+    });
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.server) return resolve();
+      this.server.close(error => (error ? reject(error) : resolve()));
+      this.server = null;
+    });
+  }
+
+  /**
+   * Handle one request. Usable as Node or Connect middleware, so it can be
+   * mounted on another server (see the Vite plugin).
+   */
+  async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (this.options.delayMs) {
+      await new Promise(resolve => setTimeout(resolve, this.options.delayMs));
+    }
+
+    if (req.method === 'OPTIONS') {
+      this.send(res, 204);
+      return;
+    }
+    if (this.options.unauthorized || req.headers['x-api-key'] !== this.apiKey) {
+      this.send(res, 401, 'Unauthorized', 'text/plain');
+      return;
+    }
+    const failure = this.failures.find(f => !f.method || f.method === req.method);
+    if (failure) {
+      if (--failure.remaining <= 0) this.failures.splice(this.failures.indexOf(failure), 1);
+      if (failure.retryAfterSeconds !== undefined) res.setHeader('Retry-After', String(failure.retryAfterSeconds));
+      this.send(res, failure.status, `Fake failure (${failure.status})`, 'text/plain');
+      return;
+    }
+
+    const url = new URL(req.url ?? '/', 'http://fake-slskd');
+    const path = url.pathname.replace(/\/+$/, '');
+    const method = req.method ?? 'GET';
+    let m: RegExpMatchArray | null;
+
+    if (method === 'GET' && path === '/api/v0/application') {
+      const loggedIn = this.options.loggedIn ?? true;
+      this.send(res, 200, {
+        version: { current: '0.0.0-fake' },
+        server: { state: loggedIn ? 'Connected, LoggedIn' : 'Disconnected', isConnected: loggedIn, isLoggedIn: loggedIn },
+      });
+    } else if (method === 'GET' && path === '/api/v0/session') {
+      this.send(res, 200, { username: 'fake-user', isLoggedIn: this.options.loggedIn ?? true });
+    } else if (method === 'GET' && path === '/api/v0/searches') {
+      this.send(res, 200, [...this.searches.values()].map(entry => this.readSearch(entry)));
+    } else if (method === 'POST' && path === '/api/v0/searches') {
+      const body = await this.readJson<{ searchText?: string }>(req);
+      if (!body?.searchText) {
+        this.send(res, 400, 'searchText is required', 'text/plain');
+        return;
+      }
+      const search: SlskdSearchResponse = {
+        id: randomUUID(),
+        searchText: body.searchText,
+        state: 'InProgress',
+        responseCount: 0,
+        fileCount: 0,
+        startedAt: new Date().toISOString(),
+      };
+      const script = this.options.searches?.find(s => matches(s.match, body.searchText as string)) ?? DEFAULT_SEARCH_SCRIPT;
+      this.searches.set(search.id, { search, script, reads: 0 });
+      this.send(res, 200, search);
+    } else if ((m = path.match(/^\/api\/v0\/searches\/([^/]+)\/responses$/)) && method === 'GET') {
+      const entry = this.searches.get(decodeURIComponent(m[1]));
+      if (!entry) return this.send(res, 404, 'Not found', 'text/plain');
+      this.send(res, 200, entry.search.state === 'InProgress' ? [] : this.responsesFor(entry));
+    } else if ((m = path.match(/^\/api\/v0\/searches\/([^/]+)$/))) {
+      const id = decodeURIComponent(m[1]);
+      const entry = this.searches.get(id);
+      if (!entry) return this.send(res, 404, 'Not found', 'text/plain');
+      if (method === 'DELETE') {
+        this.searches.delete(id);
+        this.send(res, 204);
+      } else {
+        this.send(res, 200, this.readSearch(entry));
+      }
+    } else if (method === 'GET' && path === '/api/v0/transfers/downloads') {
+      this.send(res, 200, this.readTransfers());
+    } else if ((m = path.match(/^\/api\/v0\/transfers\/downloads\/([^/]+)$/)) && method === 'POST') {
+      const username = decodeURIComponent(m[1]);
+      const files = await this.readJson<Array<{ filename: string; size: number }>>(req);
+      if (!Array.isArray(files) || files.length === 0) {
+        this.send(res, 400, 'At least one file is required', 'text/plain');
+        return;
+      }
+      for (const file of files) {
+        const script = this.options.transfers?.find(s => matches(s.match, file.filename)) ?? DEFAULT_TRANSFER_SCRIPT;
+        const transfer: SlskdTransfer = {
+          id: randomUUID(),
+          username,
+          filename: file.filename,
+          size: file.size,
+          state: 'Queued, Remotely',
+          bytesTransferred: 0,
+          averageSpeed: 0,
+          percentComplete: 0,
+          requestedAt: new Date().toISOString(),
+        };
+        this.transfers.set(transfer.id, { transfer, script, reads: 0 });
+      }
+      this.send(res, 201);
+    } else if ((m = path.match(/^\/api\/v0\/transfers\/downloads\/([^/]+)\/([^/]+)$/)) && method === 'DELETE') {
+      const id = decodeURIComponent(m[2]);
+      const entry = this.transfers.get(id);
+      if (!entry || entry.transfer.username !== decodeURIComponent(m[1])) {
+        return this.send(res, 404, 'Not found', 'text/plain');
+      }
+      if (!entry.transfer.state.startsWith('Completed')) {
+        entry.transfer = { ...entry.transfer, state: 'Completed, Cancelled', endedAt: new Date().toISOString() };
+      }
+      if (url.searchParams.get('remove') === 'true') this.transfers.delete(id);
+      this.send(res, 204);
+    } else {
+      this.send(res, 404, `No fake for ${method} ${path}`, 'text/plain');
+    }
+  }
+
+  /** Count a read of a search and move it on if its script says so */
+  private readSearch(entry: FakeSearch): SlskdSearchResponse {
+    entry.reads++;
+    if (entry.search.state === 'InProgress' && entry.reads > (entry.script.pollsUntilDone ?? 1)) {
+      const responses = this.responsesFor(entry);
+      entry.search = {
+        ...entry.search,
+        state: entry.script.state,
+        responseCount: responses.length,
+        fileCount: responses.reduce((sum, r) => sum + r.files.length, 0),
+        endedAt: new Date().toISOString(),
+      };
+    }
+    return entry.search;
+  }
+
+  private responsesFor(entry: FakeSearch): SlskdSearchPeerResponse[] {
+    const { state, responses } = entry.script;
+    if (state !== 'Completed' || !responses) return [];
+    return typeof responses === 'function' ? responses(entry.search.searchText) : responses;
+  }
+
+  /** Count a read of the downloads and move each one on */
+  private readTransfers(): SlskdUserTransfers[] {
+    const byUser = new Map<string, Map<string, SlskdTransfer[]>>();
+
+    for (const entry of this.transfers.values()) {
+      entry.reads++;
+      const done = entry.script.pollsUntilDone ?? 3;
+      const { transfer } = entry;
+      if (!transfer.state.startsWith('Completed')) {
+        if (entry.reads >= done) {
+          const succeeded = entry.script.outcome === 'succeeded';
+          entry.transfer = {
+            ...transfer,
+            state: succeeded ? 'Completed, Succeeded' : entry.script.outcome === 'rejected' ? 'Completed, Rejected' : 'Completed, Errored',
+            bytesTransferred: succeeded ? transfer.size : transfer.bytesTransferred,
+            percentComplete: succeeded ? 100 : transfer.percentComplete,
+            averageSpeed: 0,
+            exception: succeeded ? undefined : entry.script.outcome === 'rejected' ? 'Enqueue rejected' : 'Transfer failed: remote connection closed',
+            endedAt: new Date().toISOString(),
+          };
+        } else if (entry.reads > 1) {
+          const percent = Math.round((entry.reads - 1) / (done - 1) * 100);
+          entry.transfer = {
+            ...transfer,
+            state: 'InProgress',
+            percentComplete: percent,
+            bytesTransferred: Math.round(transfer.size * percent / 100),
+            averageSpeed: 1_500_000,
+          };
+        }
+      }
+
+      const directories = byUser.get(entry.transfer.username) ?? new Map<string, SlskdTransfer[]>();
+      const directory = directoryOf(entry.transfer.filename);
+      directories.set(directory, [...(directories.get(directory) ?? []), entry.transfer]);
+      byUser.set(entry.transfer.username, directories);
+    }
+
+    return [...byUser].map(([username, directories]) => ({
+      username,
+      directories: [...directories].map(([directory, files]) => ({ directory, fileCount: files.length, files })),
+    }));
+  }
+
+  private async readJson<T>(req: IncomingMessage): Promise<T | null> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const text = Buffer.concat(chunks).toString('utf8');
+    if (!text) return null;
+    try {
+      return JSON.parse(text) as T;
+    } catch {
+      return null;
+    }
+  }
+
+  private send(res: ServerResponse, status: number, body?: unknown, contentType = 'application/json'): void {
+    res.statusCode = status;
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Headers', 'X-API-Key, Content-Type');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+    res.setHeader('Access-Control-Expose-Headers', 'Retry-After');
+    if (body === undefined) {
+      res.end();
+      return;
+    }
+    res.setHeader('Content-Type', contentType);
+    res.end(typeof body === 'string' ? body : JSON.stringify(body));
+  }
+}
+
+export function createFakeSlskd(options: FakeSlskdOptions = {}): FakeSlskd {
+  return new FakeSlskd(options);
+}
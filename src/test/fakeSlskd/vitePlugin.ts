@@ -0,0 +1,44 @@
+/**
+ * Mounts the fake slskd server on the Vite dev server, so the slskd features
+ * can be tried during `npm run dev` without a real instance. Point the slskd
+ * settings at http://localhost:8080/__fake-slskd with API key "fake-api-key".
+ *
+ * Dev scenario: searches for a remix or other version time out (so the query
+ * fallbacks kick in), everything else finds a FLAC and an MP3. Downloads take
+ * a few polls; ones from the MP3 peer fail, to try out retry.
+ */
+
+import type { Plugin } from 'vite';
+import { createFakeSlskd, fakePeerResponses } from './fakeSlskdServer';
+
+export const FAKE_SLSKD_PATH = '/__fake-slskd';
+
+export function fakeSlskdPlugin(): Plugin {
+  return {
+    name: 'mako-fake-slskd',
+    apply: 'serve',
+    configureServer(server) {
+      const fake = createFakeSlskd({
+        delayMs: 150,
+        searches: [
+          { match: /\(.*\)|\[.*\]|remix|mix\b|edit\b/i, state: 'TimedOut', pollsUntilDone: 2 },
+          { match: '', state: 'Completed', pollsUntilDone: 2, responses: fakePeerResponses },
+        ],
+        transfers: [
+          { match: /^Shared\\/, outcome: 'errored', pollsUntilDone: 3 },
+          { match: '', outcome: 'succeeded', pollsUntilDone: 6 },
+        ],
+      });
+
+      server.middlewares.use(FAKE_SLSKD_PATH, (req, res) => {
+        fake.handle(req, res).catch(error => {
+          res.statusCode = 500;
+          res.end(error instanceof Error ? error.message : String(error));
+        });
+      });
+      server.httpServer?.once('listening', () => {
+        server.config.logger.info(`  ➜  Fake slskd: ${FAKE_SLSKD_PATH} (API key "${fake.apiKey}")`);
+      });
+    },
+  };
+}
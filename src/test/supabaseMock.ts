@@ -0,0 +1,10 @@
+import type { supabase } from '@/integrations/supabase/client';
+
+type QueryBuilder = ReturnType<typeof supabase.from>;
+
+/**
+ * Type a partial query builder mock as what supabase.from returns, for
+ * vi.mocked(supabase.from).mockReturnValue / mockImplementation. Only the
+ * chain the code under test calls needs to be mocked.
+ */
+export const queryBuilder = (mock: object): QueryBuilder => mock as unknown as QueryBuilder;
@@ -0,0 +1,76 @@
+/**
+ * Audio Tag Types
+ *
+ * Shared by the MP3 (ID3), FLAC (Vorbis Comment) and M4A (iTunes atom) tag
+ * writers and the track tag editor.
+ */
+
+/**
+ * Tag values to write to an audio file. A field left undefined keeps the
+ * file's value; null removes the tag.
+ */
+export interface AudioTagUpdates {
+  title?: string | null;
+  artist?: string | null;
+  album?: string | null;
+  year?: number | null;
+  genre?: string | null;
+  bpm?: number | null;
+  key?: string | null;
+  comment?: string | null;
+  /** Grouping, where the SuperGenre is kept by default */
+  grouping?: string | null;
+  /**
+   * User-defined text fields by name: TXXX frames in ID3, fields in Vorbis
+   * comments, freeform iTunes items in MP4
+   */
+  userText?: Record<string, string | null>;
+  /** ID3 comment frames by description; ignored by the other formats */
+  id3Comments?: Record<string, string | null>;
+}
+
+/**
+ * The standard tags, written to the same field in every file
+ */
+export type AudioTagField = Exclude<keyof AudioTagUpdates, 'userText' | 'id3Comments'>;
+
+/**
+ * Tags the track editor can change
+ */
+export type EditableTagField = Exclude<AudioTagField, 'grouping'>;
+
+/**
+ * Current values of the editable tags
+ */
+export type AudioTags = Required<Pick<AudioTagUpdates, EditableTagField>>;
+
+/**
+ * Text tags a batch operation can change
+ */
+export type BatchTextField = 'title' | 'artist' | 'album' | 'genre' | 'comment';
+
+/**
+ * One operation of the batch tag editor, applied to every selected track
+ */
+export type BatchTagOperation =
+  | { type: 'replace'; field: BatchTextField; find: string; replace: string; matchCase: boolean }
+  | { type: 'set'; field: BatchTextField; value: string }
+  | { type: 'titleCase'; field: BatchTextField }
+  | { type: 'stripUrls'; field: BatchTextField }
+  /** Move a "feat. X" clause from the title to the artist */
+  | { type: 'moveFeaturing' };
+
+/** MediaMonkey's custom fields, Custom1 to Custom5 */
+export type MediaMonkeyCustomField = 1 | 2 | 3 | 4 | 5;
+
+/**
+ * Where the SuperGenre is written in a file
+ */
+export type SuperGenreTagTarget =
+  | { type: 'grouping' }
+  /** Replace the genre, or put the SuperGenre in front of it */
+  | { type: 'genre'; mode: 'replace' | 'prepend' }
+  | { type: 'comment' }
+  /** A user-defined text field (TXXX frame) with this description */
+  | { type: 'txxx'; description: string }
+  | { type: 'mediamonkey'; field: MediaMonkeyCustomField };
@@ -13,10 +13,33 @@ export interface SlskdConfig {
   apiKey: string;                // slskd API key
   downloadsFolder: string;       // e.g., "D:\Downloads\slskd"
   searchFormat: 'primary' | 'full';  // Search query format preference
+  qualityPolicy: SlskdQualityPolicy; // Which search results may be downloaded
+  pushPolicy: SlskdPushPolicy;   // How fast wishlist pushes hit the API
   lastConnectionTest?: string;   // ISO timestamp
   connectionStatus: boolean;     // Last known connection status
 }
 
+/**
+ * Rules a search result file must pass to be downloaded. Files that fail are
+ * still listed, ranked last with the reason, and never auto-picked.
+ */
+export interface SlskdQualityPolicy {
+  minBitrate: number;            // kbps, lossy formats only; 0 allows any
+  allowedFormats: string[];      // Lowercase extensions, e.g. ["flac", "mp3"]
+  minSizeMb: number;
+  maxSizeMb: number;             // 0 for no limit
+  bannedKeywords: string[];      // Matched as words in the file path, e.g. "snippet"
+}
+
+/**
+ * Pacing for bulk wishlist pushes. Responses of 429 and 5xx pause every
+ * worker and are retried with backoff.
+ */
+export interface SlskdPushPolicy {
+  concurrency: number;           // Searches created at the same time, 1-5
+  spacingMs: number;             // Minimum gap between two requests
+}
+
 /**
  * Request body for creating a new search/wishlist item
  */
@@ -33,6 +56,147 @@ export interface SlskdSearchResponse {
   state: 'InProgress' | 'Completed' | 'Errored' | 'TimedOut' | 'Cancelled';
   responseCount?: number;
   fileCount?: number;
+  startedAt?: string;
+  endedAt?: string;
+}
+
+/**
+ * Why a wishlist search can be cleaned up: it has finished, no Spotify track
+ * links to it, or it is no longer useful (its track is matched locally, or it
+ * has sat in the wishlist too long)
+ */
+export type SlskdWishlistCategory = 'finished' | 'orphaned' | 'stale';
+
+/**
+ * A slskd search as shown in the wishlist view
+ */
+export interface SlskdWishlistEntry {
+  search: SlskdSearchResponse;
+  /** Days since the search started; null if slskd didn't report a start time */
+  ageDays: number | null;
+  /** Spotify track the search was queued for, when Mako queued it */
+  spotifyTrackId: string | null;
+  /** The linked Spotify track is now matched to a local file */
+  matched: boolean;
+  categories: SlskdWishlistCategory[];
+}
+
+/**
+ * Ways of phrasing a track's search, tried in this order until one finds files:
+ * "Artist - Title", primary artist + title without mix, title alone,
+ * transliterated/de-accented artist + title, and finally the album
+ */
+export type SlskdSearchStrategy = 'artist-title' | 'core-title' | 'title-only' | 'transliterated' | 'album';
+
+/**
+ * One search to try for a track
+ */
+export interface SlskdSearchAttempt {
+  strategy: SlskdSearchStrategy;
+  searchText: string;
+}
+
+/**
+ * A file in a peer's search response
+ */
+export interface SlskdSearchFile {
+  filename: string;              // Full path on the peer, e.g. "Music\\Artist\\01 - Title.flac"
+  size: number;                  // Bytes
+  extension?: string;
+  bitRate?: number;              // kbps, lossy formats only
+  bitDepth?: number;
+  sampleRate?: number;
+  length?: number;               // Seconds
+  isLocked?: boolean;            // Only downloadable by the peer's buddies
+}
+
+/**
+ * One peer's response to a search, from /api/v0/searches/{id}/responses
+ */
+export interface SlskdSearchPeerResponse {
+  username: string;
+  fileCount: number;
+  files: SlskdSearchFile[];
+  hasFreeUploadSlot: boolean;
+  uploadSpeed: number;           // Bytes per second
+  queueLength: number;
+}
+
+/**
+ * A search result file scored against the Spotify track it should replace.
+ * Each score is 0-1; `score` is their weighted total.
+ */
+export interface SlskdCandidate {
+  username: string;
+  file: SlskdSearchFile;
+  format: string;                // Lowercase extension, e.g. "flac"
+  hasFreeUploadSlot: boolean;
+  uploadSpeed: number;
+  queueLength: number;
+  similarity: number;            // Filename vs "artist - title"
+  formatScore: number;
+  bitrateScore: number;
+  sizeScore: number;
+  score: number;
+  rejectedReason: string | null; // Why the quality policy rejects this file
+}
+
+/**
+ * A file to enqueue with POST /api/v0/transfers/downloads/{username}
+ */
+export interface SlskdDownloadRequest {
+  filename: string;
+  size: number;
+}
+
+/**
+ * A download as reported by /api/v0/transfers/downloads.
+ * `state` is a flags string, e.g. "Queued, Remotely" or "Completed, Errored".
+ */
+export interface SlskdTransfer {
+  id: string;
+  username: string;
+  filename: string;
+  size: number;
+  state: string;
+  bytesTransferred: number;
+  averageSpeed: number;          // Bytes per second
+  percentComplete: number;
+  exception?: string;            // Failure reason, when the transfer errored
+  requestedAt?: string;
+  endedAt?: string;
+}
+
+/**
+ * One peer's downloads, grouped by remote directory
+ */
+export interface SlskdUserTransfers {
+  username: string;
+  directories: Array<{
+    directory: string;
+    fileCount: number;
+    files: SlskdTransfer[];
+  }>;
+}
+
+/**
+ * Simplified transfer state shown in Mako
+ */
+export type SlskdTransferStatus = 'queued' | 'downloading' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * The Spotify track a download was queued for, kept in localStorage.
+ * Tracks pushed to the wishlist have no username/filename yet; their downloads
+ * are started in slskd itself and linked by file name.
+ */
+export interface SlskdDownloadOrigin {
+  spotifyTrackId: string;
+  title: string;
+  artist: string;
+  primary_artist?: string;
+  username?: string;
+  filename?: string;
+  queuedAt: string;              // ISO timestamp
 }
 
 /**
@@ -52,6 +216,29 @@ export interface SlskdSyncResult {
   skippedCount: number;
   failedCount: number;
   errors: SlskdSyncError[];
+  /** Tracks now in the wishlist; searchId is null when the search already existed */
+  wishlisted: Array<{ spotifyTrackId: string; searchId: string | null; strategy: SlskdSearchStrategy }>;
+}
+
+/**
+ * A bulk wishlist push, kept in localStorage so it survives navigation and
+ * resumes after a reload. Its result covers every run of the push.
+ */
+export interface SlskdPushQueueState {
+  userId: string;
+  status: 'running' | 'done' | 'failed';
+  /** Tracks and albums not pushed yet, in order */
+  pending: SlskdPushItem[];
+  currentTrack: string;
+  result: SlskdSyncResult;
+  /** Wishlisted tracks not yet written to track_acquisitions */
+  unrecorded: SlskdSyncResult['wishlisted'];
+  /** Set while slskd is rate limiting or erroring, until the next attempt */
+  backoffUntil?: string;
+  /** Why the push stopped, when it failed */
+  error?: string;
+  startedAt: string;
+  updatedAt: string;
 }
 
 /**
@@ -71,6 +258,15 @@ export interface SlskdTrackToSync {
   artist: string;
   primary_artist?: string;
   album?: string | null;
+  duration_ms?: number | null;   // Used to spot previews and other versions in search results
+}
+
+/**
+ * One search in a wishlist push: a track, or with `albumTracks`, an album
+ * search standing in for those tracks
+ */
+export interface SlskdPushItem extends SlskdTrackToSync {
+  albumTracks?: SlskdTrackToSync[];
 }
 
 // =============================================================================
@@ -88,6 +284,13 @@ declare global {
       mode?: 'read' | 'readwrite';
       startIn?: 'desktop' | 'documents' | 'downloads' | 'music' | 'pictures' | 'videos';
     }) => Promise<FileSystemDirectoryHandle>;
+    showOpenFilePicker?: (options?: {
+      id?: string;
+      multiple?: boolean;
+      excludeAcceptAllOption?: boolean;
+      types?: Array<{ description?: string; accept: Record<string, string[]> }>;
+      startIn?: 'desktop' | 'documents' | 'downloads' | 'music' | 'pictures' | 'videos';
+    }) => Promise<FileSystemFileHandle[]>;
   }
 }
 
@@ -149,3 +352,29 @@ export interface ProcessingProgress {
   total: number;
   currentFile: string;
 }
+
+/**
+ * Undo record for one in-place tag write, kept in IndexedDB. The written
+ * file differs from the original only in one byte range (the tag area), so
+ * only that range of the original is kept.
+ */
+export interface TagJournalEntry {
+  /** Processing run the write belonged to */
+  runId: string;
+  filename: string;
+  /** Relative path from the downloads folder */
+  relativePath: string;
+  /** Handle of the written file, to restore it */
+  fileHandle: FileSystemFileHandle;
+  /** Where the written file starts to differ from the original */
+  offset: number;
+  /** The original bytes that were replaced at `offset` */
+  originalBytes: ArrayBuffer;
+  /** Number of bytes written in their place */
+  writtenLength: number;
+  /** SHA-256 of the original file */
+  originalHash: string;
+  /** SHA-256 of the written file, to tell whether it changed since */
+  writtenHash: string;
+  writtenAt: string;
+}
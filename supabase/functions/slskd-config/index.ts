@@ -0,0 +1,214 @@
+// deploy
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.100.0"
+import { Pool } from "https://deno.land/x/postgres@v0.17.0/mod.ts"
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const log = (level: 'info' | 'warn' | 'error', message: string, context?: Record<string, unknown>) => {
+  console.log(JSON.stringify({
+    timestamp: new Date().toISOString(),
+    level: level.toUpperCase(),
+    service: 'slskd-config-edge-function',
+    message,
+    ...context,
+  }))
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+
+/**
+ * Name prefix of a user's slskd API key secrets. The secret ID in
+ * user_preferences is writable by the user, so a secret is only read or
+ * deleted when its name carries the caller's prefix.
+ */
+const secretNamePrefix = (userId: string) => `slskd_api_key_${userId}_`
+
+/** Delete one of the user's Vault secrets (best-effort — non-fatal if it fails). */
+async function deleteSecret(pool: Pool, secretId: string, userId: string): Promise<void> {
+  try {
+    const conn = await pool.connect()
+    try {
+      await conn.queryObject`
+        DELETE FROM vault.secrets
+        WHERE id = ${secretId} AND starts_with(name, ${secretNamePrefix(userId)})
+      `
+    } finally {
+      conn.release()
+    }
+  } catch (e: unknown) {
+    log('warn', 'Non-fatal: failed to delete old slskd API key secret', {
+      userId,
+      error: e instanceof Error ? e.message : String(e),
+    })
+  }
+}
+
+// ─── Main handler ──────────────────────────────────────────────────────────
+//   The slskd API key lives in Vault; user_preferences keeps only its secret
+//   ID. The browser talks to slskd directly, so `get_api_key` hands the key
+//   back to its owner — the secret ID is always read from the caller's own
+//   preferences row (RLS), never taken from the request, and only a secret
+//   named for the caller is used (see secretNamePrefix).
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // ── Auth: every action requires a valid Supabase session ──────────────
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: req.headers.get('Authorization')! } } },
+    )
+
+    const { data: { user } } = await supabaseClient.auth.getUser()
+    if (!user) {
+      return json({ error: 'Unauthorized', code: 'AUTH_REQUIRED' }, 401)
+    }
+
+    const dbUrl = Deno.env.get('SUPABASE_DB_URL')
+    if (!dbUrl) {
+      log('error', 'SUPABASE_DB_URL not configured')
+      return json({ error: 'Database connection not configured', code: 'MISSING_DATABASE_URL' }, 500)
+    }
+
+    const body = await req.json()
+    const { action } = body
+    log('info', 'slskd-config called', { action, userId: user.id })
+
+    const { data: prefs, error: prefsError } = await supabaseClient
+      .from('user_preferences')
+      .select('slskd_api_key_secret_id')
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (prefsError) {
+      log('error', 'Failed to read user_preferences', { userId: user.id, error: prefsError.message })
+      return json({ error: `Database error: ${prefsError.message}`, code: 'DATABASE_READ_FAILED' }, 500)
+    }
+
+    const existingSecretId: string | null = prefs?.slskd_api_key_secret_id ?? null
+
+    // ── ACTION: get_api_key ───────────────────────────────────────────────
+    if (action === 'get_api_key') {
+      if (!existingSecretId) return json({ api_key: null })
+
+      const pool = new Pool(dbUrl, 1)
+      try {
+        const conn = await pool.connect()
+        try {
+          const result = await conn.queryObject<{ decrypted_secret: string }>`
+            SELECT decrypted_secret
+            FROM vault.decrypted_secrets
+            WHERE id = ${existingSecretId} AND starts_with(name, ${secretNamePrefix(user.id)})
+          `
+          if (!result.rows[0]?.decrypted_secret) {
+            log('warn', 'slskd API key not found in Vault or not owned by the user', { userId: user.id })
+            return json({ api_key: null })
+          }
+          return json({ api_key: result.rows[0].decrypted_secret })
+        } finally {
+          conn.release()
+        }
+      } catch (vaultError: unknown) {
+        const msg = vaultError instanceof Error ? vaultError.message : String(vaultError)
+        log('error', 'Vault read failed', { userId: user.id, error: msg })
+        return json({ error: 'Failed to read slskd API key', code: 'VAULT_READ_FAILED' }, 500)
+      } finally {
+        await pool.end()
+      }
+    }
+
+    // ── ACTION: store_api_key ─────────────────────────────────────────────
+    //   Store the new key in Vault, point user_preferences at it, then clean
+    //   up the old secret.
+    if (action === 'store_api_key') {
+      const apiKey = typeof body.api_key === 'string' ? body.api_key.trim() : ''
+      if (!apiKey) {
+        return json({ error: 'api_key is required', code: 'MISSING_API_KEY' }, 400)
+      }
+
+      const pool = new Pool(dbUrl, 1)
+      try {
+        let secretId: string
+        try {
+          const conn = await pool.connect()
+          try {
+            const result = await conn.queryObject<{ id: string }>`
+              SELECT vault.create_secret(
+                ${apiKey},
+                ${secretNamePrefix(user.id) + Date.now()},
+                ${'slskd API key for user ' + user.id}
+              ) as id
+            `
+            if (!result.rows[0]?.id) throw new Error('Failed to create slskd API key secret')
+            secretId = result.rows[0].id
+          } finally {
+            conn.release()
+          }
+        } catch (vaultError: unknown) {
+          const msg = vaultError instanceof Error ? vaultError.message : String(vaultError)
+          log('error', 'Vault storage failed', { userId: user.id, error: msg })
+          return json({ error: 'Failed to securely store slskd API key', code: 'VAULT_STORAGE_FAILED' }, 500)
+        }
+
+        const { error: dbError } = await supabaseClient
+          .from('user_preferences')
+          .upsert(
+            { user_id: user.id, slskd_api_key_secret_id: secretId, updated_at: new Date().toISOString() },
+            { onConflict: 'user_id' },
+          )
+
+        if (dbError) {
+          log('error', 'DB upsert failed', { userId: user.id, error: dbError.message })
+          await deleteSecret(pool, secretId, user.id)
+          return json({ error: `Database error: ${dbError.message}`, code: 'DATABASE_STORAGE_FAILED' }, 500)
+        }
+
+        if (existingSecretId) await deleteSecret(pool, existingSecretId, user.id)
+        log('info', 'slskd API key stored in Vault', { userId: user.id })
+        return json({ success: true })
+      } finally {
+        await pool.end()
+      }
+    }
+
+    // ── ACTION: delete_api_key ────────────────────────────────────────────
+    if (action === 'delete_api_key') {
+      if (!existingSecretId) return json({ success: true })
+
+      const { error: dbError } = await supabaseClient
+        .from('user_preferences')
+        .update({ slskd_api_key_secret_id: null, updated_at: new Date().toISOString() })
+        .eq('user_id', user.id)
+
+      if (dbError) {
+        log('error', 'DB update failed', { userId: user.id, error: dbError.message })
+        return json({ error: `Database error: ${dbError.message}`, code: 'DATABASE_STORAGE_FAILED' }, 500)
+      }
+
+      const pool = new Pool(dbUrl, 1)
+      await deleteSecret(pool, existingSecretId, user.id)
+      await pool.end()
+      log('info', 'slskd API key deleted', { userId: user.id })
+      return json({ success: true })
+    }
+
+    return json({ error: `Unknown action: ${action}`, code: 'UNKNOWN_ACTION' }, 400)
+
+  } catch (err: unknown) {
+    const msg = err instanceof Error ? err.message : String(err)
+    log('error', 'Unexpected error in slskd-config', { error: msg })
+    return json({ error: 'Server error', code: 'UNEXPECTED_ERROR' }, 500)
+  }
+})
@@ -1,5 +1,5 @@
 import type { SpotifyTrack } from './types.ts'
-import { processMetadata } from './normalization.ts'
+import { processMetadata, normalizeIsrc } from './normalization.ts'
 
 export function extractUniqueArtistIds(allTracks: SpotifyTrack[]): string[] {
   const artistIds = new Set<string>()
@@ -60,6 +60,8 @@ export function processSongsData(allTracks: SpotifyTrack[], userId: string, arti
       core_title,
       mix,
       album: item.track.album.name,
+      duration_ms: item.track.duration_ms ?? null,
+      isrc: normalizeIsrc(item.track.external_ids?.isrc),
       year: item.track.album.release_date ? new Date(item.track.album.release_date).getFullYear() : null,
       added_at: item.added_at,
       genre: primaryGenre,
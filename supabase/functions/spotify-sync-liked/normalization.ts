@@ -243,6 +243,18 @@ export function normalize(text: string | null): string {
   return normalized.trim();
 }
 
+// Two-letter country, three-character registrant, two-digit year, five-digit designation
+const ISRC_PATTERN = /^[A-Z]{2}[A-Z0-9]{3}\d{7}$/;
+
+/**
+ * Normalize an ISRC to uppercase without hyphens or spaces; null if malformed
+ */
+export function normalizeIsrc(isrc: string | null | undefined): string | null {
+  if (!isrc) return null;
+  const compact = isrc.toUpperCase().replace(/[\s-]/g, '');
+  return ISRC_PATTERN.test(compact) ? compact : null;
+}
+
 /**
  * Process complete track metadata
  */
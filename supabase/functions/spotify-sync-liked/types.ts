@@ -19,6 +19,8 @@ export interface SpotifyTrack {
   track: {
     id: string
     name: string
+    duration_ms: number
+    external_ids?: { isrc?: string }
     artists: Array<{ name: string; id: string }>
     album: {
       id: string
@@ -0,0 +1,7 @@
+-- Add duration_ms column to spotify_liked
+-- Captured from the Spotify track object during sync. Compared against
+-- local_mp3s.duration_seconds so a radio edit and an extended mix of the same
+-- title are not reported as the same track.
+
+ALTER TABLE public.spotify_liked
+  ADD COLUMN IF NOT EXISTS duration_ms INTEGER NULL;
@@ -0,0 +1,45 @@
+-- Create artist_aliases table for per-user artist matching aliases
+-- Each row tells the matcher that `alias` and `canonical_artist` name the same
+-- artist (e.g. "Beyonce Knowles" → "Beyoncé"). Both sides are normalized client-side.
+
+CREATE TABLE IF NOT EXISTS public.artist_aliases (
+  id                UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id           UUID        NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  alias             TEXT        NOT NULL,
+  canonical_artist  TEXT        NOT NULL,
+
+  created_at        TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  UNIQUE(user_id, alias)
+);
+
+-- Row Level Security
+ALTER TABLE public.artist_aliases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own artist aliases"
+  ON public.artist_aliases
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own artist aliases"
+  ON public.artist_aliases
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own artist aliases"
+  ON public.artist_aliases
+  FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own artist aliases"
+  ON public.artist_aliases
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Index for faster lookups
+CREATE INDEX IF NOT EXISTS idx_artist_aliases_user_id ON public.artist_aliases(user_id);
+
+COMMENT ON TABLE public.artist_aliases IS 'Per-user artist aliases consulted by track matching';
+COMMENT ON COLUMN public.artist_aliases.alias IS 'Artist name as it appears on one side (e.g. Spotify)';
+COMMENT ON COLUMN public.artist_aliases.canonical_artist IS 'Artist name the alias resolves to (e.g. as tagged locally)';
@@ -0,0 +1,14 @@
+-- track_matches now records every Missing Tracks analysis run plus the user's
+-- confirm/reject/link decisions. Each run clears and rewrites the unreviewed rows
+-- for its Spotify tracks, and loads all decisions up front.
+
+CREATE INDEX IF NOT EXISTS idx_track_matches_spotify_track_id
+  ON public.track_matches (spotify_track_id);
+
+CREATE INDEX IF NOT EXISTS idx_track_matches_decisions
+  ON public.track_matches (spotify_track_id, mp3_id)
+  WHERE is_confirmed IS NOT NULL;
+
+COMMENT ON COLUMN public.track_matches.is_confirmed IS 'NULL = engine match from the last run, TRUE = confirmed or manually linked by the user, FALSE = rejected by the user';
+COMMENT ON COLUMN public.track_matches.match_method IS 'exact | core_title | fuzzy (engine tiers) or manual (linked by the user)';
+COMMENT ON COLUMN public.track_matches.match_confidence IS 'Similarity percentage; 100 for exact, core title and manual matches';
@@ -0,0 +1,5 @@
+-- Missing Tracks analysis can now match a collaboration on a shared credited artist
+-- (e.g. Spotify 'Lizzo' against a local 'Purple Disco Machine, Lizzo'). Those matches
+-- are recorded with their own method so they can be reviewed.
+
+COMMENT ON COLUMN public.track_matches.match_method IS 'exact | core_title | fuzzy | artist_overlap (engine tiers) or manual (linked by the user)';
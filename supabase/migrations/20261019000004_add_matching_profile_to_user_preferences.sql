@@ -0,0 +1,9 @@
+-- Per-user matching profile for the Missing Tracks analysis.
+-- strict keeps mixes apart and only matches the lead artist, balanced is the
+-- default engine behaviour, lenient accepts looser fuzzy title matches.
+
+ALTER TABLE public.user_preferences
+  ADD COLUMN IF NOT EXISTS matching_profile TEXT NOT NULL DEFAULT 'balanced'
+  CHECK (matching_profile IN ('strict', 'balanced', 'lenient'));
+
+COMMENT ON COLUMN public.user_preferences.matching_profile IS 'Track matching profile: strict | balanced | lenient';
@@ -0,0 +1,18 @@
+-- ISRC codes for ISRC-based matching in the Missing Tracks analysis.
+-- spotify_liked.isrc comes from Spotify's external_ids, local_mp3s.isrc from the
+-- file's TSRC (ID3) or ISRC (Vorbis/MP4) tag. Stored uppercase without hyphens.
+
+ALTER TABLE public.local_mp3s ADD COLUMN IF NOT EXISTS isrc TEXT;
+ALTER TABLE public.spotify_liked ADD COLUMN IF NOT EXISTS isrc TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_local_mp3s_user_isrc
+  ON public.local_mp3s (user_id, isrc)
+  WHERE isrc IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_spotify_liked_user_isrc
+  ON public.spotify_liked (user_id, isrc)
+  WHERE isrc IS NOT NULL;
+
+COMMENT ON COLUMN public.local_mp3s.isrc IS 'International Standard Recording Code from the file tags, normalized';
+COMMENT ON COLUMN public.spotify_liked.isrc IS 'International Standard Recording Code from Spotify external_ids, normalized';
+COMMENT ON COLUMN public.track_matches.match_method IS 'isrc | exact | core_title | fuzzy | artist_overlap (engine tiers) or manual (linked by the user)';
@@ -0,0 +1,53 @@
+-- Create track_acquisitions table: one row per Spotify track the user is trying
+-- to get, recording each step from missing to wishlisted in slskd, downloaded,
+-- tagged and finally matched to a local file by a scan. A NULL timestamp means
+-- the step hasn't happened yet.
+
+CREATE TABLE IF NOT EXISTS public.track_acquisitions (
+  id                    UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id               UUID        NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  spotify_track_id      UUID        NOT NULL REFERENCES public.spotify_liked(id) ON DELETE CASCADE,
+
+  wishlisted_at         TIMESTAMPTZ,
+  slskd_search_id       TEXT,
+  downloaded_at         TIMESTAMPTZ,
+  downloaded_file_path  TEXT,
+  tagged_at             TIMESTAMPTZ,
+  matched_at            TIMESTAMPTZ,
+
+  created_at            TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at            TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  UNIQUE(user_id, spotify_track_id)
+);
+
+-- Row Level Security
+ALTER TABLE public.track_acquisitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own track acquisitions"
+  ON public.track_acquisitions
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own track acquisitions"
+  ON public.track_acquisitions
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own track acquisitions"
+  ON public.track_acquisitions
+  FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own track acquisitions"
+  ON public.track_acquisitions
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Index for faster lookups
+CREATE INDEX IF NOT EXISTS idx_track_acquisitions_user_id ON public.track_acquisitions(user_id);
+
+COMMENT ON TABLE public.track_acquisitions IS 'Per-track progress from missing to wishlisted, downloaded, tagged and matched';
+COMMENT ON COLUMN public.track_acquisitions.slskd_search_id IS 'slskd search created when the track was pushed to the wishlist';
+COMMENT ON COLUMN public.track_acquisitions.downloaded_file_path IS 'File path on the Soulseek peer, as reported by slskd';
+COMMENT ON COLUMN public.track_acquisitions.matched_at IS 'When a scan first matched the track to a local file';
@@ -0,0 +1,11 @@
+-- Record which slskd search query strategy is running for a track and which one
+-- found results. Searches that come back empty are re-queued with the next
+-- strategy in the chain: artist-title → core-title → title-only → transliterated
+-- → album.
+
+ALTER TABLE public.track_acquisitions
+  ADD COLUMN IF NOT EXISTS search_strategy TEXT,
+  ADD COLUMN IF NOT EXISTS found_by_strategy TEXT;
+
+COMMENT ON COLUMN public.track_acquisitions.search_strategy IS 'Query strategy of the current slskd search (slskd_search_id)';
+COMMENT ON COLUMN public.track_acquisitions.found_by_strategy IS 'Query strategy whose search returned results; NULL while none has';
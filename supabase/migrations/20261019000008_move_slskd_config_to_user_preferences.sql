@@ -0,0 +1,42 @@
+-- Make user_preferences the source of truth for the slskd configuration, so it
+-- follows the user across machines and browsers. The API key moves to Vault
+-- (mirrors spotify_connections / discogs_connections): only its Vault secret ID
+-- is stored here, and it is read and written through the slskd-config Edge Function.
+
+ALTER TABLE public.user_preferences
+  ADD COLUMN IF NOT EXISTS slskd_api_key_secret_id UUID NULL,  -- references vault.secrets
+  ADD COLUMN IF NOT EXISTS slskd_downloads_folder  TEXT,
+  ADD COLUMN IF NOT EXISTS slskd_search_format     TEXT NOT NULL DEFAULT 'primary'
+    CHECK (slskd_search_format IN ('primary', 'full')),
+  ADD COLUMN IF NOT EXISTS slskd_quality_policy    JSONB;
+
+-- Move any plaintext API keys into Vault
+DO $$
+DECLARE
+  v_row RECORD;
+  v_secret_id UUID;
+BEGIN
+  FOR v_row IN
+    SELECT id, user_id, slskd_api_key
+    FROM public.user_preferences
+    WHERE slskd_api_key IS NOT NULL AND slskd_api_key <> ''
+  LOOP
+    SELECT vault.create_secret(
+      v_row.slskd_api_key,
+      'slskd_api_key_' || v_row.user_id || '_' || extract(epoch FROM now())::bigint,
+      'slskd API key for user ' || v_row.user_id
+    ) INTO v_secret_id;
+
+    UPDATE public.user_preferences
+    SET slskd_api_key_secret_id = v_secret_id
+    WHERE id = v_row.id;
+  END LOOP;
+END;
+$$;
+
+ALTER TABLE public.user_preferences DROP COLUMN IF EXISTS slskd_api_key;
+
+COMMENT ON COLUMN public.user_preferences.slskd_api_key_secret_id IS 'Vault secret ID of the slskd API key — never the plaintext key';
+COMMENT ON COLUMN public.user_preferences.slskd_downloads_folder IS 'Local folder slskd downloads into, used when processing downloads';
+COMMENT ON COLUMN public.user_preferences.slskd_search_format IS 'Artist format for slskd searches: primary | full';
+COMMENT ON COLUMN public.user_preferences.slskd_quality_policy IS 'slskd download quality policy (bitrate, formats, size range, banned keywords); null uses the defaults';
@@ -0,0 +1,7 @@
+-- Pacing for bulk slskd wishlist pushes: how many searches are created at once
+-- and the minimum gap between requests to the user's slskd instance.
+
+ALTER TABLE public.user_preferences
+  ADD COLUMN IF NOT EXISTS slskd_push_policy JSONB;
+
+COMMENT ON COLUMN public.user_preferences.slskd_push_policy IS 'slskd wishlist push pacing (concurrency, spacing between requests); null uses the defaults';
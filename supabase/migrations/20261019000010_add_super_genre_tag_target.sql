@@ -0,0 +1,7 @@
+-- Where processed downloads get their SuperGenre written: Grouping, the genre,
+-- the comment, a TXXX frame or a MediaMonkey custom field.
+
+ALTER TABLE public.user_preferences
+  ADD COLUMN IF NOT EXISTS super_genre_tag_target JSONB;
+
+COMMENT ON COLUMN public.user_preferences.super_genre_tag_target IS 'Tag the SuperGenre is written to and read back from; null uses Grouping';
@@ -2,6 +2,7 @@ import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
+import { fakeSlskdPlugin } from "./src/test/fakeSlskd/vitePlugin";
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
@@ -32,6 +33,8 @@ export default defineConfig(({ mode }) => ({
     react(),
     mode === 'development' &&
     componentTagger(),
+    // Fake slskd API at /__fake-slskd, dev server only
+    fakeSlskdPlugin(),
   ].filter(Boolean),
   resolve: {
     alias: {